@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { attachmentService } from "@/app/server/attachmentService";
+import { AttachmentSize } from "@/app/utils/attachments";
+
+const SIZES: AttachmentSize[] = ["thumbnail", "medium", "full"];
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const size = (request.nextUrl.searchParams.get("size") || "full") as AttachmentSize;
+    if (!SIZES.includes(size)) {
+      return NextResponse.json(
+        { error: `size must be one of ${SIZES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const image = await attachmentService.readImage(id, size);
+    if (!image) {
+      return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+    }
+
+    // The id is a hash of the content, so a given URL never changes
+    return new NextResponse(new Uint8Array(image.data), {
+      headers: {
+        "Content-Type": image.mimeType,
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("Error reading attachment:", error);
+    return NextResponse.json(
+      { error: "Failed to load attachment" },
+      { status: 500 }
+    );
+  }
+}
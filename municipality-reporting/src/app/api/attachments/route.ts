@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AttachmentValidationError,
+  attachmentService,
+} from "@/app/server/attachmentService";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { data, fileName } = await request.json();
+    if (typeof data !== "string") {
+      return NextResponse.json(
+        { error: "data (an image data URL) is required" },
+        { status: 400 }
+      );
+    }
+
+    const attachment = await attachmentService.storeImage(data, fileName);
+    return NextResponse.json({ attachment }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AttachmentValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error uploading attachment:", error);
+    return NextResponse.json(
+      { error: "Failed to upload attachment" },
+      { status: 500 }
+    );
+  }
+}
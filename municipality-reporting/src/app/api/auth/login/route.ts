@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authenticate, startSession } from "@/app/server/auth";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password, rememberMe } = await request.json();
+
+    if (!email || !password) {
+      return NextResponse.json(
+        { error: "Email and password are required" },
+        { status: 400 }
+      );
+    }
+
+    const user = await authenticate(email, password);
+    if (!user) {
+      return NextResponse.json(
+        { error: "Invalid email or password" },
+        { status: 401 }
+      );
+    }
+
+    if (user.status === "pending") {
+      return NextResponse.json(
+        { error: "Your account is awaiting administrator approval" },
+        { status: 403 }
+      );
+    }
+    if (user.status === "rejected") {
+      return NextResponse.json(
+        { error: "Your account request was declined" },
+        { status: 403 }
+      );
+    }
+
+    const response = NextResponse.json({ user });
+    await startSession(response, user.id, !!rememberMe);
+    return response;
+  } catch (error) {
+    console.error("Login error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,8 @@
+import { NextRequest, NextResponse } from "next/server";
+import { endSession } from "@/app/server/auth";
+
+export async function POST(request: NextRequest) {
+  const response = NextResponse.json({ success: true });
+  await endSession(request, response);
+  return response;
+}
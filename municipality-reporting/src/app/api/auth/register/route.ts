@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { startSession } from "@/app/server/auth";
+import { DuplicateEmailError, userService } from "@/app/server/userService";
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = await request.json();
+
+    const isText = (value: unknown): value is string =>
+      typeof value === "string" && value.trim() !== "";
+    if (
+      !isText(input.email) ||
+      !isText(input.password) ||
+      !isText(input.firstName) ||
+      !isText(input.lastName)
+    ) {
+      return NextResponse.json(
+        { error: "Name, email and password are required" },
+        { status: 400 }
+      );
+    }
+
+    if (input.department !== undefined && typeof input.department !== "string") {
+      return NextResponse.json(
+        { error: "department must be a string" },
+        { status: 400 }
+      );
+    }
+
+    if (input.password.length < 6) {
+      return NextResponse.json(
+        { error: "Password must be at least 6 characters" },
+        { status: 400 }
+      );
+    }
+
+    const user = await userService.createUser(input);
+
+    // Staff and employee accounts can only sign in once approved
+    if (user.status === "pending") {
+      return NextResponse.json({ user, pendingApproval: true }, { status: 201 });
+    }
+
+    // Sign the new account straight in
+    const response = NextResponse.json({ user }, { status: 201 });
+    await startSession(response, user.id);
+    return response;
+  } catch (error) {
+    if (error instanceof DuplicateEmailError) {
+      return NextResponse.json(
+        { error: "This email is already registered" },
+        { status: 409 }
+      );
+    }
+    console.error("Registration error:", error);
+    return NextResponse.json(
+      { error: "Failed to create account" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser(request);
+
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  return NextResponse.json({ user });
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AIConfigError,
+  AIRequestError,
+  getTextProvider,
+} from "@/app/server/ai";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { title, description } = await request.json();
+
+    if (typeof title !== "string" || typeof description !== "string") {
+      return NextResponse.json(
+        { error: "Title and description are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await getTextProvider().categorizeIssue(title, description);
+    return NextResponse.json({ result });
+  } catch (error) {
+    if (error instanceof AIConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    if (error instanceof AIRequestError) {
+      return NextResponse.json(
+        { error: "Failed to categorize issue" },
+        { status: 502 }
+      );
+    }
+    console.error("Error categorizing issue:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
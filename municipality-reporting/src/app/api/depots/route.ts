@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { getDepots } from "@/app/server/depots";
+
+export async function GET() {
+  try {
+    return NextResponse.json({ depots: getDepots() });
+  } catch (error) {
+    console.error("Error loading depots:", error);
+    return NextResponse.json({ error: "Failed to load depots" }, { status: 500 });
+  }
+}
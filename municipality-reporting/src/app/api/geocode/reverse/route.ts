@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  GeocodingConfigError,
+  GeocodingRequestError,
+  getGeocoder,
+} from "@/app/server/geocoding";
+
+// Public: guests can report issues and pick their location too
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const latitude = Number(params.get("lat"));
+    const longitude = Number(params.get("lng"));
+
+    if (
+      !params.get("lat") ||
+      !params.get("lng") ||
+      !Number.isFinite(latitude) ||
+      !Number.isFinite(longitude) ||
+      Math.abs(latitude) > 90 ||
+      Math.abs(longitude) > 180
+    ) {
+      return NextResponse.json(
+        { error: "lat and lng must be valid coordinates" },
+        { status: 400 }
+      );
+    }
+
+    const result = await getGeocoder().reverse(latitude, longitude);
+    return NextResponse.json({ result });
+  } catch (error) {
+    if (error instanceof GeocodingConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    if (error instanceof GeocodingRequestError) {
+      return NextResponse.json(
+        { error: "Address lookup is unavailable" },
+        { status: 502 }
+      );
+    }
+    console.error("Error looking up address:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
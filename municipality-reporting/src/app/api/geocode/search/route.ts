@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  GeocodingConfigError,
+  GeocodingRequestError,
+  getGeocoder,
+} from "@/app/server/geocoding";
+
+const MAX_QUERY_LENGTH = 200;
+
+// Public: guests can report issues and pick their location too
+export async function GET(request: NextRequest) {
+  try {
+    const query = request.nextUrl.searchParams.get("q")?.trim() || "";
+
+    if (query.length < 3 || query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `q must be between 3 and ${MAX_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const results = await getGeocoder().search(query);
+    return NextResponse.json({ results });
+  } catch (error) {
+    if (error instanceof GeocodingConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    if (error instanceof GeocodingRequestError) {
+      return NextResponse.json(
+        { error: "Address search is unavailable" },
+        { status: 502 }
+      );
+    }
+    console.error("Error searching addresses:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+import {
+  IssueTransitionError,
+  SYSTEM_ACTOR,
+  actorFromUser,
+  issueForViewer,
+  issueService,
+} from "@/app/server/issueService";
+import { userService } from "@/app/server/userService";
+import { employeeName } from "@/app/utils/autoAssign";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { department, employeeId } = await request.json();
+    const user = await getSessionUser(request);
+
+    if (!department || !employeeId) {
+      return NextResponse.json(
+        { error: "department and employeeId are required" },
+        { status: 400 }
+      );
+    }
+
+    // Only active employees of the chosen department can take the issue
+    const employee = await userService.getUser(employeeId);
+    if (
+      !employee ||
+      employee.role !== "employee" ||
+      employee.status !== "active" ||
+      employee.department !== department
+    ) {
+      return NextResponse.json(
+        { error: `employeeId must be an active employee of the ${department} department` },
+        { status: 400 }
+      );
+    }
+
+    const issue = await issueService.assignIssue(
+      id,
+      department,
+      employee.id,
+      employeeName(employee),
+      user ? actorFromUser(user) : SYSTEM_ACTOR
+    );
+    if (!issue) {
+      return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ issue: issueForViewer(issue, user) });
+  } catch (error) {
+    if (error instanceof IssueTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error assigning issue:", error);
+    return NextResponse.json(
+      { error: "Failed to assign issue" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AttachmentValidationError,
+  attachmentService,
+  isAttachmentRole,
+} from "@/app/server/attachmentService";
+import { getSessionUser } from "@/app/server/auth";
+import { actorFromUser, issueForViewer, issueService } from "@/app/server/issueService";
+import {
+  AttachmentReference,
+  attachmentRoleLabels,
+  attachmentRoleParties,
+} from "@/app/utils/attachments";
+import { getIssueParties } from "@/app/utils/issueWorkflow";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { attachments } = await request.json();
+
+    if (!Array.isArray(attachments) || attachments.length === 0) {
+      return NextResponse.json(
+        { error: "attachments must be a non-empty list" },
+        { status: 400 }
+      );
+    }
+
+    const user = await getSessionUser(request);
+    const existing = await issueService.getIssue(id);
+    if (!user || !existing) {
+      return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+    }
+
+    // Residents add report photos, assignees progress and completion photos
+    const actor = actorFromUser(user);
+    const parties = getIssueParties(actor, existing);
+    const references = attachments as AttachmentReference[];
+    for (const reference of references) {
+      if (!isAttachmentRole(reference.role)) {
+        return NextResponse.json(
+          { error: "Each attachment needs a role: report, progress or completion" },
+          { status: 400 }
+        );
+      }
+      if (!attachmentRoleParties[reference.role].some((p) => parties.includes(p))) {
+        return NextResponse.json(
+          { error: `You cannot add ${attachmentRoleLabels[reference.role]} photos to this issue` },
+          { status: 403 }
+        );
+      }
+    }
+
+    const resolved = await attachmentService.resolve(references, actor, "report");
+    if (resolved.length !== references.length) {
+      return NextResponse.json(
+        { error: "Upload each file to /api/attachments first" },
+        { status: 400 }
+      );
+    }
+
+    const issue = await issueService.addAttachments(id, resolved, actor);
+    if (!issue) {
+      return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ issue: issueForViewer(issue, user) });
+  } catch (error) {
+    if (error instanceof AttachmentValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error adding attachments:", error);
+    return NextResponse.json(
+      { error: "Failed to add attachments" },
+      { status: 500 }
+    );
+  }
+}
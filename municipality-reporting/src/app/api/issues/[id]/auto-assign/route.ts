@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+import { AutoAssignError, autoAssignService } from "@/app/server/autoAssignService";
+import {
+  IssueTransitionError,
+  SYSTEM_ACTOR,
+  actorFromUser,
+  issueForViewer,
+} from "@/app/server/issueService";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getSessionUser(request);
+
+    const result = await autoAssignService.autoAssign(
+      id,
+      user ? actorFromUser(user) : SYSTEM_ACTOR
+    );
+    if (!result) {
+      return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...result,
+      issue: issueForViewer(result.issue, user),
+    });
+  } catch (error) {
+    if (error instanceof AutoAssignError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof IssueTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error auto-assigning issue:", error);
+    return NextResponse.json(
+      { error: "Failed to auto-assign issue" },
+      { status: 500 }
+    );
+  }
+}
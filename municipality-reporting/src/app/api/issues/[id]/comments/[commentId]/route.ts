@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+import {
+  CommentValidationError,
+  commentService,
+} from "@/app/server/commentService";
+import { hasPermission } from "@/app/utils/permissions";
+
+interface RouteContext {
+  params: Promise<{ id: string; commentId: string }>;
+}
+
+// Loads the comment for the signed-in user, or the error response to return
+async function findComment(request: NextRequest, { params }: RouteContext) {
+  const { id, commentId } = await params;
+  const user = await getSessionUser(request);
+  const comment = await commentService.getComment(commentId);
+  if (!user || !comment || comment.issueId !== id) {
+    return {
+      error: NextResponse.json({ error: "Comment not found" }, { status: 404 }),
+    };
+  }
+  return { user, comment };
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { user, comment, error } = await findComment(request, context);
+    if (error) return error;
+
+    if (comment.authorId !== user.id) {
+      return NextResponse.json(
+        { error: "You can only edit your own comments" },
+        { status: 403 }
+      );
+    }
+
+    const { body } = await request.json();
+    const updated = await commentService.editComment(comment, body);
+    if (!updated) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ comment: updated });
+  } catch (error) {
+    if (error instanceof CommentValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error editing comment:", error);
+    return NextResponse.json(
+      { error: "Failed to edit comment" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { user, comment, error } = await findComment(request, context);
+    if (error) return error;
+
+    if (
+      comment.authorId !== user.id &&
+      !hasPermission(user, "comments:moderate")
+    ) {
+      return NextResponse.json(
+        { error: "You can only delete your own comments" },
+        { status: 403 }
+      );
+    }
+
+    await commentService.deleteComment(comment.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting comment:", error);
+    return NextResponse.json(
+      { error: "Failed to delete comment" },
+      { status: 500 }
+    );
+  }
+}
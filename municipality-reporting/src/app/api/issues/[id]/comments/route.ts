@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+import {
+  CommentValidationError,
+  commentService,
+  isIssueParticipant,
+} from "@/app/server/commentService";
+import { issueService } from "@/app/server/issueService";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const issue = await issueService.getIssue(id);
+    if (!issue) {
+      return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+    }
+
+    const user = await getSessionUser(request);
+    const comments = await commentService.listComments(issue, user);
+    return NextResponse.json({ comments });
+  } catch (error) {
+    console.error("Error fetching comments:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch comments" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const user = await getSessionUser(request);
+    const issue = await issueService.getIssue(id);
+    if (!user || !issue) {
+      return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+    }
+    if (!isIssueParticipant(user, issue)) {
+      return NextResponse.json(
+        { error: "Only the reporters and assigned staff can comment on this issue" },
+        { status: 403 }
+      );
+    }
+
+    const { body, attachments, visibility } = await request.json();
+    const comment = await commentService.addComment(issue, user, {
+      body,
+      attachments,
+      visibility,
+    });
+
+    return NextResponse.json({ comment }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CommentValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error adding comment:", error);
+    return NextResponse.json(
+      { error: "Failed to add comment" },
+      { status: 500 }
+    );
+  }
+}
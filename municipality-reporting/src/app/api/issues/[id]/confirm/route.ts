@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+import {
+  IssueTransitionError,
+  actorFromUser,
+  issueForViewer,
+  issueService,
+} from "@/app/server/issueService";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const user = await getSessionUser(request);
+    const existing = await issueService.getIssue(id);
+    if (!user || !existing) {
+      return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+    }
+    if (existing.userId !== user.id) {
+      return NextResponse.json(
+        { error: "Only the reporter can confirm a resolution" },
+        { status: 403 }
+      );
+    }
+
+    const issue = await issueService.confirmResolution(
+      id,
+      actorFromUser(user)
+    );
+    if (!issue) {
+      return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ issue: issueForViewer(issue, user) });
+  } catch (error) {
+    if (error instanceof IssueTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error confirming resolution:", error);
+    return NextResponse.json(
+      { error: "Failed to confirm resolution" },
+      { status: 500 }
+    );
+  }
+}
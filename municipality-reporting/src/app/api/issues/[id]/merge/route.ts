@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+import {
+  IssueMergeError,
+  IssueTransitionError,
+  SYSTEM_ACTOR,
+  actorFromUser,
+  issueForViewer,
+  issueService,
+} from "@/app/server/issueService";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { childIds, note } = await request.json();
+    const user = await getSessionUser(request);
+
+    if (!Array.isArray(childIds) || childIds.some((c) => typeof c !== "string")) {
+      return NextResponse.json(
+        { error: "childIds must be a list of issue IDs" },
+        { status: 400 }
+      );
+    }
+
+    const issue = await issueService.mergeIssues(
+      id,
+      childIds,
+      user ? actorFromUser(user) : SYSTEM_ACTOR,
+      typeof note === "string" && note.trim() ? note.trim() : undefined
+    );
+    if (!issue) {
+      return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ issue: issueForViewer(issue, user) });
+  } catch (error) {
+    if (error instanceof IssueMergeError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof IssueTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error merging issues:", error);
+    return NextResponse.json(
+      { error: "Failed to merge issues" },
+      { status: 500 }
+    );
+  }
+}
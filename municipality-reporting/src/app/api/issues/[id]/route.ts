@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+import {
+  IssueEdit,
+  IssueTransitionError,
+  actorFromUser,
+  issueForViewer,
+  issueService,
+} from "@/app/server/issueService";
+import { hasPermission } from "@/app/utils/permissions";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const issue = await issueService.getIssue(id);
+
+  if (!issue) {
+    return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    issue: issueForViewer(issue, await getSessionUser(request)),
+  });
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const { updates, note } = await request.json();
+
+    if (!updates || typeof updates !== "object") {
+      return NextResponse.json(
+        { error: "updates object is required" },
+        { status: 400 }
+      );
+    }
+
+    const user = await getSessionUser(request);
+    const existing = await issueService.getIssue(id);
+    if (!user || !existing) {
+      return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+    }
+
+    // Staff edit the fields issueService allows; employees only the status
+    // and notes of their own assignments
+    let allowedUpdates: IssueEdit = updates;
+    if (!hasPermission(user, "issues:manage")) {
+      if (existing.assignedToEmployee !== user.id) {
+        return NextResponse.json(
+          { error: "This issue is not assigned to you" },
+          { status: 403 }
+        );
+      }
+      allowedUpdates = { status: updates.status, staffNotes: updates.staffNotes };
+    }
+
+    const issue = await issueService.updateIssue(
+      id,
+      allowedUpdates,
+      actorFromUser(user),
+      note
+    );
+    if (!issue) {
+      return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ issue: issueForViewer(issue, user) });
+  } catch (error) {
+    if (error instanceof IssueTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Error updating issue:", error);
+    return NextResponse.json(
+      { error: "Failed to update issue" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const deleted = await issueService.deleteIssue(id);
+
+  if (!deleted) {
+    return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}
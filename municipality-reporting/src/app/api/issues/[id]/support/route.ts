@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { attachmentService } from "@/app/server/attachmentService";
+import { getSessionUser } from "@/app/server/auth";
+import {
+  IssueSupportError,
+  actorFromUser,
+  issueForViewer,
+  issueService,
+} from "@/app/server/issueService";
+import { AttachmentReference } from "@/app/utils/attachments";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { attachments } = await request.json();
+
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: "Sign in to support a report" },
+        { status: 401 }
+      );
+    }
+
+    // The supporter's own photo is kept as another report photo
+    const resident = actorFromUser(user);
+    const references: AttachmentReference[] = Array.isArray(attachments)
+      ? attachments
+      : [];
+    const photos = await attachmentService.resolve(
+      references.map((reference) => ({ ...reference, role: "report" })),
+      resident,
+      "report"
+    );
+
+    const issue = await issueService.addCoReporter(id, resident, photos);
+    if (!issue) {
+      return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ issue: issueForViewer(issue, user) });
+  } catch (error) {
+    if (error instanceof IssueSupportError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error supporting issue:", error);
+    return NextResponse.json(
+      { error: "Failed to support issue" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { issueService } from "@/app/server/issueService";
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const issue = await issueService.incrementViewCount(id);
+
+  if (!issue) {
+    return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ viewCount: issue.viewCount });
+}
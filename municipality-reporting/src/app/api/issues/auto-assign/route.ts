@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+import { autoAssignService } from "@/app/server/autoAssignService";
+import { SYSTEM_ACTOR, actorFromUser } from "@/app/server/issueService";
+
+// Auto-assigns every open issue nobody has been assigned yet
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    const results = await autoAssignService.autoAssignPending(
+      user ? actorFromUser(user) : SYSTEM_ACTOR
+    );
+    return NextResponse.json({ results });
+  } catch (error) {
+    console.error("Error auto-assigning pending issues:", error);
+    return NextResponse.json(
+      { error: "Failed to auto-assign pending issues" },
+      { status: 500 }
+    );
+  }
+}
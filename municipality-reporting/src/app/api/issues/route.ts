@@ -0,0 +1,102 @@
+import { randomUUID } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AttachmentValidationError,
+  attachmentService,
+} from "@/app/server/attachmentService";
+import { getSessionUser } from "@/app/server/auth";
+import { IssueLocationError, issueForViewer, issueService } from "@/app/server/issueService";
+import { IssueFilter } from "@/app/server/repositories";
+import { AttachmentReference } from "@/app/utils/attachments";
+import { Issue } from "@/app/utils/localStorage";
+import { hasPermission } from "@/app/utils/permissions";
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const user = await getSessionUser(request);
+    const filter: IssueFilter = {
+      userId: params.get("userId") || undefined,
+      assignedToEmployee: params.get("employeeId") || undefined,
+      department: params.get("department") || undefined,
+      status: (params.get("status") as Issue["status"]) || undefined,
+    };
+
+    // Residents only see their own reports, employees only their assignments
+    if (user && !hasPermission(user, "issues:list-all")) {
+      if (hasPermission(user, "issues:list-assigned")) {
+        filter.assignedToEmployee = user.id;
+      } else {
+        filter.userId = user.id;
+      }
+    }
+
+    const issues = await issueService.listIssues(filter);
+
+    return NextResponse.json({
+      issues: issues.map((issue) => issueForViewer(issue, user)),
+    });
+  } catch (error) {
+    console.error("Error listing issues:", error);
+    return NextResponse.json(
+      { error: "Failed to load issues" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const input = await request.json();
+
+    // Reporters are recorded as themselves; guests get a fresh guest id so
+    // they cannot report in someone else's name
+    const user = await getSessionUser(request);
+    if (user) {
+      input.userId = user.id;
+      input.userName = `${user.firstName} ${user.lastName}`;
+    } else {
+      input.userId = `guest-${randomUUID()}`;
+      input.userName = "Anonymous Resident";
+    }
+
+    if (!input.title || !input.category) {
+      return NextResponse.json(
+        { error: "title and category are required" },
+        { status: 400 }
+      );
+    }
+
+    // Photos are stored as attachments; only uploaded ones can be referenced
+    const reporter = { id: input.userId, name: input.userName || "Anonymous Resident" };
+    const references: AttachmentReference[] = Array.isArray(input.attachments)
+      ? input.attachments
+      : [];
+    input.attachments = await attachmentService.resolve(
+      references.map((reference) => ({ ...reference, role: "report" })),
+      reporter,
+      "report"
+    );
+    if (input.photoData) {
+      input.attachments.unshift(
+        await attachmentService.storeReportPhoto(input.photoData, reporter, input)
+      );
+      delete input.photoData;
+    }
+
+    const issue = await issueService.createIssue(input);
+    return NextResponse.json({ issue: issueForViewer(issue, user) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AttachmentValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof IssueLocationError) {
+      return NextResponse.json({ error: error.message }, { status: 422 });
+    }
+    console.error("Error creating issue:", error);
+    return NextResponse.json(
+      { error: "Failed to create issue" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { attachmentService } from "@/app/server/attachmentService";
+import { getSessionUser } from "@/app/server/auth";
+import { issueService } from "@/app/server/issueService";
+import { SimilarityCandidate } from "@/app/utils/smartSearch";
+
+// Checked before a new report is submitted, so guests can use it too
+export async function POST(request: NextRequest) {
+  try {
+    const input = await request.json();
+
+    const coordinate = (value: unknown, limit: number) =>
+      typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= limit
+        ? value
+        : undefined;
+    const latitude = coordinate(input.latitude, 90);
+    const longitude = coordinate(input.longitude, 180);
+
+    // Only reports near a real location are compared, so the check cannot
+    // be used to list every open issue
+    if (!input.category || latitude === undefined || longitude === undefined) {
+      return NextResponse.json(
+        { error: "category, latitude and longitude are required" },
+        { status: 400 }
+      );
+    }
+
+    const keywords: unknown[] = Array.isArray(input.aiAnalysis?.keywords)
+      ? input.aiAnalysis.keywords
+      : [];
+    // Photo hashes come from the stored uploads, never from the request
+    const attachmentIds: unknown[] = Array.isArray(input.attachments)
+      ? input.attachments.map((a: { id?: unknown }) => a?.id)
+      : [];
+    const attachments = await Promise.all(
+      attachmentIds
+        .filter((id): id is string => typeof id === "string")
+        .slice(0, 5)
+        .map((id) => attachmentService.getAttachment(id))
+    );
+    const candidate: SimilarityCandidate & { latitude: number; longitude: number } = {
+      category: String(input.category),
+      latitude,
+      longitude,
+      aiAnalysis: {
+        issueType: String(input.aiAnalysis?.issueType || ""),
+        keywords: keywords.filter((k): k is string => typeof k === "string"),
+      },
+      attachments: attachments.filter((a) => a !== null),
+    };
+
+    const user = await getSessionUser(request);
+    const issues = await issueService.findOpenDuplicates(candidate, user?.id);
+
+    return NextResponse.json({ issues });
+  } catch (error) {
+    console.error("Error finding similar issues:", error);
+    return NextResponse.json(
+      { error: "Failed to check for similar reports" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { MapConfigError, readBasemap } from "@/app/server/mapConfig";
+
+export async function GET() {
+  try {
+    return NextResponse.json(readBasemap(), {
+      headers: { "Cache-Control": "public, max-age=3600" },
+    });
+  } catch (error) {
+    if (error instanceof MapConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Error reading the offline basemap:", error);
+    return NextResponse.json(
+      { error: "Failed to load the basemap" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getMapTileSource } from "@/app/server/mapConfig";
+
+// Public: the map is also used on pages guests can open
+export async function GET() {
+  try {
+    return NextResponse.json({ tileSource: getMapTileSource() });
+  } catch (error) {
+    console.error("Error reading map configuration:", error);
+    return NextResponse.json(
+      { error: "Failed to load map configuration" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+import { notificationService } from "@/app/server/notificationService";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const user = await getSessionUser(request);
+  const deleted =
+    !!user && (await notificationService.deleteNotification(user.id, id));
+
+  if (!deleted) {
+    return NextResponse.json(
+      { error: "Notification not found" },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ success: true });
+}
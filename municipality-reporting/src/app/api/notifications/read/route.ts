@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+import { notificationService } from "@/app/server/notificationService";
+
+// Body: { ids?: string[] } - omit ids to mark everything as read
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const { ids } = await request.json().catch(() => ({}));
+    if (ids !== undefined && !Array.isArray(ids)) {
+      return NextResponse.json(
+        { error: "ids must be a list" },
+        { status: 400 }
+      );
+    }
+
+    const updated = await notificationService.markRead(user.id, ids);
+    return NextResponse.json({ updated });
+  } catch (error) {
+    console.error("Error marking notifications as read:", error);
+    return NextResponse.json(
+      { error: "Failed to update notifications" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+import { notificationService } from "@/app/server/notificationService";
+
+// Notifications for the signed-in user, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const notifications = await notificationService.listForUser(user.id);
+    return NextResponse.json({
+      notifications,
+      unreadCount: notifications.filter((n) => !n.isRead).length,
+    });
+  } catch (error) {
+    console.error("Error fetching notifications:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notifications" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+import { userService } from "@/app/server/userService";
+import { EMPLOYEE_AVAILABILITIES } from "@/app/utils/autoAssign";
+import { hasPermission } from "@/app/utils/permissions";
+
+// Employees set their own availability; staff can set anyone's
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { availability } = await request.json();
+    const user = await getSessionUser(request);
+    if (!user) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    if (user.id !== id && !hasPermission(user, "issues:manage")) {
+      return NextResponse.json(
+        { error: "You can only change your own availability" },
+        { status: 403 }
+      );
+    }
+    if (!EMPLOYEE_AVAILABILITIES.includes(availability)) {
+      return NextResponse.json(
+        { error: `availability must be one of ${EMPLOYEE_AVAILABILITIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const updated = await userService.setAvailability(id, availability);
+    if (!updated) {
+      return NextResponse.json({ error: "No employee with that ID" }, { status: 404 });
+    }
+
+    return NextResponse.json({ user: updated });
+  } catch (error) {
+    console.error("Error updating availability:", error);
+    return NextResponse.json(
+      { error: "Failed to update availability" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+import { userService } from "@/app/server/userService";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const admin = await getSessionUser(request);
+    if (!admin) {
+      return NextResponse.json({ error: "Sign in required" }, { status: 401 });
+    }
+
+    const user = await userService.reviewUser(
+      id,
+      "rejected",
+      `${admin.firstName} ${admin.lastName}`
+    );
+    if (!user) {
+      return NextResponse.json(
+        { error: "No pending account with that ID" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error("Error reviewing account:", error);
+    return NextResponse.json(
+      { error: "Failed to decline account" },
+      { status: 500 }
+    );
+  }
+}
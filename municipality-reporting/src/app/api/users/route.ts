@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { userService } from "@/app/server/userService";
+import { User } from "@/app/utils/localStorage";
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const users = await userService.listUsers({
+      role: (params.get("role") as User["role"]) || undefined,
+      department: params.get("department") || undefined,
+      status: (params.get("status") as User["status"]) || undefined,
+    });
+
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error("Error listing users:", error);
+    return NextResponse.json(
+      { error: "Failed to load users" },
+      { status: 500 }
+    );
+  }
+}
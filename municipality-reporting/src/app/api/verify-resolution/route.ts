@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AIConfigError,
+  AIRequestError,
+  AIResponseError,
+} from "@/app/server/ai";
+import { getSessionUser } from "@/app/server/auth";
+import { actorFromUser, issueForViewer, issueService } from "@/app/server/issueService";
+import {
+  VerificationUnavailableError,
+  verificationService,
+} from "@/app/server/verificationService";
+import { getIssueParties } from "@/app/utils/issueWorkflow";
+
+export async function POST(request: NextRequest) {
+  try {
+    const { issueId } = await request.json();
+
+    if (!issueId) {
+      return NextResponse.json(
+        { error: "Issue ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const user = await getSessionUser(request);
+    const existing = await issueService.getIssue(issueId);
+    if (!user || !existing) {
+      return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+    }
+
+    // Staff and the assigned employee can ask for a (re-)check
+    const parties = getIssueParties(actorFromUser(user), existing);
+    if (!parties.includes("staff") && !parties.includes("assignee")) {
+      return NextResponse.json(
+        { error: "Only staff or the assigned employee can verify this issue" },
+        { status: 403 }
+      );
+    }
+
+    const issue = await verificationService.verifyResolution(issueId);
+    if (!issue) {
+      return NextResponse.json({ error: "Issue not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      issue: issueForViewer(issue, user),
+      verification: issue.resolutionVerification,
+    });
+  } catch (error) {
+    if (error instanceof VerificationUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof AIConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+    if (error instanceof AIRequestError) {
+      return NextResponse.json(
+        { error: "Failed to verify resolution", details: error.details },
+        { status: 502 }
+      );
+    }
+    if (error instanceof AIResponseError) {
+      return NextResponse.json(
+        {
+          error: error.message,
+          validationErrors: error.validationErrors,
+          rawResponse: error.rawResponse,
+        },
+        { status: 502 }
+      );
+    }
+    console.error("Error verifying resolution:", error);
+    return NextResponse.json(
+      { error: "Failed to verify resolution" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getWards } from "@/app/server/wardBoundaries";
+
+// Public: guests see ward names on the reports they open
+export async function GET() {
+  try {
+    const wards = getWards().map(({ id, name }) => ({ id, name }));
+    return NextResponse.json({ wards });
+  } catch (error) {
+    console.error("Error loading wards:", error);
+    return NextResponse.json({ error: "Failed to load wards" }, { status: 500 });
+  }
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  AttachmentRole,
+  MAX_ISSUE_ATTACHMENTS,
+  attachmentRoleLabels,
+  attachmentUtils,
+} from "@/app/utils/attachments";
+import { Issue } from "@/app/utils/localStorage";
+import styles from "./AttachmentGallery.module.css";
+
+interface AttachmentGalleryProps {
+  issue: Issue;
+  uploadRole?: AttachmentRole; // shows an "Add photos" button when set
+  onChange?: (issue: Issue) => void;
+}
+
+const roleClasses: Record<AttachmentRole, string> = {
+  report: styles.report,
+  progress: styles.progress,
+  completion: styles.completion,
+};
+
+// Every photo on an issue in upload order, with who took it, when and where
+export default function AttachmentGallery({
+  issue,
+  uploadRole,
+  onChange,
+}: AttachmentGalleryProps) {
+  const [uploading, setUploading] = useState(false);
+  const attachments = issue.attachments || [];
+  const legacyPhoto = attachments.length === 0 && attachmentUtils.getPhotoUrl(issue);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (!uploadRole || files.length === 0) return;
+    if (attachments.length + files.length > MAX_ISSUE_ATTACHMENTS) {
+      alert(`An issue can have at most ${MAX_ISSUE_ATTACHMENTS} photos`);
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const updated = await attachmentUtils.addPhotos(issue.id, files, uploadRole);
+      onChange?.(updated);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Could not upload photos");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  if (attachments.length === 0 && !legacyPhoto && !uploadRole) return null;
+
+  return (
+    <div className={styles.gallery}>
+      <h4 className={styles.heading}>🖼️ Photos ({attachments.length || (legacyPhoto ? 1 : 0)})</h4>
+
+      <div className={styles.grid}>
+        {legacyPhoto && (
+          <a href={legacyPhoto} target="_blank" rel="noopener noreferrer" className={styles.item}>
+            <img src={legacyPhoto} alt={issue.title} className={styles.image} />
+          </a>
+        )}
+        {attachments.map((attachment, index) => (
+          <figure key={`${attachment.id}-${attachment.role}-${index}`} className={styles.item}>
+            <a
+              href={attachmentUtils.getUrl(attachment)}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <img
+                src={attachmentUtils.getUrl(attachment, "thumbnail")}
+                alt={`${attachmentRoleLabels[attachment.role]} photo`}
+                loading="lazy"
+                className={styles.image}
+              />
+            </a>
+            <span className={`${styles.role} ${roleClasses[attachment.role]}`}>
+              {attachmentRoleLabels[attachment.role]}
+            </span>
+            <figcaption className={styles.caption}>
+              <span>👤 {attachment.uploadedBy}</span>
+              <span>🕒 {new Date(attachment.uploadedAt).toLocaleString()}</span>
+              {attachment.capturedAt && (
+                <span>📷 Taken {new Date(attachment.capturedAt).toLocaleString()}</span>
+              )}
+              {attachment.latitude !== undefined && attachment.longitude !== undefined && (
+                <a
+                  href={`https://www.google.com/maps?q=${attachment.latitude},${attachment.longitude}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  📍 {attachment.latitude.toFixed(5)}, {attachment.longitude.toFixed(5)}
+                </a>
+              )}
+            </figcaption>
+          </figure>
+        ))}
+      </div>
+
+      {uploadRole && (
+        <label className={styles.upload}>
+          {uploading
+            ? "⏳ Uploading..."
+            : `➕ Add ${attachmentRoleLabels[uploadRole]} Photos`}
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            multiple
+            onChange={handleUpload}
+            disabled={uploading}
+            hidden
+          />
+        </label>
+      )}
+    </div>
+  );
+}
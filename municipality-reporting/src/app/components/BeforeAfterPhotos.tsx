@@ -0,0 +1,45 @@
+"use client";
+
+import React from "react";
+import { attachmentUtils } from "@/app/utils/attachments";
+import { Issue } from "@/app/utils/localStorage";
+import styles from "./BeforeAfterPhotos.module.css";
+
+interface BeforeAfterPhotosProps {
+  issue: Issue;
+}
+
+// The reported problem next to the latest completion photo, so residents can
+// judge the fix before confirming it
+export default function BeforeAfterPhotos({ issue }: BeforeAfterPhotosProps) {
+  const before = attachmentUtils.getPhotoUrl(issue, "medium");
+  const after = attachmentUtils.getByRole(issue, "completion").pop();
+  if (!before && !after) return null;
+
+  return (
+    <div className={styles.comparison}>
+      <figure className={styles.side}>
+        <figcaption className={styles.label}>Before</figcaption>
+        {before ? (
+          <img src={before} alt="Reported problem" className={styles.image} />
+        ) : (
+          <div className={styles.missing}>No report photo</div>
+        )}
+      </figure>
+      <figure className={styles.side}>
+        <figcaption className={styles.label}>After</figcaption>
+        {after ? (
+          <a href={attachmentUtils.getUrl(after)} target="_blank" rel="noopener noreferrer">
+            <img
+              src={attachmentUtils.getUrl(after, "medium")}
+              alt="Completed work"
+              className={styles.image}
+            />
+          </a>
+        ) : (
+          <div className={styles.missing}>No completion photo yet</div>
+        )}
+      </figure>
+    </div>
+  );
+}
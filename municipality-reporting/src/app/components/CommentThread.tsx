@@ -0,0 +1,293 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ATTACHMENT_IMAGE_TYPES, Attachment, attachmentUtils } from "@/app/utils/attachments";
+import {
+  IssueComment,
+  MAX_COMMENT_ATTACHMENTS,
+  commentUtils,
+} from "@/app/utils/comments";
+import { Issue, User } from "@/app/utils/localStorage";
+import { hasPermission } from "@/app/utils/permissions";
+import styles from "./CommentThread.module.css";
+
+interface CommentThreadProps {
+  issue: Issue;
+  user: User | null;
+}
+
+const roleLabels: { [key in User["role"]]: string } = {
+  resident: "Resident",
+  staff: "Staff",
+  employee: "Field Employee",
+  admin: "Administrator",
+};
+
+export default function CommentThread({ issue, user }: CommentThreadProps) {
+  const [comments, setComments] = useState<IssueComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [body, setBody] = useState("");
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [internal, setInternal] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState("");
+
+  // Mirrors the checks in server/commentService.ts
+  const canSeeInternal =
+    !!user &&
+    hasPermission(user, "comments:internal") &&
+    (hasPermission(user, "issues:manage") || issue.assignedToEmployee === user.id);
+  const canComment =
+    !!user &&
+    hasPermission(user, "issues:comment") &&
+    (issue.userId === user.id ||
+      !!issue.coReporters?.some((c) => c.userId === user.id) ||
+      canSeeInternal);
+  const canModerate = !!user && hasPermission(user, "comments:moderate");
+
+  useEffect(() => {
+    setLoading(true);
+    commentUtils
+      .getComments(issue.id)
+      .then(setComments)
+      .catch((error) => console.error("Error loading comments:", error))
+      .finally(() => setLoading(false));
+  }, [issue.id]);
+
+  const handleAttach = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (attachments.length + files.length > MAX_COMMENT_ATTACHMENTS) {
+      alert(`You can attach up to ${MAX_COMMENT_ATTACHMENTS} photos per comment`);
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const uploaded = await commentUtils.uploadAttachments(files);
+      setAttachments((prev) => [...prev, ...uploaded]);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Could not attach photo");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!body.trim() && attachments.length === 0) return;
+
+    setPosting(true);
+    try {
+      const comment = await commentUtils.addComment(issue.id, {
+        body,
+        attachments: attachments.map(({ id }) => ({ id })),
+        visibility: internal ? "internal" : "public",
+      });
+      setComments((prev) => [...prev, comment]);
+      setBody("");
+      setAttachments([]);
+      setInternal(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to post comment");
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleSaveEdit = async (commentId: string) => {
+    try {
+      const updated = await commentUtils.editComment(issue.id, commentId, editBody);
+      setComments((prev) => prev.map((c) => (c.id === commentId ? updated : c)));
+      setEditingId(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to edit comment");
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!confirm("Delete this comment?")) return;
+
+    try {
+      await commentUtils.deleteComment(issue.id, commentId);
+      setComments((prev) => prev.filter((c) => c.id !== commentId));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to delete comment");
+    }
+  };
+
+  return (
+    <div className={styles.thread}>
+      <h3 className={styles.heading}>
+        💬 Conversation {comments.length > 0 && `(${comments.length})`}
+      </h3>
+
+      {loading ? (
+        <p className={styles.empty}>Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className={styles.empty}>No comments yet.</p>
+      ) : (
+        <ul className={styles.list}>
+          {comments.map((comment) => {
+            const isOwn = comment.authorId === user?.id;
+            return (
+              <li
+                key={comment.id}
+                className={`${styles.comment} ${
+                  comment.visibility === "internal" ? styles.internal : ""
+                } ${isOwn ? styles.own : ""}`}
+              >
+                <div className={styles.meta}>
+                  <strong>{comment.authorName}</strong>
+                  <span className={styles.role}>{roleLabels[comment.authorRole]}</span>
+                  {comment.visibility === "internal" && (
+                    <span className={styles.internalBadge}>🔒 Internal</span>
+                  )}
+                  <span className={styles.time}>
+                    {new Date(comment.createdAt).toLocaleString()}
+                    {comment.edited && " (edited)"}
+                  </span>
+                </div>
+
+                {editingId === comment.id ? (
+                  <div className={styles.editor}>
+                    <textarea
+                      className={styles.textarea}
+                      aria-label="Edit comment"
+                      value={editBody}
+                      onChange={(e) => setEditBody(e.target.value)}
+                    />
+                    <div className={styles.actions}>
+                      <button
+                        className={styles.linkButton}
+                        onClick={() => setEditingId(null)}
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        className={styles.postButton}
+                        onClick={() => handleSaveEdit(comment.id)}
+                      >
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  comment.body && <p className={styles.body}>{comment.body}</p>
+                )}
+
+                {comment.attachments.length > 0 && (
+                  <div className={styles.attachments}>
+                    {comment.attachments.map((attachment) => (
+                      <a
+                        key={attachment.id}
+                        href={attachmentUtils.getUrl(attachment)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                      >
+                        <img
+                          src={attachmentUtils.getUrl(attachment, "thumbnail")}
+                          alt={attachment.fileName}
+                          className={styles.attachmentImage}
+                        />
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                {editingId !== comment.id && (isOwn || canModerate) && (
+                  <div className={styles.actions}>
+                    {isOwn && (
+                      <button
+                        className={styles.linkButton}
+                        onClick={() => {
+                          setEditingId(comment.id);
+                          setEditBody(comment.body);
+                        }}
+                      >
+                        Edit
+                      </button>
+                    )}
+                    <button
+                      className={styles.linkButton}
+                      onClick={() => handleDelete(comment.id)}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {canComment && (
+        <div className={styles.composer}>
+          <textarea
+            className={styles.textarea}
+            aria-label="Write a comment"
+            placeholder={
+              canSeeInternal
+                ? "Write an update or question for the reporter or your colleagues..."
+                : "Ask a question or add more information for the municipality..."
+            }
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+          />
+
+          {attachments.length > 0 && (
+            <div className={styles.pending}>
+              {attachments.map((attachment, i) => (
+                <span key={attachment.id} className={styles.pendingItem}>
+                  📎 {attachment.fileName}
+                  <button
+                    className={styles.linkButton}
+                    aria-label={`Remove ${attachment.fileName}`}
+                    onClick={() =>
+                      setAttachments((prev) => prev.filter((_, j) => j !== i))
+                    }
+                  >
+                    ✕
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className={styles.composerFooter}>
+            <label className={styles.attachButton}>
+              {uploading ? "Uploading..." : "📎 Attach photo"}
+              <input
+                type="file"
+                multiple
+                accept={ATTACHMENT_IMAGE_TYPES.join(",")}
+                onChange={handleAttach}
+                disabled={uploading}
+                hidden
+              />
+            </label>
+            {canSeeInternal && (
+              <label className={styles.internalToggle}>
+                <input
+                  type="checkbox"
+                  checked={internal}
+                  onChange={(e) => setInternal(e.target.checked)}
+                />
+                Internal (staff only)
+              </label>
+            )}
+            <button
+              className={styles.postButton}
+              onClick={handlePost}
+              disabled={posting || uploading || (!body.trim() && attachments.length === 0)}
+            >
+              {posting ? "Posting..." : "Post Comment"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
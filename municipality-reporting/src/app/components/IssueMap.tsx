@@ -0,0 +1,487 @@
+"use client";
+
+import React, { useEffect, useId, useMemo, useRef, useState } from "react";
+import { ISSUE_PRIORITIES } from "@/app/utils/analysisSchema";
+import { hotspotTrendLabels, hotspotUtils } from "@/app/utils/hotspots";
+import { ISSUE_STATUSES, caseId, statusColors, statusLabels } from "@/app/utils/issueWorkflow";
+import { Issue } from "@/app/utils/localStorage";
+import {
+  BasemapFeature,
+  MIN_MAP_ZOOM,
+  MapArea,
+  MapPoint,
+  MapTileSource,
+  MapView,
+  MarkerColorMode,
+  TILE_SIZE,
+  basemapPaths,
+  clusterIssues,
+  fitIssues,
+  hasCoordinates,
+  kmToPixels,
+  mapUtils,
+  markerColor,
+  priorityMarkerColors,
+  project,
+  unproject,
+  visibleTiles,
+} from "@/app/utils/mapView";
+import styles from "./IssueMap.module.css";
+
+interface IssueMapProps {
+  issues: Issue[];
+  area: MapArea | null;
+  onAreaChange: (area: MapArea | null) => void;
+  onSelectIssue: (issue: Issue) => void;
+}
+
+type DrawMode = "none" | "rectangle" | "polygon";
+
+// All issues with a location on a pannable, zoomable map. Nearby markers are
+// clustered at low zoom, clicking a marker opens the issue, and a rectangle
+// or polygon can be drawn to filter the list. Hotspots among the issues can
+// be shown as a heat layer
+export default function IssueMap({ issues, area, onAreaChange, onSelectIssue }: IssueMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [tileSource, setTileSource] = useState<MapTileSource | null>(null);
+  const [basemap, setBasemap] = useState<BasemapFeature[]>([]);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<MapView | null>(null);
+  const [colorMode, setColorMode] = useState<MarkerColorMode>("status");
+  const [drawMode, setDrawMode] = useState<DrawMode>("none");
+  const [draft, setDraft] = useState<[number, number][]>([]);
+  const [hover, setHover] = useState<[number, number] | null>(null);
+  const [showHeat, setShowHeat] = useState(false);
+  // useId output is not a valid url(#...) reference as is
+  const heatGradientId = `heat${useId().replace(/[^a-zA-Z0-9]/g, "")}`;
+
+  // Pointer state while dragging, kept out of React state to avoid re-renders
+  const dragRef = useRef<{ start: MapPoint; center: MapPoint; moved: boolean } | null>(null);
+  const sizeRef = useRef(size);
+  sizeRef.current = size;
+  const lastWheelRef = useRef(0);
+
+  const maxZoom = tileSource?.maxZoom || 19;
+  const located = issues.filter(hasCoordinates);
+
+  useEffect(() => {
+    mapUtils.getTileSource().then(setTileSource);
+  }, []);
+
+  useEffect(() => {
+    if (tileSource?.type === "vector") mapUtils.getBasemap(tileSource.url).then(setBasemap);
+  }, [tileSource]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() =>
+      setSize({ width: element.clientWidth, height: element.clientHeight })
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Start zoomed to fit every issue once the map knows its size
+  useEffect(() => {
+    if (!view && size.width > 0 && tileSource) {
+      setView(fitIssues(issues, size.width, size.height, maxZoom));
+    }
+  }, [view, size, tileSource, issues, maxZoom]);
+
+  // Zooms one step in or out while keeping the given screen point in place
+  const zoomAt = (delta: number, screen?: MapPoint) => {
+    setView((current) => {
+      if (!current) return current;
+      const zoom = Math.max(MIN_MAP_ZOOM, Math.min(maxZoom, current.zoom + delta));
+      if (zoom === current.zoom) return current;
+
+      const { width, height } = sizeRef.current;
+      const anchor = screen || { x: width / 2, y: height / 2 };
+      const center = project(current.latitude, current.longitude, current.zoom);
+      const anchorWorld = { x: center.x - width / 2 + anchor.x, y: center.y - height / 2 + anchor.y };
+      const anchorLatLng = unproject(anchorWorld, current.zoom);
+      const anchorAtZoom = project(anchorLatLng.latitude, anchorLatLng.longitude, zoom);
+      const newCenter = unproject(
+        { x: anchorAtZoom.x - anchor.x + width / 2, y: anchorAtZoom.y - anchor.y + height / 2 },
+        zoom
+      );
+      return { ...newCenter, zoom };
+    });
+  };
+  const zoomAtRef = useRef(zoomAt);
+  zoomAtRef.current = zoomAt;
+
+  // React registers wheel listeners as passive, so the page would scroll too
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const now = Date.now();
+      if (now - lastWheelRef.current < 250) return;
+      lastWheelRef.current = now;
+      const rect = element.getBoundingClientRect();
+      zoomAtRef.current(e.deltaY < 0 ? 1 : -1, { x: e.clientX - rect.left, y: e.clientY - rect.top });
+    };
+    element.addEventListener("wheel", onWheel, { passive: false });
+    return () => element.removeEventListener("wheel", onWheel);
+  }, []);
+
+  useEffect(() => {
+    if (drawMode === "none") return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        setDrawMode("none");
+        setDraft([]);
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [drawMode]);
+
+  const zoom = view?.zoom || MIN_MAP_ZOOM;
+  const center = view ? project(view.latitude, view.longitude, zoom) : { x: 0, y: 0 };
+  const topLeft = { x: center.x - size.width / 2, y: center.y - size.height / 2 };
+
+  const toScreen = (latitude: number, longitude: number): MapPoint => {
+    const point = project(latitude, longitude, zoom);
+    return { x: point.x - topLeft.x, y: point.y - topLeft.y };
+  };
+  const toLatLng = (screen: MapPoint): [number, number] => {
+    const { latitude, longitude } = unproject(
+      { x: topLeft.x + screen.x, y: topLeft.y + screen.y },
+      zoom
+    );
+    return [latitude, longitude];
+  };
+  const pointerPosition = (e: React.PointerEvent | React.MouseEvent): MapPoint => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const clusters = useMemo(() => clusterIssues(issues, zoom), [issues, zoom]);
+  const hotspots = useMemo(() => hotspotUtils.findHotspots(issues), [issues]);
+  const vectorPaths = useMemo(() => basemapPaths(basemap, zoom), [basemap, zoom]);
+
+  const finishPolygon = (points: [number, number][]) => {
+    const corners = points.filter(
+      (p, i) => i === 0 || p[0] !== points[i - 1][0] || p[1] !== points[i - 1][1]
+    );
+    if (corners.length >= 3) onAreaChange({ shape: "polygon", points: corners });
+    setDrawMode("none");
+    setDraft([]);
+    setHover(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if ((e.target as HTMLElement).closest("[data-map-control]") || !view) return;
+    const start = pointerPosition(e);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { start, center, moved: false };
+    if (drawMode === "rectangle") setDraft([toLatLng(start), toLatLng(start)]);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const position = pointerPosition(e);
+    if (drawMode === "polygon") setHover(toLatLng(position));
+
+    const drag = dragRef.current;
+    if (!drag || !view) return;
+    const dx = position.x - drag.start.x;
+    const dy = position.y - drag.start.y;
+    if (Math.abs(dx) + Math.abs(dy) > 4) drag.moved = true;
+
+    if (drawMode === "rectangle") {
+      setDraft((current) => (current.length ? [current[0], toLatLng(position)] : current));
+    } else if (drag.moved) {
+      const { latitude, longitude } = unproject({ x: drag.center.x - dx, y: drag.center.y - dy }, zoom);
+      setView({ latitude, longitude, zoom });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+
+    if (drawMode === "rectangle") {
+      if (drag.moved && draft.length === 2) {
+        const [[lat1, lng1], [lat2, lng2]] = draft;
+        const north = Math.max(lat1, lat2);
+        const south = Math.min(lat1, lat2);
+        const east = Math.max(lng1, lng2);
+        const west = Math.min(lng1, lng2);
+        onAreaChange({
+          shape: "rectangle",
+          points: [[north, west], [north, east], [south, east], [south, west]],
+        });
+      }
+      setDrawMode("none");
+      setDraft([]);
+    } else if (drawMode === "polygon" && !drag.moved) {
+      setDraft((current) => [...current, toLatLng(pointerPosition(e))]);
+    }
+  };
+
+  const startDrawing = (mode: DrawMode) => {
+    setDrawMode(mode);
+    setDraft([]);
+    setHover(null);
+  };
+
+  const svgPoints = (points: [number, number][]) =>
+    points
+      .map(([latitude, longitude]) => {
+        const p = toScreen(latitude, longitude);
+        return `${p.x},${p.y}`;
+      })
+      .join(" ");
+
+  const rasterTiles = view ? visibleTiles(tileSource, zoom, topLeft, size) : [];
+
+  const draftShape: [number, number][] =
+    drawMode === "rectangle" && draft.length === 2
+      ? [draft[0], [draft[0][0], draft[1][1]], draft[1], [draft[1][0], draft[0][1]]]
+      : draft;
+
+  return (
+    <div className={styles.wrapper}>
+      <div className={styles.toolbar}>
+        <label className={styles.toolbarLabel}>
+          Colour by
+          <select
+            className={styles.select}
+            value={colorMode}
+            onChange={(e) => setColorMode(e.target.value as MarkerColorMode)}
+          >
+            <option value="status">Status</option>
+            <option value="priority">Priority</option>
+          </select>
+        </label>
+        {drawMode === "none" ? (
+          <>
+            <button type="button" className={styles.toolButton} onClick={() => startDrawing("rectangle")}>
+              ▭ Draw Rectangle
+            </button>
+            <button type="button" className={styles.toolButton} onClick={() => startDrawing("polygon")}>
+              ⬠ Draw Polygon
+            </button>
+          </>
+        ) : (
+          <>
+            <span className={styles.hint}>
+              {drawMode === "rectangle"
+                ? "Drag on the map to draw the area"
+                : "Click to add corners, double-click to finish"}
+            </span>
+            {drawMode === "polygon" && draft.length >= 3 && (
+              <button type="button" className={styles.toolButton} onClick={() => finishPolygon(draft)}>
+                ✔ Finish
+              </button>
+            )}
+            <button type="button" className={styles.toolButton} onClick={() => startDrawing("none")}>
+              Cancel
+            </button>
+          </>
+        )}
+        {hotspots.length > 0 && (
+          <button
+            type="button"
+            className={`${styles.toolButton} ${showHeat ? styles.toolButtonActive : ""}`}
+            onClick={() => setShowHeat(!showHeat)}
+          >
+            🔥 Hotspots ({hotspots.length})
+          </button>
+        )}
+        {area && drawMode === "none" && (
+          <button type="button" className={styles.clearButton} onClick={() => onAreaChange(null)}>
+            ✖ Clear Area
+          </button>
+        )}
+        <button
+          type="button"
+          className={styles.toolButton}
+          onClick={() => setView(fitIssues(issues, size.width, size.height, maxZoom))}
+        >
+          ⤢ Fit All
+        </button>
+      </div>
+
+      <div
+        ref={containerRef}
+        className={`${styles.map} ${drawMode !== "none" ? styles.drawing : ""}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onDoubleClick={() => drawMode === "polygon" && finishPolygon(draft)}
+      >
+        {rasterTiles.map((tile) => (
+          <img
+            key={tile.key}
+            src={tile.src}
+            alt=""
+            draggable={false}
+            className={styles.tile}
+            style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        ))}
+
+        <svg className={styles.overlay} width={size.width} height={size.height}>
+          {tileSource?.type === "vector" && (
+            <g transform={`translate(${-topLeft.x} ${-topLeft.y})`}>
+              {vectorPaths.map((path, i) => (
+                <path
+                  key={i}
+                  d={path.d}
+                  className={path.filled ? styles.basemapArea : styles.basemapLine}
+                  fillRule="evenodd"
+                />
+              ))}
+            </g>
+          )}
+          {showHeat && (
+            <>
+              <defs>
+                <radialGradient id={heatGradientId}>
+                  <stop offset="0%" stopColor="#f03e3e" stopOpacity="0.75" />
+                  <stop offset="60%" stopColor="#fd7e14" stopOpacity="0.35" />
+                  <stop offset="100%" stopColor="#fab005" stopOpacity="0" />
+                </radialGradient>
+              </defs>
+              {hotspots.map((hotspot) => {
+                const position = toScreen(hotspot.latitude, hotspot.longitude);
+                return (
+                  <circle
+                    key={hotspot.id}
+                    cx={position.x}
+                    cy={position.y}
+                    r={Math.max(28, kmToPixels(hotspot.radiusKm, hotspot.latitude, zoom) * 1.5)}
+                    fill={`url(#${heatGradientId})`}
+                    opacity={Math.min(1, 0.4 + hotspot.count / 15)}
+                  />
+                );
+              })}
+            </>
+          )}
+          {area && <polygon points={svgPoints(area.points)} className={styles.area} />}
+          {draftShape.length > 0 &&
+            (drawMode === "rectangle" ? (
+              <polygon points={svgPoints(draftShape)} className={styles.draft} />
+            ) : (
+              <polyline
+                points={svgPoints(hover ? [...draftShape, hover] : draftShape)}
+                className={styles.draft}
+              />
+            ))}
+        </svg>
+
+        {view &&
+          clusters.map((cluster) => {
+            const position = toScreen(cluster.latitude, cluster.longitude);
+            if (
+              position.x < -30 ||
+              position.y < -30 ||
+              position.x > size.width + 30 ||
+              position.y > size.height + 30
+            ) {
+              return null;
+            }
+
+            if (cluster.issues.length === 1) {
+              const issue = cluster.issues[0];
+              return (
+                <button
+                  key={cluster.key}
+                  type="button"
+                  data-map-control
+                  className={styles.marker}
+                  style={{ left: position.x, top: position.y, background: markerColor(issue, colorMode) }}
+                  title={`#${caseId(issue.id)} · ${issue.title}\n${statusLabels[issue.status]} · ${issue.priority.toUpperCase()}`}
+                  onClick={() => onSelectIssue(issue)}
+                />
+              );
+            }
+            return (
+              <button
+                key={cluster.key}
+                type="button"
+                data-map-control
+                className={styles.cluster}
+                style={{
+                  left: position.x,
+                  top: position.y,
+                  width: 28 + Math.min(24, cluster.issues.length * 2),
+                  height: 28 + Math.min(24, cluster.issues.length * 2),
+                }}
+                title={`${cluster.issues.length} issues - click to zoom in`}
+                onClick={() =>
+                  setView({
+                    latitude: cluster.latitude,
+                    longitude: cluster.longitude,
+                    zoom: Math.min(maxZoom, zoom + 2),
+                  })
+                }
+              >
+                {cluster.issues.length}
+              </button>
+            );
+          })}
+
+        {view &&
+          showHeat &&
+          hotspots.map((hotspot) => {
+            const position = toScreen(hotspot.latitude, hotspot.longitude);
+            return (
+              <div
+                key={hotspot.id}
+                data-map-control
+                className={styles.hotspotLabel}
+                style={{ left: position.x, top: position.y }}
+                title={`${hotspot.count} ${hotspot.category} reports near ${hotspot.location}\nMostly: ${hotspot.dominantIssueType}\n${hotspotTrendLabels[hotspot.trend]} (${hotspot.previousCount} → ${hotspot.recentCount})`}
+              >
+                🔥 {hotspot.count}
+              </div>
+            );
+          })}
+
+        <div className={styles.zoomControls} data-map-control>
+          <button type="button" onClick={() => zoomAt(1)} aria-label="Zoom in">
+            +
+          </button>
+          <button type="button" onClick={() => zoomAt(-1)} aria-label="Zoom out">
+            −
+          </button>
+        </div>
+
+        <div className={styles.legend} data-map-control>
+          {colorMode === "status"
+            ? ISSUE_STATUSES.filter((status) => status !== "merged").map((status) => (
+                <span key={status}>
+                  <i style={{ background: statusColors[status] }} />
+                  {statusLabels[status]}
+                </span>
+              ))
+            : [...ISSUE_PRIORITIES].reverse().map((priority) => (
+                <span key={priority}>
+                  <i style={{ background: priorityMarkerColors[priority] }} />
+                  {priority.toUpperCase()}
+                </span>
+              ))}
+        </div>
+
+        {tileSource?.attribution && (
+          <div className={styles.attribution} data-map-control>
+            {tileSource.attribution}
+          </div>
+        )}
+      </div>
+
+      {located.length < issues.length && (
+        <p className={styles.note}>
+          📍 {issues.length - located.length} issue(s) without a location are not shown on the map.
+        </p>
+      )}
+    </div>
+  );
+}
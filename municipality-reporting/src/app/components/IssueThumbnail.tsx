@@ -0,0 +1,24 @@
+"use client";
+
+import React from "react";
+import { attachmentUtils } from "@/app/utils/attachments";
+import { Issue } from "@/app/utils/localStorage";
+import styles from "./IssueThumbnail.module.css";
+
+interface IssueThumbnailProps {
+  issue: Issue;
+}
+
+// Small preview of an issue's main photo for dashboard cards
+export default function IssueThumbnail({ issue }: IssueThumbnailProps) {
+  const src = attachmentUtils.getPhotoUrl(issue, "thumbnail");
+  if (!src) return null;
+
+  const count = issue.attachments?.length || 1;
+  return (
+    <div className={styles.thumbnail}>
+      <img src={src} alt={issue.title} loading="lazy" className={styles.image} />
+      {count > 1 && <span className={styles.count}>📷 {count}</span>}
+    </div>
+  );
+}
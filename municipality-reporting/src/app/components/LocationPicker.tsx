@@ -0,0 +1,359 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  GeocodeResult,
+  PickedLocation,
+  getCurrentLocation,
+  locationSourceLabels,
+  lookupAddress,
+  searchAddress,
+} from "@/app/utils/geoLocation";
+import {
+  BasemapFeature,
+  DEFAULT_MAP_VIEW,
+  MIN_MAP_ZOOM,
+  MapPoint,
+  MapTileSource,
+  MapView,
+  TILE_SIZE,
+  basemapPaths,
+  kmToPixels,
+  mapUtils,
+  project,
+  unproject,
+  visibleTiles,
+} from "@/app/utils/mapView";
+import styles from "./LocationPicker.module.css";
+
+interface LocationPickerProps {
+  value: PickedLocation | null;
+  onChange: (location: PickedLocation) => void;
+}
+
+// Zoom used when jumping to a single place
+const PLACE_ZOOM = 17;
+
+// Chooses where a report is: search for an address, use the device's GPS,
+// or click the map and drag the pin to the exact spot
+export default function LocationPicker({ value, onChange }: LocationPickerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [tileSource, setTileSource] = useState<MapTileSource | null>(null);
+  const [basemap, setBasemap] = useState<BasemapFeature[]>([]);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<MapView>(() =>
+    value ? { latitude: value.latitude, longitude: value.longitude, zoom: PLACE_ZOOM } : DEFAULT_MAP_VIEW
+  );
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<GeocodeResult[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [message, setMessage] = useState("");
+  const [draftPin, setDraftPin] = useState<[number, number] | null>(null);
+
+  // Pointer state while panning or moving the pin
+  const dragRef = useRef<{ start: MapPoint; center: MapPoint; moved: boolean; pin: boolean } | null>(null);
+  // Only the latest address lookup may update the chosen location
+  const lookupRef = useRef(0);
+
+  const maxZoom = tileSource?.maxZoom || 19;
+
+  useEffect(() => {
+    mapUtils.getTileSource().then(setTileSource);
+  }, []);
+
+  useEffect(() => {
+    if (tileSource?.type === "vector") mapUtils.getBasemap(tileSource.url).then(setBasemap);
+  }, [tileSource]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() =>
+      setSize({ width: element.clientWidth, height: element.clientHeight })
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Follow locations chosen outside the map (GPS fix, photo position)
+  const followLatitude = value && value.source !== "manual" ? value.latitude : null;
+  const followLongitude = value && value.source !== "manual" ? value.longitude : null;
+  useEffect(() => {
+    if (followLatitude === null || followLongitude === null) return;
+    setView((current) => ({
+      latitude: followLatitude,
+      longitude: followLongitude,
+      zoom: Math.max(current.zoom, 15),
+    }));
+  }, [followLatitude, followLongitude]);
+
+  const zoomBy = (delta: number) =>
+    setView((current) => ({
+      ...current,
+      zoom: Math.max(MIN_MAP_ZOOM, Math.min(maxZoom, current.zoom + delta)),
+    }));
+  const zoomByRef = useRef(zoomBy);
+  zoomByRef.current = zoomBy;
+
+  // React registers wheel listeners as passive, so the page would scroll too
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    let lastWheel = 0;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const now = Date.now();
+      if (now - lastWheel < 250) return;
+      lastWheel = now;
+      zoomByRef.current(e.deltaY < 0 ? 1 : -1);
+    };
+    element.addEventListener("wheel", onWheel, { passive: false });
+    return () => element.removeEventListener("wheel", onWheel);
+  }, []);
+
+  const zoom = view.zoom;
+  const center = project(view.latitude, view.longitude, zoom);
+  const topLeft = { x: center.x - size.width / 2, y: center.y - size.height / 2 };
+
+  const toScreen = (latitude: number, longitude: number): MapPoint => {
+    const point = project(latitude, longitude, zoom);
+    return { x: point.x - topLeft.x, y: point.y - topLeft.y };
+  };
+  const toLatLng = (screen: MapPoint): [number, number] => {
+    const { latitude, longitude } = unproject({ x: topLeft.x + screen.x, y: topLeft.y + screen.y }, zoom);
+    return [latitude, longitude];
+  };
+  const pointerPosition = (e: React.PointerEvent): MapPoint => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const vectorPaths = useMemo(() => basemapPaths(basemap, zoom), [basemap, zoom]);
+  const rasterTiles = visibleTiles(tileSource, zoom, topLeft, size);
+
+  // A pin placed or moved by hand; the address follows once it is looked up
+  const placePin = async (latitude: number, longitude: number) => {
+    const lookup = ++lookupRef.current;
+    setMessage("");
+    onChange({ latitude, longitude, source: "manual" });
+    const address = await lookupAddress(latitude, longitude);
+    if (address && lookup === lookupRef.current) {
+      onChange({ latitude, longitude, address, source: "manual" });
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (target.closest("[data-map-control]")) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      start: pointerPosition(e),
+      center,
+      moved: false,
+      pin: !!target.closest("[data-map-pin]"),
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const position = pointerPosition(e);
+    const dx = position.x - drag.start.x;
+    const dy = position.y - drag.start.y;
+    if (Math.abs(dx) + Math.abs(dy) > 4) drag.moved = true;
+    if (!drag.moved) return;
+
+    if (drag.pin) {
+      setDraftPin(toLatLng(position));
+    } else {
+      const { latitude, longitude } = unproject({ x: drag.center.x - dx, y: drag.center.y - dy }, zoom);
+      setView({ latitude, longitude, zoom });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+
+    if (drag.pin) {
+      if (draftPin) placePin(draftPin[0], draftPin[1]);
+    } else if (!drag.moved) {
+      const [latitude, longitude] = toLatLng(pointerPosition(e));
+      placePin(latitude, longitude);
+    }
+    setDraftPin(null);
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (query.trim().length < 3) return;
+    setSearching(true);
+    setMessage("");
+    try {
+      const found = await searchAddress(query.trim());
+      setResults(found);
+      if (found.length === 0) setMessage("No places found. Try a street name and suburb.");
+    } catch (error) {
+      setResults(null);
+      setMessage(error instanceof Error ? error.message : "Address search failed");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const chooseResult = (result: GeocodeResult) => {
+    lookupRef.current++;
+    setResults(null);
+    setView({ latitude: result.latitude, longitude: result.longitude, zoom: PLACE_ZOOM });
+    onChange({
+      latitude: result.latitude,
+      longitude: result.longitude,
+      address: result.address,
+      source: "manual",
+    });
+  };
+
+  const useMyLocation = async () => {
+    lookupRef.current++;
+    setLocating(true);
+    setMessage("");
+    try {
+      const location = await getCurrentLocation();
+      onChange({
+        latitude: location.latitude,
+        longitude: location.longitude,
+        address: location.address,
+        accuracy: location.accuracy,
+        source: "gps",
+      });
+    } catch (error) {
+      setMessage(
+        (error as { message?: string }).message ||
+          "Could not get your location. Search for the address or place the pin instead."
+      );
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const pin = draftPin || (value ? [value.latitude, value.longitude] : null);
+  const pinPosition = pin && toScreen(pin[0], pin[1]);
+
+  return (
+    <div className={styles.picker}>
+      <div className={styles.controls}>
+        <form className={styles.searchForm} onSubmit={handleSearch}>
+          <input
+            type="search"
+            className={styles.searchInput}
+            placeholder="Search for a street or place..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <button type="submit" className={styles.button} disabled={searching || query.trim().length < 3}>
+            {searching ? "Searching..." : "🔍 Search"}
+          </button>
+        </form>
+        <button type="button" className={styles.button} onClick={useMyLocation} disabled={locating}>
+          {locating ? "Locating..." : "📡 Use my location"}
+        </button>
+      </div>
+
+      {results && results.length > 0 && (
+        <ul className={styles.results}>
+          {results.map((result) => (
+            <li key={`${result.latitude},${result.longitude},${result.address}`}>
+              <button type="button" onClick={() => chooseResult(result)}>
+                📍 {result.address}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {message && <p className={styles.message}>{message}</p>}
+
+      <div
+        ref={containerRef}
+        className={styles.map}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {rasterTiles.map((tile) => (
+          <img
+            key={tile.key}
+            src={tile.src}
+            alt=""
+            draggable={false}
+            className={styles.tile}
+            style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+          />
+        ))}
+
+        <svg className={styles.overlay} width={size.width} height={size.height}>
+          {tileSource?.type === "vector" && (
+            <g transform={`translate(${-topLeft.x} ${-topLeft.y})`}>
+              {vectorPaths.map((path, i) => (
+                <path
+                  key={i}
+                  d={path.d}
+                  className={path.filled ? styles.basemapArea : styles.basemapLine}
+                  fillRule="evenodd"
+                />
+              ))}
+            </g>
+          )}
+          {value?.accuracy && !draftPin && pinPosition && (
+            <circle
+              cx={pinPosition.x}
+              cy={pinPosition.y}
+              r={kmToPixels(value.accuracy / 1000, value.latitude, zoom)}
+              className={styles.accuracy}
+            />
+          )}
+        </svg>
+
+        {pinPosition && (
+          <div
+            data-map-pin
+            className={styles.pin}
+            style={{ left: pinPosition.x, top: pinPosition.y }}
+            title="Drag to the exact spot"
+          >
+            📍
+          </div>
+        )}
+
+        <div className={styles.zoomControls} data-map-control>
+          <button type="button" onClick={() => zoomBy(1)} aria-label="Zoom in">
+            +
+          </button>
+          <button type="button" onClick={() => zoomBy(-1)} aria-label="Zoom out">
+            −
+          </button>
+        </div>
+
+        {tileSource?.attribution && (
+          <div className={styles.attribution} data-map-control>
+            {tileSource.attribution}
+          </div>
+        )}
+      </div>
+
+      <p className={styles.summary}>
+        {value ? (
+          <>
+            {locationSourceLabels[value.source]}:{" "}
+            {value.address || `${value.latitude.toFixed(5)}, ${value.longitude.toFixed(5)}`}
+            {value.accuracy ? ` (±${Math.round(value.accuracy)} m)` : ""}
+          </>
+        ) : (
+          "Click the map to place the pin where the problem is."
+        )}
+      </p>
+    </div>
+  );
+}
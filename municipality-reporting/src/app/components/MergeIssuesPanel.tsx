@@ -0,0 +1,135 @@
+"use client";
+
+import React, { useState } from "react";
+import { caseId, getStatusPhase, statusLabels } from "@/app/utils/issueWorkflow";
+import { Issue, storageUtils } from "@/app/utils/localStorage";
+import { smartSearchUtils } from "@/app/utils/smartSearch";
+import styles from "./MergeIssuesPanel.module.css";
+
+interface MergeIssuesPanelProps {
+  issue: Issue;
+  allIssues: Issue[];
+  onMerged: (issue: Issue) => void;
+}
+
+const isOpen = (issue: Issue) => {
+  const phase = getStatusPhase(issue.status);
+  return phase === "open" || phase === "active";
+};
+
+// Lets staff fold duplicate reports into the issue they are looking at;
+// likely duplicates are suggested first, re-uploaded photos at the top
+export default function MergeIssuesPanel({ issue, allIssues, onMerged }: MergeIssuesPanelProps) {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [note, setNote] = useState("");
+  const [merging, setMerging] = useState(false);
+
+  if (!isOpen(issue) || issue.parentIssueId) return null;
+
+  const mergeable = allIssues.filter(
+    (other) => other.id !== issue.id && isOpen(other) && !other.mergedIssueIds?.length
+  );
+  const suggested = smartSearchUtils.findSimilarReports(issue, mergeable, 0.4);
+  const shown = [
+    ...suggested,
+    ...mergeable.filter((o) => selected.includes(o.id) && !suggested.includes(o)),
+  ];
+  const others = mergeable.filter((o) => !shown.includes(o));
+
+  const toggle = (id: string) =>
+    setSelected((prev) => (prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]));
+
+  const handleMerge = async () => {
+    if (selected.length === 0) return;
+    if (
+      !window.confirm(
+        `Merge ${selected.length} report(s) into #${caseId(issue.id)}? Their reporters and photos move to this issue and they are marked as merged.`
+      )
+    ) {
+      return;
+    }
+
+    setMerging(true);
+    try {
+      const updated = await storageUtils.mergeIssues(issue.id, selected, note.trim() || undefined);
+      setSelected([]);
+      setNote("");
+      onMerged(updated);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to merge issues");
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className={styles.panel}>
+      <h4 className={styles.heading}>🔗 Merge Duplicates Into This Issue</h4>
+
+      {shown.length > 0 ? (
+        <ul className={styles.list}>
+          {shown.map((other) => (
+            <li key={other.id}>
+              <label className={styles.item}>
+                <input
+                  type="checkbox"
+                  checked={selected.includes(other.id)}
+                  onChange={() => toggle(other.id)}
+                />
+                <span className={styles.info}>
+                  <strong>
+                    #{caseId(other.id)} · {other.title}
+                  </strong>
+                  <span>
+                    👤 {other.userName} · 📍 {other.location} · {statusLabels[other.status]}
+                  </span>
+                </span>
+                {issue.photoDuplicates?.some((d) => d.issueId === other.id) ? (
+                  <span className={`${styles.suggested} ${styles.samePhoto}`}>📸 Same photo</span>
+                ) : (
+                  suggested.includes(other) && <span className={styles.suggested}>Likely duplicate</span>
+                )}
+              </label>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className={styles.empty}>No likely duplicates found.</p>
+      )}
+
+      {others.length > 0 && (
+        <select
+          className={styles.select}
+          value=""
+          onChange={(e) => e.target.value && toggle(e.target.value)}
+        >
+          <option value="">Add another open issue...</option>
+          {others.map((other) => (
+            <option key={other.id} value={other.id}>
+              #{caseId(other.id)} · {other.title}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {selected.length > 0 && (
+        <div className={styles.actions}>
+          <input
+            className={styles.note}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Optional note for the history..."
+          />
+          <button
+            type="button"
+            className={styles.mergeButton}
+            onClick={handleMerge}
+            disabled={merging}
+          >
+            {merging ? "⏳ Merging..." : `Merge ${selected.length} report(s)`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
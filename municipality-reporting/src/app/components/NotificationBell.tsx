@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Notification, notificationUtils } from "@/app/utils/notifications";
+import styles from "./NotificationBell.module.css";
+
+const POLL_INTERVAL_MS = 30000;
+
+const typeIcons: { [key in Notification["type"]]: string } = {
+  status_update: "🔄",
+  comment: "💬",
+  assignment: "📋",
+  resolved: "✅",
+  rejected: "⚠️",
+};
+
+const timeAgo = (dateString: string) => {
+  const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return new Date(dateString).toLocaleDateString("en-ZA", {
+    month: "short",
+    day: "numeric",
+  });
+};
+
+export default function NotificationBell() {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [open, setOpen] = useState(false);
+  const seenIds = useRef<Set<string> | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const latest = await notificationUtils.getUserNotifications();
+
+      // Pop a browser notification for anything that arrived since the last poll
+      if (seenIds.current) {
+        latest
+          .filter((n) => !n.isRead && !seenIds.current!.has(n.id))
+          .forEach(notificationUtils.showBrowserNotification);
+      }
+      seenIds.current = new Set(latest.map((n) => n.id));
+      setNotifications(latest);
+    } catch (error) {
+      console.error("Error loading notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    notificationUtils.requestPermission();
+    loadNotifications();
+    const interval = setInterval(loadNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadNotifications]);
+
+  // Close the inbox when clicking elsewhere on the page
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  const unreadCount = notificationUtils.getUnreadCount(notifications);
+
+  const handleOpenNotification = async (notification: Notification) => {
+    if (!notification.isRead) {
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === notification.id ? { ...n, isRead: true } : n))
+      );
+      await notificationUtils.markAsRead(notification.id).catch(console.error);
+    }
+    setOpen(false);
+    router.push(notificationUtils.getLink(notification));
+  };
+
+  const handleMarkAllRead = async () => {
+    setNotifications((prev) => prev.map((n) => ({ ...n, isRead: true })));
+    await notificationUtils.markAllAsRead().catch(console.error);
+  };
+
+  const handleDelete = async (e: React.MouseEvent, notificationId: string) => {
+    e.stopPropagation();
+    setNotifications((prev) => prev.filter((n) => n.id !== notificationId));
+    await notificationUtils.deleteNotification(notificationId).catch(console.error);
+  };
+
+  return (
+    <div className={styles.container} ref={containerRef}>
+      <button
+        type="button"
+        className={styles.bell}
+        onClick={() => setOpen((prev) => !prev)}
+        aria-label={`Notifications${unreadCount ? ` (${unreadCount} unread)` : ""}`}
+      >
+        🔔
+        {unreadCount > 0 && (
+          <span className={styles.badge}>{unreadCount > 99 ? "99+" : unreadCount}</span>
+        )}
+      </button>
+
+      {open && (
+        <div className={styles.inbox}>
+          <div className={styles.inboxHeader}>
+            <h4 className={styles.inboxTitle}>Notifications</h4>
+            {unreadCount > 0 && (
+              <button type="button" className={styles.markAll} onClick={handleMarkAllRead}>
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className={styles.empty}>You&apos;re all caught up.</p>
+          ) : (
+            <ul className={styles.list}>
+              {notifications.map((notification) => (
+                <li
+                  key={notification.id}
+                  className={`${styles.item} ${notification.isRead ? "" : styles.unread}`}
+                  onClick={() => handleOpenNotification(notification)}
+                >
+                  <span className={styles.icon}>{typeIcons[notification.type]}</span>
+                  <div className={styles.content}>
+                    <div className={styles.title}>{notification.title}</div>
+                    <div className={styles.message}>{notification.message}</div>
+                    <div className={styles.time}>{timeAgo(notification.createdAt)}</div>
+                  </div>
+                  <button
+                    type="button"
+                    className={styles.dismiss}
+                    aria-label="Dismiss notification"
+                    onClick={(e) => handleDelete(e, notification.id)}
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import React, { useState } from "react";
+import { Issue } from "@/app/utils/localStorage";
+import {
+  AUTO_CLOSE_MIN_CONFIDENCE,
+  ResolutionVerdict,
+  resolutionVerdictLabels,
+  resolutionVerificationUtils,
+} from "@/app/utils/resolutionVerification";
+import styles from "./ResolutionVerificationPanel.module.css";
+
+interface ResolutionVerificationPanelProps {
+  issue: Issue;
+  onChange?: (issue: Issue) => void;
+}
+
+const verdictClasses: Record<ResolutionVerdict, string> = {
+  fixed: styles.fixed,
+  "partially-fixed": styles.partial,
+  "not-fixed": styles.notFixed,
+  "different-location": styles.notFixed,
+};
+
+// AI comparison of the report and completion photos, for staff deciding
+// whether to close an issue the resident has not confirmed
+export default function ResolutionVerificationPanel({
+  issue,
+  onChange,
+}: ResolutionVerificationPanelProps) {
+  const [verifying, setVerifying] = useState(false);
+  const verification = issue.resolutionVerification;
+  const awaiting = issue.status === "awaiting-confirmation";
+  if (!verification && !awaiting) return null;
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    try {
+      onChange?.(await resolutionVerificationUtils.verify(issue.id));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Verification failed");
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const stale =
+    !!verification && !!issue.resolvedAt && verification.verifiedAt < issue.resolvedAt;
+  const blocksAutoClose =
+    awaiting && !!verification && !resolutionVerificationUtils.canAutoClose(issue);
+
+  return (
+    <div className={styles.panel}>
+      <div className={styles.header}>
+        <h4 className={styles.heading}>🤖 AI Resolution Check</h4>
+        {awaiting && (
+          <button
+            type="button"
+            className={styles.verifyButton}
+            onClick={handleVerify}
+            disabled={verifying}
+          >
+            {verifying ? "⏳ Comparing photos..." : verification ? "Re-check" : "Verify with AI"}
+          </button>
+        )}
+      </div>
+
+      {verification ? (
+        <>
+          <div className={styles.result}>
+            <span className={`${styles.verdict} ${verdictClasses[verification.verdict]}`}>
+              {resolutionVerdictLabels[verification.verdict]}
+            </span>
+            <span className={styles.confidence}>
+              {Math.round(verification.confidence * 100)}% confidence
+            </span>
+            <span className={styles.date}>
+              {new Date(verification.verifiedAt).toLocaleString()}
+            </span>
+          </div>
+          {verification.summary && <p className={styles.summary}>{verification.summary}</p>}
+          {stale && (
+            <p className={styles.warning}>
+              ⚠️ Checked before the latest resolution - re-check the new photos.
+            </p>
+          )}
+          {blocksAutoClose && !stale && (
+            <p className={styles.warning}>
+              ⚠️ Will not be closed automatically - needs a &ldquo;Fixed&rdquo; verdict with at
+              least {Math.round(AUTO_CLOSE_MIN_CONFIDENCE * 100)}% confidence, or the
+              resident&apos;s confirmation.
+            </p>
+          )}
+        </>
+      ) : (
+        <p className={styles.summary}>
+          Not checked yet. Needs a report photo and a completion photo.
+        </p>
+      )}
+    </div>
+  );
+}
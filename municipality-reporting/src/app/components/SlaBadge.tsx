@@ -0,0 +1,51 @@
+"use client";
+
+import React from "react";
+import { Issue } from "@/app/utils/localStorage";
+import { SlaState, slaStateLabels, slaUtils } from "@/app/utils/sla";
+import styles from "./SlaBadge.module.css";
+
+interface SlaBadgeProps {
+  issue: Issue;
+  showDeadline?: boolean;
+}
+
+const stateClasses: Record<SlaState, string> = {
+  "on-track": styles.onTrack,
+  "at-risk": styles.atRisk,
+  breached: styles.breached,
+  met: styles.met,
+};
+
+const formatDeadline = (dateString: string) =>
+  new Date(dateString).toLocaleString("en-ZA", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function SlaBadge({ issue, showDeadline = false }: SlaBadgeProps) {
+  if (!issue.sla) return null;
+
+  const state = slaUtils.getState(issue.sla);
+  const deadline = slaUtils.getNextDeadline(issue.sla);
+
+  return (
+    <span
+      className={`${styles.badge} ${stateClasses[state]}`}
+      title={
+        deadline
+          ? `${deadline.label} ${formatDeadline(deadline.dueAt)}`
+          : `Due ${formatDeadline(issue.sla.resolveBy)}`
+      }
+    >
+      {slaStateLabels[state]}
+      {showDeadline && deadline && (
+        <span className={styles.deadline}>
+          · {deadline.label} {formatDeadline(deadline.dueAt)}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -2,6 +2,7 @@
 
 import React from "react";
 import { analyticsUtils, AnalyticsSummary } from "@/app/utils/analytics";
+import { HOTSPOT_WINDOW_DAYS, hotspotTrendLabels } from "@/app/utils/hotspots";
 import styles from "./SmartInsights.module.css";
 
 interface SmartInsightsProps {
@@ -10,8 +11,9 @@ interface SmartInsightsProps {
 
 export default function SmartInsights({ summary }: SmartInsightsProps) {
   const insights = analyticsUtils.generateInsights(summary);
+  const hotspots = summary.hotspots.slice(0, 6);
 
-  if (insights.length === 0) {
+  if (insights.length === 0 && hotspots.length === 0) {
     return null;
   }
 
@@ -31,6 +33,32 @@ export default function SmartInsights({ summary }: SmartInsightsProps) {
         ))}
       </div>
 
+      {hotspots.length > 0 && (
+        <>
+          <h4 className={styles.hotspotHeading}>
+            🔥 Hotspots · last {HOTSPOT_WINDOW_DAYS} days
+          </h4>
+          <div className={styles.hotspotGrid}>
+            {hotspots.map((hotspot) => (
+              <div key={hotspot.id} className={styles.hotspotCard}>
+                <div className={styles.hotspotTop}>
+                  <span className={styles.hotspotCount}>{hotspot.count}</span>
+                  <span className={`${styles.hotspotTrend} ${styles[hotspot.trend]}`}>
+                    {hotspotTrendLabels[hotspot.trend]}
+                  </span>
+                </div>
+                <strong className={styles.hotspotType}>{hotspot.dominantIssueType}</strong>
+                <span className={styles.hotspotMeta}>📂 {hotspot.category}</span>
+                <span className={styles.hotspotMeta}>📍 {hotspot.location}</span>
+                <span className={styles.hotspotMeta}>
+                  {hotspot.previousCount} → {hotspot.recentCount} reports (earlier vs. recent half)
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
       <div className={styles.footer}>
         <span className={styles.footerIcon}>🤖</span>
         <span className={styles.footerText}>AI-generated insights based on your data</span>
@@ -4,8 +4,21 @@ import React, { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { storageUtils, User } from "@/app/utils/localStorage";
+import { authUtils } from "@/app/utils/auth";
+import { hasPermission } from "@/app/utils/permissions";
 import { analyzeImage, ImageAnalysisResult } from "@/app/utils/aiCategorization";
-import { getCurrentLocation } from "@/app/utils/geoLocation";
+import { Attachment, attachmentUtils } from "@/app/utils/attachments";
+import { caseId, statusLabels } from "@/app/utils/issueWorkflow";
+import { PHOTO_LOCATION_WARNING_KM, PhotoMetadata, exifUtils } from "@/app/utils/exif";
+import {
+  PickedLocation,
+  getCurrentLocation,
+  getDistanceBetweenPoints,
+  locationSourceLabels,
+  lookupAddress,
+} from "@/app/utils/geoLocation";
+import { DuplicateMatch } from "@/app/utils/smartSearch";
+import LocationPicker from "@/app/components/LocationPicker";
 import styles from "./create-report.module.css";
 
 export default function CreateReportPage() {
@@ -15,7 +28,10 @@ export default function CreateReportPage() {
   const [photoPreview, setPhotoPreview] = useState<string | null>(null);
   const [analyzingImage, setAnalyzingImage] = useState(false);
   const [aiAnalysisResult, setAiAnalysisResult] = useState<ImageAnalysisResult | null>(null);
-  const [location, setLocation] = useState<{ address?: string; latitude: number; longitude: number } | null>(null);
+  const [location, setLocation] = useState<PickedLocation | null>(null);
+  const [showLocationPicker, setShowLocationPicker] = useState(false);
+  const [photoCapturedAt, setPhotoCapturedAt] = useState<string | undefined>();
+  const [locationWarning, setLocationWarning] = useState("");
   const [gettingLocation, setGettingLocation] = useState(false);
   const [statusMessage, setStatusMessage] = useState("");
   const [showCamera, setShowCamera] = useState(false);
@@ -23,27 +39,30 @@ export default function CreateReportPage() {
   const [cameraReady, setCameraReady] = useState(false);
   const [detectionStatus, setDetectionStatus] = useState("Initializing camera...");
   const [detectedObjects, setDetectedObjects] = useState<string[]>([]);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
+  const [pendingPhoto, setPendingPhoto] = useState<Attachment | null>(null);
+  const [supporting, setSupporting] = useState(false);
   const videoRef = React.useRef<HTMLVideoElement>(null);
   const canvasRef = React.useRef<HTMLCanvasElement>(null);
   const detectionIntervalRef = React.useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
-    const currentUser = storageUtils.getCurrentUser();
-
-    // Allow guest reporting - don't redirect if no user
-    if (currentUser) {
-      // If logged in as staff, redirect to staff dashboard
-      if (currentUser.role === "staff") {
-        router.push("/staff-dashboard");
-        return;
+    authUtils.getCurrentUser().then((currentUser) => {
+      // Allow guest reporting - don't redirect if no user
+      if (currentUser) {
+        // If logged in as staff, redirect to staff dashboard
+        if (hasPermission(currentUser, "dashboard:staff")) {
+          router.push("/staff-dashboard");
+          return;
+        }
+        setUser(currentUser);
       }
-      setUser(currentUser);
-    }
 
-    setLoading(false);
+      setLoading(false);
 
-    // Automatically get location when page loads
-    autoGetLocation();
+      // Automatically get location when page loads
+      autoGetLocation();
+    });
   }, [router]);
 
   const autoGetLocation = async () => {
@@ -51,12 +70,24 @@ export default function CreateReportPage() {
     setStatusMessage("📍 Detecting your location...");
     try {
       const loc = await getCurrentLocation();
-      setLocation(loc);
+      // A pin placed while we were waiting wins
+      setLocation((current) =>
+        current?.source === "manual"
+          ? current
+          : {
+              latitude: loc.latitude,
+              longitude: loc.longitude,
+              address: loc.address,
+              accuracy: loc.accuracy,
+              source: "gps",
+            }
+      );
       setStatusMessage("✅ Location detected successfully!");
       setTimeout(() => setStatusMessage(""), 3000);
     } catch (error: any) {
       console.error("Location error:", error);
-      setStatusMessage("⚠️ Could not detect location automatically. You can continue without it.");
+      setShowLocationPicker(true);
+      setStatusMessage("⚠️ Could not detect location automatically. Search for the address or place the pin on the map.");
       setTimeout(() => setStatusMessage(""), 5000);
     } finally {
       setGettingLocation(false);
@@ -280,8 +311,12 @@ export default function CreateReportPage() {
         const base64 = canvas.toDataURL("image/jpeg", 0.9);
         setPhotoPreview(base64);
         stopCamera();
+        // Taken just now, so the device location is where it was taken
+        const capturedAt = new Date().toISOString();
+        setPhotoCapturedAt(capturedAt);
+        setLocationWarning("");
         // Automatically trigger AI analysis
-        analyzeAndSubmit(base64);
+        analyzeAndSubmit(base64, location, capturedAt);
       }
     }
   };
@@ -296,46 +331,154 @@ export default function CreateReportPage() {
       return;
     }
 
+    // Read before upload: the stored copy has its metadata stripped
+    const metadata = await exifUtils.readFile(file);
+
     const reader = new FileReader();
     reader.onloadend = async () => {
       const base64 = reader.result as string;
       setPhotoPreview(base64);
+      const reportLocation = await locatePhoto(metadata);
 
       // Automatically trigger AI analysis
-      await analyzeAndSubmit(base64);
+      await analyzeAndSubmit(base64, reportLocation, metadata.capturedAt);
     };
     reader.readAsDataURL(file);
   };
 
-  const analyzeAndSubmit = async (imageBase64: string) => {
+  // A photo taken earlier was taken somewhere else: its GPS position beats
+  // where the device is now, though not a pin the resident placed on purpose.
+  // A big difference is worth pointing out either way
+  const locatePhoto = async (metadata: PhotoMetadata): Promise<PickedLocation | null> => {
+    setPhotoCapturedAt(metadata.capturedAt);
+    setLocationWarning("");
+    if (!exifUtils.hasLocation(metadata)) return location;
+
+    const { latitude, longitude } = metadata;
+    const distance = location
+      ? getDistanceBetweenPoints(location.latitude, location.longitude, latitude, longitude)
+      : 0;
+    const taken = metadata.capturedAt
+      ? ` on ${new Date(metadata.capturedAt).toLocaleDateString()}`
+      : "";
+
+    if (location?.source === "manual") {
+      if (distance > PHOTO_LOCATION_WARNING_KM) {
+        setLocationWarning(
+          `⚠️ This photo was taken${taken} ${distance.toFixed(1)} km from the pin you placed. ` +
+          `The report will use your pin.`
+        );
+      }
+      return location;
+    }
+
+    const photoPlace: PickedLocation = {
+      latitude,
+      longitude,
+      address: (await lookupAddress(latitude, longitude)) || undefined,
+      source: "exif",
+    };
+    setLocation(photoPlace);
+    if (distance > PHOTO_LOCATION_WARNING_KM) {
+      setLocationWarning(
+        `⚠️ This photo was taken${taken} ${distance.toFixed(1)} km from where you are now. ` +
+        `The report will use the place where the photo was taken.`
+      );
+    }
+    return photoPlace;
+  };
+
+  const analyzeAndSubmit = async (
+    imageBase64: string,
+    reportLocation: PickedLocation | null,
+    capturedAt?: string
+  ) => {
     setAnalyzingImage(true);
     setStatusMessage("🤖 AI is analyzing your image and generating a comprehensive report...");
 
     try {
       const analysis = await analyzeImage(
         imageBase64,
-        location?.latitude,
-        location?.longitude
+        reportLocation?.latitude,
+        reportLocation?.longitude
       );
 
       setAiAnalysisResult(analysis);
-      setStatusMessage("✅ AI analysis complete! Submitting report to municipality...");
+      setStatusMessage("✅ AI analysis complete! Uploading photo...");
+
+      // The photo is stored once on the server; the report only references it,
+      // and its perceptual hash lets the duplicate check spot re-uploads
+      const photo = await attachmentUtils.upload(imageBase64, "report-photo.jpg");
+      setStatusMessage("🔁 Checking for existing reports nearby...");
+
+      // Let the resident back an existing report instead of filing a duplicate;
+      // without a location there is nothing to compare against
+      const similar = reportLocation
+        ? await storageUtils
+            .findSimilarIssues({
+              category: analysis.category,
+              latitude: reportLocation.latitude,
+              longitude: reportLocation.longitude,
+              aiAnalysis: { issueType: analysis.issueType, keywords: analysis.keywords },
+              attachments: [photo],
+            })
+            .catch((error): DuplicateMatch[] => {
+              console.error("Duplicate check failed:", error);
+              return [];
+            })
+        : [];
+      if (similar.length > 0) {
+        setDuplicates(similar);
+        setPendingPhoto(photo);
+        setStatusMessage("🔁 This problem may already have been reported");
+        setAnalyzingImage(false);
+        return;
+      }
+
+      await submitReport(photo, analysis, reportLocation, capturedAt);
+    } catch (error) {
+      console.error("Error analyzing image:", error);
+      setStatusMessage("❌ AI analysis failed. Please try again.");
+      setAnalyzingImage(false);
+      setPhotoPreview(null);
+    }
+  };
+
+  const submitReport = async (
+    photo: Attachment,
+    analysis: ImageAnalysisResult,
+    reportLocation: PickedLocation | null,
+    capturedAt?: string
+  ) => {
+    setAnalyzingImage(true);
+    setDuplicates([]);
+    try {
+      setStatusMessage("📤 Submitting report to municipality...");
 
       // Support guest reporting - use guest ID and name if not logged in
       const userId = user?.id || `guest-${Date.now()}`;
       const userName = user ? `${user.firstName} ${user.lastName}` : "Anonymous Resident";
 
       // Automatically submit the report with comprehensive AI analysis
-      const newIssue = storageUtils.addIssue({
+      const newIssue = await storageUtils.addIssue({
         userId: userId,
         userName: userName,
         title: analysis.title,
         description: analysis.description,
         category: analysis.category,
-        location: location?.address || "Location not specified",
-        latitude: location?.latitude,
-        longitude: location?.longitude,
-        photoData: imageBase64,
+        location: reportLocation?.address || "Location not specified",
+        latitude: reportLocation?.latitude,
+        longitude: reportLocation?.longitude,
+        locationSource: reportLocation?.source,
+        locationAccuracy: reportLocation?.accuracy,
+        attachments: [
+          {
+            id: photo.id,
+            latitude: reportLocation?.latitude,
+            longitude: reportLocation?.longitude,
+            capturedAt,
+          },
+        ],
         aiCategory: analysis.category,
         aiConfidence: analysis.confidence,
         status: "pending",
@@ -360,7 +503,7 @@ export default function CreateReportPage() {
 
         alert(
           `✅ Report submitted successfully!\n\n` +
-          `Case ID: ${newIssue.id.substring(0, 8).toUpperCase()}\n` +
+          `Case ID: ${caseId(newIssue.id)}\n` +
           `Issue: ${analysis.title}\n` +
           `Priority: ${analysis.priority.toUpperCase()}\n` +
           `Category: ${analysis.category}\n\n` +
@@ -377,13 +520,42 @@ export default function CreateReportPage() {
       }, 1000);
 
     } catch (error) {
-      console.error("Error analyzing image:", error);
-      setStatusMessage("❌ AI analysis failed. Please try again.");
+      console.error("Error submitting report:", error);
+      // e.g. a location outside the municipality, when such reports are refused
+      setStatusMessage(
+        error instanceof Error && error.message
+          ? `❌ ${error.message}`
+          : "❌ Report submission failed. Please try again."
+      );
       setAnalyzingImage(false);
       setPhotoPreview(null);
     }
   };
 
+  // Adds the resident (and their photo) to the existing report
+  const handleSupport = async (issue: DuplicateMatch) => {
+    if (!pendingPhoto) return;
+    setSupporting(true);
+    try {
+      await storageUtils.supportIssue(issue.id, [
+        {
+          id: pendingPhoto.id,
+          latitude: location?.latitude,
+          longitude: location?.longitude,
+          capturedAt: photoCapturedAt,
+        },
+      ]);
+      alert(
+        `👍 Thank you! You've been added to report #${caseId(issue.id)}.\n\n` +
+        `You'll be notified as the municipality works on it.`
+      );
+      router.push(`/report/${issue.id}`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Could not add your support");
+      setSupporting(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className={styles.loadingContainer}>
@@ -438,9 +610,13 @@ export default function CreateReportPage() {
 
             {location && !gettingLocation && (
               <div className={styles.locationSuccess}>
-                <span>📍 Location: {location.address || `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`}</span>
+                <span>{locationSourceLabels[location.source]}: {location.address || `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`}</span>
               </div>
             )}
+
+            {locationWarning && (
+              <div className={styles.locationWarning}>{locationWarning}</div>
+            )}
           </div>
 
           <div className={styles.heroRight}>
@@ -479,6 +655,35 @@ export default function CreateReportPage() {
         {/* Photo Upload Section */}
         {!photoPreview && !analyzingImage && !showCamera && (
           <div className={styles.uploadSection}>
+            {/* Report Location */}
+            <div className={styles.locationPicker}>
+              <div className={styles.locationPickerHeader}>
+                <h2>📍 Where is the problem?</h2>
+                <button
+                  type="button"
+                  className={styles.locationToggle}
+                  onClick={() => setShowLocationPicker(!showLocationPicker)}
+                >
+                  {showLocationPicker ? "Hide map" : location ? "Change location" : "Set location"}
+                </button>
+              </div>
+              {showLocationPicker ? (
+                <LocationPicker
+                  value={location}
+                  onChange={(picked) => {
+                    setLocation(picked);
+                    setLocationWarning("");
+                  }}
+                />
+              ) : (
+                <p className={styles.locationPickerHint}>
+                  {location
+                    ? "We'll use the location above. Reporting something you saw elsewhere? Change it here."
+                    : "No location yet. Set it on the map so the municipality can find the problem."}
+                </p>
+              )}
+            </div>
+
             <div className={styles.uploadContainer}>
               <div className={styles.uploadLeft}>
                 <div className={styles.uploadIcon}>📸</div>
@@ -657,7 +862,72 @@ export default function CreateReportPage() {
                   </div>
                 )}
 
-                {aiAnalysisResult && !analyzingImage && (
+                {aiAnalysisResult && !analyzingImage && duplicates.length > 0 && (
+                  <div className={styles.duplicateBox}>
+                    <h3>
+                      🔁 This looks like report #{caseId(duplicates[0].id)}
+                      {" "}— add your support instead?
+                    </h3>
+                    <p className={styles.duplicateHint}>
+                      Supporting an existing report adds your photo to it and keeps you
+                      updated, and helps the municipality see how many residents are affected.
+                    </p>
+                    <div className={styles.duplicateList}>
+                      {duplicates.map((issue) => (
+                        <div key={issue.id} className={styles.duplicateItem}>
+                          <div className={styles.duplicateInfo}>
+                            <strong>
+                              #{caseId(issue.id)} · {issue.title}
+                            </strong>
+                            {issue.distanceKm !== undefined && (
+                              <span>📍 {Math.round(issue.distanceKm * 1000)} m away</span>
+                            )}
+                            {issue.samePhoto && (
+                              <span className={styles.samePhoto}>
+                                📸 Same photo as this report
+                              </span>
+                            )}
+                            <span>
+                              {statusLabels[issue.status]} · Reported {new Date(issue.createdAt).toLocaleDateString()}
+                            </span>
+                          </div>
+                          {user && hasPermission(user, "issues:support") ? (
+                            <button
+                              type="button"
+                              className={styles.supportButton}
+                              onClick={() => handleSupport(issue)}
+                              disabled={supporting}
+                            >
+                              {supporting ? "⏳ Adding..." : "👍 Add My Support"}
+                            </button>
+                          ) : (
+                            <a href={`/report/${issue.id}`} className={styles.viewLink}>
+                              View report
+                            </a>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    {!user && (
+                      <p className={styles.duplicateHint}>
+                        Sign in to add your support to an existing report.
+                      </p>
+                    )}
+                    <button
+                      type="button"
+                      className={styles.newReportButton}
+                      onClick={() =>
+                        pendingPhoto &&
+                        submitReport(pendingPhoto, aiAnalysisResult, location, photoCapturedAt)
+                      }
+                      disabled={supporting}
+                    >
+                      📤 No, this is a different problem - submit a new report
+                    </button>
+                  </div>
+                )}
+
+                {aiAnalysisResult && !analyzingImage && duplicates.length === 0 && (
                   <div className={styles.resultBox}>
                     <div className={styles.resultHeader}>
                       <h3>🎉 Report Generated Successfully!</h3>
@@ -1,11 +1,44 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { storageUtils, User, Issue } from "@/app/utils/localStorage";
+import { attachmentUtils } from "@/app/utils/attachments";
+import { authUtils } from "@/app/utils/auth";
+import {
+  EMPLOYEE_AVAILABILITIES,
+  EmployeeAvailability,
+  availabilityLabels,
+} from "@/app/utils/autoAssign";
+import { exportUtils } from "@/app/utils/export";
+import { getCurrentLocation, getGoogleMapsUrl } from "@/app/utils/geoLocation";
+import {
+  findTransition,
+  getAvailableTransitions,
+  getStatusPhase,
+  statusColors,
+  statusLabels,
+} from "@/app/utils/issueWorkflow";
+import { getEffectiveRole, hasPermission } from "@/app/utils/permissions";
+import {
+  Depot,
+  ROUTE_STATUSES,
+  RouteStart,
+  formatDistance,
+  planRoute,
+  routeUtils,
+} from "@/app/utils/routePlanner";
+import CommentThread from "@/app/components/CommentThread";
+import AttachmentGallery from "@/app/components/AttachmentGallery";
+import IssueThumbnail from "@/app/components/IssueThumbnail";
+import NotificationBell from "@/app/components/NotificationBell";
+import SlaBadge from "@/app/components/SlaBadge";
 import styles from "./employee.module.css";
 
+// Start option for routes that begin wherever the employee is now
+const CURRENT_LOCATION = "current-location";
+
 export default function EmployeeDashboard() {
   const router = useRouter();
   const [user, setUser] = useState<User | null>(null);
@@ -13,31 +46,49 @@ export default function EmployeeDashboard() {
   const [assignedIssues, setAssignedIssues] = useState<Issue[]>([]);
   const [selectedIssue, setSelectedIssue] = useState<Issue | null>(null);
   const [showModal, setShowModal] = useState(false);
+  const [completionPhotos, setCompletionPhotos] = useState<File[]>([]);
   const [modalData, setModalData] = useState({
     status: "" as Issue["status"],
     staffNotes: "",
+    statusNote: "",
   });
+  const [depots, setDepots] = useState<Depot[]>([]);
+  const [routeStartId, setRouteStartId] = useState(CURRENT_LOCATION);
+  const [routeStart, setRouteStart] = useState<RouteStart | null>(null);
+  const [returnToStart, setReturnToStart] = useState(true);
+  const [planningRoute, setPlanningRoute] = useState(false);
+  const [routeError, setRouteError] = useState("");
+
+  // Re-planned whenever a job is updated, so finished stops drop out
+  const route = useMemo(
+    () => (routeStart ? planRoute(routeStart, assignedIssues, returnToStart) : null),
+    [routeStart, assignedIssues, returnToStart]
+  );
 
   useEffect(() => {
-    const currentUser = storageUtils.getCurrentUser();
-
-    if (!currentUser) {
-      router.push("/login");
-      return;
-    }
-
-    if (currentUser.role !== "employee") {
-      router.push(currentUser.role === "staff" ? "/staff-dashboard" : "/resident-dashboard");
-      return;
-    }
-
-    setUser(currentUser);
-    loadAssignedIssues(currentUser.id);
-    setLoading(false);
+    authUtils.getCurrentUser().then((currentUser) => {
+      if (!currentUser) {
+        router.push("/login");
+        return;
+      }
+
+      if (!hasPermission(currentUser, "dashboard:employee")) {
+        router.push(authUtils.getDashboardPath(currentUser));
+        return;
+      }
+
+      setUser(currentUser);
+      loadAssignedIssues(currentUser.id).finally(() => setLoading(false));
+      routeUtils.getDepots().then((configured) => {
+        setDepots(configured);
+        const depot = routeUtils.getDefaultDepot(configured, currentUser.department);
+        if (depot) setRouteStartId(depot.id);
+      });
+    });
   }, [router]);
 
-  const loadAssignedIssues = (employeeId: string) => {
-    const issues = storageUtils.getIssuesAssignedToEmployee(employeeId);
+  const loadAssignedIssues = async (employeeId: string) => {
+    const issues = await storageUtils.getIssuesAssignedToEmployee(employeeId);
     setAssignedIssues(
       issues.sort(
         (a, b) =>
@@ -46,23 +97,35 @@ export default function EmployeeDashboard() {
     );
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
     if (window.confirm("Are you sure you want to logout?")) {
-      storageUtils.logout();
+      await authUtils.logout();
       router.push("/landing");
     }
   };
 
+  // Auto-assign skips employees who are off duty and prefers available ones
+  const handleAvailabilityChange = async (availability: EmployeeAvailability) => {
+    if (!user) return;
+    try {
+      setUser(await storageUtils.setAvailability(user.id, availability));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to update availability");
+    }
+  };
+
   const handleViewIssue = (issue: Issue) => {
     setSelectedIssue(issue);
     setModalData({
       status: issue.status,
       staffNotes: issue.staffNotes || "",
+      statusNote: "",
     });
+    setCompletionPhotos([]);
     setShowModal(true);
   };
 
-  const handleUpdateIssue = () => {
+  const handleUpdateIssue = async () => {
     if (!selectedIssue || !user) return;
 
     const updates: Partial<Issue> = {
@@ -70,24 +133,73 @@ export default function EmployeeDashboard() {
       staffNotes: modalData.staffNotes,
     };
 
-    if (modalData.status === "resolved" && selectedIssue.status !== "resolved") {
-      updates.resolvedAt = new Date().toISOString();
+    const resolving = modalData.status === "awaiting-confirmation" &&
+      selectedIssue.status !== "awaiting-confirmation";
+    if (
+      resolving &&
+      completionPhotos.length === 0 &&
+      !window.confirm("Mark resolved without a completion photo? Residents are asked to confirm the fix from the photos.")
+    ) {
+      return;
     }
 
-    storageUtils.updateIssue(
-      selectedIssue.id,
-      updates,
-      `${user.firstName} ${user.lastName}`,
-      `Status updated by employee`
-    );
+    try {
+      // Photos go up first so the reporter sees them with the resolution notice
+      if (resolving && completionPhotos.length > 0) {
+        await attachmentUtils.addPhotos(selectedIssue.id, completionPhotos, "completion");
+      }
+      await storageUtils.updateIssue(
+        selectedIssue.id,
+        updates,
+        modalData.statusNote.trim() || undefined
+      );
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to update issue");
+      return;
+    }
 
     if (user) {
-      loadAssignedIssues(user.id);
+      await loadAssignedIssues(user.id);
     }
     setShowModal(false);
     setSelectedIssue(null);
   };
 
+  const handlePlanRoute = async () => {
+    setRouteError("");
+    if (routeStartId !== CURRENT_LOCATION) {
+      const depot = depots.find((d) => d.id === routeStartId);
+      if (depot) setRouteStart(depot);
+      return;
+    }
+
+    setPlanningRoute(true);
+    try {
+      const location = await getCurrentLocation();
+      setRouteStart({
+        name: "My location",
+        latitude: location.latitude,
+        longitude: location.longitude,
+      });
+    } catch (error) {
+      setRouteError(
+        (error as { message?: string }).message || "Could not get your location to start the route"
+      );
+    } finally {
+      setPlanningRoute(false);
+    }
+  };
+
+  const handleExportRoute = () => {
+    if (!route || !user) return;
+    const date = new Date().toISOString().split("T")[0];
+    exportUtils.downloadGPX(
+      route,
+      `route_${date}.gpx`,
+      `${user.firstName} ${user.lastName} - ${date}`
+    );
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString("en-ZA", {
@@ -99,20 +211,8 @@ export default function EmployeeDashboard() {
     });
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case "pending":
-        return "#f59f00";
-      case "in-progress":
-        return "#339af0";
-      case "resolved":
-        return "#40c057";
-      case "rejected":
-        return "#fa5252";
-      default:
-        return "#868e96";
-    }
-  };
+  const getStatusColor = (status: Issue["status"]) =>
+    statusColors[status] || "#868e96";
 
   const getPriorityColor = (priority: string) => {
     switch (priority) {
@@ -131,9 +231,12 @@ export default function EmployeeDashboard() {
 
   const stats = {
     total: assignedIssues.length,
-    pending: assignedIssues.filter((i) => i.status === "pending").length,
+    pending: assignedIssues.filter(
+      (i) => i.status === "assigned" || i.status === "reopened"
+    ).length,
     inProgress: assignedIssues.filter((i) => i.status === "in-progress").length,
-    resolved: assignedIssues.filter((i) => i.status === "resolved").length,
+    resolved: assignedIssues.filter((i) => getStatusPhase(i.status) === "resolved")
+      .length,
   };
 
   if (loading) {
@@ -174,6 +277,19 @@ export default function EmployeeDashboard() {
             <span className={styles.userName}>
               {user?.firstName} {user?.lastName}
             </span>
+            <select
+              className={styles.availabilitySelect}
+              aria-label="Availability"
+              value={user?.availability || "available"}
+              onChange={(e) => handleAvailabilityChange(e.target.value as EmployeeAvailability)}
+            >
+              {EMPLOYEE_AVAILABILITIES.map((availability) => (
+                <option key={availability} value={availability}>
+                  {availabilityLabels[availability]}
+                </option>
+              ))}
+            </select>
+            <NotificationBell />
             <button onClick={handleLogout} className={styles.logoutButton} type="button">
               Logout
             </button>
@@ -233,6 +349,140 @@ export default function EmployeeDashboard() {
           </div>
         </div>
 
+        {/* Route Planner */}
+        <div className={styles.routeSection}>
+          <h2 className={styles.sectionTitle}>🗺️ Today&apos;s Route</h2>
+
+          <div className={styles.routeControls}>
+            <div className={styles.formGroup}>
+              <label className={styles.label}>Start from</label>
+              <select
+                className={styles.select}
+                value={routeStartId}
+                onChange={(e) => setRouteStartId(e.target.value)}
+              >
+                {depots.map((depot) => (
+                  <option key={depot.id} value={depot.id}>
+                    🏢 {depot.name}
+                  </option>
+                ))}
+                <option value={CURRENT_LOCATION}>📡 My current location</option>
+              </select>
+            </div>
+            <label className={styles.routeCheckbox}>
+              <input
+                type="checkbox"
+                checked={returnToStart}
+                onChange={(e) => setReturnToStart(e.target.checked)}
+              />
+              Return to start
+            </label>
+            <button
+              className={styles.routeButton}
+              onClick={handlePlanRoute}
+              disabled={planningRoute}
+              type="button"
+            >
+              {planningRoute ? "Locating..." : route ? "🔄 Re-plan Route" : "🧭 Plan Route"}
+            </button>
+          </div>
+
+          {routeError && <p className={styles.routeError}>❌ {routeError}</p>}
+
+          {route && (
+            <>
+              <div className={styles.routeSummary}>
+                <span>
+                  {route.stops.length} stop{route.stops.length === 1 ? "" : "s"} ·{" "}
+                  {formatDistance(route.totalKm)} in a straight line
+                </span>
+                {route.stops.length > 0 && (
+                  <button className={styles.routeButton} onClick={handleExportRoute} type="button">
+                    ⬇️ Export GPX
+                  </button>
+                )}
+              </div>
+
+              {route.stops.length === 0 ? (
+                <p className={styles.routeHint}>No open jobs with a map location to visit.</p>
+              ) : (
+                <ol className={styles.itinerary}>
+                  <li className={styles.itineraryStop}>
+                    <span className={styles.stopNumber}>🏁</span>
+                    <div className={styles.stopDetails}>
+                      <div className={styles.stopTitle}>{route.start.name}</div>
+                      <div className={styles.stopLocation}>Start</div>
+                    </div>
+                  </li>
+                  {route.stops.map((stop, index) => (
+                    <li key={stop.issue.id} className={styles.itineraryStop}>
+                      <span className={styles.stopNumber}>{index + 1}</span>
+                      <div className={styles.stopDetails}>
+                        <div className={styles.stopTitle}>
+                          {stop.issue.title}{" "}
+                          <span
+                            className={styles.priorityBadge}
+                            style={{ background: getPriorityColor(stop.issue.priority) }}
+                          >
+                            {stop.issue.priority}
+                          </span>
+                        </div>
+                        <div className={styles.stopLocation}>📍 {stop.issue.location}</div>
+                      </div>
+                      <div className={styles.stopDistance}>
+                        <div>+{formatDistance(stop.legKm)}</div>
+                        <div>{formatDistance(stop.distanceKm)} total</div>
+                      </div>
+                      <div className={styles.stopActions}>
+                        <a
+                          className={styles.stopLink}
+                          href={getGoogleMapsUrl(stop.issue.latitude!, stop.issue.longitude!)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          🧭 Map
+                        </a>
+                        <button
+                          className={styles.stopLink}
+                          onClick={() => handleViewIssue(stop.issue)}
+                          type="button"
+                        >
+                          View
+                        </button>
+                      </div>
+                    </li>
+                  ))}
+                  {route.returnKm !== undefined && (
+                    <li className={styles.itineraryStop}>
+                      <span className={styles.stopNumber}>🏁</span>
+                      <div className={styles.stopDetails}>
+                        <div className={styles.stopTitle}>{route.start.name}</div>
+                        <div className={styles.stopLocation}>Back to start</div>
+                      </div>
+                      <div className={styles.stopDistance}>
+                        <div>+{formatDistance(route.returnKm)}</div>
+                        <div>{formatDistance(route.totalKm)} total</div>
+                      </div>
+                    </li>
+                  )}
+                </ol>
+              )}
+
+              {route.skipped.length > 0 && (
+                <p className={styles.routeHint}>
+                  ⚠️ Not on the route because they have no map location:{" "}
+                  {route.skipped.map((issue) => issue.title).join(", ")}
+                </p>
+              )}
+              <p className={styles.routeHint}>
+                Urgent and high priority jobs come first unless a lower priority job is
+                much closer. Only {ROUTE_STATUSES.map((s) => statusLabels[s]).join(", ")} jobs
+                are included.
+              </p>
+            </>
+          )}
+        </div>
+
         {/* Issues List */}
         <div className={styles.issuesSection}>
           <h2 className={styles.sectionTitle}>Assigned Issues</h2>
@@ -254,7 +504,7 @@ export default function EmployeeDashboard() {
                         className={styles.statusBadge}
                         style={{ background: getStatusColor(issue.status) }}
                       >
-                        {issue.status}
+                        {statusLabels[issue.status]}
                       </span>
                       <span
                         className={styles.priorityBadge}
@@ -262,9 +512,12 @@ export default function EmployeeDashboard() {
                       >
                         {issue.priority}
                       </span>
+                      <SlaBadge issue={issue} showDeadline />
                     </div>
                   </div>
 
+                  <IssueThumbnail issue={issue} />
+
                   <div className={styles.issueDetails}>
                     <div className={styles.detailItem}>
                       <span className={styles.detailIcon}>📍</span>
@@ -318,15 +571,11 @@ export default function EmployeeDashboard() {
                 <h3>{selectedIssue.title}</h3>
                 <p>{selectedIssue.description}</p>
 
-                {selectedIssue.photoData && (
-                  <div className={styles.photoPreview}>
-                    <img
-                      src={selectedIssue.photoData}
-                      alt="Issue"
-                      className={styles.issuePhoto}
-                    />
-                  </div>
-                )}
+                <AttachmentGallery
+                  issue={selectedIssue}
+                  uploadRole="progress"
+                  onChange={setSelectedIssue}
+                />
               </div>
 
               {/* Resident Confirmation/Rejection Status */}
@@ -423,12 +672,61 @@ export default function EmployeeDashboard() {
                     }))
                   }
                 >
-                  <option value="pending">Pending</option>
-                  <option value="in-progress">In Progress</option>
-                  <option value="resolved">Resolved</option>
+                  <option value={selectedIssue.status}>
+                    {statusLabels[selectedIssue.status]}
+                  </option>
+                  {user &&
+                    getAvailableTransitions(selectedIssue, {
+                      id: user.id,
+                      role: getEffectiveRole(user),
+                    }).map((transition) => (
+                      <option key={transition.to} value={transition.to}>
+                        {transition.action} → {statusLabels[transition.to]}
+                      </option>
+                    ))}
                 </select>
               </div>
 
+              {modalData.status !== selectedIssue.status && (
+                <div className={styles.formGroup}>
+                  <label className={styles.label}>
+                    Status Change Note
+                    {findTransition(selectedIssue.status, modalData.status)
+                      ?.requiresNote && " (required)"}
+                  </label>
+                  <textarea
+                    className={styles.textarea}
+                    value={modalData.statusNote}
+                    onChange={(e) =>
+                      setModalData((prev) => ({
+                        ...prev,
+                        statusNote: e.target.value,
+                      }))
+                    }
+                    placeholder="Describe what was done - shared with the reporter..."
+                    rows={2}
+                  />
+                </div>
+              )}
+
+              {modalData.status === "awaiting-confirmation" &&
+                selectedIssue.status !== "awaiting-confirmation" && (
+                  <div className={styles.formGroup}>
+                    <label className={styles.label}>✅ Completion Photos</label>
+                    <input
+                      type="file"
+                      accept="image/jpeg,image/png,image/webp"
+                      multiple
+                      onChange={(e) => setCompletionPhotos(Array.from(e.target.files || []))}
+                    />
+                    {completionPhotos.length > 0 && (
+                      <p className={styles.photoHint}>
+                        {completionPhotos.length} photo(s) will be added when you update the status
+                      </p>
+                    )}
+                  </div>
+                )}
+
               <div className={styles.formGroup}>
                 <label className={styles.label}>Work Notes</label>
                 <textarea
@@ -444,6 +742,8 @@ export default function EmployeeDashboard() {
                   rows={4}
                 />
               </div>
+
+              <CommentThread issue={selectedIssue} user={user} />
             </div>
 
             <div className={styles.modalFooter}>
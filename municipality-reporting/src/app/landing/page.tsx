@@ -4,7 +4,7 @@ import React, { useState, useEffect } from "react";
 import Link from "next/link";
 import Image from "next/image";
 import styles from "./landing.module.css";
-import { storageUtils } from "@/app/utils/localStorage";
+import { authUtils } from "@/app/utils/auth";
 
 export default function LandingPage() {
   const [isLoggedIn, setIsLoggedIn] = useState(false);
@@ -13,12 +13,12 @@ export default function LandingPage() {
 
   useEffect(() => {
     setMounted(true);
-    const user = storageUtils.getCurrentUser();
-    const loggedIn = !!user;
-    setIsLoggedIn(loggedIn);
-    if (user) {
-      setDashboardPath(user.role === "staff" ? "/staff-dashboard" : "/resident-dashboard");
-    }
+    authUtils.getCurrentUser().then((user) => {
+      setIsLoggedIn(!!user);
+      if (user) {
+        setDashboardPath(authUtils.getDashboardPath(user));
+      }
+    });
   }, []);
 
   return (
@@ -5,7 +5,7 @@ import Link from "next/link";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
 import styles from "./login.module.css";
-import { storageUtils } from "@/app/utils/localStorage";
+import { authUtils } from "@/app/utils/auth";
 
 export default function LoginPage() {
   const router = useRouter();
@@ -55,30 +55,29 @@ export default function LoginPage() {
     return !newErrors.email && !newErrors.password;
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!validateForm()) {
       return;
     }
 
-    // Validate credentials
-    const user = storageUtils.validateLogin(formData.email, formData.password);
-
-    if (user) {
-      storageUtils.setCurrentUser(user);
+    // Validate credentials - the server sets the session cookie on success
+    try {
+      const user = await authUtils.login(
+        formData.email,
+        formData.password,
+        formData.rememberMe
+      );
       // Redirect to appropriate dashboard based on role
-      let dashboardPath = "/resident-dashboard";
-      if (user.role === "staff") {
-        dashboardPath = "/staff-dashboard";
-      } else if (user.role === "employee") {
-        dashboardPath = "/employee-dashboard";
-      }
-      router.push(dashboardPath);
-    } else {
+      router.push(authUtils.getDashboardPath(user));
+    } catch (error) {
       setErrors((prev) => ({
         ...prev,
-        general: "Invalid email or password. Please try again.",
+        general:
+          error instanceof Error && error.message !== "Invalid email or password"
+            ? error.message
+            : "Invalid email or password. Please try again.",
       }));
     }
   };
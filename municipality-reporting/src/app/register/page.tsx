@@ -5,7 +5,8 @@ import Link from "next/link";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
 import styles from "./register.module.css";
-import { storageUtils } from "@/app/utils/localStorage";
+import { User } from "@/app/utils/localStorage";
+import { authUtils } from "@/app/utils/auth";
 
 export default function RegisterPage() {
   const router = useRouter();
@@ -94,8 +95,6 @@ export default function RegisterPage() {
       newErrors.email = "Email is required";
     } else if (!/\S+@\S+\.\S+/.test(formData.email)) {
       newErrors.email = "Please enter a valid email address";
-    } else if (storageUtils.emailExists(formData.email)) {
-      newErrors.email = "This email is already registered";
     }
 
     // Password validation
@@ -121,34 +120,44 @@ export default function RegisterPage() {
     return Object.values(newErrors).every((error) => error === "");
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!validateForm()) {
       return;
     }
 
-    // Register user
-    const newUser = storageUtils.addUser({
-      firstName: formData.firstName,
-      lastName: formData.lastName,
-      email: formData.email,
-      password: formData.password,
-      role: formData.role,
-      department: formData.role === "employee" ? formData.department : undefined,
-    });
+    // Register user (the server rejects emails that are already registered
+    // and signs the new account in)
+    let newUser: User;
+    try {
+      newUser = await authUtils.register({
+        firstName: formData.firstName,
+        lastName: formData.lastName,
+        email: formData.email,
+        password: formData.password,
+        role: formData.role,
+        department: formData.role === "employee" ? formData.department : undefined,
+      });
+    } catch (error) {
+      setErrors((prev) => ({
+        ...prev,
+        email: error instanceof Error ? error.message : "Registration failed",
+      }));
+      return;
+    }
 
-    // Auto-login after registration
-    storageUtils.setCurrentUser(newUser);
+    // Staff and employee accounts need an administrator's approval first
+    if (newUser.status === "pending") {
+      alert(
+        "Your account has been created and is awaiting approval by a municipality administrator. You will be able to sign in once it is approved."
+      );
+      router.push("/login");
+      return;
+    }
 
     // Redirect to appropriate dashboard based on role
-    let dashboardPath = "/resident-dashboard";
-    if (newUser.role === "staff") {
-      dashboardPath = "/staff-dashboard";
-    } else if (newUser.role === "employee") {
-      dashboardPath = "/employee-dashboard";
-    }
-    router.push(dashboardPath);
+    router.push(authUtils.getDashboardPath(newUser));
   };
 
   return (
@@ -287,7 +296,9 @@ export default function RegisterPage() {
                   marginTop: "0.5rem",
                 }}
               >
-                Choose your role to access the appropriate dashboard
+                Choose your role to access the appropriate dashboard. Employee
+                and staff accounts must be approved by an administrator before
+                you can sign in.
               </p>
             </div>
 
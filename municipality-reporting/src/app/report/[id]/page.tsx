@@ -3,17 +3,44 @@
 import React, { useState, useEffect } from "react";
 import { useRouter, useParams } from "next/navigation";
 import Image from "next/image";
-import { storageUtils, Issue } from "@/app/utils/localStorage";
+import { storageUtils, Issue, User } from "@/app/utils/localStorage";
+import { attachmentUtils } from "@/app/utils/attachments";
+import { authUtils } from "@/app/utils/auth";
+import { describeLocationSource, lookupAddress } from "@/app/utils/geoLocation";
+import {
+  StatusPhase,
+  caseId,
+  getIssueParties,
+  getStatusPhase,
+  statusLabels,
+} from "@/app/utils/issueWorkflow";
+import { getEffectiveRole } from "@/app/utils/permissions";
+import AttachmentGallery from "@/app/components/AttachmentGallery";
+import BeforeAfterPhotos from "@/app/components/BeforeAfterPhotos";
+import CommentThread from "@/app/components/CommentThread";
 import styles from "./report.module.css";
 
+const phaseBadges: Record<StatusPhase, string> = {
+  open: styles.statusPending,
+  active: styles.statusInprogress,
+  resolved: styles.statusResolved,
+  rejected: styles.statusRejected,
+  merged: styles.statusMerged,
+};
+
 export default function ReportPage() {
   const router = useRouter();
   const params = useParams();
   const [issue, setIssue] = useState<Issue | null>(null);
+  const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [downloading, setDownloading] = useState(false);
   const [address, setAddress] = useState<string>("");
 
+  useEffect(() => {
+    authUtils.getCurrentUser().then(setUser);
+  }, []);
+
   useEffect(() => {
     const issueId = params.id as string;
     if (!issueId) {
@@ -21,43 +48,25 @@ export default function ReportPage() {
       return;
     }
 
-    const issues = storageUtils.getIssues();
-    const foundIssue = issues.find((i) => i.id === issueId);
-
-    if (!foundIssue) {
-      router.push("/resident-dashboard");
-      return;
-    }
+    storageUtils.getIssueById(issueId).then((foundIssue) => {
+      if (!foundIssue) {
+        router.push("/resident-dashboard");
+        return;
+      }
 
-    setIssue(foundIssue);
-    setLoading(false);
+      setIssue(foundIssue);
+      setLoading(false);
 
-    // Fetch address from coordinates if available
-    if (foundIssue.latitude && foundIssue.longitude) {
-      fetchAddress(foundIssue.latitude, foundIssue.longitude);
-    }
+      // Fetch address from coordinates if available
+      if (foundIssue.latitude && foundIssue.longitude) {
+        fetchAddress(foundIssue.latitude, foundIssue.longitude);
+      }
+    });
   }, [params.id, router]);
 
   const fetchAddress = async (lat: number, lon: number) => {
-    try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lon}&zoom=18&addressdetails=1`
-      );
-      const data = await response.json();
-
-      if (data.address) {
-        const parts = [];
-        if (data.address.road) parts.push(data.address.road);
-        if (data.address.suburb) parts.push(data.address.suburb);
-        if (data.address.city || data.address.town) parts.push(data.address.city || data.address.town);
-        if (data.address.state) parts.push(data.address.state);
-        if (data.address.postcode) parts.push(data.address.postcode);
-
-        setAddress(parts.join(", ") || data.display_name);
-      }
-    } catch (error) {
-      console.error("Error fetching address:", error);
-    }
+    const found = await lookupAddress(lat, lon);
+    if (found) setAddress(found);
   };
 
   const downloadPDF = async () => {
@@ -105,9 +114,9 @@ export default function ReportPage() {
       yPos = 50;
       doc.setTextColor(0, 0, 0);
 
-      addText(`Report ID: ${issue.id.substring(0, 8).toUpperCase()}`, 10, true);
+      addText(`Report ID: ${caseId(issue.id)}`, 10, true);
       addText(`Generated: ${new Date(issue.createdAt).toLocaleString()}`, 10);
-      addText(`Status: ${issue.status.toUpperCase()}`, 10);
+      addText(`Status: ${issue.status.replace(/-/g, " ").toUpperCase()}`, 10);
       addText(`Priority: ${issue.priority.toUpperCase()}`, 10, true, [220, 53, 69]);
       yPos += 5;
 
@@ -168,6 +177,16 @@ export default function ReportPage() {
 
   if (!issue) return null;
 
+  // Reporters add more report photos; assignees and staff document the work
+  const parties = user
+    ? getIssueParties({ id: user.id, role: getEffectiveRole(user) }, issue)
+    : [];
+  const uploadRole = parties.includes("assignee") || parties.includes("staff")
+    ? "progress"
+    : parties.includes("reporter")
+      ? "report"
+      : undefined;
+
   return (
     <div className={styles.container}>
       {/* Header */}
@@ -205,10 +224,10 @@ export default function ReportPage() {
             <h1 className={styles.title}>{issue.title}</h1>
             <div className={styles.metadata}>
               <span className={styles.reportId}>
-                Report ID: <strong>{issue.id.substring(0, 8).toUpperCase()}</strong>
+                Report ID: <strong>{caseId(issue.id)}</strong>
               </span>
-              <span className={`${styles.status} ${styles[`status${issue.status.charAt(0).toUpperCase() + issue.status.slice(1).replace("-", "")}`]}`}>
-                {issue.status.toUpperCase()}
+              <span className={`${styles.status} ${phaseBadges[getStatusPhase(issue.status)]}`}>
+                {statusLabels[issue.status]}
               </span>
               <span className={`${styles.priority} ${styles[`priority${issue.priority.charAt(0).toUpperCase() + issue.priority.slice(1)}`]}`}>
                 {issue.priority.toUpperCase()} PRIORITY
@@ -217,15 +236,46 @@ export default function ReportPage() {
             <div className={styles.timestamps}>
               <div>📅 Reported: {new Date(issue.createdAt).toLocaleString()}</div>
               <div>🔄 Updated: {new Date(issue.updatedAt).toLocaleString()}</div>
+              {issue.parentIssueId && (
+                <div>
+                  🔗 Merged into{" "}
+                  <a href={`/report/${issue.parentIssueId}`}>
+                    #{caseId(issue.parentIssueId)}
+                  </a>{" "}
+                  - follow that report for updates
+                </div>
+              )}
+              {!!issue.mergedIssueIds?.length && (
+                <div>
+                  🔗 Merged reports:{" "}
+                  {issue.mergedIssueIds.map((id, i) => (
+                    <React.Fragment key={id}>
+                      {i > 0 && ", "}
+                      <a href={`/report/${id}`}>#{caseId(id)}</a>
+                    </React.Fragment>
+                  ))}
+                </div>
+              )}
+              {!!issue.coReporters?.length && (
+                <div>👥 Also reported by {issue.coReporters.length} other resident{issue.coReporters.length > 1 ? "s" : ""}</div>
+              )}
             </div>
           </div>
           <div className={styles.heroRight}>
-            {issue.photoData && (
-              <img
-                src={issue.photoData}
-                alt="Issue evidence"
-                className={styles.heroImage}
-              />
+            {attachmentUtils.hasPhoto(issue) && (
+              // The thumbnail shows straight away while the full image loads
+              <a href={attachmentUtils.getPhotoUrl(issue, "full")!} target="_blank" rel="noreferrer">
+                <img
+                  src={attachmentUtils.getPhotoUrl(issue, "full")!}
+                  alt="Issue evidence"
+                  loading="lazy"
+                  decoding="async"
+                  className={styles.heroImage}
+                  style={{
+                    backgroundImage: `url(${attachmentUtils.getPhotoUrl(issue, "thumbnail")})`,
+                  }}
+                />
+              </a>
             )}
           </div>
         </div>
@@ -240,6 +290,17 @@ export default function ReportPage() {
               <p className={styles.cardText}>{issue.description}</p>
             </div>
 
+            {/* Photos Card */}
+            <div className={styles.card}>
+              <h2 className={styles.cardTitle}>📸 Photo Evidence</h2>
+              {issue.status === "awaiting-confirmation" && <BeforeAfterPhotos issue={issue} />}
+              <AttachmentGallery
+                issue={issue}
+                uploadRole={uploadRole}
+                onChange={setIssue}
+              />
+            </div>
+
             {/* Classification Card */}
             <div className={styles.card}>
               <h2 className={styles.cardTitle}>🏷️ Classification</h2>
@@ -280,6 +341,9 @@ export default function ReportPage() {
                   <p className={styles.coordinates}>
                     Coordinates: {issue.latitude.toFixed(6)}, {issue.longitude.toFixed(6)}
                   </p>
+                  {issue.locationSource && (
+                    <p className={styles.coordinates}>Source: {describeLocationSource(issue)}</p>
+                  )}
                   <a
                     href={`https://www.google.com/maps?q=${issue.latitude},${issue.longitude}`}
                     target="_blank"
@@ -433,6 +497,9 @@ export default function ReportPage() {
             )}
           </div>
         </div>
+
+        {/* Conversation */}
+        <CommentThread issue={issue} user={user} />
       </main>
 
       {/* Footer */}
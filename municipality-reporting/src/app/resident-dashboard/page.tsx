@@ -5,9 +5,15 @@ import Image from "next/image";
 import { useRouter } from "next/navigation";
 import styles from "./resident.module.css";
 import { storageUtils, User, Issue } from "@/app/utils/localStorage";
+import { authUtils } from "@/app/utils/auth";
+import { hasPermission } from "@/app/utils/permissions";
+import { StatusPhase, getStatusPhase, statusLabels } from "@/app/utils/issueWorkflow";
 import { analyticsUtils } from "@/app/utils/analytics";
 import SmartInsights from "@/app/components/SmartInsights";
 import StatsCard from "@/app/components/StatsCard";
+import BeforeAfterPhotos from "@/app/components/BeforeAfterPhotos";
+import IssueThumbnail from "@/app/components/IssueThumbnail";
+import NotificationBell from "@/app/components/NotificationBell";
 
 export default function ResidentDashboard() {
   const router = useRouter();
@@ -20,25 +26,24 @@ export default function ResidentDashboard() {
   const [feedback, setFeedback] = useState("");
 
   useEffect(() => {
-    const currentUser = storageUtils.getCurrentUser();
-
-    if (!currentUser) {
-      router.push("/login");
-      return;
-    }
-
-    if (currentUser.role !== "resident") {
-      router.push("/staff-dashboard");
-      return;
-    }
-
-    setUser(currentUser);
-    loadMyIssues(currentUser.id);
-    setLoading(false);
+    authUtils.getCurrentUser().then((currentUser) => {
+      if (!currentUser) {
+        router.push("/login");
+        return;
+      }
+
+      if (!hasPermission(currentUser, "dashboard:resident")) {
+        router.push(authUtils.getDashboardPath(currentUser));
+        return;
+      }
+
+      setUser(currentUser);
+      loadMyIssues(currentUser.id).finally(() => setLoading(false));
+    });
   }, [router]);
 
-  const loadMyIssues = (userId: string) => {
-    const issues = storageUtils.getIssuesByUser(userId);
+  const loadMyIssues = async (userId: string) => {
+    const issues = await storageUtils.getIssuesByUser(userId);
     setMyIssues(
       issues.sort(
         (a, b) =>
@@ -47,11 +52,11 @@ export default function ResidentDashboard() {
     );
 
     // Load analytics
-    const summary = analyticsUtils.getAnalyticsSummary(userId);
+    const summary = analyticsUtils.getAnalyticsSummary(issues);
     setAnalyticsSummary(summary);
   };
 
-  const handleConfirmResolution = (issue: Issue) => {
+  const handleConfirmResolution = async (issue: Issue) => {
     if (!user) return;
 
     const confirmed = window.confirm(
@@ -59,11 +64,8 @@ export default function ResidentDashboard() {
     );
 
     if (confirmed) {
-      storageUtils.confirmResolution(
-        issue.id,
-        `${user.firstName} ${user.lastName}`
-      );
-      loadMyIssues(user.id);
+      await storageUtils.confirmResolution(issue.id);
+      await loadMyIssues(user.id);
       alert("Thank you for confirming! Your feedback helps us improve our services.");
     }
   };
@@ -73,7 +75,7 @@ export default function ResidentDashboard() {
     setShowFeedbackModal(true);
   };
 
-  const handleSubmitFeedback = () => {
+  const handleSubmitFeedback = async () => {
     if (!user || !selectedIssue) return;
 
     if (!feedback.trim()) {
@@ -81,13 +83,9 @@ export default function ResidentDashboard() {
       return;
     }
 
-    storageUtils.rejectResolution(
-      selectedIssue.id,
-      `${user.firstName} ${user.lastName}`,
-      feedback
-    );
+    await storageUtils.rejectResolution(selectedIssue.id, feedback);
 
-    loadMyIssues(user.id);
+    await loadMyIssues(user.id);
     setShowFeedbackModal(false);
     setSelectedIssue(null);
     setFeedback("");
@@ -96,9 +94,9 @@ export default function ResidentDashboard() {
     );
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
     if (window.confirm("Are you sure you want to logout?")) {
-      storageUtils.logout();
+      await authUtils.logout();
       router.push("/landing");
     }
   };
@@ -116,8 +114,16 @@ export default function ResidentDashboard() {
     });
   };
 
-  const getStatusCount = (status: Issue["status"]) => {
-    return myIssues.filter((issue) => issue.status === status).length;
+  const getStatusCount = (phase: StatusPhase) => {
+    return myIssues.filter((issue) => getStatusPhase(issue.status) === phase).length;
+  };
+
+  const phaseBadges: Record<StatusPhase, string> = {
+    open: styles.statusPending,
+    active: styles.statusInprogress,
+    resolved: styles.statusResolved,
+    rejected: styles.statusRejected,
+    merged: styles.statusMerged,
   };
 
   if (loading) {
@@ -175,6 +181,7 @@ export default function ResidentDashboard() {
                 <span className={styles.userRole}>Resident</span>
               </div>
             </div>
+            <NotificationBell />
             <button onClick={handleLogout} className={styles.logoutButton}>
               Logout
             </button>
@@ -208,14 +215,14 @@ export default function ResidentDashboard() {
           <StatsCard
             icon="⏳"
             title="Pending"
-            value={getStatusCount("pending")}
+            value={getStatusCount("open")}
             subtitle="Awaiting review"
             color="orange"
           />
           <StatsCard
             icon="🔧"
             title="In Progress"
-            value={getStatusCount("in-progress")}
+            value={getStatusCount("active")}
             subtitle="Being addressed"
             color="blue"
           />
@@ -298,15 +305,10 @@ export default function ResidentDashboard() {
                       <div className={styles.issueMeta}>
                         <span
                           className={`${styles.statusBadge} ${
-                            styles[
-                              `status${
-                                issue.status.charAt(0).toUpperCase() +
-                                issue.status.slice(1).replace("-", "")
-                              }`
-                            ]
+                            phaseBadges[getStatusPhase(issue.status)]
                           }`}
                         >
-                          {issue.status}
+                          {statusLabels[issue.status]}
                         </span>
                         <span
                           className={`${styles.priorityBadge} ${
@@ -323,6 +325,8 @@ export default function ResidentDashboard() {
                       </div>
                     </div>
                   </div>
+                  <IssueThumbnail issue={issue} />
+
                   <p className={styles.issueDescription}>{issue.description}</p>
                   <div className={styles.issueDetails}>
                     <div className={styles.detailItem}>
@@ -350,28 +354,13 @@ export default function ResidentDashboard() {
                       </span>
                     </div>
                   </div>
-                  {issue.staffNotes && (
-                    <div
-                      style={{
-                        marginTop: "1rem",
-                        padding: "1rem",
-                        background: "#e9ecef",
-                        borderRadius: "8px",
-                      }}
-                    >
-                      <span className={styles.detailLabel}>Staff Notes:</span>
-                      <p style={{ marginTop: "0.5rem", color: "#666" }}>
-                        {issue.staffNotes}
-                      </p>
-                    </div>
-                  )}
-
-                  {/* Resolution Confirmation */}
-                  {issue.status === "resolved" && !issue.residentConfirmed && (
+                  {/* Resolution Confirmation - co-reporters follow along, the reporter decides */}
+                  {issue.status === "awaiting-confirmation" && issue.userId === user?.id && (
                     <div className={styles.confirmationSection}>
                       <p className={styles.confirmationText}>
                         ✅ This issue has been marked as resolved. Can you confirm?
                       </p>
+                      <BeforeAfterPhotos issue={issue} />
                       <div className={styles.confirmationButtons}>
                         <button
                           onClick={() => handleConfirmResolution(issue)}
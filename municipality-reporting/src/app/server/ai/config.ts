@@ -0,0 +1,105 @@
+// server/ai/config.ts
+// AI settings are read from the server environment only, so the API key
+// never ends up in a client bundle.
+import { AIConfigError } from "./errors";
+
+export type AIProviderName = "gemini" | "mock";
+
+export type AITask = "analysis" | "detection" | "categorization" | "verification";
+
+export interface GenerationParams {
+  temperature: number;
+  topK: number;
+  topP: number;
+  maxOutputTokens: number;
+}
+
+export interface GeminiConfig {
+  apiKey: string;
+  model: string;
+  apiUrl: string;
+  generation: Record<AITask, GenerationParams>;
+}
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+const DEFAULT_API_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+const defaultGeneration: Record<AITask, GenerationParams> = {
+  analysis: { temperature: 0.4, topK: 32, topP: 1, maxOutputTokens: 4096 },
+  detection: { temperature: 0.3, topK: 20, topP: 0.8, maxOutputTokens: 100 },
+  categorization: {
+    temperature: 0.2,
+    topK: 1,
+    topP: 0.8,
+    maxOutputTokens: 200,
+  },
+  verification: { temperature: 0.1, topK: 1, topP: 0.8, maxOutputTokens: 300 },
+};
+
+const readNumber = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new AIConfigError(`${name} must be a number, got "${raw}"`);
+  }
+  return value;
+};
+
+// Per-task overrides, e.g. GEMINI_ANALYSIS_TEMPERATURE=0.2
+const readGeneration = (task: AITask): GenerationParams => {
+  const prefix = `GEMINI_${task.toUpperCase()}_`;
+  const defaults = defaultGeneration[task];
+  return {
+    temperature: readNumber(`${prefix}TEMPERATURE`, defaults.temperature),
+    topK: readNumber(`${prefix}TOP_K`, defaults.topK),
+    topP: readNumber(`${prefix}TOP_P`, defaults.topP),
+    maxOutputTokens: readNumber(
+      `${prefix}MAX_OUTPUT_TOKENS`,
+      defaults.maxOutputTokens
+    ),
+  };
+};
+
+// AI_PROVIDER selects the backend: "gemini" (default) calls the Gemini API,
+// "mock" returns canned fixtures and never touches the network
+export function getAIProviderName(): AIProviderName {
+  const name = process.env.AI_PROVIDER?.trim() || "gemini";
+  if (name !== "gemini" && name !== "mock") {
+    throw new AIConfigError(
+      `Unknown AI_PROVIDER "${name}" - expected "gemini" or "mock"`
+    );
+  }
+  return name;
+}
+
+let cachedConfig: GeminiConfig | null = null;
+
+// Reads and validates the Gemini configuration, throwing AIConfigError if unusable
+export function getGeminiConfig(): GeminiConfig {
+  if (cachedConfig) return cachedConfig;
+
+  const apiKey = process.env.GEMINI_API_KEY?.trim();
+  if (!apiKey) {
+    throw new AIConfigError(
+      "GEMINI_API_KEY is not set. Add it to .env.local (or the server environment) to enable image analysis, object detection and AI categorization, or set AI_PROVIDER=mock to run without it."
+    );
+  }
+
+  cachedConfig = {
+    apiKey,
+    model: process.env.GEMINI_MODEL?.trim() || DEFAULT_MODEL,
+    apiUrl: (process.env.GEMINI_API_URL?.trim() || DEFAULT_API_URL).replace(
+      /\/+$/,
+      ""
+    ),
+    generation: {
+      analysis: readGeneration("analysis"),
+      detection: readGeneration("detection"),
+      categorization: readGeneration("categorization"),
+      verification: readGeneration("verification"),
+    },
+  };
+  return cachedConfig;
+}
@@ -0,0 +1,34 @@
+// server/ai/errors.ts
+import { ValidationIssue } from "@/app/utils/analysisSchema";
+
+// The provider cannot be used as configured (missing key, unknown provider)
+export class AIConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AIConfigError";
+  }
+}
+
+// The upstream AI service rejected or failed the request
+export class AIRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details?: string
+  ) {
+    super(message);
+    this.name = "AIRequestError";
+  }
+}
+
+// The AI service answered, but not with something we can use
+export class AIResponseError extends Error {
+  constructor(
+    message: string,
+    public rawResponse?: string,
+    public validationErrors: ValidationIssue[] = []
+  ) {
+    super(message);
+    this.name = "AIResponseError";
+  }
+}
@@ -0,0 +1,234 @@
+// server/ai/fixtures.ts
+// Canned analysis results served by the mock provider
+import { AnalysisResult } from "./types";
+
+export const analysisFixtures: Record<string, AnalysisResult> = {
+  pothole: {
+    title: "Large Pothole on Main Road Near Intersection",
+    description:
+      "A deep pothole has formed in the left-hand lane close to a busy intersection. Vehicles are swerving to avoid it, creating a collision risk.",
+    category: "roads",
+    priority: "high",
+    issueType: "pothole",
+    confidence: 0.92,
+    keywords: ["pothole", "road damage", "asphalt", "traffic"],
+    detailedAnalysis: {
+      problemIdentification:
+        "The image shows a roughly circular pothole approximately one metre across with broken asphalt edges. Loose aggregate is scattered around the rim and standing water has collected at the bottom.",
+      severityAssessment:
+        "Severity is high because the pothole sits in the wheel path of a main lane and is deep enough to damage tyres and suspension.",
+      impactAnalysis:
+        "Motorists are forced to brake or change lanes suddenly, slowing traffic and raising the risk of collisions. Minibus taxis using the route are particularly exposed, and cyclists may be thrown off balance.",
+      rootCause:
+        "Water ingress through surface cracks combined with heavy vehicle loading has broken down the base layer beneath the asphalt.",
+      visualEvidence: [
+        "Exposed base layer",
+        "Broken asphalt edges",
+        "Standing water in the cavity",
+        "Loose aggregate on the road surface",
+      ],
+    },
+    recommendations: {
+      immediateActions: [
+        "Place warning cones around the pothole",
+        "Fill temporarily with cold-mix asphalt",
+        "Notify traffic officers of the hazard",
+      ],
+      longTermSolutions: [
+        "Cut out and reinstate the damaged section with hot-mix asphalt",
+        "Reseal surrounding cracks",
+        "Schedule resurfacing of the road section",
+      ],
+      preventiveMeasures: [
+        "Improve road-side drainage",
+        "Seal cracks before the rainy season",
+        "Inspect high-traffic routes quarterly",
+      ],
+    },
+    estimatedResolution: {
+      timeframe: "2-3 days",
+      resources: ["Cold-mix asphalt", "Plate compactor", "Traffic cones"],
+      estimatedCost: "R8,000 - R15,000",
+      workersRequired: 3,
+    },
+    safetyConsiderations: {
+      riskLevel: "high",
+      hazards: ["Tyre and rim damage", "Sudden lane changes", "Cyclist falls"],
+      precautions: [
+        "Reduce speed when approaching the area",
+        "Keep a safe following distance",
+        "Avoid driving through standing water",
+      ],
+    },
+  },
+  waterLeak: {
+    title: "Burst Water Pipe Flooding Residential Street",
+    description:
+      "Clean water is flowing from a burst underground pipe onto the street. The leak is wasting water and eroding the road edge.",
+    category: "water",
+    priority: "urgent",
+    issueType: "burst pipe",
+    confidence: 0.88,
+    keywords: ["burst pipe", "water leak", "flooding", "erosion"],
+    detailedAnalysis: {
+      problemIdentification:
+        "Water is bubbling up through the pavement next to the kerb and running down the gutter. The volume suggests a break in a distribution main rather than a household connection.",
+      severityAssessment:
+        "Severity is urgent because of continuous water loss and the likelihood of supply interruptions to nearby households.",
+      impactAnalysis:
+        "Nearby residents may experience low pressure or no supply. The flowing water is undermining the road edge and could create a sinkhole. Pedestrians are walking in the road to avoid the flooded pavement.",
+      rootCause:
+        "An ageing pipe has likely failed under pressure, possibly accelerated by ground movement or corrosion.",
+      visualEvidence: [
+        "Water rising through the pavement",
+        "Water flowing along the gutter",
+        "Eroded soil at the road edge",
+      ],
+    },
+    recommendations: {
+      immediateActions: [
+        "Isolate the affected section of the main",
+        "Notify affected households of the interruption",
+        "Cordon off the flooded area",
+      ],
+      longTermSolutions: [
+        "Replace the failed pipe section",
+        "Assess the condition of the wider network in the area",
+        "Reinstate the road edge and pavement",
+      ],
+      preventiveMeasures: [
+        "Introduce pressure management on the zone",
+        "Prioritise replacement of ageing pipes",
+        "Run regular leak detection surveys",
+      ],
+    },
+    estimatedResolution: {
+      timeframe: "1-2 days",
+      resources: ["Excavator", "Replacement pipe and couplings", "Water tanker"],
+      estimatedCost: "R20,000 - R35,000",
+      workersRequired: 5,
+    },
+    safetyConsiderations: {
+      riskLevel: "moderate",
+      hazards: ["Slippery surfaces", "Undermined road edge", "Open excavation"],
+      precautions: [
+        "Keep away from the flooded pavement",
+        "Drive slowly past the work area",
+        "Boil water if supply is restored before testing",
+      ],
+    },
+  },
+  illegalDumping: {
+    title: "Illegal Dumping on Open Land Next to Houses",
+    description:
+      "A large pile of household refuse and building rubble has been dumped on open land beside a residential area. The waste is attracting pests and blocking a footpath.",
+    category: "waste",
+    priority: "medium",
+    issueType: "illegal dumping",
+    confidence: 0.9,
+    keywords: ["illegal dumping", "refuse", "rubble", "waste"],
+    detailedAnalysis: {
+      problemIdentification:
+        "The image shows mixed refuse bags, broken bricks, tyres and garden waste piled several metres wide on an open plot. Some bags have been torn open and litter is spreading.",
+      severityAssessment:
+        "Severity is medium: there is no immediate danger to life, but the health risk grows the longer the waste stays.",
+      impactAnalysis:
+        "The dump attracts rats and stray animals, produces odours and blocks a footpath used by children walking to school. Left alone it is likely to encourage further dumping.",
+      rootCause:
+        "Irregular refuse collection in the area and a lack of nearby drop-off points are likely driving residents and contractors to dump here.",
+      visualEvidence: [
+        "Torn refuse bags",
+        "Building rubble",
+        "Discarded tyres",
+        "Scattered litter",
+      ],
+    },
+    recommendations: {
+      immediateActions: [
+        "Schedule a clean-up crew and truck",
+        "Put up no-dumping signage",
+        "Check for hazardous items before removal",
+      ],
+      longTermSolutions: [
+        "Restore a regular collection schedule",
+        "Provide a community drop-off point",
+        "Fence or develop the open plot",
+      ],
+      preventiveMeasures: [
+        "Install surveillance at the hotspot",
+        "Run an awareness campaign with the ward councillor",
+        "Enforce fines for dumping",
+      ],
+    },
+    estimatedResolution: {
+      timeframe: "3-5 days",
+      resources: ["Tipper truck", "Front-end loader", "Refuse bags"],
+      estimatedCost: "R5,000 - R12,000",
+      workersRequired: 4,
+    },
+    safetyConsiderations: {
+      riskLevel: "moderate",
+      hazards: ["Sharp objects", "Pests and disease", "Possible hazardous waste"],
+      precautions: [
+        "Keep children away from the dump",
+        "Do not burn the waste",
+        "Wear gloves when handling refuse",
+      ],
+    },
+  },
+  streetlight: {
+    title: "Streetlight Out on Residential Road",
+    description:
+      "A streetlight pole has a broken lamp and the fitting is hanging loose. The stretch of road is unlit at night.",
+    category: "electricity",
+    priority: "high",
+    issueType: "broken streetlight",
+    confidence: 0.85,
+    keywords: ["streetlight", "lighting", "electrical", "safety"],
+    detailedAnalysis: {
+      problemIdentification:
+        "The lamp housing at the top of the pole is cracked and tilted, and the bulb is missing. Exposed wiring is visible where the fitting joins the pole.",
+      severityAssessment:
+        "Severity is high because of the exposed wiring and the loss of lighting on a road used by pedestrians after dark.",
+      impactAnalysis:
+        "The dark stretch makes pedestrians more vulnerable to crime and accidents, and motorists have reduced visibility of people crossing.",
+      rootCause:
+        "The fitting appears to have been damaged by vandalism or a vehicle impact, with weathering loosening the mounting.",
+      visualEvidence: [
+        "Cracked lamp housing",
+        "Missing bulb",
+        "Exposed wiring at the fitting",
+      ],
+    },
+    recommendations: {
+      immediateActions: [
+        "Isolate power to the pole",
+        "Secure the loose fitting",
+        "Log the outage with the electrical department",
+      ],
+      longTermSolutions: [
+        "Replace the fitting with a vandal-resistant LED unit",
+        "Inspect neighbouring poles on the same circuit",
+      ],
+      preventiveMeasures: [
+        "Schedule routine night patrols of streetlights",
+        "Use tamper-proof fittings in hotspot areas",
+      ],
+    },
+    estimatedResolution: {
+      timeframe: "1-2 weeks",
+      resources: ["Cherry picker", "LED fitting", "Cabling"],
+      estimatedCost: "R6,000 - R10,000",
+      workersRequired: 2,
+    },
+    safetyConsiderations: {
+      riskLevel: "high",
+      hazards: ["Exposed live wiring", "Falling fitting", "Poor visibility at night"],
+      precautions: [
+        "Do not touch the pole or wiring",
+        "Use another route after dark if possible",
+        "Report any sparking immediately",
+      ],
+    },
+  },
+};
@@ -0,0 +1,173 @@
+// server/ai/geminiProvider.ts
+import {
+  CategoryResult,
+  categorizeIssueKeywordBased,
+  isValidCategory,
+} from "@/app/utils/aiCategorization";
+import { validateAnalysisResult } from "@/app/utils/analysisSchema";
+import { validateResolutionComparison } from "@/app/utils/resolutionVerification";
+import { AITask, GeminiConfig } from "./config";
+import { AIRequestError, AIResponseError } from "./errors";
+import {
+  analysisCorrectionPrompt,
+  analysisPrompt,
+  categorizationPrompt,
+  detectionPrompt,
+  verificationPrompt,
+} from "./prompts";
+import { AIProvider, ImageInput } from "./types";
+
+type GeminiPart =
+  | { text: string }
+  | { inline_data: { mime_type: string; data: string } };
+
+const imagePart = (input: ImageInput): GeminiPart => ({
+  inline_data: {
+    mime_type: input.mimeType || "image/jpeg",
+    data: input.imageBase64,
+  },
+});
+
+// Pulls the first {...} block out of a model reply, or null if there is none
+const extractJson = (text: string): unknown => {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) return null;
+  try {
+    return JSON.parse(jsonMatch[0]);
+  } catch {
+    return null;
+  }
+};
+
+export function createGeminiProvider(config: GeminiConfig): AIProvider {
+  // Sends a single-turn request and returns the generated text ("" if none)
+  const generateContent = async (
+    task: AITask,
+    parts: GeminiPart[]
+  ): Promise<string> => {
+    const url = `${config.apiUrl}/models/${config.model}:generateContent`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-goog-api-key": config.apiKey,
+      },
+      body: JSON.stringify({
+        contents: [{ parts }],
+        generationConfig: config.generation[task],
+      }),
+    });
+
+    if (!response.ok) {
+      const details = await response.text();
+      console.error("Gemini API error:", details);
+      throw new AIRequestError(
+        "Gemini request failed",
+        response.status,
+        details
+      );
+    }
+
+    const data = await response.json();
+    return data.candidates?.[0]?.content?.parts?.[0]?.text || "";
+  };
+
+  return {
+    async analyzeImage(input) {
+      const parts: GeminiPart[] = [
+        { text: analysisPrompt(input.latitude, input.longitude) },
+        imagePart(input),
+      ];
+
+      let generatedText = await generateContent("analysis", parts);
+      let validation = validateAnalysisResult(extractJson(generatedText));
+
+      // Give the model one chance to fix its own output
+      if (validation.errors.length > 0) {
+        console.warn("AI analysis failed validation, retrying:", validation.errors);
+        generatedText = await generateContent("analysis", [
+          ...parts,
+          { text: analysisCorrectionPrompt(generatedText, validation.errors) },
+        ]);
+        validation = validateAnalysisResult(extractJson(generatedText));
+      }
+
+      if (validation.errors.length > 0) {
+        console.error("Invalid Gemini analysis:", generatedText);
+        throw new AIResponseError(
+          "AI analysis did not match the expected format",
+          generatedText,
+          validation.errors
+        );
+      }
+
+      if (validation.repairs.length > 0) {
+        console.warn(
+          "Repaired AI analysis fields:",
+          validation.repairs.map((r) => r.path).join(", ")
+        );
+      }
+      return validation.result;
+    },
+
+    async detectObjects(input) {
+      const detectedText = await generateContent("detection", [
+        { text: detectionPrompt() },
+        imagePart(input),
+      ]);
+
+      // Parse the response to extract object names
+      const objects = detectedText
+        .toLowerCase()
+        .split(",")
+        .map((obj) => obj.trim())
+        .filter((obj) => obj.length > 0 && obj.length < 50)
+        .slice(0, 3); // Max 3 objects
+
+      return { objects, rawResponse: detectedText };
+    },
+
+    async compareResolution(before, after) {
+      const generatedText = await generateContent("verification", [
+        { text: verificationPrompt() },
+        imagePart(before),
+        imagePart(after),
+      ]);
+
+      const validation = validateResolutionComparison(extractJson(generatedText));
+      if (!validation.result) {
+        console.error("Invalid Gemini verification:", generatedText);
+        throw new AIResponseError(
+          "AI verification did not match the expected format",
+          generatedText,
+          validation.errors
+        );
+      }
+      return validation.result;
+    },
+
+    async categorizeIssue(title, description) {
+      const generatedText = await generateContent("categorization", [
+        { text: categorizationPrompt(title, description) },
+      ]);
+
+      const parsed = extractJson(generatedText) as Partial<CategoryResult> | null;
+      if (!parsed) {
+        console.warn("Invalid JSON from Gemini, using fallback categorization");
+        return categorizeIssueKeywordBased(title, description);
+      }
+
+      if (!parsed.category || !isValidCategory(parsed.category)) {
+        console.warn("Invalid category from Gemini, using fallback categorization");
+        return categorizeIssueKeywordBased(title, description);
+      }
+
+      return {
+        category: parsed.category,
+        confidence: parsed.confidence || 0.8,
+        keywords: parsed.keywords || [],
+      };
+    },
+  };
+}
@@ -0,0 +1,32 @@
+// server/ai/index.ts
+import { getAIProviderName, getGeminiConfig } from "./config";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { AIProvider, TextProvider, VisionProvider } from "./types";
+
+export * from "./types";
+export * from "./errors";
+
+// Shared across separately bundled route handlers, like the repositories
+const globalAI = globalThis as typeof globalThis & {
+  __aiProvider?: AIProvider;
+};
+
+// Builds the provider selected by AI_PROVIDER, throwing AIConfigError if misconfigured
+export function getAIProvider(): AIProvider {
+  if (!globalAI.__aiProvider) {
+    globalAI.__aiProvider =
+      getAIProviderName() === "mock"
+        ? createMockProvider()
+        : createGeminiProvider(getGeminiConfig());
+  }
+  return globalAI.__aiProvider;
+}
+
+export function getVisionProvider(): VisionProvider {
+  return getAIProvider();
+}
+
+export function getTextProvider(): TextProvider {
+  return getAIProvider();
+}
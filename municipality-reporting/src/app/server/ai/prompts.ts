@@ -0,0 +1,142 @@
+// server/ai/prompts.ts
+// Prompts shared by the network-backed providers
+import { ValidationIssue } from "@/app/utils/analysisSchema";
+
+export function analysisPrompt(latitude?: number, longitude?: number): string {
+  return `You are an AI assistant for Polokwane Municipality's Intelligent Service Delivery Reporting System. Analyze this image and provide a COMPREHENSIVE professional municipal report.
+
+IMPORTANT: You must respond with ONLY valid JSON, no additional text before or after.
+
+Analyze the image and identify municipal infrastructure issues such as:
+- Potholes, road damage, traffic issues
+- Sewer blockages, overflows, water leaks, burst pipes
+- Uncollected garbage, illegal dumping, waste issues
+- Broken streetlights, electrical problems
+- Damaged sidewalks, curbs, public property
+- Fallen trees, overgrown vegetation
+- Any other municipal service delivery issues
+
+Provide a COMPLETE professional report in the following JSON format:
+{
+  "title": "Brief, specific title (max 100 chars) - e.g., 'Large Pothole on Main Street Intersection'",
+  "description": "Executive summary of the issue (2-3 sentences, professional tone)",
+  "category": "One of: roads, water, electricity, waste, safety, parks, other",
+  "priority": "One of: low, medium, high, urgent - based on safety risk and severity",
+  "issueType": "Specific type - e.g., 'pothole', 'sewer blockage', 'illegal dumping', 'water leak', 'broken streetlight'",
+  "confidence": 0.0-1.0 (your confidence in this analysis),
+  "keywords": ["array", "of", "relevant", "keywords"],
+
+  "detailedAnalysis": {
+    "problemIdentification": "Detailed identification of what the problem is, what you see in the image (3-5 sentences)",
+    "severityAssessment": "Professional assessment of how severe this issue is and why (2-4 sentences)",
+    "impactAnalysis": "Analysis of impact on community, traffic, safety, environment, daily life (3-5 sentences)",
+    "rootCause": "Likely root cause of this issue based on visual evidence (2-3 sentences)",
+    "visualEvidence": ["list", "of", "specific", "visual", "evidence", "observed", "in", "image"]
+  },
+
+  "recommendations": {
+    "immediateActions": ["Action 1 that should be taken immediately", "Action 2...", "Action 3..."],
+    "longTermSolutions": ["Long-term solution 1", "Solution 2...", "Solution 3..."],
+    "preventiveMeasures": ["Preventive measure 1 to avoid future occurrences", "Measure 2...", "Measure 3..."]
+  },
+
+  "estimatedResolution": {
+    "timeframe": "Estimated timeframe - e.g., '2-3 days', '1-2 weeks', '3-4 weeks'",
+    "resources": ["Equipment/material 1 needed", "Resource 2...", "Resource 3..."],
+    "estimatedCost": "Estimated cost range - e.g., 'R15,000 - R25,000' (South African Rand)",
+    "workersRequired": 3 (number of workers needed)
+  },
+
+  "safetyConsiderations": {
+    "riskLevel": "One of: low, moderate, high, critical",
+    "hazards": ["Hazard 1 identified", "Hazard 2...", "Hazard 3..."],
+    "precautions": ["Safety precaution 1 for public", "Precaution 2...", "Precaution 3..."]
+  }
+}
+
+${
+  latitude && longitude
+    ? `\nLocation context: Latitude ${latitude}, Longitude ${longitude}`
+    : ""
+}
+
+Be thorough, professional, and specific. This report will be reviewed by municipal staff and used for planning and resource allocation.
+
+Remember: Respond with ONLY the JSON object, nothing else.`;
+}
+
+// Follow-up sent once when an analysis fails validation
+export function analysisCorrectionPrompt(
+  previousResponse: string,
+  errors: ValidationIssue[]
+): string {
+  const problems = errors
+    .map((e) => `- ${e.path || "response"}: ${e.message}`)
+    .join("\n");
+
+  return `Your previous report could not be used because it did not match the required JSON format.
+
+Previous response:
+${previousResponse || "(empty)"}
+
+Problems found:
+${problems}
+
+Produce the complete report again for the same image, following the JSON format above exactly. Use only the allowed values for "category", "priority" and "riskLevel".
+
+Remember: Respond with ONLY the JSON object, nothing else.`;
+}
+
+export function detectionPrompt(): string {
+  return `Analyze this image and identify any municipal infrastructure issues or objects visible.
+  List ONLY the main objects/issues you detect in a simple comma-separated format.
+  Focus on: potholes, broken pipes, damaged roads, trash/litter, broken streetlights, graffiti, damaged buildings, water leaks, electrical issues, damaged signs, overgrown vegetation.
+
+  Respond ONLY with a simple list like: "pothole, damaged road" or "broken streetlight" or "water leak, damaged pipe".
+  If you don't see any clear municipal issues, respond with: "general infrastructure"
+  Keep it very brief - maximum 3 items.`;
+}
+
+export function categorizationPrompt(title: string, description: string): string {
+  return `You are a municipality issue categorization system. Analyze the following issue and categorize it.
+
+Title: ${title}
+Description: ${description}
+
+Categories:
+- roads: Roads & Infrastructure (potholes, damaged roads, traffic issues)
+- water: Water & Sanitation (leaks, burst pipes, sewage, flooding)
+- electricity: Electricity (power outages, streetlights, electrical issues)
+- waste: Waste Management (garbage, litter, refuse collection)
+- safety: Public Safety (dangerous conditions, vandalism, hazards)
+- parks: Parks & Recreation (playgrounds, gardens, sports fields)
+- other: Other issues
+
+Respond ONLY with a valid JSON object in this exact format:
+{
+  "category": "one of the categories above",
+  "confidence": 0.85,
+  "keywords": ["keyword1", "keyword2"]
+}
+
+No additional text, just the JSON.`;
+}
+
+export function verificationPrompt(): string {
+  return `You are checking municipal repair work for Polokwane Municipality. The FIRST image was taken when the problem was reported. The SECOND image was taken by the field employee after the work was done.
+
+Decide whether the second image shows the reported problem fixed:
+- "fixed": the same spot, and the problem is no longer visible
+- "partially-fixed": the same spot, but some of the problem remains or the work looks unfinished
+- "not-fixed": the same spot, and the problem is still there
+- "different-location": the second image does not show the same place
+
+Respond ONLY with a valid JSON object in this exact format:
+{
+  "verdict": "one of: fixed, partially-fixed, not-fixed, different-location",
+  "confidence": 0.85,
+  "summary": "One or two sentences explaining what you compared"
+}
+
+No additional text, just the JSON.`;
+}
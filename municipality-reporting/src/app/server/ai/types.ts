@@ -0,0 +1,35 @@
+// server/ai/types.ts
+import {
+  CategoryResult,
+  ImageAnalysisResult,
+} from "@/app/utils/aiCategorization";
+import { ResolutionComparison } from "@/app/utils/resolutionVerification";
+
+// Validated shape of an image analysis, see utils/analysisSchema.ts
+export type AnalysisResult = ImageAnalysisResult;
+
+export interface ImageInput {
+  // Raw base64 image data, without a data: URL prefix
+  imageBase64: string;
+  mimeType?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface DetectionResult {
+  objects: string[];
+  rawResponse: string;
+}
+
+export interface VisionProvider {
+  analyzeImage(input: ImageInput): Promise<AnalysisResult>;
+  detectObjects(input: ImageInput): Promise<DetectionResult>;
+  // Judges whether the "after" photo shows the problem in "before" fixed
+  compareResolution(before: ImageInput, after: ImageInput): Promise<ResolutionComparison>;
+}
+
+export interface TextProvider {
+  categorizeIssue(title: string, description: string): Promise<CategoryResult>;
+}
+
+export type AIProvider = VisionProvider & TextProvider;
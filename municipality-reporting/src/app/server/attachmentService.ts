@@ -0,0 +1,329 @@
+// server/attachmentService.ts
+import { createHash } from "node:crypto";
+import sharp from "sharp";
+import {
+  ATTACHMENT_IMAGE_TYPES,
+  Attachment,
+  AttachmentReference,
+  AttachmentRole,
+  AttachmentSize,
+  IssueAttachment,
+  MAX_UPLOAD_BYTES,
+  attachmentRoleLabels,
+} from "@/app/utils/attachments";
+import { dHashFromPixels } from "@/app/utils/perceptualHash";
+import { getAttachmentRepository, getBlobStore, getIssueRepository } from "./repositories";
+
+export class AttachmentValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentValidationError";
+  }
+}
+
+// Longest edge, in pixels, of the generated sizes
+const GENERATED_SIZES: Record<Exclude<AttachmentSize, "full">, number> = {
+  thumbnail: 240,
+  medium: 1024,
+};
+
+const extensions: { [mimeType: string]: string } = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+const blobKey = (id: string, size: AttachmentSize, mimeType = "image/jpeg") =>
+  `${id}/${size}.${extensions[mimeType]}`;
+
+function decodeDataUrl(dataUrl: string): { data: Buffer; mimeType: string } {
+  const match = /^data:([^;,]+);base64,([\s\S]+)$/.exec(dataUrl || "");
+  if (!match) throw new AttachmentValidationError("Expected a base64 image data URL");
+  return { mimeType: match[1], data: Buffer.from(match[2], "base64") };
+}
+
+// Shrinks the picture to 9x8 grey pixels and compares neighbours; EXIF
+// rotation is applied first so a rotated re-upload hashes the same
+async function computePerceptualHash(data: Buffer): Promise<string> {
+  const pixels = await sharp(data)
+    .rotate()
+    .grayscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+  return dHashFromPixels(pixels);
+}
+
+// EXIF (GPS position, capture time, camera serial numbers), XMP, IPTC and
+// PNG text chunks can all identify the person who took the photo
+const hasPrivateMetadata = (metadata: sharp.Metadata): boolean =>
+  !!(metadata.exif || metadata.xmp || metadata.iptc || metadata.comments?.length);
+
+// Re-encodes the picture without its metadata. The EXIF orientation is
+// applied to the pixels first, so the copy still shows the right way up
+async function stripMetadata(
+  data: Buffer,
+  mimeType: string
+): Promise<{ data: Buffer; width: number; height: number }> {
+  const image = sharp(data).rotate();
+  const encoded =
+    mimeType === "image/png"
+      ? image.png()
+      : mimeType === "image/webp"
+        ? image.webp({ quality: 90 })
+        : image.jpeg({ quality: 90 });
+  const { data: stripped, info } = await encoded.toBuffer({ resolveWithObject: true });
+  return { data: stripped, width: info.width, height: info.height };
+}
+
+// Who is adding photos to an issue - same shape as issueService's Actor
+interface Uploader {
+  id: string;
+  name: string;
+}
+
+const coordinate = (value: unknown, limit: number): number | undefined =>
+  typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= limit
+    ? value
+    : undefined;
+
+// Capture times come from the photo's EXIF on the client; anything
+// unparseable or from the future (a wrong camera clock) is dropped
+const captureTime = (value: unknown): string | undefined => {
+  if (typeof value !== "string") return undefined;
+  const time = new Date(value);
+  if (isNaN(time.getTime()) || time.getTime() > Date.now() + 60 * 60 * 1000) return undefined;
+  return time.toISOString();
+};
+
+export const isAttachmentRole = (role: unknown): role is AttachmentRole =>
+  typeof role === "string" && role in attachmentRoleLabels;
+
+// Records who added a stored attachment to an issue, when and where
+const toIssueAttachment = (
+  attachment: Attachment,
+  uploader: Uploader,
+  role: AttachmentRole,
+  reference: Partial<AttachmentReference> = {},
+  uploadedAt = new Date().toISOString()
+): IssueAttachment => ({
+  ...attachment,
+  role,
+  uploadedById: uploader.id,
+  uploadedBy: uploader.name,
+  uploadedAt,
+  latitude: coordinate(reference.latitude, 90),
+  longitude: coordinate(reference.longitude, 180),
+  capturedAt: captureTime(reference.capturedAt),
+});
+
+export const attachmentService = {
+  getAttachment(id: string): Promise<Attachment | null> {
+    return getAttachmentRepository().findById(id);
+  },
+
+  // Stored attachments in the order given; unknown ids are left out
+  getAttachments(ids: string[]): Promise<Attachment[]> {
+    return getAttachmentRepository().findByIds(ids);
+  },
+
+  // Swaps attachment references sent by a client for the stored records,
+  // dropping any that were never uploaded; references without a valid role
+  // get the default one
+  async resolve(
+    references: AttachmentReference[],
+    uploader: Uploader,
+    defaultRole: AttachmentRole
+  ): Promise<IssueAttachment[]> {
+    const valid = references.filter((reference) => typeof reference?.id === "string");
+    const stored = await getAttachmentRepository().findByIds(valid.map((r) => r.id));
+
+    return stored.map((attachment) => {
+      const reference = valid.find((r) => r.id === attachment.id)!;
+      const role = isAttachmentRole(reference.role) ? reference.role : defaultRole;
+      return toIssueAttachment(attachment, uploader, role, reference);
+    });
+  },
+
+  // Stores a base64 photo sent with a report the old way, as a report photo
+  async storeReportPhoto(
+    dataUrl: string,
+    uploader: Uploader,
+    position: Partial<AttachmentReference> = {},
+    uploadedAt?: string
+  ): Promise<IssueAttachment> {
+    const attachment = await this.storeImage(dataUrl, "report-photo.jpg");
+    return toIssueAttachment(attachment, uploader, "report", position, uploadedAt);
+  },
+
+  // Stores the image, stripped of its metadata, and its generated sizes;
+  // uploading the same file twice returns the existing attachment
+  async storeImage(dataUrl: string, fileName: string): Promise<Attachment> {
+    const { data, mimeType } = decodeDataUrl(dataUrl);
+    if (!ATTACHMENT_IMAGE_TYPES.includes(mimeType)) {
+      throw new AttachmentValidationError("Only JPEG, PNG and WebP images can be uploaded");
+    }
+    if (data.length > MAX_UPLOAD_BYTES) {
+      throw new AttachmentValidationError(
+        `Images must be smaller than ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB`
+      );
+    }
+
+    const id = createHash("sha256").update(data).digest("hex");
+    const existing = await getAttachmentRepository().findById(id);
+    if (existing) return existing;
+
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(data).metadata();
+    } catch {
+      throw new AttachmentValidationError("The file is not a readable image");
+    }
+
+    // Pictures without metadata are kept byte for byte
+    const full = hasPrivateMetadata(metadata)
+      ? await stripMetadata(data, mimeType)
+      : { data, width: metadata.width, height: metadata.height };
+
+    const blobs = getBlobStore();
+    await blobs.put(blobKey(id, "full", mimeType), full.data);
+    for (const [size, edge] of Object.entries(GENERATED_SIZES)) {
+      const resized = await sharp(data)
+        .rotate() // apply the EXIF orientation before it is stripped
+        .resize(edge, edge, { fit: "inside", withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+      await blobs.put(blobKey(id, size as AttachmentSize), resized);
+    }
+
+    return getAttachmentRepository().save({
+      id,
+      fileName: (fileName || `photo.${extensions[mimeType]}`).slice(0, 120),
+      mimeType,
+      bytes: full.data.length,
+      width: full.width,
+      height: full.height,
+      perceptualHash: await computePerceptualHash(data),
+      metadataStripped: true,
+      createdAt: new Date().toISOString(),
+    });
+  },
+
+  async readImage(
+    id: string,
+    size: AttachmentSize
+  ): Promise<{ data: Buffer; mimeType: string } | null> {
+    const attachment = await getAttachmentRepository().findById(id);
+    if (!attachment) return null;
+
+    const mimeType = size === "full" ? attachment.mimeType : "image/jpeg";
+    const data = await getBlobStore().get(blobKey(id, size, mimeType));
+    return data && { data, mimeType };
+  },
+
+  // Moves base64 photos saved inside issue records into the blob store so
+  // listing issues no longer parses megabytes of image data
+  async migrateLegacyPhotos(): Promise<number> {
+    const issues = await getIssueRepository().findAll();
+    let migrated = 0;
+
+    for (const issue of issues) {
+      if (!issue.photoData || issue.attachments?.length) continue;
+      try {
+        const attachment = await this.storeReportPhoto(
+          issue.photoData,
+          { id: issue.userId, name: issue.userName },
+          issue,
+          issue.createdAt
+        );
+        await getIssueRepository().update(issue.id, (current) => ({
+          ...current,
+          attachments: [attachment],
+          photoData: undefined,
+        }));
+        migrated++;
+      } catch (error) {
+        console.error(`Could not migrate the photo of issue ${issue.id}:`, error);
+      }
+    }
+    return migrated;
+  },
+
+  // Hashes photos uploaded before perceptual hashing existed, then copies the
+  // hashes onto the issues that list them
+  async backfillPerceptualHashes(): Promise<number> {
+    const hashes = new Map<string, string>();
+    let hashed = 0;
+
+    for (const attachment of await getAttachmentRepository().findAll()) {
+      if (attachment.perceptualHash) {
+        hashes.set(attachment.id, attachment.perceptualHash);
+        continue;
+      }
+      try {
+        const image = await this.readImage(attachment.id, "full");
+        if (!image) continue;
+        const perceptualHash = await computePerceptualHash(image.data);
+        await getAttachmentRepository().update(attachment.id, (current) => ({
+          ...current,
+          perceptualHash,
+        }));
+        hashes.set(attachment.id, perceptualHash);
+        hashed++;
+      } catch (error) {
+        console.error(`Could not hash attachment ${attachment.id}:`, error);
+      }
+    }
+
+    const issues = await getIssueRepository().findAll();
+    for (const issue of issues) {
+      const missing = (issue.attachments || []).some(
+        (a) => !a.perceptualHash && hashes.has(a.id)
+      );
+      if (!missing) continue;
+      await getIssueRepository().update(issue.id, (current) => ({
+        ...current,
+        attachments: current.attachments?.map((a) => ({
+          ...a,
+          perceptualHash: a.perceptualHash || hashes.get(a.id),
+        })),
+      }));
+    }
+    return hashed;
+  },
+
+  // Photos uploaded before metadata stripping still carry their EXIF (and
+  // GPS position) in the stored full-size copy; strips it in place
+  async stripStoredMetadata(): Promise<number> {
+    let stripped = 0;
+
+    for (const attachment of await getAttachmentRepository().findAll()) {
+      if (attachment.metadataStripped) continue;
+      try {
+        const image = await this.readImage(attachment.id, "full");
+        if (!image) continue;
+        const metadata = await sharp(image.data).metadata();
+        if (hasPrivateMetadata(metadata)) {
+          const full = await stripMetadata(image.data, image.mimeType);
+          await getBlobStore().put(blobKey(attachment.id, "full", image.mimeType), full.data);
+          await getAttachmentRepository().update(attachment.id, (current) => ({
+            ...current,
+            bytes: full.data.length,
+            width: full.width,
+            height: full.height,
+            metadataStripped: true,
+          }));
+          stripped++;
+        } else {
+          await getAttachmentRepository().update(attachment.id, (current) => ({
+            ...current,
+            metadataStripped: true,
+          }));
+        }
+      } catch (error) {
+        console.error(`Could not strip the metadata of attachment ${attachment.id}:`, error);
+      }
+    }
+    return stripped;
+  },
+};
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { describe, expect, it, vi } from "vitest";
+import { makeUser } from "@/test/fixtures";
+
+// The repositories pick their storage when first imported
+vi.hoisted(() => {
+  process.env.STORAGE_DRIVER = "memory";
+});
+
+import { SESSION_COOKIE, authenticate, endSession, getSessionUser, startSession } from "./auth";
+import { hashPassword, isLegacyHash, verifyPassword } from "./passwords";
+import { getSessionRepository, getUserRepository } from "./repositories";
+
+const addUser = async (id: string, password: string) =>
+  getUserRepository().create({
+    ...makeUser({ id, email: `${id}@example.com`, role: "resident", department: undefined }),
+    password,
+  });
+
+const requestWith = (token?: string) =>
+  new NextRequest("http://localhost/api/auth/me", {
+    headers: token ? { cookie: `${SESSION_COOKIE}=${token}` } : {},
+  });
+
+const signIn = async (userId: string) => {
+  const response = NextResponse.json({});
+  await startSession(response, userId);
+  return response.cookies.get(SESSION_COOKIE)!.value;
+};
+
+describe("passwords", () => {
+  it("stores a salted scrypt hash that only the right password matches", async () => {
+    const first = await hashPassword("secret1");
+    const second = await hashPassword("secret1");
+
+    expect(first).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+    expect(first).not.toBe(second);
+    expect(await verifyPassword("secret1", first)).toBe(true);
+    expect(await verifyPassword("secret2", first)).toBe(false);
+  });
+
+  it("still verifies hashes from before scrypt", async () => {
+    expect(isLegacyHash("wkzr0h")).toBe(true);
+    expect(await verifyPassword("secret1", "wkzr0h")).toBe(true);
+    expect(await verifyPassword("secret2", "wkzr0h")).toBe(false);
+  });
+});
+
+describe("authenticate", () => {
+  it("returns the user without the hash and upgrades a legacy hash", async () => {
+    await addUser("legacy", "wkzr0h");
+
+    const user = await authenticate("legacy@example.com", "secret1");
+
+    expect(user?.id).toBe("legacy");
+    expect(user).not.toHaveProperty("password");
+    const stored = await getUserRepository().findById("legacy");
+    expect(isLegacyHash(stored!.password)).toBe(false);
+    expect(await verifyPassword("secret1", stored!.password)).toBe(true);
+  });
+
+  it("refuses a wrong password or unknown email", async () => {
+    await addUser("known", await hashPassword("secret1"));
+
+    expect(await authenticate("known@example.com", "wrong")).toBeNull();
+    expect(await authenticate("nobody@example.com", "secret1")).toBeNull();
+  });
+});
+
+describe("sessions", () => {
+  it("finds the signed-in user from the cookie, stored only as a hash", async () => {
+    await addUser("session-user", await hashPassword("secret1"));
+    const token = await signIn("session-user");
+
+    const user = await getSessionUser(requestWith(token));
+
+    expect(user?.id).toBe("session-user");
+    expect(user).not.toHaveProperty("password");
+    expect(await getSessionRepository().findById(token)).toBeNull();
+  });
+
+  it("has no user without a cookie, with an unknown token or after sign-out", async () => {
+    await addUser("signed-out", await hashPassword("secret1"));
+    const token = await signIn("signed-out");
+
+    expect(await getSessionUser(requestWith())).toBeNull();
+    expect(await getSessionUser(requestWith("not-a-session"))).toBeNull();
+
+    await endSession(requestWith(token), NextResponse.json({}));
+    expect(await getSessionUser(requestWith(token))).toBeNull();
+  });
+
+  it("ignores expired sessions", async () => {
+    await addUser("expired", await hashPassword("secret1"));
+    vi.useFakeTimers({ toFake: ["Date"] });
+    try {
+      vi.setSystemTime(new Date("2026-01-01T08:00:00.000Z"));
+      const token = await signIn("expired");
+
+      vi.setSystemTime(new Date("2026-01-01T21:00:00.000Z"));
+      expect(await getSessionUser(requestWith(token))).toBeNull();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
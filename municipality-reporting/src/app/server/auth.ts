@@ -0,0 +1,87 @@
+// server/auth.ts
+import { createHash, randomBytes } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { User } from "@/app/utils/localStorage";
+import { hashPassword, isLegacyHash, verifyPassword } from "./passwords";
+import { getSessionRepository, getUserRepository } from "./repositories";
+import { toPublicUser } from "./userService";
+
+export const SESSION_COOKIE = "limpopo_session";
+
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+const REMEMBER_ME_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const hashToken = (token: string): string =>
+  createHash("sha256").update(token).digest("hex");
+
+// Checks credentials and upgrades legacy password hashes on success
+export async function authenticate(
+  email: string,
+  password: string
+): Promise<User | null> {
+  const repository = getUserRepository();
+  const user = await repository.findByEmail(email);
+  if (!user || !(await verifyPassword(password, user.password))) {
+    return null;
+  }
+
+  if (isLegacyHash(user.password)) {
+    const upgraded = await hashPassword(password);
+    await repository.update(user.id, (u) => ({ ...u, password: upgraded }));
+  }
+
+  return toPublicUser(user);
+}
+
+// Creates a session and sets its token as an HTTP-only cookie on `response`
+export async function startSession(
+  response: NextResponse,
+  userId: string,
+  rememberMe: boolean = false
+): Promise<void> {
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date();
+  const ttl = rememberMe ? REMEMBER_ME_TTL_MS : SESSION_TTL_MS;
+  const expiresAt = new Date(now.getTime() + ttl);
+
+  const sessions = getSessionRepository();
+  await sessions.deleteExpired(now);
+  await sessions.create({
+    id: hashToken(token),
+    userId,
+    createdAt: now.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+  });
+
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    // Without "remember me" the cookie lasts for the browser session only
+    ...(rememberMe ? { expires: expiresAt } : {}),
+  });
+}
+
+export async function endSession(
+  request: NextRequest,
+  response: NextResponse
+): Promise<void> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) {
+    await getSessionRepository().delete(hashToken(token));
+  }
+  response.cookies.delete(SESSION_COOKIE);
+}
+
+// Resolves the signed-in user from the request's session cookie
+export async function getSessionUser(request: NextRequest): Promise<User | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+
+  const session = await getSessionRepository().findById(hashToken(token));
+  if (!session || new Date(session.expiresAt) <= new Date()) return null;
+
+  const user = await getUserRepository().findById(session.userId);
+  return user ? toPublicUser(user) : null;
+}
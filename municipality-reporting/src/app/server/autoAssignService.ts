@@ -0,0 +1,143 @@
+// server/autoAssignService.ts
+// Assigns reports to the employee in their department with the lightest
+// load, scored by utils/autoAssign.ts. The explanation of each choice goes
+// into the issue's history.
+import {
+  AssignmentSuggestion,
+  AutoAssignResult,
+  autoAssignUtils,
+  employeeName,
+} from "@/app/utils/autoAssign";
+import { DEPARTMENTS, Department } from "@/app/utils/departmentRouting";
+import { getStatusPhase } from "@/app/utils/issueWorkflow";
+import { Issue, User } from "@/app/utils/localStorage";
+import { priorityWeights } from "@/app/utils/routePlanner";
+import { Actor, issueService } from "./issueService";
+import { getIssueRepository } from "./repositories";
+import { userService } from "./userService";
+
+// Thrown when nobody can be picked for an issue
+export class AutoAssignError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AutoAssignError";
+  }
+}
+
+interface Workloads {
+  employees: User[];
+  issuesByEmployee: Map<string, Issue[]>;
+}
+
+async function loadWorkloads(): Promise<Workloads> {
+  const employees = await userService.listUsers({ role: "employee", status: "active" });
+  const issuesByEmployee = new Map<string, Issue[]>();
+  (await getIssueRepository().findAll()).forEach((issue) => {
+    if (!issue.assignedToEmployee) return;
+    issuesByEmployee.set(issue.assignedToEmployee, [
+      ...(issuesByEmployee.get(issue.assignedToEmployee) || []),
+      issue,
+    ]);
+  });
+  return { employees, issuesByEmployee };
+}
+
+// The routed department, or the category when it names one
+const departmentOf = (issue: Issue): string | undefined =>
+  issue.department ||
+  (DEPARTMENTS.includes(issue.category as Department) ? issue.category : undefined);
+
+function suggest(issue: Issue, workloads: Workloads): AssignmentSuggestion {
+  const department = departmentOf(issue);
+  if (!department) {
+    throw new AutoAssignError("Choose a department first - no department could be worked out for this report");
+  }
+
+  const ranked = autoAssignUtils.rankCandidates(
+    issue,
+    workloads.employees.filter((employee) => employee.department === department),
+    workloads.issuesByEmployee
+  );
+  if (ranked.length === 0) {
+    throw new AutoAssignError(`No available employees in the ${department} department`);
+  }
+
+  const [chosen] = ranked;
+  return {
+    issueId: issue.id,
+    department,
+    employeeId: chosen.employee.id,
+    employeeName: employeeName(chosen.employee),
+    score: chosen.score,
+    candidates: ranked.length,
+    explanation: autoAssignUtils.explain(ranked, department),
+  };
+}
+
+async function assign(
+  issue: Issue,
+  workloads: Workloads,
+  actor: Actor
+): Promise<{ issue: Issue; suggestion: AssignmentSuggestion }> {
+  const suggestion = suggest(issue, workloads);
+  const assigned = await issueService.assignIssue(
+    issue.id,
+    suggestion.department,
+    suggestion.employeeId,
+    suggestion.employeeName,
+    actor,
+    `Auto-assigned - ${suggestion.explanation}`
+  );
+  if (!assigned) throw new AutoAssignError("Issue not found");
+
+  // Later picks in the same batch see the new job
+  workloads.issuesByEmployee.set(suggestion.employeeId, [
+    ...(workloads.issuesByEmployee.get(suggestion.employeeId) || []),
+    assigned,
+  ]);
+  return { issue: assigned, suggestion };
+}
+
+export const autoAssignService = {
+  async autoAssign(
+    issueId: string,
+    actor: Actor
+  ): Promise<{ issue: Issue; suggestion: AssignmentSuggestion } | null> {
+    const issue = await getIssueRepository().findById(issueId);
+    if (!issue) return null;
+    return assign(issue, await loadWorkloads(), actor);
+  },
+
+  // Every open report nobody has been assigned, most urgent and then oldest
+  // first, so the urgent ones get the best-placed employees
+  async autoAssignPending(actor: Actor): Promise<AutoAssignResult[]> {
+    const pending = (await getIssueRepository().findAll())
+      .filter(
+        (issue) =>
+          getStatusPhase(issue.status) === "open" &&
+          !issue.assignedToEmployee &&
+          !issue.parentIssueId
+      )
+      .sort(
+        (a, b) =>
+          priorityWeights[b.priority] - priorityWeights[a.priority] ||
+          a.createdAt.localeCompare(b.createdAt)
+      );
+
+    const workloads = await loadWorkloads();
+    const results: AutoAssignResult[] = [];
+    for (const issue of pending) {
+      try {
+        const { suggestion } = await assign(issue, workloads, actor);
+        results.push({ issueId: issue.id, title: issue.title, suggestion });
+      } catch (error) {
+        results.push({
+          issueId: issue.id,
+          title: issue.title,
+          error: error instanceof Error ? error.message : "Failed to assign",
+        });
+      }
+    }
+    return results;
+  },
+};
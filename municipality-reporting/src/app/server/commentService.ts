@@ -0,0 +1,216 @@
+// server/commentService.ts
+import { randomUUID } from "node:crypto";
+import { ATTACHMENT_IMAGE_TYPES, Attachment } from "@/app/utils/attachments";
+import {
+  IssueComment,
+  MAX_COMMENT_ATTACHMENTS,
+  NewCommentInput,
+} from "@/app/utils/comments";
+import { Issue, User } from "@/app/utils/localStorage";
+import { hasPermission } from "@/app/utils/permissions";
+import { attachmentService } from "./attachmentService";
+import { notificationService } from "./notificationService";
+import { getCommentRepository } from "./repositories";
+
+const MAX_BODY_LENGTH = 2000;
+
+export class CommentValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommentValidationError";
+  }
+}
+
+// Staff on any issue, employees on the issues assigned to them
+export function canSeeInternalComments(user: User | null, issue: Issue): boolean {
+  if (!user || !hasPermission(user, "comments:internal")) return false;
+  return (
+    hasPermission(user, "issues:manage") || issue.assignedToEmployee === user.id
+  );
+}
+
+const isReporter = (userId: string, issue: Issue) =>
+  issue.userId === userId || !!issue.coReporters?.some((c) => c.userId === userId);
+
+// The reporter and co-reporters plus the municipal users working the issue
+export function isIssueParticipant(user: User | null, issue: Issue): boolean {
+  if (!user || !hasPermission(user, "issues:comment")) return false;
+  return isReporter(user.id, issue) || canSeeInternalComments(user, issue);
+}
+
+const validateBody = (body: unknown, allowEmpty: boolean): string => {
+  const text = typeof body === "string" ? body.trim() : "";
+  if (!text && !allowEmpty) {
+    throw new CommentValidationError("Comment cannot be empty");
+  }
+  if (text.length > MAX_BODY_LENGTH) {
+    throw new CommentValidationError(
+      `Comment must be at most ${MAX_BODY_LENGTH} characters`
+    );
+  }
+  return text;
+};
+
+// Swaps the references sent by the client for the stored attachments; files
+// are uploaded through /api/attachments first, like gallery photos
+const resolveAttachments = async (references: unknown): Promise<Attachment[]> => {
+  if (references === undefined) return [];
+  if (!Array.isArray(references)) {
+    throw new CommentValidationError("Attachments must be a list");
+  }
+  if (references.length > MAX_COMMENT_ATTACHMENTS) {
+    throw new CommentValidationError(
+      `At most ${MAX_COMMENT_ATTACHMENTS} attachments are allowed`
+    );
+  }
+
+  const ids = references.map((reference) => reference?.id);
+  if (!ids.every((id) => typeof id === "string")) {
+    throw new CommentValidationError("Invalid attachment");
+  }
+  const stored = await attachmentService.getAttachments([...new Set<string>(ids)]);
+  if (stored.length !== new Set(ids).size) {
+    throw new CommentValidationError("Attachments must be uploaded before they are added");
+  }
+  return stored;
+};
+
+// How comments stored their files before attachments were uploaded separately
+interface InlineAttachment {
+  name: string;
+  type: string;
+  data: string; // base64 data URL
+}
+
+const isInline = (attachment: Attachment | InlineAttachment): attachment is InlineAttachment =>
+  "data" in attachment;
+
+const excerpt = (text: string, length = 100) =>
+  text.length > length ? `${text.slice(0, length)}...` : text;
+
+export const commentService = {
+  async listComments(issue: Issue, user: User | null): Promise<IssueComment[]> {
+    const comments = await getCommentRepository().findByIssue(issue.id);
+    if (canSeeInternalComments(user, issue)) return comments;
+    return comments.filter((comment) => comment.visibility === "public");
+  },
+
+  getComment(commentId: string): Promise<IssueComment | null> {
+    return getCommentRepository().findById(commentId);
+  },
+
+  // Adds a comment and notifies everyone else taking part in the conversation
+  async addComment(
+    issue: Issue,
+    author: User,
+    input: NewCommentInput
+  ): Promise<IssueComment> {
+    const attachments = await resolveAttachments(input.attachments);
+    const body = validateBody(input.body, attachments.length > 0);
+    const visibility = input.visibility === "internal" ? "internal" : "public";
+    if (visibility === "internal" && !canSeeInternalComments(author, issue)) {
+      throw new CommentValidationError(
+        "Only municipal staff can post internal comments"
+      );
+    }
+
+    const repository = getCommentRepository();
+    const previous = await repository.findByIssue(issue.id);
+    const comment = await repository.create({
+      id: `comment-${randomUUID()}`,
+      issueId: issue.id,
+      authorId: author.id,
+      authorName: `${author.firstName} ${author.lastName}`,
+      authorRole: author.role,
+      body,
+      attachments,
+      visibility,
+      createdAt: new Date().toISOString(),
+    });
+
+    // Residents never hear about internal comments
+    const earlierAuthors = previous
+      .filter((c) => visibility === "public" || c.authorRole !== "resident")
+      .map((c) => c.authorId);
+    const reporters = [issue.userId, ...(issue.coReporters || []).map((c) => c.userId)];
+    const recipients = [
+      ...(visibility === "public" ? reporters : []),
+      issue.assignedToEmployee,
+      ...earlierAuthors,
+    ].filter((id) => id !== author.id);
+
+    // The comment is saved either way
+    try {
+      await notificationService.notify(
+        recipients,
+        "comment",
+        `💬 New comment on "${issue.title}"`,
+        `${comment.authorName}: ${excerpt(body || "sent an attachment")}`,
+        issue.id
+      );
+    } catch (error) {
+      console.error("Failed to send notifications:", error);
+    }
+
+    return comment;
+  },
+
+  editComment(
+    comment: IssueComment,
+    body: unknown
+  ): Promise<IssueComment | null> {
+    const text = validateBody(body, comment.attachments.length > 0);
+    return getCommentRepository().update(comment.id, (current) => ({
+      ...current,
+      body: text,
+      updatedAt: new Date().toISOString(),
+      edited: true,
+    }));
+  },
+
+  deleteComment(commentId: string): Promise<boolean> {
+    return getCommentRepository().delete(commentId);
+  },
+
+  // Moves base64 files saved inside comments into the attachment store.
+  // Only images can be stored there; other files are named in the comment
+  // text instead so readers know something was attached
+  async migrateInlineAttachments(): Promise<number> {
+    const repository = getCommentRepository();
+    let migrated = 0;
+
+    for (const comment of await repository.findAll()) {
+      const current = comment.attachments as (Attachment | InlineAttachment)[];
+      if (!current.some(isInline)) continue;
+
+      const attachments: Attachment[] = [];
+      const dropped: string[] = [];
+      for (const attachment of current) {
+        if (!isInline(attachment)) {
+          attachments.push(attachment);
+          continue;
+        }
+        if (!ATTACHMENT_IMAGE_TYPES.includes(attachment.type)) {
+          dropped.push(attachment.name);
+          continue;
+        }
+        try {
+          attachments.push(await attachmentService.storeImage(attachment.data, attachment.name));
+        } catch (error) {
+          console.error(`Could not migrate ${attachment.name} on comment ${comment.id}:`, error);
+          dropped.push(attachment.name);
+        }
+      }
+
+      await repository.update(comment.id, (stored) => ({
+        ...stored,
+        body: [stored.body, ...dropped.map((name) => `📎 ${name} (file no longer available)`)]
+          .filter(Boolean)
+          .join("\n"),
+        attachments,
+      }));
+      migrated++;
+    }
+    return migrated;
+  },
+};
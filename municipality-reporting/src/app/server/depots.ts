@@ -0,0 +1,60 @@
+// server/depots.ts
+// Depots where field employees start their day come from DEPOTS_FILE, a JSON
+// array of depots:
+//   { "id": "ladanna", "name": "Ladanna Works Depot", "latitude": -23.871,
+//     "longitude": 29.431, "departments": ["roads", "water"] }
+// A depot without departments serves all of them. Without the file route
+// planning starts from the employee's current location.
+import { Depot } from "@/app/utils/routePlanner";
+import { expectArray, expectUniqueIds, loadJsonConfig } from "./jsonConfig";
+
+export class DepotConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DepotConfigError";
+  }
+}
+
+const isCoordinate = (value: unknown, limit: number): value is number =>
+  typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= limit;
+
+function validateDepot(raw: unknown, index: number): Depot {
+  const depot = raw as Partial<Depot>;
+  const where = `Depot #${index + 1}`;
+
+  if (!depot || (typeof depot.id !== "string" && typeof depot.id !== "number") || depot.id === "") {
+    throw new DepotConfigError(`${where} needs an "id"`);
+  }
+  const id = String(depot.id);
+  if (typeof depot.name !== "string" || !depot.name.trim()) {
+    throw new DepotConfigError(`${where} (${id}) needs a "name"`);
+  }
+  if (!isCoordinate(depot.latitude, 90) || !isCoordinate(depot.longitude, 180)) {
+    throw new DepotConfigError(`${where} (${id}) needs a valid latitude and longitude`);
+  }
+  if (
+    depot.departments !== undefined &&
+    (!Array.isArray(depot.departments) || !depot.departments.every((d) => typeof d === "string"))
+  ) {
+    throw new DepotConfigError(`${where} (${id}) has "departments" that is not a list of names`);
+  }
+
+  return {
+    id,
+    name: depot.name.trim(),
+    latitude: depot.latitude,
+    longitude: depot.longitude,
+    departments: depot.departments?.length ? depot.departments : undefined,
+  };
+}
+
+// Reads and validates the depots, throwing DepotConfigError if unusable
+export function getDepots(): Depot[] {
+  return loadJsonConfig("DEPOTS_FILE", [], DepotConfigError, (parsed) =>
+    expectUniqueIds(
+      expectArray(parsed, "DEPOTS_FILE", "depots", DepotConfigError).map(validateDepot),
+      "Depot id",
+      DepotConfigError
+    )
+  );
+}
@@ -0,0 +1,76 @@
+// server/geocoding/config.ts
+// Geocoding settings:
+//   GEOCODING_PROVIDER        "nominatim" (default) or "gazetteer" to never
+//                             leave the server
+//   NOMINATIM_URL             base URL of a (self-hosted) Nominatim instance
+//   GEOCODING_USER_AGENT      sent to Nominatim, which requires one
+//   GEOCODING_TIMEOUT_MS      how long to wait for the provider
+//   GEOCODING_CACHE_DAYS      how long cached lookups are reused
+//   GEOCODING_CACHE_PRECISION decimals coordinates are rounded to for the cache
+//   GEOCODING_CACHE_MAX_ENTRIES how many lookups the cache keeps
+//   GAZETTEER_FILE            local street and suburb list used offline
+import { GeocodingConfigError } from "./errors";
+
+export type GeocodingProviderName = "nominatim" | "gazetteer";
+
+export interface NominatimConfig {
+  url: string;
+  userAgent: string;
+  timeoutMs: number;
+}
+
+export interface GeocodeCacheConfig {
+  maxAgeDays: number;
+  precision: number;
+  maxEntries: number;
+}
+
+const DEFAULT_NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+const DEFAULT_USER_AGENT = "LimpopoGovernmentPortal/1.0";
+
+// Whole numbers only; a bad value is ignored rather than stopping the server
+const readInteger = (name: string, fallback: number, min: number, max: number): number => {
+  const raw = process.env[name]?.trim();
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    console.warn(`Ignoring ${name}="${raw}", using ${fallback}`);
+    return fallback;
+  }
+  return value;
+};
+
+export function getGeocodingProviderName(): GeocodingProviderName {
+  const name = process.env.GEOCODING_PROVIDER?.trim() || "nominatim";
+  if (name !== "nominatim" && name !== "gazetteer") {
+    throw new GeocodingConfigError(
+      `Unknown GEOCODING_PROVIDER "${name}" - expected "nominatim" or "gazetteer"`
+    );
+  }
+  if (name === "gazetteer" && !getGazetteerFile()) {
+    throw new GeocodingConfigError("GEOCODING_PROVIDER=gazetteer needs GAZETTEER_FILE to be set");
+  }
+  return name;
+}
+
+export function getNominatimConfig(): NominatimConfig {
+  return {
+    url: (process.env.NOMINATIM_URL?.trim() || DEFAULT_NOMINATIM_URL).replace(/\/+$/, ""),
+    userAgent: process.env.GEOCODING_USER_AGENT?.trim() || DEFAULT_USER_AGENT,
+    timeoutMs: readInteger("GEOCODING_TIMEOUT_MS", 5000, 100, 60000),
+  };
+}
+
+export function getGeocodeCacheConfig(): GeocodeCacheConfig {
+  return {
+    maxAgeDays: readInteger("GEOCODING_CACHE_DAYS", 30, 0, 3650),
+    // 4 decimals is about 11 m, close enough to share a street address
+    precision: readInteger("GEOCODING_CACHE_PRECISION", 4, 0, 7),
+    // The cache file is rewritten whenever a lookup is added, so it stays small
+    maxEntries: readInteger("GEOCODING_CACHE_MAX_ENTRIES", 5000, 1, 100000),
+  };
+}
+
+export const getGazetteerFile = (): string | undefined =>
+  process.env.GAZETTEER_FILE?.trim() || undefined;
@@ -0,0 +1,20 @@
+// server/geocoding/errors.ts
+
+// The geocoder cannot be used as configured (unknown provider, bad gazetteer)
+export class GeocodingConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GeocodingConfigError";
+  }
+}
+
+// The geocoding service could not be reached or refused the lookup
+export class GeocodingRequestError extends Error {
+  constructor(
+    message: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = "GeocodingRequestError";
+  }
+}
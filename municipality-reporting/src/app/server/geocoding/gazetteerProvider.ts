@@ -0,0 +1,151 @@
+// server/geocoding/gazetteerProvider.ts
+// Offline geocoding from a local list of streets and suburbs. GAZETTEER_FILE
+// is a JSON array of places:
+//   { "name": "Church Street", "type": "street", "latitude": -23.904,
+//     "longitude": 29.468, "suburb": "Polokwane Central", "city": "Polokwane" }
+// A long street can be listed at several points along its length.
+import { getDistanceBetweenPoints } from "@/app/utils/geoLocation";
+import { expectArray, loadJsonConfig } from "../jsonConfig";
+import { GeocodingConfigError } from "./errors";
+import { GeocodingProvider } from "./types";
+
+export interface GazetteerPlace {
+  name: string;
+  type: "street" | "suburb";
+  latitude: number;
+  longitude: number;
+  suburb?: string;
+  city?: string;
+}
+
+// How far a point may be from the nearest listed street or suburb centre
+const STREET_RADIUS_KM = 0.5;
+const SUBURB_RADIUS_KM = 5;
+
+const isCoordinate = (value: unknown, limit: number): value is number =>
+  typeof value === "number" && Number.isFinite(value) && Math.abs(value) <= limit;
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() ? value.trim() : undefined;
+
+function validatePlace(raw: unknown, index: number): GazetteerPlace {
+  const place = raw as Partial<GazetteerPlace>;
+  const where = `Gazetteer place #${index + 1}`;
+
+  if (!place || typeof place.name !== "string" || !place.name.trim()) {
+    throw new GeocodingConfigError(`${where} needs a "name"`);
+  }
+  if (place.type !== "street" && place.type !== "suburb") {
+    throw new GeocodingConfigError(
+      `${where} (${place.name}) has type "${place.type}" - expected "street" or "suburb"`
+    );
+  }
+  if (!isCoordinate(place.latitude, 90) || !isCoordinate(place.longitude, 180)) {
+    throw new GeocodingConfigError(`${where} (${place.name}) needs a valid latitude and longitude`);
+  }
+
+  return {
+    name: place.name.trim(),
+    type: place.type,
+    latitude: place.latitude,
+    longitude: place.longitude,
+    suburb: optionalString(place.suburb),
+    city: optionalString(place.city),
+  };
+}
+
+// The places in GAZETTEER_FILE, or null when there is no gazetteer
+export function readGazetteer(): GazetteerPlace[] | null {
+  return loadJsonConfig("GAZETTEER_FILE", null, GeocodingConfigError, (parsed) =>
+    expectArray(parsed, "GAZETTEER_FILE", "places", GeocodingConfigError).map(validatePlace)
+  );
+}
+
+// "Street, Suburb, City" without repeating a name that appears twice
+const joinParts = (parts: (string | undefined)[]): string =>
+  parts
+    .filter((part): part is string => !!part)
+    .filter((part, index, all) => all.indexOf(part) === index)
+    .join(", ");
+
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+export function createGazetteerProvider(places: GazetteerPlace[]): GeocodingProvider {
+  const streets = places.filter((place) => place.type === "street");
+  const suburbs = places.filter((place) => place.type === "suburb");
+
+  const nearest = (list: GazetteerPlace[], latitude: number, longitude: number, maxKm: number) => {
+    let best: GazetteerPlace | null = null;
+    let bestDistance = maxKm;
+    list.forEach((place) => {
+      const distance = getDistanceBetweenPoints(latitude, longitude, place.latitude, place.longitude);
+      if (distance <= bestDistance) {
+        best = place;
+        bestDistance = distance;
+      }
+    });
+    return best as GazetteerPlace | null;
+  };
+
+  return {
+    name: "gazetteer",
+
+    async reverse(latitude, longitude) {
+      const street = nearest(streets, latitude, longitude, STREET_RADIUS_KM);
+      const suburb = nearest(suburbs, latitude, longitude, SUBURB_RADIUS_KM);
+      if (!street && !suburb) return null;
+
+      return {
+        address: joinParts([
+          street?.name,
+          street?.suburb || suburb?.name,
+          street?.city || suburb?.city,
+        ]),
+        latitude,
+        longitude,
+        source: "gazetteer",
+      };
+    },
+
+    // Every word of the query must appear in the place's name, suburb or
+    // city; names starting with the query rank first, then streets
+    async search(query, limit) {
+      const words = normalize(query).split(" ").filter(Boolean);
+      if (words.length === 0) return [];
+      const phrase = words.join(" ");
+
+      // Points along the same street collapse into one result at their centre
+      const matches = new Map<string, { place: GazetteerPlace; points: GazetteerPlace[]; rank: number }>();
+      places.forEach((place) => {
+        const name = normalize(place.name);
+        const haystack = normalize(`${place.name} ${place.suburb || ""} ${place.city || ""}`);
+        if (!words.every((word) => haystack.includes(word))) return;
+
+        const address =
+          place.type === "street"
+            ? joinParts([place.name, place.suburb, place.city])
+            : joinParts([place.name, place.city]);
+        const rank =
+          (name.startsWith(phrase) ? 0 : name.includes(phrase) ? 2 : 4) +
+          (place.type === "street" ? 0 : 1);
+        const match = matches.get(address);
+        if (match) match.points.push(place);
+        else matches.set(address, { place, points: [place], rank });
+      });
+
+      return Array.from(matches, ([address, { points, rank }]) => ({
+        rank,
+        result: {
+          address,
+          latitude: points.reduce((sum, p) => sum + p.latitude, 0) / points.length,
+          longitude: points.reduce((sum, p) => sum + p.longitude, 0) / points.length,
+          source: "gazetteer" as const,
+        },
+      }))
+        .sort((a, b) => a.rank - b.rank || a.result.address.localeCompare(b.result.address))
+        .slice(0, limit)
+        .map(({ result }) => result);
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import { createGeocodeCacheRepository } from "../repositories/geocodeCacheRepository";
+import { createMemoryStore } from "../repositories/recordStore";
+import { GeocodeCacheEntry } from "../repositories/types";
+import { createGeocoder } from "./index";
+import { GeocodingProvider } from "./types";
+
+const fakeProvider = (): GeocodingProvider => ({
+  name: "nominatim",
+  reverse: vi.fn(async (latitude: number, longitude: number) => ({
+    address: `${latitude},${longitude}`,
+    latitude,
+    longitude,
+    source: "nominatim" as const,
+  })),
+  search: vi.fn(async (query: string) => [
+    { address: query, latitude: 0, longitude: 0, source: "nominatim" as const },
+  ]),
+});
+
+const setup = (maxEntries = 100) => {
+  const store = createMemoryStore<GeocodeCacheEntry>();
+  const provider = fakeProvider();
+  const geocoder = createGeocoder(provider, null, createGeocodeCacheRepository(store), {
+    maxAgeDays: 30,
+    precision: 4,
+    maxEntries,
+  });
+  return { store, provider, geocoder };
+};
+
+describe("createGeocoder", () => {
+  it("answers nearby points from one rounded cache entry", async () => {
+    const { store, provider, geocoder } = setup();
+
+    const first = await geocoder.reverse(-23.90401, 29.46799);
+    const second = await geocoder.reverse(-23.904012, 29.467991);
+
+    expect(provider.reverse).toHaveBeenCalledTimes(1);
+    expect(provider.reverse).toHaveBeenCalledWith(-23.904, 29.468);
+    expect((await store.read()).map((entry) => entry.key)).toEqual(["reverse:-23.904,29.468"]);
+    // Each caller still gets back the point it asked about
+    expect(first?.latitude).toBe(-23.90401);
+    expect(second?.latitude).toBe(-23.904012);
+  });
+
+  it("keeps only the newest entries once the cache is full", async () => {
+    const { store, geocoder } = setup(2);
+
+    await geocoder.search("Church Street");
+    await geocoder.search("Market Street");
+    await geocoder.search("Hospital Street");
+
+    expect((await store.read()).map((entry) => entry.key)).toEqual([
+      "search:market street",
+      "search:hospital street",
+    ]);
+  });
+
+  it("drops expired entries when saving a new one", async () => {
+    const { store, geocoder } = setup();
+    await store.mutate(() => ({
+      records: [{ key: "search:old", results: [], cachedAt: "2020-01-01T00:00:00.000Z" }],
+      result: null,
+    }));
+
+    await geocoder.search("Church Street");
+
+    expect((await store.read()).map((entry) => entry.key)).toEqual(["search:church street"]);
+  });
+});
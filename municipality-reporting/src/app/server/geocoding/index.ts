@@ -0,0 +1,121 @@
+// server/geocoding/index.ts
+import { GeocodeCacheRepository, getGeocodeCacheRepository } from "../repositories";
+import {
+  GeocodeCacheConfig,
+  getGeocodeCacheConfig,
+  getGeocodingProviderName,
+  getNominatimConfig,
+} from "./config";
+import { GeocodingRequestError } from "./errors";
+import { createGazetteerProvider, readGazetteer } from "./gazetteerProvider";
+import { createNominatimProvider } from "./nominatimProvider";
+import { GeocodeResult, Geocoder, GeocodingProvider } from "./types";
+
+export * from "./types";
+export * from "./errors";
+
+const SEARCH_LIMIT = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const searchKey = (query: string): string =>
+  `search:${query.trim().toLowerCase().replace(/\s+/g, " ")}`;
+
+// Rounded so that nearby points share a cache entry; + 0 turns -0 into 0
+const roundCoordinate = (value: number, precision: number): number => {
+  const factor = 10 ** precision;
+  return Math.round(value * factor) / factor + 0;
+};
+
+// Lookups go to the provider once and are then answered from the cache
+// until they expire. When the provider cannot be reached the fallback
+// answers instead, and those answers are not cached so the next lookup
+// tries the provider again.
+export function createGeocoder(
+  provider: GeocodingProvider,
+  fallback: GeocodingProvider | null,
+  cache: GeocodeCacheRepository | null,
+  cacheConfig: GeocodeCacheConfig
+): Geocoder {
+  const lookup = async (
+    key: string,
+    fromProvider: (source: GeocodingProvider) => Promise<GeocodeResult[]>
+  ): Promise<GeocodeResult[]> => {
+    const cached = cache && (await cache.findByKey(key));
+    if (cached && Date.now() - new Date(cached.cachedAt).getTime() < cacheConfig.maxAgeDays * DAY_MS) {
+      return cached.results;
+    }
+
+    let results: GeocodeResult[];
+    try {
+      results = await fromProvider(provider);
+    } catch (error) {
+      if (!(error instanceof GeocodingRequestError) || !fallback) throw error;
+      console.warn(`Geocoding with ${provider.name} failed, using ${fallback.name}:`, error.message);
+      return fromProvider(fallback);
+    }
+
+    if (cache) {
+      await cache.save(
+        { key, results, cachedAt: new Date().toISOString() },
+        {
+          maxEntries: cacheConfig.maxEntries,
+          expiredBefore: new Date(Date.now() - cacheConfig.maxAgeDays * DAY_MS),
+        }
+      );
+    }
+    return results;
+  };
+
+  return {
+    async reverse(latitude, longitude) {
+      // The provider is asked about the rounded point, so a cached answer
+      // belongs to its key whichever nearby point asked first
+      const lat = roundCoordinate(latitude, cacheConfig.precision);
+      const lng = roundCoordinate(longitude, cacheConfig.precision);
+      const results = await lookup(`reverse:${lat},${lng}`, async (source) => {
+        const result = await source.reverse(lat, lng);
+        return result ? [result] : [];
+      });
+      // A cached address may come from a nearby point; report the one asked about
+      return results[0] ? { ...results[0], latitude, longitude } : null;
+    },
+
+    search(query) {
+      return lookup(searchKey(query), (source) => source.search(query, SEARCH_LIMIT));
+    },
+  };
+}
+
+// Shared across separately bundled route handlers, like the repositories
+const globalGeocoding = globalThis as typeof globalThis & {
+  __geocoder?: Geocoder;
+};
+
+// Builds the geocoder selected by GEOCODING_PROVIDER, throwing
+// GeocodingConfigError if it or the gazetteer is misconfigured
+export function getGeocoder(): Geocoder {
+  if (!globalGeocoding.__geocoder) {
+    const providerName = getGeocodingProviderName();
+    const cacheConfig = getGeocodeCacheConfig();
+    const places = readGazetteer();
+    const gazetteer = places ? createGazetteerProvider(places) : null;
+
+    // The gazetteer is local, so there is nothing to cache or fall back from
+    globalGeocoding.__geocoder =
+      providerName === "gazetteer" && gazetteer
+        ? createGeocoder(gazetteer, null, null, cacheConfig)
+        : createGeocoder(
+            createNominatimProvider(getNominatimConfig()),
+            gazetteer,
+            cacheConfig.maxAgeDays > 0 ? getGeocodeCacheRepository() : null,
+            cacheConfig
+          );
+  }
+  return globalGeocoding.__geocoder;
+}
+
+// Drops cached lookups past GEOCODING_CACHE_DAYS so the cache file stays small
+export function pruneGeocodeCache(): Promise<number> {
+  const { maxAgeDays } = getGeocodeCacheConfig();
+  return getGeocodeCacheRepository().deleteOlderThan(new Date(Date.now() - maxAgeDays * DAY_MS));
+}
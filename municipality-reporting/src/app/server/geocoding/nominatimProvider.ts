@@ -0,0 +1,92 @@
+// server/geocoding/nominatimProvider.ts
+// OpenStreetMap Nominatim, or a self-hosted instance. The public service
+// allows one request per second per application, so lookups are queued.
+import { NominatimConfig } from "./config";
+import { GeocodingRequestError } from "./errors";
+import { GeocodeResult, GeocodingProvider } from "./types";
+
+const MIN_REQUEST_INTERVAL_MS = 1000;
+// Past this many waiting lookups new ones are refused rather than queued
+// for minutes; the geocoder then falls back to the gazetteer if there is one
+const MAX_QUEUED_REQUESTS = 10;
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name?: string;
+  address?: Record<string, string>;
+  error?: string;
+}
+
+// "Road, Suburb, Town, Province", the same format reports have always used
+function formatAddress(place: NominatimPlace): string {
+  const address = place.address || {};
+  const parts = [
+    address.road,
+    address.suburb,
+    address.city || address.town || address.village,
+    address.state,
+  ].filter(Boolean);
+  return parts.join(", ") || place.display_name || "";
+}
+
+const toResult = (place: NominatimPlace): GeocodeResult => ({
+  address: formatAddress(place),
+  latitude: Number(place.lat),
+  longitude: Number(place.lon),
+  source: "nominatim",
+});
+
+export function createNominatimProvider(config: NominatimConfig): GeocodingProvider {
+  let nextSlot = 0;
+
+  // Waits for this request's turn, then fetches JSON from the API
+  const request = async <T>(path: string, params: Record<string, string>): Promise<T> => {
+    const now = Date.now();
+    const wait = Math.max(0, nextSlot - now);
+    if (wait >= MAX_QUEUED_REQUESTS * MIN_REQUEST_INTERVAL_MS) {
+      throw new GeocodingRequestError("Too many address lookups are waiting for Nominatim", 503);
+    }
+    nextSlot = Math.max(now, nextSlot) + MIN_REQUEST_INTERVAL_MS;
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+
+    const query = new URLSearchParams({ format: "json", addressdetails: "1", ...params });
+    let response: Response;
+    try {
+      response = await fetch(`${config.url}/${path}?${query}`, {
+        headers: { "User-Agent": config.userAgent },
+        signal: AbortSignal.timeout(config.timeoutMs),
+      });
+    } catch (error) {
+      throw new GeocodingRequestError(`Nominatim is unreachable: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      throw new GeocodingRequestError("Nominatim request failed", response.status);
+    }
+    return response.json();
+  };
+
+  return {
+    name: "nominatim",
+
+    async reverse(latitude, longitude) {
+      const place = await request<NominatimPlace>("reverse", {
+        lat: String(latitude),
+        lon: String(longitude),
+        zoom: "18",
+      });
+      // Nominatim answers 200 with an error when there is nothing there
+      if (place.error || !place.lat) return null;
+      return { ...toResult(place), latitude, longitude };
+    },
+
+    async search(query, limit) {
+      const places = await request<NominatimPlace[]>("search", {
+        q: query,
+        limit: String(limit),
+      });
+      return places.map(toResult);
+    },
+  };
+}
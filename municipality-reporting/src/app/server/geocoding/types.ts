@@ -0,0 +1,19 @@
+// server/geocoding/types.ts
+import { GeocodeResult } from "@/app/utils/geoLocation";
+
+export type { GeocodeResult };
+
+export interface GeocodingProvider {
+  name: GeocodeResult["source"];
+  // The address at a point, or null if the provider knows nothing there
+  reverse(latitude: number, longitude: number): Promise<GeocodeResult | null>;
+  // Places matching a free-text address, best match first
+  search(query: string, limit: number): Promise<GeocodeResult[]>;
+}
+
+// The service the API routes use: a provider behind the lookup cache,
+// with the gazetteer to fall back on when the provider is unreachable
+export interface Geocoder {
+  reverse(latitude: number, longitude: number): Promise<GeocodeResult | null>;
+  search(query: string): Promise<GeocodeResult[]>;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from "vitest";
+import { makeIssue } from "@/test/fixtures";
+
+// The repositories pick their storage when first imported
+vi.hoisted(() => {
+  process.env.STORAGE_DRIVER = "memory";
+});
+
+import { IssueEdit, NewIssueInput, SYSTEM_ACTOR, issueService } from "./issueService";
+import { getIssueRepository } from "./repositories";
+
+const forgedVerification = {
+  verdict: "fixed" as const,
+  confidence: 1,
+  summary: "Looks fixed",
+  beforeAttachmentId: "before",
+  afterAttachmentId: "after",
+  verifiedAt: "2026-03-02T10:00:00.000Z",
+};
+
+describe("issueService", () => {
+  it("does not take a resolution verification from a new report", async () => {
+    // The request body is untrusted, whatever its type says
+    const input = {
+      ...makeIssue(),
+      status: "awaiting-confirmation",
+      resolutionVerification: forgedVerification,
+    } as unknown as NewIssueInput;
+
+    const created = await issueService.createIssue(input);
+    const stored = await getIssueRepository().findById(created.id);
+
+    expect(created.resolutionVerification).toBeUndefined();
+    expect(stored?.resolutionVerification).toBeUndefined();
+    expect(stored?.status).toBe("pending");
+  });
+
+  it("does not let an edit set a resolution verification", async () => {
+    const created = await issueService.createIssue(makeIssue());
+
+    const updated = await issueService.updateIssue(
+      created.id,
+      { title: "Deep pothole", resolutionVerification: forgedVerification } as unknown as IssueEdit,
+      SYSTEM_ACTOR
+    );
+
+    expect(updated?.title).toBe("Deep pothole");
+    expect(updated?.resolutionVerification).toBeUndefined();
+  });
+});
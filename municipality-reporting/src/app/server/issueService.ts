@@ -0,0 +1,946 @@
+// server/issueService.ts
+import { randomUUID } from "node:crypto";
+import { ISSUE_PRIORITIES, normalizeIssueAnalysis } from "@/app/utils/analysisSchema";
+import { IssueAttachment, MAX_ISSUE_ATTACHMENTS } from "@/app/utils/attachments";
+import { departmentRoutingUtils } from "@/app/utils/departmentRouting";
+import {
+  TransitionFailure,
+  caseId,
+  checkTransition,
+  describeTransitionFailure,
+  findTransition,
+  getStatusPhase,
+  statusLabels,
+} from "@/app/utils/issueWorkflow";
+import { Issue, IssueStatus, User } from "@/app/utils/localStorage";
+import { Notification } from "@/app/utils/notifications";
+import { Role, getEffectiveRole } from "@/app/utils/permissions";
+import {
+  ResolutionVerification,
+  resolutionVerdictLabels,
+  resolutionVerificationUtils,
+} from "@/app/utils/resolutionVerification";
+import { LOCATION_SOURCES, getDistanceBetweenPoints } from "@/app/utils/geoLocation";
+import {
+  PHOTO_DUPLICATE_RADIUS,
+  PhotoDuplicate,
+  createHammingIndex,
+} from "@/app/utils/perceptualHash";
+import { slaUtils } from "@/app/utils/sla";
+import {
+  DuplicateMatch,
+  MAX_DUPLICATE_MATCHES,
+  SimilarityCandidate,
+  smartSearchUtils,
+} from "@/app/utils/smartSearch";
+import { AttachmentValidationError } from "./attachmentService";
+import { canSeeInternalComments } from "./commentService";
+import { notificationService } from "./notificationService";
+import { IssueFilter, getIssueRepository } from "./repositories";
+import { getRoutingRules } from "./routingRules";
+import { getSlaPolicies } from "./slaPolicies";
+import { getOutsidePolicy, getWards, locateWard } from "./wardBoundaries";
+
+// What a reporter may submit; assignment, verification, merging and the
+// rest are set by the server and by staff later on
+export type NewIssueInput = Pick<
+  Issue,
+  | "userId"
+  | "userName"
+  | "title"
+  | "description"
+  | "category"
+  | "location"
+  | "latitude"
+  | "longitude"
+  | "locationSource"
+  | "locationAccuracy"
+  | "priority"
+  | "aiAnalysis"
+  | "aiCategory"
+  | "aiConfidence"
+  | "attachments"
+>;
+
+// Copies only the reporter's fields, whatever else the request body held
+const reportedFields = (input: NewIssueInput): NewIssueInput => ({
+  userId: input.userId,
+  userName: input.userName,
+  title: input.title,
+  description: input.description || "",
+  category: input.category,
+  location: input.location || "",
+  latitude: typeof input.latitude === "number" ? input.latitude : undefined,
+  longitude: typeof input.longitude === "number" ? input.longitude : undefined,
+  locationSource: input.locationSource,
+  locationAccuracy: input.locationAccuracy,
+  priority: ISSUE_PRIORITIES.includes(input.priority) ? input.priority : "medium",
+  aiAnalysis: input.aiAnalysis,
+  aiCategory: input.aiCategory,
+  aiConfidence: typeof input.aiConfidence === "number" ? input.aiConfidence : undefined,
+  attachments: input.attachments,
+});
+
+// What staff may change on an existing issue. A status change goes through
+// the workflow; assignment, photos, merging and verification have their own
+// operations
+export type IssueEdit = Partial<
+  Pick<
+    Issue,
+    | "title"
+    | "description"
+    | "category"
+    | "priority"
+    | "staffNotes"
+    | "department"
+    | "location"
+    | "latitude"
+    | "longitude"
+    | "locationSource"
+    | "locationAccuracy"
+    | "status"
+  >
+>;
+
+const EDITABLE_FIELDS: Exclude<keyof IssueEdit, "status">[] = [
+  "title",
+  "description",
+  "category",
+  "priority",
+  "staffNotes",
+  "department",
+  "location",
+  "latitude",
+  "longitude",
+  "locationSource",
+  "locationAccuracy",
+];
+
+// Copies only the editable fields the request actually sent
+const editedFields = (updates: IssueEdit): Partial<Issue> => {
+  const fields: Partial<Issue> = {};
+  EDITABLE_FIELDS.forEach((field) => {
+    if (updates[field] !== undefined) Object.assign(fields, { [field]: updates[field] });
+  });
+  if (fields.priority && !ISSUE_PRIORITIES.includes(fields.priority)) {
+    delete fields.priority;
+  }
+  return fields;
+};
+
+// Whoever triggered a change - recorded in history and never notified about it
+export interface Actor {
+  id: string;
+  name: string;
+  role: Role | "system";
+}
+
+export const SYSTEM_ACTOR: Actor = { id: "system", name: "System", role: "system" };
+
+export const actorFromUser = (user: User): Actor => ({
+  id: user.id,
+  name: `${user.firstName} ${user.lastName}`,
+  role: getEffectiveRole(user),
+});
+
+// Shapes an issue for the user receiving it: staff notes and who made the
+// assignment follow the same rule as internal comments. Every issue response
+// goes through here
+export const issueForViewer = (issue: Issue, viewer: User | null): Issue => {
+  if (canSeeInternalComments(viewer, issue)) return issue;
+  const { staffNotes, assignedById, ...visible } = issue;
+  return visible;
+};
+
+// Thrown when a status change is not allowed by the workflow in utils/issueWorkflow.ts
+export class IssueTransitionError extends Error {
+  constructor(
+    public readonly from: IssueStatus,
+    public readonly to: IssueStatus,
+    public readonly failure: TransitionFailure
+  ) {
+    super(describeTransitionFailure(failure, from, to));
+    this.name = "IssueTransitionError";
+  }
+
+  // HTTP status the API responds with
+  get status(): number {
+    switch (this.failure) {
+      case "forbidden":
+        return 403;
+      case "note-required":
+        return 400;
+      default:
+        return 409;
+    }
+  }
+}
+
+// Moves the issue to a new status and records where it came from; runs
+// inside the repository update so the check and the write cannot race
+function applyTransition(
+  issue: Issue,
+  to: IssueStatus,
+  actor: Actor,
+  note: string | undefined,
+  now: string
+): Issue {
+  const failure = checkTransition(issue, to, actor, note);
+  if (failure) throw new IssueTransitionError(issue.status, to, failure);
+
+  return {
+    ...issue,
+    status: to,
+    statusHistory: [
+      ...(issue.statusHistory || []),
+      { status: to, from: issue.status, changedBy: actor.name, changedAt: now, note },
+    ],
+    resolvedAt: to === "awaiting-confirmation" ? now : issue.resolvedAt,
+  };
+}
+
+// Notifies the reporter, assigned employee and assigning staff member;
+// co-reporters hear whatever the reporter hears. A failed notification must
+// never undo the change that triggered it
+async function notifyParticipants(
+  issue: Issue,
+  actor: Actor,
+  recipients: (string | undefined)[],
+  type: Notification["type"],
+  title: string,
+  message: string
+): Promise<void> {
+  if (recipients.includes(issue.userId)) {
+    recipients = [...recipients, ...(issue.coReporters || []).map((c) => c.userId)];
+  }
+  try {
+    await notificationService.notify(
+      recipients.filter((id) => id !== actor.id),
+      type,
+      title,
+      message,
+      issue.id
+    );
+  } catch (error) {
+    console.error("Failed to send notifications:", error);
+  }
+}
+
+// Thrown when a resident cannot be added as a co-reporter
+export class IssueSupportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IssueSupportError";
+  }
+}
+
+// Thrown when issues cannot be merged as asked
+export class IssueMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IssueMergeError";
+  }
+}
+
+// Thrown when a report is placed outside the municipality and
+// WARD_OUTSIDE_POLICY is "reject"
+export class IssueLocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IssueLocationError";
+  }
+}
+
+// How far apart two reports can be and still count as the same problem
+export const DUPLICATE_SEARCH_RADIUS_KM = 1;
+
+// PHOTO_DUPLICATE_RADIUS sets how many of the 64 hash bits two photos may
+// differ by and still be flagged as the same picture
+export function getPhotoDuplicateRadius(): number {
+  const raw = process.env.PHOTO_DUPLICATE_RADIUS?.trim();
+  if (!raw) return PHOTO_DUPLICATE_RADIUS;
+
+  const radius = Number(raw);
+  if (!Number.isInteger(radius) || radius < 0 || radius > 64) {
+    console.warn(
+      `Ignoring PHOTO_DUPLICATE_RADIUS="${raw}", using ${PHOTO_DUPLICATE_RADIUS}`
+    );
+    return PHOTO_DUPLICATE_RADIUS;
+  }
+  return radius;
+}
+
+// Older reports may hold unvalidated AI output; repair it before it reaches a page
+const withValidAnalysis = <T extends Pick<Issue, "aiAnalysis">>(issue: T): T =>
+  issue.aiAnalysis
+    ? { ...issue, aiAnalysis: normalizeIssueAnalysis(issue.aiAnalysis) }
+    : issue;
+
+// How the coordinates were found only means something when there are some;
+// unknown sources and impossible accuracies are dropped
+const locationProvenance = (
+  issue: Partial<Issue>
+): Pick<Issue, "locationSource" | "locationAccuracy"> => {
+  const located = typeof issue.latitude === "number" && typeof issue.longitude === "number";
+  const accuracy = issue.locationAccuracy;
+  return {
+    locationSource:
+      located && LOCATION_SOURCES.includes(issue.locationSource!) ? issue.locationSource : undefined,
+    locationAccuracy:
+      located && typeof accuracy === "number" && Number.isFinite(accuracy) && accuracy > 0
+        ? Math.round(accuracy)
+        : undefined,
+  };
+};
+
+// SLA due dates follow the current policies, so they are attached on the way
+// out rather than stored with the issue
+const withSla = (issue: Issue): Issue => ({
+  ...issue,
+  sla: slaUtils.computeIssueSla(issue, getSlaPolicies()),
+});
+
+const present = (issue: Issue | null): Issue | null =>
+  issue && withSla(withValidAnalysis(issue));
+
+// Flags issues whose photos are near-identical to a photo on another issue.
+// Every hashed photo goes into a Hamming index once, so each lookup only
+// visits the part of the index within the radius; merged duplicates are
+// already dealt with and left out
+async function withPhotoDuplicates(issues: Issue[]): Promise<Issue[]> {
+  if (!issues.some((issue) => issue.attachments?.some((a) => a.perceptualHash))) {
+    return issues;
+  }
+
+  const index = createHammingIndex<string>();
+  (await getIssueRepository().findAll()).forEach((issue) => {
+    if (issue.status === "merged") return;
+    (issue.attachments || []).forEach((a) => {
+      if (a.perceptualHash) index.add(a.perceptualHash, issue.id);
+    });
+  });
+
+  const radius = getPhotoDuplicateRadius();
+  return issues.map((issue) => {
+    if (issue.status === "merged") return issue;
+    const closest = new Map<string, number>();
+    (issue.attachments || []).forEach((a) => {
+      if (!a.perceptualHash) return;
+      index.search(a.perceptualHash, radius).forEach(({ value, distance }) => {
+        if (value === issue.id) return;
+        const known = closest.get(value);
+        if (known === undefined || distance < known) closest.set(value, distance);
+      });
+    });
+    if (closest.size === 0) return issue;
+
+    const photoDuplicates: PhotoDuplicate[] = Array.from(closest, ([issueId, distance]) => ({
+      issueId,
+      distance,
+    })).sort((a, b) => a.distance - b.distance);
+    return { ...issue, photoDuplicates };
+  });
+}
+
+export const issueService = {
+  async listIssues(filter?: IssueFilter): Promise<Issue[]> {
+    const issues = await getIssueRepository().findAll(filter);
+    return withPhotoDuplicates(issues.map(withSla));
+  },
+
+  async getIssue(issueId: string): Promise<Issue | null> {
+    const issue = present(await getIssueRepository().findById(issueId));
+    return issue && (await withPhotoDuplicates([issue]))[0];
+  },
+
+  async createIssue(input: NewIssueInput): Promise<Issue> {
+    const issue = reportedFields(input);
+    const ward = locateWard(issue.latitude, issue.longitude);
+    if (ward.outsideMunicipality && getOutsidePolicy() === "reject") {
+      throw new IssueLocationError(
+        "This location is outside the municipality. Reports can only be made for locations inside its wards."
+      );
+    }
+
+    // Without a matching rule staff choose the department
+    const analysed = withValidAnalysis(issue);
+    const routing = departmentRoutingUtils.routeIssue({ ...analysed, ...ward }, getRoutingRules());
+
+    const now = new Date().toISOString();
+    const created = await getIssueRepository().create({
+      ...analysed,
+      ...ward,
+      ...locationProvenance(issue),
+      department: routing?.department,
+      routingRuleId: routing?.ruleId,
+      sla: undefined,
+      photoDuplicates: undefined,
+      status: "pending",
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+      viewCount: 0,
+      statusHistory: [
+        {
+          status: "pending",
+          changedBy: "System",
+          changedAt: now,
+          note: "Report created",
+        },
+        {
+          status: "pending",
+          changedBy: "System",
+          changedAt: now,
+          note: departmentRoutingUtils.describeDecision(routing),
+        },
+      ],
+    });
+    return withSla(created);
+  },
+
+  // Status changes must follow the workflow; of the other fields only those
+  // in IssueEdit are taken
+  async updateIssue(
+    issueId: string,
+    updates: IssueEdit,
+    actor: Actor = SYSTEM_ACTOR,
+    note?: string
+  ): Promise<Issue | null> {
+    const newStatus = updates.status;
+    const fields = editedFields(updates);
+    let previousStatus: IssueStatus | undefined;
+    const updated = await getIssueRepository().update(issueId, (issue) => {
+      const now = new Date().toISOString();
+      previousStatus = issue.status;
+      // Merging has its own operation
+      if (newStatus && findTransition(issue.status, newStatus)?.internal) {
+        throw new IssueTransitionError(issue.status, newStatus, "illegal");
+      }
+
+      const changed: Issue = {
+        ...issue,
+        ...fields,
+        sla: undefined,
+        photoDuplicates: undefined,
+        updatedAt: now,
+      };
+      // Coordinates edited without saying how were placed by hand
+      if (
+        (changed.latitude !== issue.latitude || changed.longitude !== issue.longitude) &&
+        !fields.locationSource
+      ) {
+        changed.locationSource = "manual";
+        changed.locationAccuracy = undefined;
+      }
+      Object.assign(changed, locationProvenance(changed));
+      // The ward follows the coordinates and cannot be set directly
+      Object.assign(changed, locateWard(changed.latitude, changed.longitude));
+      // A department chosen by staff overrides the automatic routing
+      changed.routingRuleId = issue.routingRuleId;
+      if ((changed.department || "") !== (issue.department || "")) {
+        changed.routingRuleId = undefined;
+        changed.statusHistory = [
+          ...(issue.statusHistory || []),
+          {
+            status: issue.status,
+            changedBy: actor.name,
+            changedAt: now,
+            note: `Department changed from ${issue.department || "none"} to ${changed.department || "none"}`,
+          },
+        ];
+      }
+      return newStatus && newStatus !== issue.status
+        ? applyTransition(changed, newStatus, actor, note, now)
+        : changed;
+    });
+
+    if (updated && previousStatus !== updated.status) {
+      const phase = getStatusPhase(updated.status);
+      await notifyParticipants(
+        updated,
+        actor,
+        [updated.userId, updated.assignedToEmployee, updated.assignedById],
+        phase === "resolved" || phase === "rejected" ? phase : "status_update",
+        `Issue marked ${statusLabels[updated.status]}`,
+        `${actor.name} changed the status of "${updated.title}"${
+          note ? `: ${note}` : ""
+        }`
+      );
+    }
+    return present(updated);
+  },
+
+  // Open or in-progress reports near the candidate that look like the same
+  // problem, leaving out those the resident already reported or supports.
+  // A near-identical photo counts wherever the report was placed. Only a
+  // small public summary is returned - guests can run the check too
+  async findOpenDuplicates(
+    candidate: SimilarityCandidate & { latitude: number; longitude: number },
+    residentId?: string
+  ): Promise<DuplicateMatch[]> {
+    const radius = getPhotoDuplicateRadius();
+    const distanceTo = (issue: Issue) =>
+      issue.latitude === undefined || issue.longitude === undefined
+        ? undefined
+        : getDistanceBetweenPoints(
+            candidate.latitude,
+            candidate.longitude,
+            issue.latitude,
+            issue.longitude
+          );
+    const isSamePhoto = (issue: Issue) => {
+      const photoDistance = smartSearchUtils.photoDistance(candidate, issue);
+      return photoDistance !== null && photoDistance <= radius;
+    };
+
+    const nearby = (await getIssueRepository().findAll()).filter((issue) => {
+      const phase = getStatusPhase(issue.status);
+      if (phase !== "open" && phase !== "active") return false;
+      if (
+        residentId &&
+        (issue.userId === residentId ||
+          issue.coReporters?.some((c) => c.userId === residentId))
+      ) {
+        return false;
+      }
+      const distance = distanceTo(issue);
+      return (
+        isSamePhoto(issue) ||
+        (distance !== undefined && distance <= DUPLICATE_SEARCH_RADIUS_KM)
+      );
+    });
+
+    return smartSearchUtils
+      .findSimilarReports(candidate, nearby, undefined, radius)
+      .slice(0, MAX_DUPLICATE_MATCHES)
+      .map((issue) => ({
+        id: issue.id,
+        title: issue.title,
+        category: issue.category,
+        status: issue.status,
+        createdAt: issue.createdAt,
+        distanceKm: distanceTo(issue),
+        samePhoto: isSamePhoto(issue),
+      }));
+  },
+
+  // Adds a resident to an existing report instead of creating a duplicate;
+  // their photos join the gallery as report photos
+  async addCoReporter(
+    issueId: string,
+    resident: Actor,
+    attachments: IssueAttachment[] = []
+  ): Promise<Issue | null> {
+    let added = false;
+    const issue = await getIssueRepository().update(issueId, (issue) => {
+      const phase = getStatusPhase(issue.status);
+      if (phase !== "open" && phase !== "active") {
+        throw new IssueSupportError("Only open reports can be supported");
+      }
+      const coReporters = issue.coReporters || [];
+      if (issue.userId === resident.id || coReporters.some((c) => c.userId === resident.id)) {
+        return issue;
+      }
+
+      const existing = issue.attachments || [];
+      const photos = attachments
+        .filter((a) => !existing.some((e) => e.id === a.id))
+        .slice(0, Math.max(0, MAX_ISSUE_ATTACHMENTS - existing.length));
+      const now = new Date().toISOString();
+      added = true;
+      return {
+        ...issue,
+        coReporters: [
+          ...coReporters,
+          { userId: resident.id, userName: resident.name, addedAt: now },
+        ],
+        attachments: [...existing, ...photos],
+        updatedAt: now,
+      };
+    });
+
+    if (issue && added) {
+      await notifyParticipants(
+        issue,
+        resident,
+        [issue.userId, issue.assignedToEmployee, issue.assignedById],
+        "status_update",
+        "👥 Another resident reported this",
+        `${resident.name} reported the same problem as "${issue.title}" (${
+          (issue.coReporters || []).length + 1
+        } residents in total)`
+      );
+    }
+    return present(issue);
+  },
+
+  // Folds duplicates into a parent: each child moves to "merged" and its
+  // reporters and photos join the parent, with history on both sides.
+  // Everything is checked and written in one step under the store's lock, so
+  // a failed check leaves every issue as it was
+  async mergeIssues(
+    parentId: string,
+    childIds: string[],
+    actor: Actor,
+    note?: string
+  ): Promise<Issue | null> {
+    const ids = Array.from(new Set(childIds)).filter((id) => id !== parentId);
+    const now = new Date().toISOString();
+    let merged: Issue[] = [];
+
+    const written = await getIssueRepository().updateMany(
+      [parentId, ...ids],
+      (issues) => {
+        const parent = issues.find((issue) => issue.id === parentId);
+        if (!parent) return null;
+
+        if (ids.length === 0) {
+          throw new IssueMergeError("Choose at least one other issue to merge");
+        }
+        const parentPhase = getStatusPhase(parent.status);
+        if (parentPhase !== "open" && parentPhase !== "active") {
+          throw new IssueMergeError("Duplicates can only be merged into an open issue");
+        }
+
+        const children = ids.map((id) => {
+          const child = issues.find((issue) => issue.id === id);
+          if (!child) throw new IssueMergeError(`Issue ${id} not found`);
+          if (child.mergedIssueIds?.length) {
+            throw new IssueMergeError(
+              `#${caseId(child.id)} already has merged reports - merge into it instead`
+            );
+          }
+          const failure = checkTransition(child, "merged", actor);
+          if (failure) throw new IssueTransitionError(child.status, "merged", failure);
+          return child;
+        });
+
+        merged = children.map((child) =>
+          applyTransition(
+            { ...child, parentIssueId: parentId, updatedAt: now },
+            "merged",
+            actor,
+            `Merged into #${caseId(parent.id)}${note ? `: ${note}` : ""}`,
+            now
+          )
+        );
+
+        const coReporters = [...(parent.coReporters || [])];
+        const attachments = [...(parent.attachments || [])];
+        for (const child of merged) {
+          const reporters = [
+            { userId: child.userId, userName: child.userName, addedAt: child.createdAt },
+            ...(child.coReporters || []),
+          ];
+          for (const reporter of reporters) {
+            if (
+              reporter.userId !== parent.userId &&
+              !coReporters.some((c) => c.userId === reporter.userId)
+            ) {
+              coReporters.push(reporter);
+            }
+          }
+          // Photos past the gallery limit stay on the merged report
+          for (const attachment of child.attachments || []) {
+            if (
+              attachments.length < MAX_ISSUE_ATTACHMENTS &&
+              !attachments.some((a) => a.id === attachment.id)
+            ) {
+              attachments.push(attachment);
+            }
+          }
+        }
+
+        const combined: Issue = {
+          ...parent,
+          coReporters,
+          attachments,
+          mergedIssueIds: [...(parent.mergedIssueIds || []), ...merged.map((c) => c.id)],
+          statusHistory: [
+            ...(parent.statusHistory || []),
+            {
+              status: parent.status,
+              changedBy: actor.name,
+              changedAt: now,
+              note: `Merged duplicate reports ${merged.map((c) => `#${caseId(c.id)}`).join(", ")}${
+                note ? `: ${note}` : ""
+              }`,
+            },
+          ],
+          updatedAt: now,
+        };
+        return [combined, ...merged];
+      }
+    );
+    if (!written) return null;
+    const [updated] = written;
+
+    for (const child of merged) {
+      await notifyParticipants(
+        child,
+        actor,
+        [child.userId, child.assignedToEmployee],
+        "status_update",
+        "🔗 Your report was merged",
+        `"${child.title}" is the same problem as #${caseId(updated.id)} "${updated.title}" - you'll get updates on that issue from now on`
+      );
+    }
+    await notifyParticipants(
+      updated,
+      actor,
+      [updated.assignedToEmployee, updated.assignedById],
+      "status_update",
+      "🔗 Duplicate reports merged",
+      `${merged.length} duplicate report(s) were merged into "${updated.title}"`
+    );
+    return present(updated);
+  },
+
+  // Adds photos to the end of the issue's gallery
+  async addAttachments(
+    issueId: string,
+    attachments: IssueAttachment[],
+    actor: Actor
+  ): Promise<Issue | null> {
+    const issue = await getIssueRepository().update(issueId, (issue) => {
+      const existing = issue.attachments || [];
+      const added = attachments.filter(
+        (a) => !existing.some((e) => e.id === a.id && e.role === a.role)
+      );
+      if (existing.length + added.length > MAX_ISSUE_ATTACHMENTS) {
+        throw new AttachmentValidationError(
+          `An issue can have at most ${MAX_ISSUE_ATTACHMENTS} photos`
+        );
+      }
+      return {
+        ...issue,
+        attachments: [...existing, ...added],
+        updatedAt: new Date().toISOString(),
+      };
+    });
+
+    if (issue && attachments.some((a) => a.role === "completion")) {
+      await notifyParticipants(
+        issue,
+        actor,
+        [issue.userId, issue.assignedById],
+        "status_update",
+        "📸 Completion photos added",
+        `${actor.name} added photos of the finished work on "${issue.title}"`
+      );
+    }
+    return present(issue);
+  },
+
+  incrementViewCount(issueId: string): Promise<Issue | null> {
+    return getIssueRepository().update(issueId, (issue) => ({
+      ...issue,
+      viewCount: (issue.viewCount || 0) + 1,
+    }));
+  },
+
+  deleteIssue(issueId: string): Promise<boolean> {
+    return getIssueRepository().delete(issueId);
+  },
+
+  // Assign issue to department and employee; the reason, such as why auto-assign
+  // chose this employee, is added to the history note
+  async assignIssue(
+    issueId: string,
+    department: string,
+    employeeId: string,
+    employeeName: string,
+    assignedBy: Actor,
+    reason?: string
+  ): Promise<Issue | null> {
+    const issue = await getIssueRepository().update(issueId, (issue) => {
+      const now = new Date().toISOString();
+      const note =
+        `Assigned to ${department} department - ${employeeName}` + (reason ? `. ${reason}` : "");
+      const assigned: Issue = {
+        ...issue,
+        department,
+        routingRuleId: department === issue.department ? issue.routingRuleId : undefined,
+        assignedToEmployee: employeeId,
+        assignedToEmployeeName: employeeName,
+        assignedBy: assignedBy.name,
+        assignedById: assignedBy.id,
+        assignedAt: now,
+        updatedAt: now,
+      };
+
+      // Reassigning keeps the status; anything else moves the issue to assigned
+      if (issue.status !== "assigned") {
+        return applyTransition(assigned, "assigned", assignedBy, note, now);
+      }
+      return {
+        ...assigned,
+        statusHistory: [
+          ...(issue.statusHistory || []),
+          { status: issue.status, changedBy: assignedBy.name, changedAt: now, note },
+        ],
+      };
+    });
+
+    if (issue) {
+      await notifyParticipants(
+        issue,
+        assignedBy,
+        [employeeId],
+        "assignment",
+        "📋 New assignment",
+        `${assignedBy.name} assigned you "${issue.title}"`
+      );
+      await notifyParticipants(
+        issue,
+        assignedBy,
+        [issue.userId],
+        "status_update",
+        "👷 Your report has been assigned",
+        `"${issue.title}" was assigned to the ${department} department`
+      );
+    }
+    return present(issue);
+  },
+
+  // Stores the AI comparison of the before and after photos; staff and the
+  // assignee hear about anything short of a fix
+  async recordVerification(
+    issueId: string,
+    verification: ResolutionVerification
+  ): Promise<Issue | null> {
+    const issue = await getIssueRepository().update(issueId, (issue) => ({
+      ...issue,
+      resolutionVerification: verification,
+      updatedAt: new Date().toISOString(),
+    }));
+
+    if (issue && verification.verdict !== "fixed") {
+      await notifyParticipants(
+        issue,
+        SYSTEM_ACTOR,
+        [issue.assignedToEmployee, issue.assignedById],
+        "status_update",
+        "🤖 Resolution needs review",
+        `AI verification of "${issue.title}": ${resolutionVerdictLabels[verification.verdict]} (${Math.round(verification.confidence * 100)}% confidence)`
+      );
+    }
+    return present(issue);
+  },
+
+  // Closes a resolution the reporter never answered; refused unless the
+  // stored verification is a confident "fixed"
+  async autoCloseResolution(issueId: string, note: string): Promise<Issue | null> {
+    const issue = await getIssueRepository().update(issueId, (issue) => {
+      if (!resolutionVerificationUtils.canAutoClose(issue)) {
+        throw new IssueTransitionError(issue.status, "closed", "forbidden");
+      }
+      const now = new Date().toISOString();
+      return applyTransition({ ...issue, updatedAt: now }, "closed", SYSTEM_ACTOR, note, now);
+    });
+
+    if (issue) {
+      await notifyParticipants(
+        issue,
+        SYSTEM_ACTOR,
+        [issue.userId, issue.assignedToEmployee, issue.assignedById],
+        "resolved",
+        "✅ Issue closed",
+        `"${issue.title}" was closed: ${note}`
+      );
+    }
+    return present(issue);
+  },
+
+  // Resident confirms issue resolution
+  async confirmResolution(
+    issueId: string,
+    resident: Actor
+  ): Promise<Issue | null> {
+    const issue = await getIssueRepository().update(issueId, (issue) => {
+      const now = new Date().toISOString();
+      return applyTransition(
+        {
+          ...issue,
+          residentConfirmed: true,
+          residentConfirmedAt: now,
+          updatedAt: now,
+        },
+        "closed",
+        resident,
+        "Resident confirmed issue has been resolved",
+        now
+      );
+    });
+
+    if (issue) {
+      await notifyParticipants(
+        issue,
+        resident,
+        [issue.assignedToEmployee, issue.assignedById],
+        "resolved",
+        "🎉 Resolution confirmed",
+        `${resident.name} confirmed "${issue.title}" has been resolved`
+      );
+    }
+    return present(issue);
+  },
+
+  // Resident reports issue not resolved
+  async rejectResolution(
+    issueId: string,
+    resident: Actor,
+    feedback: string
+  ): Promise<Issue | null> {
+    const issue = await getIssueRepository().update(issueId, (issue) => {
+      const now = new Date().toISOString();
+      return applyTransition(
+        {
+          ...issue,
+          residentConfirmed: false,
+          residentRejected: true,
+          residentRejectedAt: now,
+          residentFeedback: feedback,
+          updatedAt: now,
+        },
+        "reopened",
+        resident,
+        feedback && `Resident reported issue not resolved: ${feedback}`,
+        now
+      );
+    });
+
+    if (issue) {
+      await notifyParticipants(
+        issue,
+        resident,
+        [issue.assignedToEmployee, issue.assignedById],
+        "rejected",
+        "⚠️ Resolution disputed",
+        `${resident.name} says "${issue.title}" is not resolved: ${feedback}`
+      );
+    }
+    return present(issue);
+  },
+
+  // Re-runs the ward lookup for every issue, so reports made before the
+  // boundaries were configured (or changed) get the right ward
+  async assignWards(): Promise<number> {
+    if (getWards().length === 0) return 0;
+
+    const issues = await getIssueRepository().findAll();
+    let updated = 0;
+    for (const issue of issues) {
+      const ward = locateWard(issue.latitude, issue.longitude);
+      if (
+        ward.wardId === issue.wardId &&
+        !!ward.outsideMunicipality === !!issue.outsideMunicipality
+      ) {
+        continue;
+      }
+      await getIssueRepository().update(issue.id, (current) => ({ ...current, ...ward }));
+      updated++;
+    }
+    return updated;
+  },
+};
@@ -0,0 +1,61 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, afterEach, describe, expect, it } from "vitest";
+import { expectArray, expectUniqueIds, loadJsonConfig } from "./jsonConfig";
+
+class TestConfigError extends Error {}
+
+const ENV = "TEST_JSON_CONFIG_FILE";
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "json-config-"));
+const writeConfig = (name: string, contents: string) => {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, contents);
+  process.env[ENV] = file;
+  return file;
+};
+const load = () =>
+  loadJsonConfig(ENV, ["fallback"], TestConfigError, (parsed) =>
+    expectArray(parsed, ENV, "names", TestConfigError).map(String)
+  );
+
+afterEach(() => {
+  delete process.env[ENV];
+});
+afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+describe("loadJsonConfig", () => {
+  it("returns the fallback when the variable is unset", () => {
+    expect(load()).toEqual(["fallback"]);
+  });
+
+  it("validates the file once and reads a new file when the variable changes", () => {
+    const file = writeConfig("first.json", '["a", "b"]');
+    expect(load()).toEqual(["a", "b"]);
+
+    fs.writeFileSync(file, '["changed"]');
+    expect(load()).toEqual(["a", "b"]);
+
+    writeConfig("second.json", '["c"]');
+    expect(load()).toEqual(["c"]);
+  });
+
+  it("throws the module's error for unreadable or invalid files", () => {
+    process.env[ENV] = path.join(dir, "missing.json");
+    expect(load).toThrow(TestConfigError);
+
+    writeConfig("broken.json", "[");
+    expect(load).toThrow(/Could not read TEST_JSON_CONFIG_FILE/);
+
+    writeConfig("object.json", '{"a": 1}');
+    expect(load).toThrow(`${ENV} must contain a JSON array of names`);
+  });
+});
+
+describe("expectUniqueIds", () => {
+  it("names the repeated id", () => {
+    expect(() =>
+      expectUniqueIds([{ id: "x" }, { id: "y" }, { id: "x" }], "Depot id", TestConfigError)
+    ).toThrow('Depot id "x" is used twice');
+  });
+});
@@ -0,0 +1,78 @@
+// server/jsonConfig.ts
+// Configuration read from a JSON file named by an environment variable (SLA
+// policies, routing rules, wards, depots, the gazetteer, the offline basemap).
+// Each file is read and validated once; pointing the variable at another
+// file reads that one instead.
+import fs from "node:fs";
+
+export type ConfigErrorClass = new (message: string) => Error;
+
+const cache = new Map<string, { file: string; value: unknown }>();
+
+// The validated contents of the file named by `envVar`, or `fallback` when the
+// variable is unset. A file that cannot be read or parsed throws ConfigError;
+// `validate` throws it for contents that are not usable
+export function loadJsonConfig<T>(
+  envVar: string,
+  fallback: T,
+  ConfigError: ConfigErrorClass,
+  validate: (parsed: unknown) => T
+): T {
+  const file = process.env[envVar]?.trim();
+  if (!file) return fallback;
+
+  const cached = cache.get(envVar);
+  if (cached?.file === file) return cached.value as T;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new ConfigError(`Could not read ${envVar} "${file}": ${(error as Error).message}`);
+  }
+
+  const value = validate(parsed);
+  cache.set(envVar, { file, value });
+  return value;
+}
+
+// A JSON array of `items`, e.g. "policies", to be validated one by one
+export function expectArray(
+  parsed: unknown,
+  envVar: string,
+  items: string,
+  ConfigError: ConfigErrorClass
+): unknown[] {
+  if (!Array.isArray(parsed)) {
+    throw new ConfigError(`${envVar} must contain a JSON array of ${items}`);
+  }
+  return parsed;
+}
+
+// The features of a GeoJSON FeatureCollection
+export function expectFeatureCollection(
+  parsed: unknown,
+  envVar: string,
+  ConfigError: ConfigErrorClass
+): unknown[] {
+  const collection = parsed as { type?: unknown; features?: unknown } | null;
+  if (collection?.type !== "FeatureCollection" || !Array.isArray(collection.features)) {
+    throw new ConfigError(`${envVar} must contain a GeoJSON FeatureCollection`);
+  }
+  return collection.features;
+}
+
+// Throws when two entries share an id; `label` names them in the message,
+// e.g. "Depot id"
+export function expectUniqueIds<T extends { id: string }>(
+  entries: T[],
+  label: string,
+  ConfigError: ConfigErrorClass
+): T[] {
+  const ids = new Set<string>();
+  entries.forEach((entry) => {
+    if (ids.has(entry.id)) throw new ConfigError(`${label} "${entry.id}" is used twice`);
+    ids.add(entry.id);
+  });
+  return entries;
+}
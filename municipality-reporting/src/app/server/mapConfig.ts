@@ -0,0 +1,63 @@
+// server/mapConfig.ts
+// The issue map uses OpenStreetMap tiles unless configured otherwise:
+//   MAP_TILE_URL          "{z}/{x}/{y}" template of a (local) raster tile server
+//   MAP_TILE_ATTRIBUTION  credit line shown on the map
+//   MAP_MAX_ZOOM          deepest zoom the tile server provides
+//   MAP_BASEMAP_FILE      GeoJSON file drawn as a vector basemap instead of
+//                         tiles, for installations without internet access
+import { MapTileSource, defaultTileSource } from "@/app/utils/mapView";
+import { expectFeatureCollection, loadJsonConfig } from "./jsonConfig";
+
+export class MapConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MapConfigError";
+  }
+}
+
+function getMaxZoom(): number {
+  const raw = process.env.MAP_MAX_ZOOM?.trim();
+  if (!raw) return defaultTileSource.maxZoom;
+
+  const zoom = Number(raw);
+  if (!Number.isInteger(zoom) || zoom < 2 || zoom > 22) {
+    console.warn(`Ignoring MAP_MAX_ZOOM="${raw}", using ${defaultTileSource.maxZoom}`);
+    return defaultTileSource.maxZoom;
+  }
+  return zoom;
+}
+
+export function getMapTileSource(): MapTileSource {
+  const attribution = process.env.MAP_TILE_ATTRIBUTION?.trim();
+  if (process.env.MAP_BASEMAP_FILE?.trim()) {
+    return {
+      type: "vector",
+      url: "/api/map/basemap",
+      attribution: attribution || "Offline basemap",
+      maxZoom: getMaxZoom(),
+    };
+  }
+
+  let url = process.env.MAP_TILE_URL?.trim();
+  if (url && !["{z}", "{x}", "{y}"].every((part) => url!.includes(part))) {
+    console.warn(`Ignoring MAP_TILE_URL="${url}": it needs {z}, {x} and {y} placeholders`);
+    url = undefined;
+  }
+  return {
+    type: "raster",
+    url: url || defaultTileSource.url,
+    attribution: attribution || (url ? "" : defaultTileSource.attribution),
+    maxZoom: getMaxZoom(),
+  };
+}
+
+// Reads MAP_BASEMAP_FILE once; throws MapConfigError if it is missing or is
+// not a GeoJSON FeatureCollection
+export function readBasemap(): unknown {
+  const basemap = loadJsonConfig("MAP_BASEMAP_FILE", null, MapConfigError, (parsed) => {
+    expectFeatureCollection(parsed, "MAP_BASEMAP_FILE", MapConfigError);
+    return parsed;
+  });
+  if (!basemap) throw new MapConfigError("No offline basemap is configured");
+  return basemap;
+}
@@ -0,0 +1,52 @@
+// server/notificationService.ts
+import { randomUUID } from "node:crypto";
+import { Notification } from "@/app/utils/notifications";
+import { getNotificationRepository } from "./repositories";
+
+export const notificationService = {
+  listForUser(userId: string): Promise<Notification[]> {
+    return getNotificationRepository().findByUser(userId);
+  },
+
+  // Marks the given notifications as read, or all of them when ids is omitted
+  markRead(userId: string, ids?: string[]): Promise<number> {
+    return getNotificationRepository().markRead(userId, ids);
+  },
+
+  deleteNotification(userId: string, notificationId: string): Promise<boolean> {
+    return getNotificationRepository().delete(userId, notificationId);
+  },
+
+  // Sends the same notification to each recipient once; guest reporters
+  // have no account to notify, so their placeholder ids are skipped
+  async notify(
+    userIds: (string | undefined)[],
+    type: Notification["type"],
+    title: string,
+    message: string,
+    issueId: string
+  ): Promise<Notification[]> {
+    const recipients = Array.from(
+      new Set(
+        userIds.filter(
+          (id): id is string => !!id && !id.startsWith("guest-")
+        )
+      )
+    );
+    if (recipients.length === 0) return [];
+
+    const createdAt = new Date().toISOString();
+    return getNotificationRepository().createMany(
+      recipients.map((userId) => ({
+        id: `notif-${randomUUID()}`,
+        userId,
+        type,
+        title,
+        message,
+        issueId,
+        isRead: false,
+        createdAt,
+      }))
+    );
+  },
+};
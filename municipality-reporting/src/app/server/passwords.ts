@@ -0,0 +1,46 @@
+// server/passwords.ts
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+
+const SCRYPT_KEY_LENGTH = 64;
+
+const deriveKey = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+
+// Stored as "scrypt$<salt hex>$<key hex>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+// 32-bit string hash used by accounts created before scrypt was introduced.
+// Only ever used to verify, after which the password is re-hashed.
+const legacyHash = (password: string): string => {
+  let hash = 0;
+  for (let i = 0; i < password.length; i++) {
+    hash = (hash << 5) - hash + password.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return hash.toString(36);
+};
+
+export const isLegacyHash = (stored: string): boolean =>
+  !stored.startsWith("scrypt$");
+
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  if (isLegacyHash(stored)) {
+    return legacyHash(password) === stored;
+  }
+
+  const [, saltHex, keyHex] = stored.split("$");
+  const expected = Buffer.from(keyHex, "hex");
+  const actual = await deriveKey(password, Buffer.from(saltHex, "hex"));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,45 @@
+// server/repositories/attachmentRepository.ts
+import { Attachment } from "@/app/utils/attachments";
+import { RecordStore } from "./recordStore";
+import { AttachmentRepository } from "./types";
+
+export function createAttachmentRepository(
+  store: RecordStore<Attachment>
+): AttachmentRepository {
+  return {
+    findAll() {
+      return store.read();
+    },
+
+    async findById(id) {
+      const attachments = await store.read();
+      return attachments.find((attachment) => attachment.id === id) || null;
+    },
+
+    async findByIds(ids) {
+      const attachments = await store.read();
+      return ids
+        .map((id) => attachments.find((attachment) => attachment.id === id))
+        .filter((attachment): attachment is Attachment => !!attachment);
+    },
+
+    save(attachment) {
+      return store.mutate((attachments) => {
+        const existing = attachments.find((a) => a.id === attachment.id);
+        if (existing) return { records: attachments, result: existing };
+        return { records: [...attachments, attachment], result: attachment };
+      });
+    },
+
+    update(id, updater) {
+      return store.mutate((attachments) => {
+        const index = attachments.findIndex((attachment) => attachment.id === id);
+        if (index === -1) return { records: attachments, result: null };
+
+        const updated = updater(attachments[index]);
+        attachments[index] = updated;
+        return { records: attachments, result: updated };
+      });
+    },
+  };
+}
@@ -0,0 +1,51 @@
+// server/repositories/blobStore.ts
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { BlobStore } from "./types";
+
+// Keys come from hashes we generate, but never let one escape the blob directory
+const KEY_PATTERN = /^[a-f0-9]{64}\/[a-z]+\.[a-z0-9]+$/;
+
+const checkKey = (key: string) => {
+  if (!KEY_PATTERN.test(key)) throw new Error(`Invalid blob key "${key}"`);
+};
+
+// Files under one directory, written atomically via rename
+export function createFileBlobStore(dir: string): BlobStore {
+  return {
+    async get(key) {
+      checkKey(key);
+      try {
+        return await fs.readFile(path.join(dir, key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async put(key, data) {
+      checkKey(key);
+      const filePath = path.join(dir, key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, data);
+      await fs.rename(tmpPath, filePath);
+    },
+  };
+}
+
+// Blobs kept in process memory - used when STORAGE_DRIVER=memory
+export function createMemoryBlobStore(): BlobStore {
+  const blobs = new Map<string, Buffer>();
+  return {
+    async get(key) {
+      checkKey(key);
+      return blobs.get(key) || null;
+    },
+
+    async put(key, data) {
+      checkKey(key);
+      blobs.set(key, Buffer.from(data));
+    },
+  };
+}
@@ -0,0 +1,56 @@
+// server/repositories/commentRepository.ts
+import { IssueComment } from "@/app/utils/comments";
+import { RecordStore } from "./recordStore";
+import { CommentRepository } from "./types";
+
+export function createCommentRepository(
+  store: RecordStore<IssueComment>
+): CommentRepository {
+  return {
+    findAll() {
+      return store.read();
+    },
+
+    async findByIssue(issueId) {
+      const comments = await store.read();
+      return comments
+        .filter((comment) => comment.issueId === issueId)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    async findById(id) {
+      const comments = await store.read();
+      return comments.find((comment) => comment.id === id) || null;
+    },
+
+    create(comment) {
+      return store.mutate((comments) => ({
+        records: [...comments, comment],
+        result: comment,
+      }));
+    },
+
+    update(id, updater) {
+      return store.mutate((comments) => {
+        const index = comments.findIndex((comment) => comment.id === id);
+        if (index === -1) return { records: comments, result: null };
+
+        const updated = updater(comments[index]);
+        if (!updated) return { records: comments, result: null };
+
+        comments[index] = updated;
+        return { records: comments, result: updated };
+      });
+    },
+
+    delete(id) {
+      return store.mutate((comments) => {
+        const remaining = comments.filter((comment) => comment.id !== id);
+        return {
+          records: remaining,
+          result: remaining.length !== comments.length,
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,40 @@
+// server/repositories/geocodeCacheRepository.ts
+import { RecordStore } from "./recordStore";
+import { GeocodeCacheEntry, GeocodeCacheRepository } from "./types";
+
+export function createGeocodeCacheRepository(
+  store: RecordStore<GeocodeCacheEntry>
+): GeocodeCacheRepository {
+  return {
+    async findByKey(key) {
+      const entries = await store.read();
+      return entries.find((entry) => entry.key === key) || null;
+    },
+
+    save(entry, { maxEntries, expiredBefore }) {
+      // Entries are kept in the order they were cached, newest last
+      return store.mutate((entries) => ({
+        records: [
+          ...entries.filter(
+            (existing) =>
+              existing.key !== entry.key && new Date(existing.cachedAt) >= expiredBefore
+          ),
+          entry,
+        ].slice(-maxEntries),
+        result: entry,
+      }));
+    },
+
+    deleteOlderThan(date) {
+      return store.mutate((entries) => {
+        const remaining = entries.filter(
+          (entry) => new Date(entry.cachedAt) >= date
+        );
+        return {
+          records: remaining,
+          result: entries.length - remaining.length,
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,134 @@
+// server/repositories/index.ts
+import path from "node:path";
+import { Attachment } from "@/app/utils/attachments";
+import { IssueComment } from "@/app/utils/comments";
+import { Issue } from "@/app/utils/localStorage";
+import { Notification } from "@/app/utils/notifications";
+import {
+  RecordStore,
+  createJsonFileStore,
+  createMemoryStore,
+} from "./recordStore";
+import { createIssueRepository } from "./issueRepository";
+import { createUserRepository } from "./userRepository";
+import { createSessionRepository } from "./sessionRepository";
+import { createCommentRepository } from "./commentRepository";
+import { createNotificationRepository } from "./notificationRepository";
+import { createAttachmentRepository } from "./attachmentRepository";
+import { createGeocodeCacheRepository } from "./geocodeCacheRepository";
+import { createFileBlobStore, createMemoryBlobStore } from "./blobStore";
+import {
+  AttachmentRepository,
+  BlobStore,
+  CommentRepository,
+  GeocodeCacheEntry,
+  GeocodeCacheRepository,
+  IssueRepository,
+  NotificationRepository,
+  Session,
+  SessionRepository,
+  StoredUser,
+  UserRepository,
+} from "./types";
+
+export * from "./types";
+
+// STORAGE_DRIVER selects the backend: "file" (default) keeps JSON files under
+// DATA_DIR, "memory" keeps everything in process and is lost on restart
+const driver = process.env.STORAGE_DRIVER || "file";
+const dataDir = process.env.DATA_DIR || path.join(process.cwd(), "data");
+
+function createStore<T>(name: string): RecordStore<T> {
+  if (driver === "memory") return createMemoryStore<T>();
+  if (driver === "file") {
+    return createJsonFileStore<T>(path.join(dataDir, `${name}.json`));
+  }
+  throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+}
+
+// Route handlers can be bundled separately, so the singletons live on
+// globalThis to make every route share the same store and write lock
+const globalRepositories = globalThis as typeof globalThis & {
+  __issueRepository?: IssueRepository;
+  __userRepository?: UserRepository;
+  __sessionRepository?: SessionRepository;
+  __commentRepository?: CommentRepository;
+  __notificationRepository?: NotificationRepository;
+  __attachmentRepository?: AttachmentRepository;
+  __geocodeCacheRepository?: GeocodeCacheRepository;
+  __blobStore?: BlobStore;
+};
+
+export function getIssueRepository(): IssueRepository {
+  if (!globalRepositories.__issueRepository) {
+    globalRepositories.__issueRepository = createIssueRepository(
+      createStore<Issue>("issues")
+    );
+  }
+  return globalRepositories.__issueRepository;
+}
+
+export function getUserRepository(): UserRepository {
+  if (!globalRepositories.__userRepository) {
+    globalRepositories.__userRepository = createUserRepository(
+      createStore<StoredUser>("users")
+    );
+  }
+  return globalRepositories.__userRepository;
+}
+
+export function getSessionRepository(): SessionRepository {
+  if (!globalRepositories.__sessionRepository) {
+    globalRepositories.__sessionRepository = createSessionRepository(
+      createStore<Session>("sessions")
+    );
+  }
+  return globalRepositories.__sessionRepository;
+}
+
+export function getCommentRepository(): CommentRepository {
+  if (!globalRepositories.__commentRepository) {
+    globalRepositories.__commentRepository = createCommentRepository(
+      createStore<IssueComment>("comments")
+    );
+  }
+  return globalRepositories.__commentRepository;
+}
+
+export function getNotificationRepository(): NotificationRepository {
+  if (!globalRepositories.__notificationRepository) {
+    globalRepositories.__notificationRepository = createNotificationRepository(
+      createStore<Notification>("notifications")
+    );
+  }
+  return globalRepositories.__notificationRepository;
+}
+
+export function getAttachmentRepository(): AttachmentRepository {
+  if (!globalRepositories.__attachmentRepository) {
+    globalRepositories.__attachmentRepository = createAttachmentRepository(
+      createStore<Attachment>("attachments")
+    );
+  }
+  return globalRepositories.__attachmentRepository;
+}
+
+export function getGeocodeCacheRepository(): GeocodeCacheRepository {
+  if (!globalRepositories.__geocodeCacheRepository) {
+    globalRepositories.__geocodeCacheRepository = createGeocodeCacheRepository(
+      createStore<GeocodeCacheEntry>("geocode-cache")
+    );
+  }
+  return globalRepositories.__geocodeCacheRepository;
+}
+
+// Image files live in DATA_DIR/blobs (or memory), outside the JSON records
+export function getBlobStore(): BlobStore {
+  if (!globalRepositories.__blobStore) {
+    globalRepositories.__blobStore =
+      driver === "memory"
+        ? createMemoryBlobStore()
+        : createFileBlobStore(path.join(dataDir, "blobs"));
+  }
+  return globalRepositories.__blobStore;
+}
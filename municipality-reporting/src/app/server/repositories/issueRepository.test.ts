@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { makeIssue } from "@/test/fixtures";
+import { createIssueRepository } from "./issueRepository";
+import { createMemoryStore } from "./recordStore";
+
+const repositoryWith = (...ids: string[]) =>
+  createIssueRepository(createMemoryStore(ids.map((id) => makeIssue({ id }))));
+
+describe("issueRepository.updateMany", () => {
+  it("writes every returned record and leaves the others alone", async () => {
+    const repository = repositoryWith("a", "b", "c");
+
+    const written = await repository.updateMany(["a", "b", "missing"], (issues) =>
+      issues.map((issue) => ({ ...issue, title: `Updated ${issue.id}` }))
+    );
+
+    expect(written?.map((issue) => issue.id)).toEqual(["a", "b"]);
+    const titles = (await repository.findAll()).map((issue) => issue.title);
+    expect(titles).toEqual(["Updated a", "Updated b", "Pothole on Main Road"]);
+  });
+
+  it("writes nothing when the updater throws part way", async () => {
+    const repository = repositoryWith("a", "b");
+
+    await expect(
+      repository.updateMany(["a", "b"], (issues) =>
+        issues.map((issue) => {
+          if (issue.id === "b") throw new Error("b cannot change");
+          return { ...issue, status: "merged" };
+        })
+      )
+    ).rejects.toThrow("b cannot change");
+
+    const statuses = (await repository.findAll()).map((issue) => issue.status);
+    expect(statuses).toEqual(["pending", "pending"]);
+  });
+
+  it("writes nothing when the updater returns null", async () => {
+    const repository = repositoryWith("a");
+
+    expect(await repository.updateMany(["a"], () => null)).toBeNull();
+    expect((await repository.findById("a"))?.updatedAt).toBe(makeIssue().updatedAt);
+  });
+});
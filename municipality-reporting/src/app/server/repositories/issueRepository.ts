@@ -0,0 +1,83 @@
+// server/repositories/issueRepository.ts
+import { upgradeLegacyIssue } from "@/app/utils/issueWorkflow";
+import { Issue } from "@/app/utils/localStorage";
+import { RecordStore } from "./recordStore";
+import { IssueFilter, IssueRepository } from "./types";
+
+const matchesFilter = (issue: Issue, filter: IssueFilter): boolean => {
+  if (
+    filter.userId &&
+    issue.userId !== filter.userId &&
+    !issue.coReporters?.some((c) => c.userId === filter.userId)
+  ) {
+    return false;
+  }
+  if (
+    filter.assignedToEmployee &&
+    issue.assignedToEmployee !== filter.assignedToEmployee
+  ) {
+    return false;
+  }
+  if (filter.department && issue.department !== filter.department) return false;
+  if (filter.status && issue.status !== filter.status) return false;
+  return true;
+};
+
+export function createIssueRepository(store: RecordStore<Issue>): IssueRepository {
+  return {
+    async findAll(filter = {}) {
+      const issues = (await store.read()).map(upgradeLegacyIssue);
+      return issues.filter((issue) => matchesFilter(issue, filter));
+    },
+
+    async findById(id) {
+      const issue = (await store.read()).find((issue) => issue.id === id);
+      return issue ? upgradeLegacyIssue(issue) : null;
+    },
+
+    create(issue) {
+      return store.mutate((issues) => ({
+        records: [...issues, issue],
+        result: issue,
+      }));
+    },
+
+    update(id, updater) {
+      return store.mutate((issues) => {
+        const index = issues.findIndex((issue) => issue.id === id);
+        if (index === -1) return { records: issues, result: null };
+
+        const updated = updater(upgradeLegacyIssue(issues[index]));
+        if (!updated) return { records: issues, result: null };
+
+        issues[index] = updated;
+        return { records: issues, result: updated };
+      });
+    },
+
+    updateMany(ids, updater) {
+      return store.mutate((issues) => {
+        const updated = updater(
+          issues.filter((issue) => ids.includes(issue.id)).map(upgradeLegacyIssue)
+        );
+        if (!updated) return { records: issues, result: null };
+
+        const byId = new Map(updated.map((issue) => [issue.id, issue]));
+        return {
+          records: issues.map((issue) => byId.get(issue.id) || issue),
+          result: updated,
+        };
+      });
+    },
+
+    delete(id) {
+      return store.mutate((issues) => {
+        const remaining = issues.filter((issue) => issue.id !== id);
+        return {
+          records: remaining,
+          result: remaining.length !== issues.length,
+        };
+      });
+    },
+  };
+}
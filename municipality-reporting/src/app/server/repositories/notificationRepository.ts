@@ -0,0 +1,49 @@
+// server/repositories/notificationRepository.ts
+import { Notification } from "@/app/utils/notifications";
+import { RecordStore } from "./recordStore";
+import { NotificationRepository } from "./types";
+
+export function createNotificationRepository(
+  store: RecordStore<Notification>
+): NotificationRepository {
+  return {
+    async findByUser(userId) {
+      const notifications = await store.read();
+      return notifications
+        .filter((n) => n.userId === userId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    createMany(newNotifications) {
+      return store.mutate((notifications) => ({
+        records: [...notifications, ...newNotifications],
+        result: newNotifications,
+      }));
+    },
+
+    markRead(userId, ids) {
+      return store.mutate((notifications) => {
+        let count = 0;
+        const records = notifications.map((n) => {
+          if (n.userId !== userId || n.isRead) return n;
+          if (ids && !ids.includes(n.id)) return n;
+          count++;
+          return { ...n, isRead: true };
+        });
+        return { records, result: count };
+      });
+    },
+
+    delete(userId, id) {
+      return store.mutate((notifications) => {
+        const remaining = notifications.filter(
+          (n) => !(n.id === id && n.userId === userId)
+        );
+        return {
+          records: remaining,
+          result: remaining.length !== notifications.length,
+        };
+      });
+    },
+  };
+}
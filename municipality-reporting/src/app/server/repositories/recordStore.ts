@@ -0,0 +1,69 @@
+// server/repositories/recordStore.ts
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+export interface RecordStore<T> {
+  read(): Promise<T[]>;
+  // Runs `fn` with exclusive access to the records; whatever it returns as
+  // `records` is persisted before the next caller is let in
+  mutate<R>(fn: (records: T[]) => { records: T[]; result: R }): Promise<R>;
+}
+
+// Serializes async work so concurrent requests never interleave a
+// read-modify-write cycle on the same store
+function createLock() {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <R>(task: () => Promise<R>): Promise<R> => {
+    const run = tail.then(task, task);
+    tail = run.catch(() => undefined);
+    return run;
+  };
+}
+
+// Records kept in a single JSON file, written atomically via rename
+export function createJsonFileStore<T>(filePath: string): RecordStore<T> {
+  const withLock = createLock();
+
+  const load = async (): Promise<T[]> => {
+    try {
+      const raw = await fs.readFile(filePath, "utf8");
+      return raw.trim() ? (JSON.parse(raw) as T[]) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  };
+
+  const save = async (records: T[]): Promise<void> => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(records, null, 2), "utf8");
+    await fs.rename(tmpPath, filePath);
+  };
+
+  return {
+    read: () => withLock(load),
+    mutate: (fn) =>
+      withLock(async () => {
+        const { records, result } = fn(await load());
+        await save(records);
+        return result;
+      }),
+  };
+}
+
+// Records kept in process memory - used when STORAGE_DRIVER=memory
+export function createMemoryStore<T>(initial: T[] = []): RecordStore<T> {
+  let records = [...initial];
+  const withLock = createLock();
+
+  return {
+    read: () => withLock(async () => structuredClone(records)),
+    mutate: (fn) =>
+      withLock(async () => {
+        const outcome = fn(structuredClone(records));
+        records = outcome.records;
+        return outcome.result;
+      }),
+  };
+}
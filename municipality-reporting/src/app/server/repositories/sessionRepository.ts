@@ -0,0 +1,43 @@
+// server/repositories/sessionRepository.ts
+import { RecordStore } from "./recordStore";
+import { Session, SessionRepository } from "./types";
+
+export function createSessionRepository(
+  store: RecordStore<Session>
+): SessionRepository {
+  return {
+    async findById(id) {
+      const sessions = await store.read();
+      return sessions.find((session) => session.id === id) || null;
+    },
+
+    create(session) {
+      return store.mutate((sessions) => ({
+        records: [...sessions, session],
+        result: session,
+      }));
+    },
+
+    delete(id) {
+      return store.mutate((sessions) => {
+        const remaining = sessions.filter((session) => session.id !== id);
+        return {
+          records: remaining,
+          result: remaining.length !== sessions.length,
+        };
+      });
+    },
+
+    deleteExpired(now) {
+      return store.mutate((sessions) => {
+        const remaining = sessions.filter(
+          (session) => new Date(session.expiresAt) > now
+        );
+        return {
+          records: remaining,
+          result: sessions.length - remaining.length,
+        };
+      });
+    },
+  };
+}
@@ -0,0 +1,123 @@
+// server/repositories/types.ts
+import { Attachment } from "@/app/utils/attachments";
+import { IssueComment } from "@/app/utils/comments";
+import { GeocodeResult } from "@/app/utils/geoLocation";
+import { Issue, User } from "@/app/utils/localStorage";
+import { Notification } from "@/app/utils/notifications";
+
+// User record as persisted on the server (includes the password hash)
+export interface StoredUser extends User {
+  password: string; // "scrypt$<salt>$<key>" - see server/auth.ts
+}
+
+export interface Session {
+  id: string; // SHA-256 of the cookie token, never the token itself
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+// A geocoding lookup kept so the same place is not looked up twice
+export interface GeocodeCacheEntry {
+  key: string; // "reverse:<lat>,<lng>" rounded, or "search:<query>" normalized
+  results: GeocodeResult[];
+  cachedAt: string;
+}
+
+export interface IssueFilter {
+  userId?: string; // the reporter or one of the co-reporters
+  assignedToEmployee?: string;
+  department?: string;
+  status?: Issue["status"];
+}
+
+export interface UserFilter {
+  role?: User["role"];
+  department?: string;
+  status?: NonNullable<User["status"]>;
+}
+
+export interface IssueRepository {
+  findAll(filter?: IssueFilter): Promise<Issue[]>;
+  findById(id: string): Promise<Issue | null>;
+  create(issue: Issue): Promise<Issue>;
+  // Read-modify-write under the repository's lock; return null from the
+  // updater to leave the record untouched
+  update(id: string, updater: (issue: Issue) => Issue | null): Promise<Issue | null>;
+  // Same for several issues at once: the updater gets those of `ids` that
+  // exist and returns their changed records. Null, or an error thrown from
+  // the updater, leaves every record untouched
+  updateMany(
+    ids: string[],
+    updater: (issues: Issue[]) => Issue[] | null
+  ): Promise<Issue[] | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface UserRepository {
+  findAll(filter?: UserFilter): Promise<StoredUser[]>;
+  findById(id: string): Promise<StoredUser | null>;
+  findByEmail(email: string): Promise<StoredUser | null>;
+  // null when another account already uses the email
+  create(user: StoredUser): Promise<StoredUser | null>;
+  update(
+    id: string,
+    updater: (user: StoredUser) => StoredUser | null
+  ): Promise<StoredUser | null>;
+}
+
+export interface SessionRepository {
+  findById(id: string): Promise<Session | null>;
+  create(session: Session): Promise<Session>;
+  delete(id: string): Promise<boolean>;
+  deleteExpired(now: Date): Promise<number>;
+}
+
+export interface CommentRepository {
+  findAll(): Promise<IssueComment[]>;
+  findByIssue(issueId: string): Promise<IssueComment[]>;
+  findById(id: string): Promise<IssueComment | null>;
+  create(comment: IssueComment): Promise<IssueComment>;
+  update(
+    id: string,
+    updater: (comment: IssueComment) => IssueComment | null
+  ): Promise<IssueComment | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface NotificationRepository {
+  findByUser(userId: string): Promise<Notification[]>;
+  createMany(notifications: Notification[]): Promise<Notification[]>;
+  // Marks the given notifications (or all of them) as read for one user
+  markRead(userId: string, ids?: string[]): Promise<number>;
+  delete(userId: string, id: string): Promise<boolean>;
+}
+
+export interface AttachmentRepository {
+  findAll(): Promise<Attachment[]>;
+  findById(id: string): Promise<Attachment | null>;
+  findByIds(ids: string[]): Promise<Attachment[]>;
+  // Content-addressed: saving an id that already exists returns the stored record
+  save(attachment: Attachment): Promise<Attachment>;
+  update(
+    id: string,
+    updater: (attachment: Attachment) => Attachment
+  ): Promise<Attachment | null>;
+}
+
+export interface GeocodeCacheRepository {
+  findByKey(key: string): Promise<GeocodeCacheEntry | null>;
+  // Replaces any entry with the same key, then drops entries cached before
+  // `expiredBefore` and the oldest ones past `maxEntries`
+  save(
+    entry: GeocodeCacheEntry,
+    limits: { maxEntries: number; expiredBefore: Date }
+  ): Promise<GeocodeCacheEntry>;
+  deleteOlderThan(date: Date): Promise<number>;
+}
+
+// Binary files kept next to the JSON records, addressed by "<id>/<name>" keys
+export interface BlobStore {
+  get(key: string): Promise<Buffer | null>;
+  put(key: string, data: Buffer): Promise<void>;
+}
@@ -0,0 +1,55 @@
+// server/repositories/userRepository.ts
+import { RecordStore } from "./recordStore";
+import { StoredUser, UserRepository } from "./types";
+
+const hasEmail = (email: string) => (user: StoredUser) =>
+  user.email.toLowerCase() === email.toLowerCase();
+
+export function createUserRepository(
+  store: RecordStore<StoredUser>
+): UserRepository {
+  return {
+    async findAll(filter = {}) {
+      const users = await store.read();
+      return users.filter(
+        (user) =>
+          (!filter.role || user.role === filter.role) &&
+          (!filter.department || user.department === filter.department) &&
+          // Accounts created before approvals existed count as active
+          (!filter.status || (user.status || "active") === filter.status)
+      );
+    },
+
+    async findById(id) {
+      const users = await store.read();
+      return users.find((user) => user.id === id) || null;
+    },
+
+    async findByEmail(email) {
+      const users = await store.read();
+      return users.find(hasEmail(email)) || null;
+    },
+
+    // Checked under the store's lock so two sign-ups cannot both claim an email
+    create(user) {
+      return store.mutate((users) =>
+        users.some(hasEmail(user.email))
+          ? { records: users, result: null }
+          : { records: [...users, user], result: user }
+      );
+    },
+
+    update(id, updater) {
+      return store.mutate((users) => {
+        const index = users.findIndex((user) => user.id === id);
+        if (index === -1) return { records: users, result: null };
+
+        const updated = updater(users[index]);
+        if (!updated) return { records: users, result: null };
+
+        users[index] = updated;
+        return { records: users, result: updated };
+      });
+    },
+  };
+}
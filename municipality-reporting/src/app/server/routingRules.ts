@@ -0,0 +1,64 @@
+// server/routingRules.ts
+// New reports are routed to a department by the rules in
+// utils/departmentRouting.ts. Point ROUTING_RULES_FILE at a JSON array of
+// rules to replace them without a code change.
+import { DEPARTMENTS, Department, RoutingRule, defaultRoutingRules } from "@/app/utils/departmentRouting";
+import { expectArray, expectUniqueIds, loadJsonConfig } from "./jsonConfig";
+
+export class RoutingConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RoutingConfigError";
+  }
+}
+
+const CONDITIONS = ["categories", "issueTypes", "keywords", "wards"] as const;
+
+function validateRule(raw: unknown, index: number): RoutingRule {
+  const rule = raw as Partial<RoutingRule>;
+  const where = `Routing rule #${index + 1}`;
+
+  if (!rule || typeof rule.id !== "string" || !rule.id) {
+    throw new RoutingConfigError(`${where} needs an "id"`);
+  }
+  if (!DEPARTMENTS.includes(rule.department as Department)) {
+    throw new RoutingConfigError(
+      `${where} (${rule.id}) has an unknown department "${rule.department}"`
+    );
+  }
+
+  const validated: RoutingRule = { id: rule.id, department: rule.department as Department };
+  CONDITIONS.forEach((condition) => {
+    const values = rule[condition];
+    if (values === undefined) return;
+    if (
+      !Array.isArray(values) ||
+      values.length === 0 ||
+      !values.every((value) => typeof value === "string" && value.trim())
+    ) {
+      throw new RoutingConfigError(
+        `${where} (${rule.id}) needs "${condition}" to be a non-empty list of strings`
+      );
+    }
+    validated[condition] = values.map((value) => value.trim());
+  });
+
+  // A rule without conditions would swallow every report after it
+  if (!CONDITIONS.some((condition) => validated[condition])) {
+    throw new RoutingConfigError(
+      `${where} (${rule.id}) needs at least one of ${CONDITIONS.join(", ")}`
+    );
+  }
+  return validated;
+}
+
+// Reads and validates the configured rules, throwing RoutingConfigError if unusable
+export function getRoutingRules(): RoutingRule[] {
+  return loadJsonConfig("ROUTING_RULES_FILE", defaultRoutingRules, RoutingConfigError, (parsed) =>
+    expectUniqueIds(
+      expectArray(parsed, "ROUTING_RULES_FILE", "rules", RoutingConfigError).map(validateRule),
+      "Routing rule id",
+      RoutingConfigError
+    )
+  );
+}
@@ -0,0 +1,56 @@
+// server/slaPolicies.ts
+// SLA targets default to the table in utils/sla.ts. Point SLA_POLICIES_FILE at
+// a JSON array of policies to replace them without a code change.
+import { ISSUE_PRIORITIES } from "@/app/utils/analysisSchema";
+import { Issue } from "@/app/utils/localStorage";
+import { SlaPolicy, defaultSlaPolicies } from "@/app/utils/sla";
+import { expectArray, loadJsonConfig } from "./jsonConfig";
+
+export class SlaConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SlaConfigError";
+  }
+}
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+function validatePolicy(raw: unknown, index: number): SlaPolicy {
+  const policy = raw as Partial<SlaPolicy>;
+  const where = `SLA policy #${index + 1}`;
+
+  if (!policy || typeof policy.id !== "string" || !policy.id) {
+    throw new SlaConfigError(`${where} needs an "id"`);
+  }
+  if (!ISSUE_PRIORITIES.includes(policy.priority as Issue["priority"])) {
+    throw new SlaConfigError(
+      `${where} (${policy.id}) has an unknown priority "${policy.priority}"`
+    );
+  }
+  if (!isPositive(policy.acknowledgeHours) || !isPositive(policy.resolveHours)) {
+    throw new SlaConfigError(
+      `${where} (${policy.id}) needs positive acknowledgeHours and resolveHours`
+    );
+  }
+  if (policy.acknowledgeHours > policy.resolveHours) {
+    throw new SlaConfigError(
+      `${where} (${policy.id}) must be acknowledged before it is due to be resolved`
+    );
+  }
+
+  return {
+    id: policy.id,
+    category: policy.category || undefined,
+    priority: policy.priority as Issue["priority"],
+    acknowledgeHours: policy.acknowledgeHours,
+    resolveHours: policy.resolveHours,
+  };
+}
+
+// Reads and validates the configured policies, throwing SlaConfigError if unusable
+export function getSlaPolicies(): SlaPolicy[] {
+  return loadJsonConfig("SLA_POLICIES_FILE", defaultSlaPolicies, SlaConfigError, (parsed) =>
+    expectArray(parsed, "SLA_POLICIES_FILE", "policies", SlaConfigError).map(validatePolicy)
+  );
+}
@@ -0,0 +1,98 @@
+// server/userService.ts
+import { randomUUID } from "node:crypto";
+import { EmployeeAvailability } from "@/app/utils/autoAssign";
+import { NewUserInput, User } from "@/app/utils/localStorage";
+import { hashPassword } from "./passwords";
+import { StoredUser, UserFilter, getUserRepository } from "./repositories";
+
+export class DuplicateEmailError extends Error {
+  constructor(email: string) {
+    super(`An account with email ${email} already exists`);
+    this.name = "DuplicateEmailError";
+  }
+}
+
+// Emails listed in ADMIN_EMAILS (comma-separated) register as active
+// administrators, which is how the first admin account is bootstrapped
+const adminEmails = (process.env.ADMIN_EMAILS || "")
+  .split(",")
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean);
+
+const SELF_SERVICE_ROLES: User["role"][] = ["resident", "employee", "staff"];
+
+// Strip server-only fields before a user leaves the API
+export const toPublicUser = ({ password, ...user }: StoredUser): User => user;
+
+export const userService = {
+  async listUsers(filter?: UserFilter): Promise<User[]> {
+    const users = await getUserRepository().findAll(filter);
+    return users.map(toPublicUser);
+  },
+
+  async getUser(userId: string): Promise<User | null> {
+    const user = await getUserRepository().findById(userId);
+    return user ? toPublicUser(user) : null;
+  },
+
+  async emailExists(email: string): Promise<boolean> {
+    return !!(await getUserRepository().findByEmail(email));
+  },
+
+  async createUser(input: NewUserInput): Promise<User> {
+    // Residents are active straight away; staff and employee accounts wait
+    // for an administrator
+    const isAdmin = adminEmails.includes(input.email.trim().toLowerCase());
+    const role = isAdmin
+      ? "admin"
+      : SELF_SERVICE_ROLES.includes(input.role)
+      ? input.role
+      : "resident";
+
+    // Only the registration fields are kept; status, approvals and the
+    // like are never taken from the request
+    const user = await getUserRepository().create({
+      firstName: input.firstName.trim(),
+      lastName: input.lastName.trim(),
+      email: input.email.trim(),
+      department: role === "employee" ? input.department : undefined,
+      role,
+      status: isAdmin || role === "resident" ? "active" : "pending",
+      password: await hashPassword(input.password),
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+    });
+    if (!user) throw new DuplicateEmailError(input.email);
+    return toPublicUser(user);
+  },
+
+  // Approve or decline a pending staff/employee account
+  async reviewUser(
+    userId: string,
+    decision: "active" | "rejected",
+    reviewedBy: string
+  ): Promise<User | null> {
+    const user = await getUserRepository().update(userId, (u) =>
+      u.status === "pending"
+        ? {
+            ...u,
+            status: decision,
+            approvedBy: reviewedBy,
+            approvedAt: new Date().toISOString(),
+          }
+        : null
+    );
+    return user ? toPublicUser(user) : null;
+  },
+
+  // Whether an employee can be auto-assigned new work; only employees have it
+  async setAvailability(
+    userId: string,
+    availability: EmployeeAvailability
+  ): Promise<User | null> {
+    const user = await getUserRepository().update(userId, (u) =>
+      u.role === "employee" ? { ...u, availability } : null
+    );
+    return user ? toPublicUser(user) : null;
+  },
+};
@@ -0,0 +1,124 @@
+// server/verificationService.ts
+// Checks completion photos against the original report with the vision
+// provider, and closes resolutions the reporter never answered once the
+// check is confident the problem is fixed.
+import { attachmentUtils } from "@/app/utils/attachments";
+import { Issue } from "@/app/utils/localStorage";
+import {
+  AUTO_CLOSE_MIN_CONFIDENCE,
+  resolutionVerificationUtils,
+} from "@/app/utils/resolutionVerification";
+import { ImageInput, getVisionProvider } from "./ai";
+import { attachmentService } from "./attachmentService";
+import { issueService } from "./issueService";
+
+// The issue cannot be verified in its current state (wrong status, photos missing)
+export class VerificationUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VerificationUnavailableError";
+  }
+}
+
+const DEFAULT_AUTO_CLOSE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// RESOLUTION_AUTO_CLOSE_DAYS sets how long the reporter has to respond;
+// 0 turns auto-closure off
+export function getAutoCloseDays(): number {
+  const raw = process.env.RESOLUTION_AUTO_CLOSE_DAYS?.trim();
+  if (!raw) return DEFAULT_AUTO_CLOSE_DAYS;
+
+  const days = Number(raw);
+  if (!Number.isFinite(days) || days < 0) {
+    console.warn(
+      `Ignoring RESOLUTION_AUTO_CLOSE_DAYS="${raw}", using ${DEFAULT_AUTO_CLOSE_DAYS}`
+    );
+    return DEFAULT_AUTO_CLOSE_DAYS;
+  }
+  return days;
+}
+
+// Medium-size JPEGs are plenty for the comparison and keep requests small
+async function loadImage(attachmentId: string): Promise<ImageInput> {
+  const image = await attachmentService.readImage(attachmentId, "medium");
+  if (!image) {
+    throw new VerificationUnavailableError(`Photo ${attachmentId} could not be read`);
+  }
+  return { imageBase64: image.data.toString("base64"), mimeType: image.mimeType };
+}
+
+const needsVerification = (issue: Issue) =>
+  !issue.resolutionVerification ||
+  (!!issue.resolvedAt && issue.resolutionVerification.verifiedAt < issue.resolvedAt);
+
+export const verificationService = {
+  // Compares the first report photo with the latest completion photo and
+  // stores the verdict on the issue
+  async verifyResolution(issueId: string): Promise<Issue | null> {
+    const issue = await issueService.getIssue(issueId);
+    if (!issue) return null;
+
+    if (issue.status !== "awaiting-confirmation") {
+      throw new VerificationUnavailableError(
+        "Only issues awaiting confirmation can be verified"
+      );
+    }
+    const before = attachmentUtils.getByRole(issue, "report")[0];
+    const after = attachmentUtils.getByRole(issue, "completion").pop();
+    if (!before || !after) {
+      throw new VerificationUnavailableError(
+        "Verification needs a report photo and a completion photo"
+      );
+    }
+
+    const comparison = await getVisionProvider().compareResolution(
+      await loadImage(before.id),
+      await loadImage(after.id)
+    );
+    return issueService.recordVerification(issueId, {
+      ...comparison,
+      beforeAttachmentId: before.id,
+      afterAttachmentId: after.id,
+      verifiedAt: new Date().toISOString(),
+    });
+  },
+
+  // Verifies new resolutions, then closes those left unanswered for longer
+  // than the auto-close period if the verdict allows it
+  async sweepAwaitingConfirmation(
+    now: Date = new Date()
+  ): Promise<{ verified: number; closed: number }> {
+    const days = getAutoCloseDays();
+    const issues = await issueService.listIssues({ status: "awaiting-confirmation" });
+    let verified = 0;
+    let closed = 0;
+
+    for (let issue of issues) {
+      try {
+        if (needsVerification(issue) && attachmentUtils.getByRole(issue, "completion").length) {
+          issue = (await this.verifyResolution(issue.id)) || issue;
+          verified++;
+        }
+
+        const resolvedAt = new Date(issue.resolvedAt || issue.updatedAt).getTime();
+        if (
+          days > 0 &&
+          now.getTime() - resolvedAt >= days * DAY_MS &&
+          resolutionVerificationUtils.canAutoClose(issue)
+        ) {
+          await issueService.autoCloseResolution(
+            issue.id,
+            `No response from the reporter in ${days} days; AI verification found the problem fixed (${Math.round(
+              issue.resolutionVerification!.confidence * 100
+            )}% confidence, ${Math.round(AUTO_CLOSE_MIN_CONFIDENCE * 100)}% required)`
+          );
+          closed++;
+        }
+      } catch (error) {
+        console.error(`Could not verify or close issue ${issue.id}:`, error);
+      }
+    }
+    return { verified, closed };
+  },
+};
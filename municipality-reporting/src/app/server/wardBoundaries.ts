@@ -0,0 +1,102 @@
+// server/wardBoundaries.ts
+// Ward boundaries come from a GeoJSON FeatureCollection of Polygon or
+// MultiPolygon features named by WARD_BOUNDARIES_FILE. Each feature needs an
+// id (`properties.wardId`, `properties.id` or the feature id) and may have a
+// `properties.name`. Without the file issues are not assigned to wards.
+//
+// WARD_OUTSIDE_POLICY decides what happens to reports placed outside every
+// ward: "flag" (default) accepts them marked as outside the municipality,
+// "reject" refuses them.
+import { Ward, findWard } from "@/app/utils/wards";
+import { expectFeatureCollection, expectUniqueIds, loadJsonConfig } from "./jsonConfig";
+
+export class WardConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WardConfigError";
+  }
+}
+
+export type OutsidePolicy = "flag" | "reject";
+
+interface GeoJsonFeature {
+  id?: string | number;
+  properties?: { [key: string]: unknown } | null;
+  geometry?: { type?: string; coordinates?: unknown } | null;
+}
+
+const isPosition = (value: unknown): boolean =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === "number" &&
+  typeof value[1] === "number";
+
+const isPolygon = (value: unknown): value is number[][][] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((ring) => Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition));
+
+function toWard(feature: GeoJsonFeature, index: number): Ward {
+  const where = `Ward feature #${index + 1}`;
+  const rawId = feature.properties?.wardId ?? feature.properties?.id ?? feature.id;
+  if (rawId === undefined || rawId === null || rawId === "") {
+    throw new WardConfigError(`${where} needs properties.wardId, properties.id or an id`);
+  }
+  const id = String(rawId);
+
+  const geometry = feature.geometry;
+  let polygons: number[][][][];
+  if (geometry?.type === "Polygon" && isPolygon(geometry.coordinates)) {
+    polygons = [geometry.coordinates];
+  } else if (
+    geometry?.type === "MultiPolygon" &&
+    Array.isArray(geometry.coordinates) &&
+    geometry.coordinates.every(isPolygon)
+  ) {
+    polygons = geometry.coordinates as number[][][][];
+  } else {
+    throw new WardConfigError(`${where} (${id}) must be a valid Polygon or MultiPolygon`);
+  }
+
+  const name = feature.properties?.name;
+  return { id, name: typeof name === "string" && name ? name : `Ward ${id}`, polygons };
+}
+
+// Reads and validates the ward boundaries, throwing WardConfigError if unusable
+export function getWards(): Ward[] {
+  return loadJsonConfig("WARD_BOUNDARIES_FILE", [], WardConfigError, (parsed) =>
+    expectUniqueIds(
+      (
+        expectFeatureCollection(parsed, "WARD_BOUNDARIES_FILE", WardConfigError) as GeoJsonFeature[]
+      ).map(toWard),
+      "Ward id",
+      WardConfigError
+    )
+  );
+}
+
+export function getOutsidePolicy(): OutsidePolicy {
+  const raw = process.env.WARD_OUTSIDE_POLICY?.trim().toLowerCase();
+  if (!raw) return "flag";
+  if (raw !== "flag" && raw !== "reject") {
+    console.warn(`Ignoring WARD_OUTSIDE_POLICY="${raw}", using "flag"`);
+    return "flag";
+  }
+  return raw;
+}
+
+// The ward fields for a location; both stay unset when no wards are
+// configured or the location is unknown
+export function locateWard(
+  latitude: number | undefined,
+  longitude: number | undefined
+): { wardId?: string; outsideMunicipality?: boolean } {
+  const wards = getWards();
+  if (wards.length === 0 || typeof latitude !== "number" || typeof longitude !== "number") {
+    return { wardId: undefined, outsideMunicipality: undefined };
+  }
+  const ward = findWard(latitude, longitude, wards);
+  return ward
+    ? { wardId: ward.id, outsideMunicipality: undefined }
+    : { wardId: undefined, outsideMunicipality: true };
+}
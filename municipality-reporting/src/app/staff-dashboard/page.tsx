@@ -5,10 +5,34 @@ import Image from "next/image";
 import { useRouter } from "next/navigation";
 import styles from "./staff.module.css";
 import { storageUtils, User, Issue } from "@/app/utils/localStorage";
-import { analyticsUtils } from "@/app/utils/analytics";
+import { authUtils } from "@/app/utils/auth";
+import {
+  ISSUE_STATUSES,
+  caseId,
+  findTransition,
+  getAvailableTransitions,
+  getStatusPhase,
+  statusLabels,
+} from "@/app/utils/issueWorkflow";
+import { getEffectiveRole, hasPermission } from "@/app/utils/permissions";
+import { WardStats, analyticsUtils } from "@/app/utils/analytics";
+import { AutoAssignResult, availabilityLabels } from "@/app/utils/autoAssign";
 import { exportUtils } from "@/app/utils/export";
+import { describeLocationSource } from "@/app/utils/geoLocation";
 import SmartInsights from "@/app/components/SmartInsights";
 import StatsCard from "@/app/components/StatsCard";
+import CommentThread from "@/app/components/CommentThread";
+import AttachmentGallery from "@/app/components/AttachmentGallery";
+import IssueThumbnail from "@/app/components/IssueThumbnail";
+import MergeIssuesPanel from "@/app/components/MergeIssuesPanel";
+import ResolutionVerificationPanel from "@/app/components/ResolutionVerificationPanel";
+import NotificationBell from "@/app/components/NotificationBell";
+import SlaBadge from "@/app/components/SlaBadge";
+import IssueMap from "@/app/components/IssueMap";
+import { SlaComplianceStats } from "@/app/utils/sla";
+import { MapArea, filterIssuesByArea } from "@/app/utils/mapView";
+import { smartSearchUtils } from "@/app/utils/smartSearch";
+import { OUTSIDE_MUNICIPALITY_LABEL, WardSummary, wardUtils } from "@/app/utils/wards";
 
 export default function StaffDashboard() {
   const router = useRouter();
@@ -16,6 +40,9 @@ export default function StaffDashboard() {
   const [loading, setLoading] = useState(true);
   const [allIssues, setAllIssues] = useState<Issue[]>([]);
   const [filteredIssues, setFilteredIssues] = useState<Issue[]>([]);
+  const [mapIssues, setMapIssues] = useState<Issue[]>([]);
+  const [viewMode, setViewMode] = useState<"list" | "map">("list");
+  const [mapArea, setMapArea] = useState<MapArea | null>(null);
   const [selectedIssue, setSelectedIssue] = useState<Issue | null>(null);
   const [showModal, setShowModal] = useState(false);
   const [analyticsSummary, setAnalyticsSummary] = useState<any>(null);
@@ -24,42 +51,52 @@ export default function StaffDashboard() {
     status: "all",
     priority: "all",
     category: "all",
+    wardId: "all",
   });
+  const [wards, setWards] = useState<WardSummary[]>([]);
 
   const [modalData, setModalData] = useState({
     status: "" as Issue["status"],
     staffNotes: "",
+    statusNote: "",
     department: "",
     assignedToEmployee: "",
   });
 
   const [employees, setEmployees] = useState<User[]>([]);
   const [availableEmployees, setAvailableEmployees] = useState<User[]>([]);
+  const [pendingUsers, setPendingUsers] = useState<User[]>([]);
+  const [autoAssigning, setAutoAssigning] = useState(false);
+  const [autoAssignNote, setAutoAssignNote] = useState("");
+  const [autoAssignResults, setAutoAssignResults] = useState<AutoAssignResult[] | null>(null);
 
   useEffect(() => {
-    const currentUser = storageUtils.getCurrentUser();
-
-    if (!currentUser) {
-      router.push("/login");
-      return;
-    }
+    authUtils.getCurrentUser().then((currentUser) => {
+      if (!currentUser) {
+        router.push("/login");
+        return;
+      }
 
-    if (currentUser.role !== "staff") {
-      router.push("/resident-dashboard");
-      return;
-    }
+      if (!hasPermission(currentUser, "dashboard:staff")) {
+        router.push(authUtils.getDashboardPath(currentUser));
+        return;
+      }
 
-    setUser(currentUser);
-    loadAllIssues();
-    setLoading(false);
+      setUser(currentUser);
+      if (hasPermission(currentUser, "users:approve")) {
+        loadPendingUsers();
+      }
+      wardUtils.getWards().then(setWards);
+      loadAllIssues().finally(() => setLoading(false));
+    });
   }, [router]);
 
   useEffect(() => {
     applyFilters();
-  }, [allIssues, filters]);
+  }, [allIssues, filters, mapArea]);
 
-  const loadAllIssues = () => {
-    const issues = storageUtils.getIssues();
+  const loadAllIssues = async () => {
+    const issues = await storageUtils.getIssues();
     setAllIssues(
       issues.sort(
         (a, b) =>
@@ -68,10 +105,29 @@ export default function StaffDashboard() {
     );
 
     // Load analytics for all issues (staff sees everything)
-    const summary = analyticsUtils.getAnalyticsSummary();
+    const summary = analyticsUtils.getAnalyticsSummary(issues);
     setAnalyticsSummary(summary);
   };
 
+  const loadPendingUsers = async () => {
+    const users = await storageUtils.getPendingUsers();
+    setPendingUsers(users);
+  };
+
+  const handleReviewAccount = async (account: User, approve: boolean) => {
+    const action = approve ? "approve" : "decline";
+    if (!window.confirm(`Are you sure you want to ${action} ${account.firstName} ${account.lastName}'s ${account.role} account?`)) {
+      return;
+    }
+
+    if (approve) {
+      await storageUtils.approveUser(account.id);
+    } else {
+      await storageUtils.rejectUser(account.id);
+    }
+    await loadPendingUsers();
+  };
+
   const handleExport = (format: "csv" | "json" | "summary") => {
     exportUtils.exportFiltered(filteredIssues, format);
   };
@@ -95,12 +151,20 @@ export default function StaffDashboard() {
       );
     }
 
+    filtered = smartSearchUtils.filterIssues(filtered, { wardId: filters.wardId });
+
+    // The map shows everything the filters allow; a drawn area narrows the list
+    setMapIssues(filtered);
+    if (mapArea) {
+      filtered = filterIssuesByArea(filtered, mapArea);
+    }
+
     setFilteredIssues(filtered);
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
     if (window.confirm("Are you sure you want to logout?")) {
-      storageUtils.logout();
+      await authUtils.logout();
       router.push("/landing");
     }
   };
@@ -109,32 +173,31 @@ export default function StaffDashboard() {
     setFilters((prev) => ({ ...prev, [key]: value }));
   };
 
-  const handleViewIssue = (issue: Issue) => {
+  const handleViewIssue = async (issue: Issue) => {
     setSelectedIssue(issue);
+    setAutoAssignNote("");
     setModalData({
       status: issue.status,
       staffNotes: issue.staffNotes || "",
+      statusNote: "",
       department: issue.department || issue.category || "",
       assignedToEmployee: issue.assignedToEmployee || "",
     });
 
+    setShowModal(true);
+
     // Load all employees
-    const allEmployees = storageUtils.getAllEmployees();
+    const allEmployees = await storageUtils.getAllEmployees();
     setEmployees(allEmployees);
 
     // Load employees for the selected department
     const dept = issue.department || issue.category || "";
-    if (dept) {
-      const deptEmployees = storageUtils.getEmployeesByDepartment(dept);
-      setAvailableEmployees(deptEmployees);
-    } else {
-      setAvailableEmployees([]);
-    }
-
-    setShowModal(true);
+    setAvailableEmployees(
+      dept ? allEmployees.filter((emp) => emp.department === dept) : []
+    );
   };
 
-  const handleDepartmentChange = (department: string) => {
+  const handleDepartmentChange = async (department: string) => {
     setModalData((prev) => ({
       ...prev,
       department,
@@ -143,49 +206,90 @@ export default function StaffDashboard() {
 
     // Load employees for the selected department
     if (department) {
-      const deptEmployees = storageUtils.getEmployeesByDepartment(department);
+      const deptEmployees = await storageUtils.getEmployeesByDepartment(department);
       setAvailableEmployees(deptEmployees);
     } else {
       setAvailableEmployees([]);
     }
   };
 
-  const handleUpdateIssue = () => {
+  // Assigns the open issue to whoever in its department has the lightest load
+  const handleAutoAssign = async () => {
+    if (!selectedIssue) return;
+    setAutoAssigning(true);
+    try {
+      const { issue, suggestion } = await storageUtils.autoAssignIssue(selectedIssue.id);
+      setSelectedIssue(issue);
+      setModalData((prev) => ({
+        ...prev,
+        status: issue.status,
+        department: suggestion.department,
+        assignedToEmployee: suggestion.employeeId,
+      }));
+      setAvailableEmployees(employees.filter((emp) => emp.department === suggestion.department));
+      setAutoAssignNote(suggestion.explanation);
+      await loadAllIssues();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to auto-assign issue");
+    } finally {
+      setAutoAssigning(false);
+    }
+  };
+
+  const handleAutoAssignPending = async () => {
+    if (!window.confirm("Auto-assign every open issue that has no employee yet?")) return;
+    setAutoAssigning(true);
+    try {
+      setAutoAssignResults(await storageUtils.autoAssignPending());
+      await loadAllIssues();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to auto-assign pending issues");
+    } finally {
+      setAutoAssigning(false);
+    }
+  };
+
+  const handleUpdateIssue = async () => {
     if (!selectedIssue || !user) return;
 
-    // Handle assignment if department and employee are selected
-    if (modalData.department && modalData.assignedToEmployee) {
-      const employee = employees.find((emp) => emp.id === modalData.assignedToEmployee);
-      if (employee) {
-        storageUtils.assignIssue(
-          selectedIssue.id,
-          modalData.department,
-          employee.id,
-          `${employee.firstName} ${employee.lastName}`,
-          `${user.firstName} ${user.lastName}`
-        );
+    try {
+      // Handle assignment if a different department or employee was selected
+      if (
+        modalData.department &&
+        modalData.assignedToEmployee &&
+        (modalData.department !== selectedIssue.department ||
+          modalData.assignedToEmployee !== selectedIssue.assignedToEmployee)
+      ) {
+        const employee = employees.find((emp) => emp.id === modalData.assignedToEmployee);
+        if (employee) {
+          await storageUtils.assignIssue(selectedIssue.id, modalData.department, employee.id);
+        }
       }
-    }
 
-    const updates: Partial<Issue> = {
-      status: modalData.status,
-      staffNotes: modalData.staffNotes,
-    };
+      // Only send a status when staff picked a transition
+      const updates: Partial<Issue> = { staffNotes: modalData.staffNotes };
+      // A department picked without an employee still overrides the routing
+      if (
+        modalData.department &&
+        !modalData.assignedToEmployee &&
+        modalData.department !== selectedIssue.department
+      ) {
+        updates.department = modalData.department;
+      }
+      if (modalData.status !== selectedIssue.status) {
+        updates.status = modalData.status;
+      }
 
-    if (
-      modalData.status === "resolved" &&
-      selectedIssue.status !== "resolved"
-    ) {
-      updates.resolvedAt = new Date().toISOString();
+      await storageUtils.updateIssue(
+        selectedIssue.id,
+        updates,
+        modalData.statusNote.trim() || undefined
+      );
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to update issue");
+      return;
     }
-
-    storageUtils.updateIssue(
-      selectedIssue.id,
-      updates,
-      `${user.firstName} ${user.lastName}`,
-      "Issue updated by staff"
-    );
-    loadAllIssues();
+    await loadAllIssues();
     setShowModal(false);
     setSelectedIssue(null);
   };
@@ -206,7 +310,7 @@ export default function StaffDashboard() {
   };
 
   const getStats = () => {
-    return storageUtils.getIssuesStats();
+    return storageUtils.getIssuesStats(allIssues);
   };
 
   const stats = getStats();
@@ -266,9 +370,12 @@ export default function StaffDashboard() {
                 <span className={styles.userNameText}>
                   {user.firstName} {user.lastName}
                 </span>
-                <span className={styles.userRole}>Municipality Staff</span>
+                <span className={styles.userRole}>
+                  {user.role === "admin" ? "Administrator" : "Municipality Staff"}
+                </span>
               </div>
             </div>
+            <NotificationBell />
             <button onClick={handleLogout} className={styles.logoutButton}>
               Logout
             </button>
@@ -288,6 +395,54 @@ export default function StaffDashboard() {
           </p>
         </section>
 
+        {/* Account Approvals (administrators only) */}
+        {hasPermission(user, "users:approve") && pendingUsers.length > 0 && (
+          <section className={`${styles.issuesSection} ${styles.approvalsSection}`}>
+            <h2 className={styles.sectionTitle}>
+              <span>🛂</span> Pending Account Approvals ({pendingUsers.length})
+            </h2>
+            <div className={styles.issuesList}>
+              {pendingUsers.map((account) => (
+                <div key={account.id} className={styles.issueCard}>
+                  <div className={styles.issueHeader}>
+                    <div className={styles.issueHeaderLeft}>
+                      <h3 className={styles.issueTitle}>
+                        {account.firstName} {account.lastName}
+                      </h3>
+                      <div className={styles.issueMetaRow}>
+                        <span className={styles.issueMetaItem}>✉️ {account.email}</span>
+                        <span className={styles.issueMetaItem}>
+                          🪪 {account.role === "staff" ? "Municipality Staff" : "Department Employee"}
+                        </span>
+                        {account.department && (
+                          <span className={styles.issueMetaItem}>🏢 {account.department}</span>
+                        )}
+                        <span className={styles.issueMetaItem}>
+                          🕐 {formatDate(account.createdAt)}
+                        </span>
+                      </div>
+                    </div>
+                    <div className={styles.issueActions}>
+                      <button
+                        className={styles.actionButton}
+                        onClick={() => handleReviewAccount(account, false)}
+                      >
+                        Decline
+                      </button>
+                      <button
+                        className={`${styles.actionButton} ${styles.actionButtonPrimary}`}
+                        onClick={() => handleReviewAccount(account, true)}
+                      >
+                        Approve
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Smart Insights */}
         {analyticsSummary && allIssues.length > 0 && (
           <SmartInsights summary={analyticsSummary} />
@@ -403,6 +558,74 @@ export default function StaffDashboard() {
                 <p>{analyticsSummary.categoryBreakdown[0]?.count || 0} reports</p>
               </div>
             </div>
+
+            {analyticsSummary.slaCompliance.length > 0 && (
+              <div className={styles.slaSection}>
+                <h3 className={styles.slaTitle}>⏱️ SLA Compliance by Department</h3>
+                <table className={styles.slaTable}>
+                  <thead>
+                    <tr>
+                      <th>Department</th>
+                      <th>Issues</th>
+                      <th>Met</th>
+                      <th>Breached</th>
+                      <th>At Risk</th>
+                      <th>Compliance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analyticsSummary.slaCompliance.map((row: SlaComplianceStats) => (
+                      <tr key={row.department}>
+                        <td className={styles.slaDepartment}>{row.department}</td>
+                        <td>{row.total}</td>
+                        <td>{row.met}</td>
+                        <td>{row.breached}</td>
+                        <td>{row.atRisk}</td>
+                        <td
+                          className={
+                            row.complianceRate >= 90
+                              ? styles.slaGood
+                              : row.complianceRate >= 70
+                              ? styles.slaFair
+                              : styles.slaPoor
+                          }
+                        >
+                          {row.complianceRate}%
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {analyticsSummary.wardBreakdown.length > 0 && (
+              <div className={styles.slaSection}>
+                <h3 className={styles.slaTitle}>🏛️ Reports by Ward</h3>
+                <table className={styles.slaTable}>
+                  <thead>
+                    <tr>
+                      <th>Ward</th>
+                      <th>Reports</th>
+                      <th>Open</th>
+                      <th>Share</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analyticsSummary.wardBreakdown.map((row: WardStats) => (
+                      <tr key={row.wardId}>
+                        <td className={styles.slaDepartment}>
+                          {wards.find((ward) => ward.id === row.wardId)?.name || row.wardId}
+                        </td>
+                        <td>{row.count}</td>
+                        <td>{row.openCount}</td>
+                        <td>{row.percentage}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
           </section>
         )}
 
@@ -418,10 +641,11 @@ export default function StaffDashboard() {
                 aria-label="Filter issues by status"
               >
                 <option value="all">All Status</option>
-                <option value="pending">Pending</option>
-                <option value="in-progress">In Progress</option>
-                <option value="resolved">Resolved</option>
-                <option value="rejected">Rejected</option>
+                {ISSUE_STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    {statusLabels[status]}
+                  </option>
+                ))}
               </select>
             </div>
 
@@ -458,14 +682,113 @@ export default function StaffDashboard() {
                 <option value="other">Other</option>
               </select>
             </div>
+
+            {wards.length > 0 && (
+              <div className={styles.filterGroup}>
+                <label className={styles.filterLabel}>Filter by Ward</label>
+                <select
+                  className={styles.filterSelect}
+                  value={filters.wardId}
+                  onChange={(e) => handleFilterChange("wardId", e.target.value)}
+                  aria-label="Filter issues by ward"
+                >
+                  <option value="all">All Wards</option>
+                  {wards.map((ward) => (
+                    <option key={ward.id} value={ward.id}>
+                      {ward.name}
+                    </option>
+                  ))}
+                  <option value="outside">⚠️ {OUTSIDE_MUNICIPALITY_LABEL}</option>
+                </select>
+              </div>
+            )}
           </div>
         </section>
 
         {/* Issues Section */}
         <section className={styles.issuesSection}>
-          <h2 className={styles.sectionTitle}>
-            <span>📊</span> All Issues ({filteredIssues.length})
-          </h2>
+          <div className={styles.issuesHeader}>
+            <h2 className={styles.sectionTitle}>
+              <span>📊</span> All Issues ({filteredIssues.length})
+              {mapArea && (
+                <button
+                  type="button"
+                  className={styles.areaChip}
+                  onClick={() => setMapArea(null)}
+                  title="Clear the area drawn on the map"
+                >
+                  📐 In drawn area ✖
+                </button>
+              )}
+            </h2>
+            <div className={styles.issuesHeaderActions}>
+              <button
+                type="button"
+                className={styles.exportButton}
+                onClick={handleAutoAssignPending}
+                disabled={autoAssigning}
+                title="Assign each unassigned open issue to the employee with the lightest load"
+              >
+                {autoAssigning ? "Assigning..." : "🤖 Auto-assign all pending"}
+              </button>
+              <div className={styles.viewToggle}>
+                <button
+                  type="button"
+                  className={viewMode === "list" ? styles.viewToggleActive : ""}
+                  onClick={() => setViewMode("list")}
+                >
+                  📋 List
+                </button>
+                <button
+                  type="button"
+                  className={viewMode === "map" ? styles.viewToggleActive : ""}
+                  onClick={() => setViewMode("map")}
+                >
+                  🗺️ Map
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {autoAssignResults && (
+            <div className={styles.autoAssignResults}>
+              <div className={styles.autoAssignResultsHeader}>
+                <strong>
+                  🤖 Auto-assigned {autoAssignResults.filter((r) => r.suggestion).length} of{" "}
+                  {autoAssignResults.length} pending issues
+                </strong>
+                <button
+                  type="button"
+                  className={styles.closeButton}
+                  onClick={() => setAutoAssignResults(null)}
+                  aria-label="Dismiss auto-assign results"
+                >
+                  ✕
+                </button>
+              </div>
+              {autoAssignResults.length === 0 ? (
+                <p>No open issues are waiting for an employee.</p>
+              ) : (
+                <ul>
+                  {autoAssignResults.map((result) => (
+                    <li key={result.issueId}>
+                      {result.suggestion ? "✅" : "⚠️"} <strong>{result.title}</strong>:{" "}
+                      {result.suggestion ? result.suggestion.explanation : result.error}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {viewMode === "map" && (
+            <IssueMap
+              issues={mapIssues}
+              area={mapArea}
+              onAreaChange={setMapArea}
+              onSelectIssue={handleViewIssue}
+            />
+          )}
 
           {filteredIssues.length === 0 ? (
             <div className={styles.emptyState}>
@@ -485,9 +808,40 @@ export default function StaffDashboard() {
                         <span className={styles.issueMetaItem}>
                           👤 {issue.userName}
                         </span>
+                        {issue.parentIssueId && (
+                          <span className={styles.issueMetaItem}>
+                            🔗 Merged into #{caseId(issue.parentIssueId)}
+                          </span>
+                        )}
+                        {!!issue.photoDuplicates?.length && (
+                          <span
+                            className={`${styles.issueMetaItem} ${styles.photoDuplicate}`}
+                            title="A near-identical photo was submitted with another report"
+                          >
+                            📸 Probable duplicate of{" "}
+                            {issue.photoDuplicates
+                              .map((d) => `#${caseId(d.issueId)}`)
+                              .join(", ")}
+                          </span>
+                        )}
+                        {!!issue.coReporters?.length && (
+                          <span className={styles.issueMetaItem}>
+                            👥 +{issue.coReporters.length} co-reporter
+                            {issue.coReporters.length > 1 ? "s" : ""}
+                          </span>
+                        )}
                         <span className={styles.issueMetaItem}>
                           📍 {issue.location}
                         </span>
+                        {(issue.wardId || issue.outsideMunicipality) && (
+                          <span
+                            className={`${styles.issueMetaItem} ${
+                              issue.outsideMunicipality ? styles.outsideMunicipality : ""
+                            }`}
+                          >
+                            {issue.outsideMunicipality ? "⚠️" : "🏛️"} {wardUtils.getLabel(issue, wards)}
+                          </span>
+                        )}
                         <span className={styles.issueMetaItem}>
                           📂 {issue.category}
                         </span>
@@ -499,19 +853,16 @@ export default function StaffDashboard() {
                     <div className={styles.issueHeaderRight}>
                       <span
                         className={`${styles.statusBadge} ${
-                          issue.status === "pending"
-                            ? styles.statusPending
-                            : issue.status === "in-progress"
-                            ? styles.statusInProgress
-                            : issue.status === "resolved"
-                            ? styles.statusResolved
-                            : styles.statusRejected
+                          {
+                            open: styles.statusPending,
+                            active: styles.statusInProgress,
+                            resolved: styles.statusResolved,
+                            rejected: styles.statusRejected,
+                            merged: styles.statusMerged,
+                          }[getStatusPhase(issue.status)]
                         }`}
                       >
-                        {issue.status === "in-progress"
-                          ? "In Progress"
-                          : issue.status.charAt(0).toUpperCase() +
-                            issue.status.slice(1)}
+                        {statusLabels[issue.status]}
                       </span>
                       <span
                         className={`${styles.priorityBadge} ${
@@ -526,9 +877,12 @@ export default function StaffDashboard() {
                       >
                         {issue.priority.toUpperCase()}
                       </span>
+                      <SlaBadge issue={issue} />
                     </div>
                   </div>
 
+                  <IssueThumbnail issue={issue} />
+
                   <p className={styles.issueDescription}>{issue.description}</p>
 
                   <div className={styles.issueFooter}>
@@ -591,7 +945,30 @@ export default function StaffDashboard() {
                   }}
                 >
                   <span>👤 {selectedIssue.userName}</span>
+                  {!!selectedIssue.photoDuplicates?.length && (
+                    <span className={styles.photoDuplicate}>
+                      📸 Same photo as{" "}
+                      {selectedIssue.photoDuplicates
+                        .map((d) => `#${caseId(d.issueId)}`)
+                        .join(", ")}
+                    </span>
+                  )}
+                  {!!selectedIssue.coReporters?.length && (
+                    <span title={selectedIssue.coReporters.map((c) => c.userName).join(", ")}>
+                      👥 Also reported by {selectedIssue.coReporters.length} resident
+                      {selectedIssue.coReporters.length > 1 ? "s" : ""}
+                    </span>
+                  )}
                   <span>📍 {selectedIssue.location}</span>
+                  {selectedIssue.locationSource && (
+                    <span>{describeLocationSource(selectedIssue)}</span>
+                  )}
+                  {(selectedIssue.wardId || selectedIssue.outsideMunicipality) && (
+                    <span className={selectedIssue.outsideMunicipality ? styles.outsideMunicipality : ""}>
+                      {selectedIssue.outsideMunicipality ? "⚠️" : "🏛️"}{" "}
+                      {wardUtils.getLabel(selectedIssue, wards)}
+                    </span>
+                  )}
                   <span>📂 {selectedIssue.category}</span>
                   <span>⚡ Priority: <strong>{selectedIssue.priority.toUpperCase()}</strong></span>
                   {selectedIssue.residentConfirmed && (
@@ -620,6 +997,26 @@ export default function StaffDashboard() {
                   )}
                 </div>
 
+                <AttachmentGallery
+                  issue={selectedIssue}
+                  uploadRole="progress"
+                  onChange={setSelectedIssue}
+                />
+
+                <ResolutionVerificationPanel
+                  issue={selectedIssue}
+                  onChange={setSelectedIssue}
+                />
+
+                <MergeIssuesPanel
+                  issue={selectedIssue}
+                  allIssues={allIssues}
+                  onMerged={(parent) => {
+                    setSelectedIssue(parent);
+                    loadAllIssues();
+                  }}
+                />
+
                 {/* Resident Rejection Feedback */}
                 {selectedIssue.residentRejected && selectedIssue.residentFeedback && (
                   <div style={{
@@ -808,6 +1205,13 @@ export default function StaffDashboard() {
                     <option value="safety">Public Safety</option>
                     <option value="parks">Parks & Recreation</option>
                   </select>
+                  {selectedIssue.routingRuleId &&
+                    modalData.department === selectedIssue.department && (
+                      <p className={styles.routingNote}>
+                        🤖 Routed automatically by rule &ldquo;{selectedIssue.routingRuleId}&rdquo;.
+                        Pick another department to override it.
+                      </p>
+                    )}
                 </div>
 
                 <div className={styles.formGroup}>
@@ -834,11 +1238,27 @@ export default function StaffDashboard() {
                     {availableEmployees.map((emp) => (
                       <option key={emp.id} value={emp.id}>
                         {emp.firstName} {emp.lastName} ({emp.email})
+                        {emp.availability && emp.availability !== "available"
+                          ? ` - ${availabilityLabels[emp.availability]}`
+                          : ""}
                       </option>
                     ))}
                   </select>
                 </div>
 
+                {!selectedIssue.assignedToEmployee &&
+                  getStatusPhase(selectedIssue.status) === "open" && (
+                  <button
+                    type="button"
+                    className={styles.exportButton}
+                    onClick={handleAutoAssign}
+                    disabled={autoAssigning}
+                  >
+                    {autoAssigning ? "Assigning..." : "🤖 Auto-assign"}
+                  </button>
+                )}
+                {autoAssignNote && <p className={styles.routingNote}>🤖 {autoAssignNote}</p>}
+
                 {selectedIssue?.assignedToEmployeeName && (
                   <div className={styles.currentAssignment}>
                     <span>📌 Currently assigned to: </span>
@@ -863,13 +1283,42 @@ export default function StaffDashboard() {
                     }))
                   }
                 >
-                  <option value="pending">Pending</option>
-                  <option value="in-progress">In Progress</option>
-                  <option value="resolved">Resolved</option>
-                  <option value="rejected">Rejected</option>
+                  <option value={selectedIssue.status}>
+                    {statusLabels[selectedIssue.status]}
+                  </option>
+                  {user &&
+                    getAvailableTransitions(selectedIssue, {
+                      id: user.id,
+                      role: getEffectiveRole(user),
+                    }).map((transition) => (
+                      <option key={transition.to} value={transition.to}>
+                        {transition.action} → {statusLabels[transition.to]}
+                      </option>
+                    ))}
                 </select>
               </div>
 
+              {modalData.status !== selectedIssue.status && (
+                <div className={styles.formGroup}>
+                  <label className={styles.label}>
+                    Status Change Note
+                    {findTransition(selectedIssue.status, modalData.status)
+                      ?.requiresNote && " (required)"}
+                  </label>
+                  <textarea
+                    className={styles.textarea}
+                    value={modalData.statusNote}
+                    onChange={(e) =>
+                      setModalData((prev) => ({
+                        ...prev,
+                        statusNote: e.target.value,
+                      }))
+                    }
+                    placeholder="Reason for the change - shared with the reporter and assignee..."
+                  />
+                </div>
+              )}
+
               <div className={styles.formGroup}>
                 <label className={styles.label}>Staff Notes</label>
                 <textarea
@@ -884,6 +1333,8 @@ export default function StaffDashboard() {
                   placeholder="Add notes about actions taken, reasons for rejection, etc."
                 />
               </div>
+
+              <CommentThread issue={selectedIssue} user={user} />
             </div>
 
             <div className={styles.modalFooter}>
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { normalizeIssueAnalysis, validateAnalysisResult } from "./analysisSchema";
+
+const wellFormed = {
+  title: "Pothole on Church Street",
+  description: "A deep pothole in the left lane",
+  category: "roads",
+  priority: "high",
+  issueType: "pothole",
+  confidence: 0.9,
+  keywords: ["pothole", "road"],
+  detailedAnalysis: {
+    problemIdentification: "Pothole",
+    severityAssessment: "Deep",
+    impactAnalysis: "Damages cars",
+    rootCause: "Water ingress",
+    visualEvidence: ["Broken asphalt"],
+  },
+  recommendations: {
+    immediateActions: ["Cone off the lane"],
+    longTermSolutions: ["Resurface"],
+    preventiveMeasures: ["Fix drainage"],
+  },
+  estimatedResolution: {
+    timeframe: "2 days",
+    resources: ["Asphalt"],
+    estimatedCost: "R5000",
+    workersRequired: 3,
+  },
+  safetyConsiderations: {
+    riskLevel: "high",
+    hazards: ["Tyre damage"],
+    precautions: ["Warning signs"],
+  },
+};
+
+const paths = (issues: { path: string }[]) => issues.map((issue) => issue.path);
+
+describe("validateAnalysisResult", () => {
+  it("accepts a well-formed response unchanged", () => {
+    const { result, errors, repairs } = validateAnalysisResult(wellFormed);
+    expect(errors).toEqual([]);
+    expect(repairs).toEqual([]);
+    expect(result).toEqual(wellFormed);
+  });
+
+  it("coerces near-miss values and records each repair", () => {
+    const { result, errors, repairs } = validateAnalysisResult({
+      ...wellFormed,
+      category: "Roads & Infrastructure",
+      priority: "Critical",
+      confidence: 85,
+      keywords: "pothole, road",
+      estimatedResolution: { ...wellFormed.estimatedResolution, workersRequired: "500" },
+      safetyConsiderations: { ...wellFormed.safetyConsiderations, riskLevel: "severe" },
+    });
+
+    expect(errors).toEqual([]);
+    expect(result.category).toBe("roads");
+    expect(result.priority).toBe("urgent");
+    expect(result.confidence).toBeCloseTo(0.85);
+    expect(result.keywords).toEqual(["pothole", "road"]);
+    expect(result.estimatedResolution.workersRequired).toBe(100);
+    expect(result.safetyConsiderations.riskLevel).toBe("critical");
+    expect(paths(repairs)).toEqual(
+      expect.arrayContaining([
+        "category",
+        "priority",
+        "confidence",
+        "keywords",
+        "estimatedResolution.workersRequired",
+        "safetyConsiderations.riskLevel",
+      ])
+    );
+  });
+
+  it("fills missing sections with defaults", () => {
+    const { result, errors } = validateAnalysisResult({
+      title: "Burst pipe",
+      description: "Water running down the road",
+      category: "water",
+      priority: "medium",
+    });
+
+    expect(errors).toEqual([]);
+    expect(result.issueType).toBe("water");
+    expect(result.confidence).toBe(0.5);
+    expect(result.detailedAnalysis.rootCause).toBe("Not assessed");
+    expect(result.estimatedResolution.timeframe).toBe("To be determined");
+    expect(result.safetyConsiderations.riskLevel).toBe("moderate");
+  });
+
+  it("reports what cannot be repaired", () => {
+    const { errors } = validateAnalysisResult({
+      ...wellFormed,
+      title: "",
+      category: "banana",
+      priority: 7,
+    });
+    expect(paths(errors)).toEqual(["category", "title", "priority"]);
+
+    expect(paths(validateAnalysisResult("not json").errors)).toContain("");
+  });
+});
+
+describe("normalizeIssueAnalysis", () => {
+  it("never fails, even for a missing analysis", () => {
+    const analysis = normalizeIssueAnalysis(undefined);
+    expect(analysis.issueType).toBe("general");
+    expect(analysis.keywords).toEqual([]);
+    expect(analysis.recommendations.immediateActions).toEqual([]);
+  });
+
+  it("keeps a stored analysis and drops junk entries", () => {
+    const analysis = normalizeIssueAnalysis({
+      ...wellFormed,
+      keywords: ["pothole", null, " "],
+    });
+    expect(analysis.issueType).toBe("pothole");
+    expect(analysis.keywords).toEqual(["pothole"]);
+    expect(analysis.detailedAnalysis).toEqual(wellFormed.detailedAnalysis);
+  });
+});
@@ -0,0 +1,361 @@
+// utils/analysisSchema.ts
+// Runtime schema for AI image analysis. Model output is untrusted: enums are
+// coerced to the values the app understands and missing sections are filled
+// with safe defaults, so a saved analysis can always be rendered.
+import type { ImageAnalysisResult, RiskLevel } from "./aiCategorization";
+import type { Issue } from "./localStorage";
+
+export const ISSUE_CATEGORIES = [
+  "roads",
+  "water",
+  "electricity",
+  "waste",
+  "safety",
+  "parks",
+  "other",
+] as const;
+
+export const ISSUE_PRIORITIES = ["low", "medium", "high", "urgent"] as const;
+
+export const RISK_LEVELS = ["low", "moderate", "high", "critical"] as const;
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  received?: unknown;
+}
+
+export interface AnalysisValidation {
+  // Always populated; only trustworthy when errors is empty
+  result: ImageAnalysisResult;
+  // Problems that could not be repaired (the response should be regenerated)
+  errors: ValidationIssue[];
+  // Problems that were fixed by coercion or defaults
+  repairs: ValidationIssue[];
+}
+
+type IssueAnalysis = NonNullable<Issue["aiAnalysis"]>;
+
+const categoryAliases: { [key: string]: (typeof ISSUE_CATEGORIES)[number] } = {
+  road: "roads",
+  "roads & infrastructure": "roads",
+  infrastructure: "roads",
+  traffic: "roads",
+  "water & sanitation": "water",
+  sanitation: "water",
+  sewer: "water",
+  sewage: "water",
+  electrical: "electricity",
+  power: "electricity",
+  streetlight: "electricity",
+  lighting: "electricity",
+  "waste management": "waste",
+  garbage: "waste",
+  refuse: "waste",
+  trash: "waste",
+  "public safety": "safety",
+  security: "safety",
+  park: "parks",
+  "parks & recreation": "parks",
+  recreation: "parks",
+  general: "other",
+  miscellaneous: "other",
+};
+
+const priorityAliases: { [key: string]: (typeof ISSUE_PRIORITIES)[number] } = {
+  critical: "urgent",
+  emergency: "urgent",
+  severe: "urgent",
+  immediate: "urgent",
+  major: "high",
+  serious: "high",
+  moderate: "medium",
+  normal: "medium",
+  minor: "low",
+  trivial: "low",
+};
+
+const riskAliases: { [key: string]: RiskLevel } = {
+  none: "low",
+  minimal: "low",
+  medium: "moderate",
+  serious: "high",
+  severe: "critical",
+  extreme: "critical",
+  urgent: "critical",
+};
+
+const NOT_ASSESSED = "Not assessed";
+const TO_BE_DETERMINED = "To be determined";
+
+const isObject = (value: unknown): value is { [key: string]: unknown } =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Collects problems while the parsers below walk the response
+class SchemaContext {
+  errors: ValidationIssue[] = [];
+  repairs: ValidationIssue[] = [];
+
+  error(path: string, message: string, received?: unknown) {
+    this.errors.push({ path, message, received });
+  }
+
+  repair(path: string, message: string, received?: unknown) {
+    this.repairs.push({ path, message, received });
+  }
+
+  object(path: string, value: unknown): { [key: string]: unknown } {
+    if (isObject(value)) return value;
+    this.repair(path, "Missing section, using defaults", value);
+    return {};
+  }
+
+  string(
+    path: string,
+    value: unknown,
+    fallback: string,
+    required = false
+  ): string {
+    if (typeof value === "string" && value.trim()) return value.trim();
+    if (typeof value === "number") {
+      this.repair(path, "Converted number to text", value);
+      return String(value);
+    }
+    if (required) {
+      this.error(path, "Required text is missing", value);
+    } else {
+      this.repair(path, `Missing text, defaulted to "${fallback}"`, value);
+    }
+    return fallback;
+  }
+
+  stringArray(path: string, value: unknown): string[] {
+    if (Array.isArray(value)) {
+      const items = value
+        .filter((item) => typeof item === "string" || typeof item === "number")
+        .map((item) => String(item).trim())
+        .filter((item) => item.length > 0);
+      if (items.length !== value.length) {
+        this.repair(path, "Dropped empty or non-text entries", value);
+      }
+      return items;
+    }
+    if (typeof value === "string" && value.trim()) {
+      this.repair(path, "Converted text to a list", value);
+      return value
+        .split(/[,;\n]/)
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+    }
+    this.repair(path, "Missing list, defaulted to empty", value);
+    return [];
+  }
+
+  number(
+    path: string,
+    value: unknown,
+    fallback: number,
+    min: number,
+    max: number
+  ): number {
+    const parsed =
+      typeof value === "number"
+        ? value
+        : typeof value === "string"
+        ? parseFloat(value)
+        : NaN;
+    if (!Number.isFinite(parsed)) {
+      this.repair(path, `Missing number, defaulted to ${fallback}`, value);
+      return fallback;
+    }
+    if (typeof value !== "number") {
+      this.repair(path, "Converted text to a number", value);
+    }
+    if (parsed < min || parsed > max) {
+      this.repair(path, `Clamped to the range ${min}-${max}`, value);
+      return Math.min(Math.max(parsed, min), max);
+    }
+    return parsed;
+  }
+
+  enumValue<T extends string>(
+    path: string,
+    value: unknown,
+    allowed: readonly T[],
+    aliases: { [key: string]: T },
+    fallback?: T
+  ): T {
+    const normalized =
+      typeof value === "string" ? value.trim().toLowerCase() : "";
+    if ((allowed as readonly string[]).includes(normalized)) {
+      if (value !== normalized) {
+        this.repair(path, `Normalized to "${normalized}"`, value);
+      }
+      return normalized as T;
+    }
+
+    // "High priority" -> "high", "Roads & Infrastructure" -> "roads"
+    const coerced =
+      aliases[normalized] ||
+      allowed.find((option) => normalized && normalized.includes(option)) ||
+      Object.entries(aliases).find(
+        ([key]) => normalized && normalized.includes(key)
+      )?.[1];
+    if (coerced) {
+      this.repair(path, `Coerced to "${coerced}"`, value);
+      return coerced;
+    }
+
+    if (fallback) {
+      this.repair(path, `Unknown value, defaulted to "${fallback}"`, value);
+      return fallback;
+    }
+    this.error(path, `Must be one of: ${allowed.join(", ")}`, value);
+    return allowed[0];
+  }
+}
+
+// The nested sections shared by ImageAnalysisResult and Issue.aiAnalysis
+function parseSections(ctx: SchemaContext, raw: { [key: string]: unknown }) {
+  const detailed = ctx.object("detailedAnalysis", raw.detailedAnalysis);
+  const recommendations = ctx.object("recommendations", raw.recommendations);
+  const estimate = ctx.object("estimatedResolution", raw.estimatedResolution);
+  const safety = ctx.object(
+    "safetyConsiderations",
+    raw.safetyConsiderations
+  );
+
+  return {
+    detailedAnalysis: {
+      problemIdentification: ctx.string(
+        "detailedAnalysis.problemIdentification",
+        detailed.problemIdentification,
+        NOT_ASSESSED
+      ),
+      severityAssessment: ctx.string(
+        "detailedAnalysis.severityAssessment",
+        detailed.severityAssessment,
+        NOT_ASSESSED
+      ),
+      impactAnalysis: ctx.string(
+        "detailedAnalysis.impactAnalysis",
+        detailed.impactAnalysis,
+        NOT_ASSESSED
+      ),
+      rootCause: ctx.string(
+        "detailedAnalysis.rootCause",
+        detailed.rootCause,
+        NOT_ASSESSED
+      ),
+      visualEvidence: ctx.stringArray(
+        "detailedAnalysis.visualEvidence",
+        detailed.visualEvidence
+      ),
+    },
+    recommendations: {
+      immediateActions: ctx.stringArray(
+        "recommendations.immediateActions",
+        recommendations.immediateActions
+      ),
+      longTermSolutions: ctx.stringArray(
+        "recommendations.longTermSolutions",
+        recommendations.longTermSolutions
+      ),
+      preventiveMeasures: ctx.stringArray(
+        "recommendations.preventiveMeasures",
+        recommendations.preventiveMeasures
+      ),
+    },
+    estimatedResolution: {
+      timeframe: ctx.string(
+        "estimatedResolution.timeframe",
+        estimate.timeframe,
+        TO_BE_DETERMINED
+      ),
+      resources: ctx.stringArray(
+        "estimatedResolution.resources",
+        estimate.resources
+      ),
+      estimatedCost: ctx.string(
+        "estimatedResolution.estimatedCost",
+        estimate.estimatedCost,
+        TO_BE_DETERMINED
+      ),
+      workersRequired: Math.round(
+        ctx.number(
+          "estimatedResolution.workersRequired",
+          estimate.workersRequired,
+          1,
+          1,
+          100
+        )
+      ),
+    },
+    safetyConsiderations: {
+      riskLevel: ctx.enumValue(
+        "safetyConsiderations.riskLevel",
+        safety.riskLevel,
+        RISK_LEVELS,
+        riskAliases,
+        "moderate"
+      ),
+      hazards: ctx.stringArray("safetyConsiderations.hazards", safety.hazards),
+      precautions: ctx.stringArray(
+        "safetyConsiderations.precautions",
+        safety.precautions
+      ),
+    },
+  };
+}
+
+// Validates and repairs a parsed model response
+export function validateAnalysisResult(raw: unknown): AnalysisValidation {
+  const ctx = new SchemaContext();
+  if (!isObject(raw)) {
+    ctx.error("", "Response must be a JSON object", raw);
+  }
+  const source = isObject(raw) ? raw : {};
+
+  // Confidence is sometimes given as a percentage
+  let confidence = source.confidence;
+  if (typeof confidence === "number" && confidence > 1 && confidence <= 100) {
+    ctx.repair("confidence", "Converted percentage to a 0-1 fraction", confidence);
+    confidence = confidence / 100;
+  }
+
+  const category = ctx.enumValue(
+    "category",
+    source.category,
+    ISSUE_CATEGORIES,
+    categoryAliases
+  );
+
+  const result: ImageAnalysisResult = {
+    title: ctx.string("title", source.title, "", true).slice(0, 100),
+    description: ctx.string("description", source.description, "", true),
+    category,
+    priority: ctx.enumValue(
+      "priority",
+      source.priority,
+      ISSUE_PRIORITIES,
+      priorityAliases
+    ),
+    issueType: ctx.string("issueType", source.issueType, category),
+    confidence: ctx.number("confidence", confidence, 0.5, 0, 1),
+    keywords: ctx.stringArray("keywords", source.keywords),
+    ...parseSections(ctx, source),
+  };
+
+  return { result, errors: ctx.errors, repairs: ctx.repairs };
+}
+
+// Repairs the analysis stored on an issue; never fails
+export function normalizeIssueAnalysis(raw: unknown): IssueAnalysis {
+  const ctx = new SchemaContext();
+  const source = isObject(raw) ? raw : {};
+  return {
+    issueType: ctx.string("issueType", source.issueType, "general"),
+    keywords: ctx.stringArray("keywords", source.keywords),
+    ...parseSections(ctx, source),
+  };
+}
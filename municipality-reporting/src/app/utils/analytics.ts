@@ -1,5 +1,9 @@
 // utils/analytics.ts
-import { Issue, storageUtils } from "./localStorage";
+import { Hotspot, HOTSPOT_WINDOW_DAYS, hotspotUtils } from "./hotspots";
+import { StatusPhase, getStatusPhase } from "./issueWorkflow";
+import { Issue } from "./localStorage";
+import { SlaComplianceStats, slaUtils } from "./sla";
+import { OUTSIDE_MUNICIPALITY_LABEL } from "./wards";
 
 export interface CategoryStats {
   category: string;
@@ -19,6 +23,13 @@ export interface StatusStats {
   percentage: number;
 }
 
+export interface WardStats {
+  wardId: string; // or OUTSIDE_MUNICIPALITY_LABEL for reports outside every ward
+  count: number;
+  openCount: number; // not yet resolved, rejected or merged
+  percentage: number;
+}
+
 export interface TrendData {
   date: string;
   count: number;
@@ -30,6 +41,7 @@ export interface AnalyticsSummary {
   inProgressReports: number;
   resolvedReports: number;
   rejectedReports: number;
+  mergedReports: number; // duplicates folded into another report, not counted elsewhere
   avgResolutionTime: number; // in days
   categoryBreakdown: CategoryStats[];
   priorityBreakdown: PriorityStats[];
@@ -37,14 +49,17 @@ export interface AnalyticsSummary {
   monthlyTrend: TrendData[];
   topIssueTypes: { type: string; count: number }[];
   aiConfidenceAverage: number;
+  slaCompliance: SlaComplianceStats[]; // per department, worst first
+  hotspots: Hotspot[]; // clusters of recurring reports, largest first
+  wardBreakdown: WardStats[]; // empty when no ward boundaries are configured
 }
 
 export const analyticsUtils = {
   // Calculate resolution time in days
   calculateResolutionTime(issue: Issue): number | null {
-    if (issue.status !== "resolved") return null;
+    if (getStatusPhase(issue.status) !== "resolved") return null;
     const created = new Date(issue.createdAt);
-    const updated = new Date(issue.updatedAt);
+    const updated = new Date(issue.resolvedAt || issue.updatedAt);
     const diffTime = Math.abs(updated.getTime() - created.getTime());
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
     return diffDays;
@@ -69,6 +84,25 @@ export const analyticsUtils = {
       .sort((a, b) => b.count - a.count);
   },
 
+  // Get ward breakdown; issues without a ward (no location, or no ward
+  // boundaries configured) are left out
+  getWardBreakdown(issues: Issue[]): WardStats[] {
+    const total = issues.length;
+    const stats: { [wardId: string]: WardStats } = {};
+    issues.forEach((issue) => {
+      const wardId = issue.outsideMunicipality ? OUTSIDE_MUNICIPALITY_LABEL : issue.wardId;
+      if (!wardId) return;
+      const row = stats[wardId] || (stats[wardId] = { wardId, count: 0, openCount: 0, percentage: 0 });
+      row.count++;
+      const phase = getStatusPhase(issue.status);
+      if (phase === "open" || phase === "active") row.openCount++;
+    });
+
+    return Object.values(stats)
+      .map((row) => ({ ...row, percentage: Math.round((row.count / total) * 100) }))
+      .sort((a, b) => b.count - a.count);
+  },
+
   // Get priority breakdown
   getPriorityBreakdown(issues: Issue[]): PriorityStats[] {
     const total = issues.length;
@@ -161,16 +195,14 @@ export const analyticsUtils = {
     return Math.round((sum / withConfidence.length) * 100);
   },
 
-  // Get comprehensive analytics summary
-  getAnalyticsSummary(userId?: string): AnalyticsSummary {
-    let issues = storageUtils.getIssues();
-
-    // Filter by user if provided (for residents)
-    if (userId) {
-      issues = issues.filter((i) => i.userId === userId);
-    }
-
-    const resolvedIssues = issues.filter((i) => i.status === "resolved");
+  // Get comprehensive analytics summary for an already-loaded set of issues
+  // (all issues for staff, the resident's own issues for residents). A merged
+  // cluster counts once, through its parent
+  getAnalyticsSummary(allIssues: Issue[]): AnalyticsSummary {
+    const issues = allIssues.filter((i) => !i.parentIssueId);
+    const inPhase = (phase: StatusPhase) =>
+      issues.filter((i) => getStatusPhase(i.status) === phase);
+    const resolvedIssues = inPhase("resolved");
     const resolutionTimes = resolvedIssues
       .map((i) => this.calculateResolutionTime(i))
       .filter((t) => t !== null) as number[];
@@ -182,10 +214,11 @@ export const analyticsUtils = {
 
     return {
       totalReports: issues.length,
-      pendingReports: issues.filter((i) => i.status === "pending").length,
-      inProgressReports: issues.filter((i) => i.status === "in-progress").length,
+      pendingReports: inPhase("open").length,
+      inProgressReports: inPhase("active").length,
       resolvedReports: resolvedIssues.length,
-      rejectedReports: issues.filter((i) => i.status === "rejected").length,
+      rejectedReports: inPhase("rejected").length,
+      mergedReports: allIssues.length - issues.length,
       avgResolutionTime,
       categoryBreakdown: this.getCategoryBreakdown(issues),
       priorityBreakdown: this.getPriorityBreakdown(issues),
@@ -193,6 +226,9 @@ export const analyticsUtils = {
       monthlyTrend: this.getMonthlyTrend(issues),
       topIssueTypes: this.getTopIssueTypes(issues),
       aiConfidenceAverage: this.getAverageAIConfidence(issues),
+      slaCompliance: slaUtils.getComplianceByDepartment(issues),
+      hotspots: hotspotUtils.findHotspots(issues),
+      wardBreakdown: this.getWardBreakdown(issues),
     };
   },
 
@@ -236,6 +272,25 @@ export const analyticsUtils = {
       insights.push(`🤖 AI analysis shows ${summary.aiConfidenceAverage}% average confidence`);
     }
 
+    // SLA insight - the list is sorted worst department first
+    const worstSla = summary.slaCompliance[0];
+    if (worstSla && worstSla.complianceRate < 80) {
+      insights.push(`⏱️ ${worstSla.department} is meeting only ${worstSla.complianceRate}% of its SLA targets`);
+    }
+
+    // Duplicate insight
+    if (summary.mergedReports > 0) {
+      insights.push(`🔗 ${summary.mergedReports} duplicate reports were merged into existing issues`);
+    }
+
+    // Hotspot insight
+    const rising = summary.hotspots.filter((h) => h.trend === "rising");
+    if (rising.length > 0) {
+      insights.push(
+        `🔥 ${rising.length} hotspot${rising.length > 1 ? "s are" : " is"} getting worse - ${rising[0].count} ${rising[0].category} reports near ${rising[0].location} in the last ${HOTSPOT_WINDOW_DAYS} days`
+      );
+    }
+
     // Pending backlog insight
     if (summary.pendingReports > summary.inProgressReports * 2) {
       insights.push(`📋 Growing backlog: ${summary.pendingReports} pending reports need assignment`);
@@ -0,0 +1,26 @@
+// utils/apiClient.ts
+
+// Shared fetch wrapper for the app's own API routes; throws with the
+// route's `error` message on non-2xx responses
+export async function apiRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Request to ${url} failed`);
+  }
+
+  return response.json();
+}
+
+export const queryString = (params: Record<string, string | undefined>): string => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value) query.set(key, value);
+  });
+  const str = query.toString();
+  return str ? `?${str}` : "";
+};
@@ -0,0 +1,161 @@
+// utils/attachments.ts
+import { apiRequest } from "./apiClient";
+import { exifUtils } from "./exif";
+import { TransitionParty } from "./issueWorkflow";
+import { Issue } from "./localStorage";
+
+// Every uploaded image is kept at full size plus two generated sizes
+export type AttachmentSize = "thumbnail" | "medium" | "full";
+
+export interface Attachment {
+  id: string; // SHA-256 of the original file, so identical uploads share one id
+  fileName: string;
+  mimeType: string; // of the full-size file; generated sizes are always JPEG
+  bytes: number;
+  width?: number;
+  height?: number;
+  perceptualHash?: string; // dHash of the picture - see utils/perceptualHash.ts
+  metadataStripped?: boolean; // the stored copy carries no EXIF, XMP or IPTC
+  createdAt: string;
+}
+
+// Why a photo was added: the original report, work in progress, or proof of completion
+export type AttachmentRole = "report" | "progress" | "completion";
+
+// An attachment as listed on an issue, with who added it, when and where
+export interface IssueAttachment extends Attachment {
+  role: AttachmentRole;
+  uploadedById: string;
+  uploadedBy: string;
+  uploadedAt: string;
+  latitude?: number;
+  longitude?: number;
+  capturedAt?: string; // from the photo's EXIF, read before upload
+}
+
+// What a client sends to add an uploaded file to an issue
+export interface AttachmentReference {
+  id: string;
+  role?: AttachmentRole;
+  latitude?: number;
+  longitude?: number;
+  capturedAt?: string;
+}
+
+export const attachmentRoleLabels: Record<AttachmentRole, string> = {
+  report: "📸 Report",
+  progress: "🔧 Progress",
+  completion: "✅ Completion",
+};
+
+// Who may add each kind of photo - see getIssueParties in issueWorkflow.ts
+export const attachmentRoleParties: Record<AttachmentRole, TransitionParty[]> = {
+  report: ["reporter", "staff"],
+  progress: ["assignee", "staff"],
+  completion: ["assignee", "staff"],
+};
+
+export const MAX_ISSUE_ATTACHMENTS = 20;
+
+export const ATTACHMENT_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export const attachmentUtils = {
+  // Upload an image (as a data URL) and get back its stored attachment
+  upload: async (dataUrl: string, fileName: string): Promise<Attachment> => {
+    const { attachment } = await apiRequest<{ attachment: Attachment }>(
+      "/api/attachments",
+      { method: "POST", body: JSON.stringify({ data: dataUrl, fileName }) }
+    );
+    return attachment;
+  },
+
+  // Where to load an attachment from; content-addressed, so safe to cache forever
+  getUrl(attachment: Pick<Attachment, "id">, size: AttachmentSize = "full"): string {
+    return `/api/attachments/${encodeURIComponent(attachment.id)}?size=${size}`;
+  },
+
+  // Read a picked image file as a data URL ready for upload
+  readFile: (file: File): Promise<string> =>
+    new Promise((resolve, reject) => {
+      if (!ATTACHMENT_IMAGE_TYPES.includes(file.type)) {
+        reject(new Error(`${file.name} is not a JPEG, PNG or WebP image`));
+        return;
+      }
+      if (file.size > MAX_UPLOAD_BYTES) {
+        reject(new Error(`${file.name} is larger than 10MB`));
+        return;
+      }
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(new Error(`Could not read ${file.name}`));
+      reader.readAsDataURL(file);
+    }),
+
+  // Where the device is right now, if the user allows it; photos are still
+  // uploaded without GPS when this fails
+  getPhotoPosition: (): Promise<{ latitude: number; longitude: number } | undefined> =>
+    new Promise((resolve) => {
+      if (typeof navigator === "undefined" || !navigator.geolocation) {
+        resolve(undefined);
+        return;
+      }
+      navigator.geolocation.getCurrentPosition(
+        (position) =>
+          resolve({
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+          }),
+        () => resolve(undefined),
+        { enableHighAccuracy: true, timeout: 5000, maximumAge: 60000 }
+      );
+    }),
+
+  // Upload picked files and add them to an issue with the given role
+  addPhotos: async (
+    issueId: string,
+    files: File[],
+    role: AttachmentRole
+  ): Promise<Issue> => {
+    const position = await attachmentUtils.getPhotoPosition();
+    const references: AttachmentReference[] = [];
+    for (const file of files) {
+      // Read before upload: the stored copy has its metadata stripped
+      const metadata = await exifUtils.readFile(file);
+      const attachment = await attachmentUtils.upload(
+        await attachmentUtils.readFile(file),
+        file.name
+      );
+      references.push({
+        id: attachment.id,
+        role,
+        // Where the photo was taken beats where the device is now
+        ...(exifUtils.hasLocation(metadata)
+          ? { latitude: metadata.latitude, longitude: metadata.longitude }
+          : position),
+        capturedAt: metadata.capturedAt,
+      });
+    }
+
+    const { issue } = await apiRequest<{ issue: Issue }>(
+      `/api/issues/${encodeURIComponent(issueId)}/attachments`,
+      { method: "POST", body: JSON.stringify({ attachments: references }) }
+    );
+    return issue;
+  },
+
+  getByRole(issue: Issue, role: AttachmentRole): IssueAttachment[] {
+    return (issue.attachments || []).filter((a) => a.role === role);
+  },
+
+  // The main photo of an issue, falling back to photos stored before attachments existed
+  getPhotoUrl(issue: Issue, size: AttachmentSize = "full"): string | null {
+    const first = this.getByRole(issue, "report")[0] || issue.attachments?.[0];
+    if (first) return this.getUrl(first, size);
+    return issue.photoData || issue.photoUrl || null;
+  },
+
+  hasPhoto(issue: Issue): boolean {
+    return !!(issue.attachments?.length || issue.photoData || issue.photoUrl);
+  },
+};
@@ -0,0 +1,49 @@
+// utils/auth.ts
+import { apiRequest } from "./apiClient";
+import { NewUserInput, User } from "./localStorage";
+
+// The session itself lives in an HTTP-only cookie set by /api/auth/*, so the
+// browser never holds anything it could edit to change who it is signed in as
+export const authUtils = {
+  // Sign in; throws with the server's message on bad credentials
+  login: async (
+    email: string,
+    password: string,
+    rememberMe: boolean = false
+  ): Promise<User> => {
+    const { user } = await apiRequest<{ user: User }>("/api/auth/login", {
+      method: "POST",
+      body: JSON.stringify({ email, password, rememberMe }),
+    });
+    return user;
+  },
+
+  // Create an account and sign it in
+  register: async (input: NewUserInput): Promise<User> => {
+    const { user } = await apiRequest<{ user: User }>("/api/auth/register", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+    return user;
+  },
+
+  logout: async (): Promise<void> => {
+    await apiRequest("/api/auth/logout", { method: "POST" });
+  },
+
+  // Get the signed-in user, or null for guests and expired sessions
+  getCurrentUser: async (): Promise<User | null> => {
+    try {
+      const { user } = await apiRequest<{ user: User }>("/api/auth/session");
+      return user;
+    } catch {
+      return null;
+    }
+  },
+
+  getDashboardPath: (user: User): string => {
+    if (user.role === "staff" || user.role === "admin") return "/staff-dashboard";
+    if (user.role === "employee") return "/employee-dashboard";
+    return "/resident-dashboard";
+  },
+};
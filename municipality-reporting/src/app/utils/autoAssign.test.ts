@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { makeIssue, makeUser } from "@/test/fixtures";
+import {
+  AUTO_ASSIGN_POINTS,
+  MAX_SCORED_DISTANCE_KM,
+  autoAssignUtils,
+  scoreEmployee,
+} from "./autoAssign";
+import { Issue } from "./localStorage";
+
+const now = new Date("2026-03-01T12:00:00.000Z");
+// About 1 km per 0.009 degrees of latitude
+const at = (kmNorth: number) => ({ latitude: -26.2 + kmNorth * 0.009, longitude: 28 });
+
+const newReport = makeIssue({ id: "new", ...at(0) });
+const job = (id: string, overrides: Partial<Issue> = {}) =>
+  makeIssue({
+    id,
+    status: "assigned",
+    assignedToEmployee: "employee-1",
+    updatedAt: now.toISOString(),
+    ...overrides,
+  });
+
+const byEmployee = (jobs: Issue[]) => {
+  const map = new Map<string, Issue[]>();
+  jobs.forEach((j) => map.set(j.assignedToEmployee!, [...(map.get(j.assignedToEmployee!) || []), j]));
+  return map;
+};
+
+describe("scoreEmployee", () => {
+  it("adds points per open job and for their priority", () => {
+    const score = scoreEmployee(
+      makeUser(),
+      makeIssue({ id: "new" }),
+      [
+        job("1", { priority: "urgent" }),
+        job("2", { priority: "low", status: "in-progress" }),
+        job("3", { status: "closed" }),
+      ],
+      now
+    );
+    expect(score).toMatchObject({
+      openJobs: 2,
+      priorityMix: { urgent: 1, low: 1 },
+      workloadPoints: 2 * AUTO_ASSIGN_POINTS.perOpenJob,
+      priorityPoints: 8 + 1,
+      distancePoints: 0, // the new report has no coordinates
+      total: 19,
+    });
+  });
+
+  it("scores the distance to the nearest recent job site", () => {
+    const score = scoreEmployee(
+      makeUser(),
+      newReport,
+      [
+        job("near", { ...at(2), status: "closed", resolvedAt: "2026-02-25T00:00:00.000Z" }),
+        job("far", at(5)),
+        job("old", { ...at(0.1), status: "closed", resolvedAt: "2025-12-01T00:00:00.000Z" }),
+      ],
+      now
+    );
+    expect(score.distanceKm).toBeCloseTo(2, 1);
+    expect(score.distancePoints).toBeCloseTo(score.distanceKm! * AUTO_ASSIGN_POINTS.perKm, 9);
+  });
+
+  it("caps long distances and counts unknown ones as halfway", () => {
+    const far = scoreEmployee(makeUser(), newReport, [job("far", at(100))], now);
+    expect(far.distancePoints).toBe(MAX_SCORED_DISTANCE_KM * AUTO_ASSIGN_POINTS.perKm);
+
+    const unknown = scoreEmployee(makeUser(), newReport, [], now);
+    expect(unknown.distanceKm).toBeUndefined();
+    expect(unknown.distancePoints).toBe((MAX_SCORED_DISTANCE_KM / 2) * AUTO_ASSIGN_POINTS.perKm);
+  });
+
+  it("adds points for being busy", () => {
+    const score = scoreEmployee(makeUser({ availability: "busy" }), makeIssue({ id: "new" }), [], now);
+    expect(score.availabilityPoints).toBe(AUTO_ASSIGN_POINTS.busy);
+  });
+
+  it("does not count the issue being assigned", () => {
+    const reassigned = job("new", at(0));
+    expect(scoreEmployee(makeUser(), reassigned, [reassigned], now).openJobs).toBe(0);
+  });
+});
+
+describe("rankCandidates", () => {
+  const alice = makeUser({ id: "alice", firstName: "Alice", lastName: "Zulu" });
+  const bongani = makeUser({ id: "bongani", firstName: "Bongani", lastName: "Ndlovu" });
+  const rank = (employees = [alice, bongani], jobs: Issue[] = []) =>
+    autoAssignUtils.rankCandidates(makeIssue({ id: "new" }), employees, byEmployee(jobs), now);
+
+  it("puts the lightest load first", () => {
+    const jobs = [job("1", { assignedToEmployee: "alice" })];
+    expect(rank(undefined, jobs).map((c) => c.employee.id)).toEqual(["bongani", "alice"]);
+  });
+
+  it("breaks ties by name", () => {
+    expect(rank().map((c) => c.employee.id)).toEqual(["alice", "bongani"]);
+  });
+
+  it("never picks off-duty employees", () => {
+    const ranked = rank([{ ...alice, availability: "off-duty" }, bongani]);
+    expect(ranked.map((c) => c.employee.id)).toEqual(["bongani"]);
+  });
+});
+
+describe("explain", () => {
+  it("describes the choice against the runner-up", () => {
+    const alice = makeUser({ id: "a", firstName: "Alice", lastName: "Zulu" });
+    const ben = makeUser({ id: "b", firstName: "Ben", lastName: "Khumalo", availability: "busy" });
+    const ranked = autoAssignUtils.rankCandidates(
+      newReport,
+      [alice, ben],
+      byEmployee([job("1", { ...at(1.5), assignedToEmployee: "a", priority: "high" })]),
+      now
+    );
+    expect(autoAssignUtils.explain(ranked, "roads")).toBe(
+      `Alice Zulu: 1 open job (1 high), 1.5 km from a recent job site, available - score ${ranked[0].score.total} vs ${ranked[1].score.total} for Ben Khumalo`
+    );
+  });
+
+  it("mentions when there was nobody else", () => {
+    const ranked = autoAssignUtils.rankCandidates(newReport, [makeUser()], new Map(), now);
+    expect(autoAssignUtils.explain(ranked, "roads")).toBe(
+      "Sipho Dlamini: 0 open jobs, no recent job sites, available - the only candidate in the roads department"
+    );
+  });
+});
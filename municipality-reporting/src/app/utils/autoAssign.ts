@@ -0,0 +1,170 @@
+// utils/autoAssign.ts
+// Chooses who in a department takes a report. Every candidate collects
+// points - for each open job, for the priority of those jobs, for the
+// distance from where they have recently been working and for being busy -
+// and the one with the fewest points is picked. Off-duty employees are
+// never picked.
+import { getDistanceBetweenPoints } from "./geoLocation";
+import { Issue, User } from "./localStorage";
+import { ROUTE_STATUSES, priorityWeights } from "./routePlanner";
+
+export type EmployeeAvailability = "available" | "busy" | "off-duty";
+
+export const EMPLOYEE_AVAILABILITIES: EmployeeAvailability[] = ["available", "busy", "off-duty"];
+
+export const availabilityLabels: Record<EmployeeAvailability, string> = {
+  available: "🟢 Available",
+  busy: "🟠 Busy",
+  "off-duty": "⚪ Off duty",
+};
+
+export const AUTO_ASSIGN_POINTS = {
+  perOpenJob: 5,
+  perKm: 2, // distance from the nearest recent job site
+  busy: 15,
+};
+
+// Job sites count as recent while open or for this long after their last update
+export const RECENT_JOB_DAYS = 14;
+// Distances are capped so one far-off candidate cannot dominate the score;
+// a candidate without recent job sites counts as halfway
+export const MAX_SCORED_DISTANCE_KM = 20;
+
+export interface AssignmentScore {
+  openJobs: number;
+  priorityMix: Partial<Record<Issue["priority"], number>>; // open jobs per priority
+  distanceKm?: number; // unknown when either side has no coordinates
+  workloadPoints: number;
+  priorityPoints: number;
+  distancePoints: number;
+  availabilityPoints: number;
+  total: number;
+}
+
+export interface AssignmentCandidate {
+  employee: User;
+  score: AssignmentScore;
+}
+
+export interface AssignmentSuggestion {
+  issueId: string;
+  department: string;
+  employeeId: string;
+  employeeName: string;
+  score: AssignmentScore;
+  candidates: number; // employees who could have been picked
+  explanation: string;
+}
+
+// One issue from a batch auto-assign: who got it, or why nobody did
+export interface AutoAssignResult {
+  issueId: string;
+  title: string;
+  suggestion?: AssignmentSuggestion;
+  error?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hasCoordinates = (issue: Issue) =>
+  typeof issue.latitude === "number" && typeof issue.longitude === "number";
+
+export const employeeName = (employee: User) => `${employee.firstName} ${employee.lastName}`;
+
+// `assigned` is every issue assigned to the employee, open or not
+export function scoreEmployee(
+  employee: User,
+  issue: Issue,
+  assigned: Issue[],
+  now: Date = new Date()
+): AssignmentScore {
+  const open = assigned.filter((i) => i.id !== issue.id && ROUTE_STATUSES.includes(i.status));
+  const priorityMix: AssignmentScore["priorityMix"] = {};
+  open.forEach((i) => (priorityMix[i.priority] = (priorityMix[i.priority] || 0) + 1));
+
+  let distanceKm: number | undefined;
+  let distancePoints = 0;
+  if (hasCoordinates(issue)) {
+    const recentSince = now.getTime() - RECENT_JOB_DAYS * DAY_MS;
+    const sites = assigned.filter(
+      (i) =>
+        i.id !== issue.id &&
+        hasCoordinates(i) &&
+        (ROUTE_STATUSES.includes(i.status) ||
+          new Date(i.resolvedAt || i.updatedAt).getTime() >= recentSince)
+    );
+    if (sites.length > 0) {
+      distanceKm = Math.min(
+        ...sites.map((i) =>
+          getDistanceBetweenPoints(issue.latitude!, issue.longitude!, i.latitude!, i.longitude!)
+        )
+      );
+    }
+    distancePoints =
+      Math.min(distanceKm ?? MAX_SCORED_DISTANCE_KM / 2, MAX_SCORED_DISTANCE_KM) *
+      AUTO_ASSIGN_POINTS.perKm;
+  }
+
+  const workloadPoints = open.length * AUTO_ASSIGN_POINTS.perOpenJob;
+  const priorityPoints = open.reduce((sum, i) => sum + priorityWeights[i.priority], 0);
+  const availabilityPoints = employee.availability === "busy" ? AUTO_ASSIGN_POINTS.busy : 0;
+
+  return {
+    openJobs: open.length,
+    priorityMix,
+    distanceKm,
+    workloadPoints,
+    priorityPoints,
+    distancePoints,
+    availabilityPoints,
+    total: Math.round((workloadPoints + priorityPoints + distancePoints + availabilityPoints) * 10) / 10,
+  };
+}
+
+export const autoAssignUtils = {
+  // Best candidate first; ties go to the one with fewer open jobs, then by name
+  rankCandidates(
+    issue: Issue,
+    employees: User[],
+    issuesByEmployee: Map<string, Issue[]>,
+    now: Date = new Date()
+  ): AssignmentCandidate[] {
+    return employees
+      .filter((employee) => employee.availability !== "off-duty")
+      .map((employee) => ({
+        employee,
+        score: scoreEmployee(employee, issue, issuesByEmployee.get(employee.id) || [], now),
+      }))
+      .sort(
+        (a, b) =>
+          a.score.total - b.score.total ||
+          a.score.openJobs - b.score.openJobs ||
+          employeeName(a.employee).localeCompare(employeeName(b.employee))
+      );
+  },
+
+  // Why the first candidate was picked, compared with the runner-up
+  explain(ranked: AssignmentCandidate[], department: string): string {
+    const [chosen, runnerUp] = ranked;
+    const { score } = chosen;
+    const mix = (["urgent", "high", "medium", "low"] as Issue["priority"][])
+      .filter((priority) => score.priorityMix[priority])
+      .map((priority) => `${score.priorityMix[priority]} ${priority}`)
+      .join(", ");
+
+    const parts = [
+      `${score.openJobs} open job${score.openJobs === 1 ? "" : "s"}${mix ? ` (${mix})` : ""}`,
+    ];
+    if (score.distanceKm !== undefined) {
+      parts.push(`${score.distanceKm.toFixed(1)} km from a recent job site`);
+    } else if (score.distancePoints > 0) {
+      parts.push("no recent job sites");
+    }
+    parts.push(chosen.employee.availability === "busy" ? "busy" : "available");
+
+    const comparison = runnerUp
+      ? `score ${score.total} vs ${runnerUp.score.total} for ${employeeName(runnerUp.employee)}`
+      : `the only candidate in the ${department} department`;
+    return `${employeeName(chosen.employee)}: ${parts.join(", ")} - ${comparison}`;
+  },
+};
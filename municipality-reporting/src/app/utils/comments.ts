@@ -0,0 +1,84 @@
+// utils/comments.ts
+import { apiRequest } from "./apiClient";
+import { Attachment, AttachmentReference, attachmentUtils } from "./attachments";
+import { User } from "./localStorage";
+
+export interface IssueComment {
+  id: string;
+  issueId: string;
+  authorId: string;
+  authorName: string;
+  authorRole: User["role"];
+  body: string;
+  attachments: Attachment[]; // uploaded images - see utils/attachments.ts
+  // Internal comments are only visible to municipal staff and employees
+  visibility: "public" | "internal";
+  createdAt: string;
+  updatedAt?: string;
+  edited?: boolean;
+}
+
+export interface NewCommentInput {
+  body: string;
+  attachments?: Pick<AttachmentReference, "id">[];
+  visibility?: IssueComment["visibility"];
+}
+
+export const MAX_COMMENT_ATTACHMENTS = 3;
+
+const commentsUrl = (issueId: string) =>
+  `/api/issues/${encodeURIComponent(issueId)}/comments`;
+
+export const commentUtils = {
+  // Get the comments the current user is allowed to see, oldest first
+  getComments: async (issueId: string): Promise<IssueComment[]> => {
+    const { comments } = await apiRequest<{ comments: IssueComment[] }>(
+      commentsUrl(issueId)
+    );
+    return comments;
+  },
+
+  // Add a comment to an issue
+  addComment: async (
+    issueId: string,
+    input: NewCommentInput
+  ): Promise<IssueComment> => {
+    const { comment } = await apiRequest<{ comment: IssueComment }>(
+      commentsUrl(issueId),
+      { method: "POST", body: JSON.stringify(input) }
+    );
+    return comment;
+  },
+
+  // Edit the text of your own comment
+  editComment: async (
+    issueId: string,
+    commentId: string,
+    body: string
+  ): Promise<IssueComment> => {
+    const { comment } = await apiRequest<{ comment: IssueComment }>(
+      `${commentsUrl(issueId)}/${encodeURIComponent(commentId)}`,
+      { method: "PATCH", body: JSON.stringify({ body }) }
+    );
+    return comment;
+  },
+
+  // Delete a comment (your own, or any comment for staff)
+  deleteComment: async (issueId: string, commentId: string): Promise<void> => {
+    await apiRequest(
+      `${commentsUrl(issueId)}/${encodeURIComponent(commentId)}`,
+      { method: "DELETE" }
+    );
+  },
+
+  // Upload picked images; comments only keep references to them
+  uploadAttachments: async (files: File[]): Promise<Attachment[]> => {
+    const uploaded: Attachment[] = [];
+    for (const file of files) {
+      uploaded.push(
+        await attachmentUtils.upload(await attachmentUtils.readFile(file), file.name)
+      );
+    }
+    return uploaded;
+  },
+};
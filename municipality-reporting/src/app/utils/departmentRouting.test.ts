@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { makeIssue } from "@/test/fixtures";
+import { RoutingRule, defaultRoutingRules, departmentRoutingUtils } from "./departmentRouting";
+import { Issue } from "./localStorage";
+
+// Only the parts of the AI analysis the rules read
+const analysis = (issueType: string, keywords: string[] = []) =>
+  ({ issueType, keywords }) as unknown as Issue["aiAnalysis"];
+
+const route = (overrides: Partial<Issue>, rules: RoutingRule[] = defaultRoutingRules) =>
+  departmentRoutingUtils.routeIssue(makeIssue({ title: "Problem", ...overrides }), rules);
+
+describe("routeIssue with the default rules", () => {
+  it("follows the category", () => {
+    expect(route({ category: "water" })).toEqual({
+      department: "water",
+      ruleId: "water",
+      reasons: ["category water"],
+    });
+  });
+
+  it("sends streetlight and sewage reports to the right department whatever the category", () => {
+    expect(route({ category: "roads", title: "Street-light out on 5th" })?.department).toBe(
+      "electricity"
+    );
+    expect(route({ category: "roads", description: "The SEWER is overflowing" })?.department).toBe(
+      "water"
+    );
+  });
+
+  it("matches whole words only", () => {
+    expect(route({ category: "roads", title: "Sewerage truck blocking" })?.department).toBe("roads");
+  });
+
+  it("returns null when no rule matches", () => {
+    expect(route({ category: "other" })).toBeNull();
+  });
+});
+
+describe("routeIssue with custom rules", () => {
+  const rules: RoutingRule[] = [
+    { id: "potholes", department: "roads", issueTypes: ["Pothole"] },
+    { id: "park-trees", department: "parks", categories: ["safety"], keywords: ["fallen tree"] },
+    { id: "ward-7-water", department: "water", wards: ["ward-7"] },
+  ];
+
+  it("matches the AI issue type and keywords", () => {
+    expect(route({ category: "other", aiAnalysis: analysis("pothole") }, rules)).toMatchObject({
+      ruleId: "potholes",
+      reasons: ["issue type pothole"],
+    });
+    const tree = analysis("tree", ["fallen tree"]);
+    expect(route({ category: "safety", aiAnalysis: tree }, rules)).toMatchObject({
+      ruleId: "park-trees",
+      reasons: ["category safety", 'keyword "fallen tree"'],
+    });
+  });
+
+  it("needs every condition of a rule to match", () => {
+    expect(route({ category: "roads", title: "Fallen tree" }, rules)).toBeNull();
+  });
+
+  it("checks ward rules before the others", () => {
+    const aiAnalysis = analysis("pothole");
+    expect(route({ wardId: "ward-7", aiAnalysis }, rules)?.ruleId).toBe("ward-7-water");
+    expect(route({ wardId: "ward-8", aiAnalysis }, rules)?.ruleId).toBe("potholes");
+  });
+});
+
+describe("describeDecision", () => {
+  it("explains the decision for the issue history", () => {
+    expect(
+      departmentRoutingUtils.describeDecision({
+        department: "electricity",
+        ruleId: "streetlights",
+        reasons: ['keyword "streetlight"'],
+      })
+    ).toBe('Routed to the electricity department by rule "streetlights" (keyword "streetlight")');
+    expect(departmentRoutingUtils.describeDecision(null)).toBe(
+      "No routing rule matched - department not set automatically"
+    );
+  });
+});
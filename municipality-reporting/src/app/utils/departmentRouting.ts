@@ -0,0 +1,84 @@
+// utils/departmentRouting.ts
+import { Issue } from "./localStorage";
+
+export const DEPARTMENTS = ["roads", "water", "electricity", "waste", "safety", "parks"] as const;
+
+export type Department = (typeof DEPARTMENTS)[number];
+
+// Sends matching reports to a department. Every condition given must match;
+// within a condition any listed value will do
+export interface RoutingRule {
+  id: string;
+  department: Department;
+  categories?: string[];
+  issueTypes?: string[]; // AI issue types, e.g. "pothole"
+  keywords?: string[]; // words or phrases in the title, description or AI keywords
+  wards?: string[]; // ward ids; rules with wards override the others
+}
+
+// What the rules look at
+export type RoutableIssue = Pick<Issue, "title" | "description" | "category" | "aiAnalysis" | "wardId">;
+
+export interface RoutingDecision {
+  department: Department;
+  ruleId: string;
+  reasons: string[]; // the conditions that matched, for the history note
+}
+
+// Streetlights and sewage are often reported under roads; the rest follow
+// the category, which uses the department names
+export const defaultRoutingRules: RoutingRule[] = [
+  { id: "streetlights", department: "electricity", keywords: ["streetlight", "street light", "streetlights", "street lights"] },
+  { id: "sewage", department: "water", keywords: ["sewage", "sewer", "manhole overflow"] },
+  ...DEPARTMENTS.map((department) => ({ id: department, department, categories: [department] })),
+];
+
+// Lowercase words separated by single spaces, padded so phrases match whole words
+const normalize = (text: string) => ` ${text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).join(" ")} `;
+
+function matchRule(rule: RoutingRule, issue: RoutableIssue): string[] | null {
+  const reasons: string[] = [];
+
+  if (rule.wards) {
+    if (!issue.wardId || !rule.wards.includes(issue.wardId)) return null;
+    reasons.push(`ward ${issue.wardId}`);
+  }
+  if (rule.categories) {
+    if (!rule.categories.includes(issue.category)) return null;
+    reasons.push(`category ${issue.category}`);
+  }
+  if (rule.issueTypes) {
+    const issueType = issue.aiAnalysis?.issueType?.toLowerCase();
+    if (!issueType || !rule.issueTypes.some((type) => type.toLowerCase() === issueType)) return null;
+    reasons.push(`issue type ${issueType}`);
+  }
+  if (rule.keywords) {
+    const text = normalize(
+      [issue.title, issue.description, ...(issue.aiAnalysis?.keywords || [])].join(" ")
+    );
+    const keyword = rule.keywords.find((k) => normalize(k).trim() && text.includes(normalize(k)));
+    if (!keyword) return null;
+    reasons.push(`keyword "${keyword}"`);
+  }
+  return reasons;
+}
+
+export const departmentRoutingUtils = {
+  // Ward overrides are checked first, then the other rules in order; the
+  // first rule that matches decides
+  routeIssue(issue: RoutableIssue, rules: RoutingRule[]): RoutingDecision | null {
+    const ordered = [...rules.filter((r) => r.wards), ...rules.filter((r) => !r.wards)];
+    for (const rule of ordered) {
+      const reasons = matchRule(rule, issue);
+      if (reasons) return { department: rule.department, ruleId: rule.id, reasons };
+    }
+    return null;
+  },
+
+  // The statusHistory note recording an automatic routing decision
+  describeDecision(decision: RoutingDecision | null): string {
+    return decision
+      ? `Routed to the ${decision.department} department by rule "${decision.ruleId}" (${decision.reasons.join(", ")})`
+      : "No routing rule matched - department not set automatically";
+  },
+};
@@ -0,0 +1,204 @@
+import { describe, expect, it, vi } from "vitest";
+import { exifUtils, readExif } from "./exif";
+
+// A TIFF field: ASCII text, SHORTs, LONGs or RATIONALs given as
+// numerator/denominator pairs
+type Field =
+  | { tag: number; type: 2; value: string }
+  | { tag: number; type: 3 | 4; value: number[] }
+  | { tag: number; type: 5; value: [number, number][] };
+
+const fieldBytes = (field: Field) =>
+  field.type === 2 ? field.value.length + 1 : field.value.length * (field.type === 3 ? 2 : field.type === 4 ? 4 : 8);
+
+const ifdSize = (fields: Field[]) =>
+  2 + fields.length * 12 + 4 + fields.reduce((sum, f) => sum + (fieldBytes(f) > 4 ? fieldBytes(f) : 0), 0);
+
+// Lays out IFD0, then the Exif and GPS directories it points to, each
+// followed by the values that do not fit in their entries
+function buildTiff(
+  directories: { ifd0?: Field[]; exif?: Field[]; gps?: Field[] },
+  little = true
+): Uint8Array {
+  const exif = directories.exif || [];
+  const gps = directories.gps || [];
+  const ifd0: Field[] = [
+    ...(directories.ifd0 || []),
+    ...(exif.length ? [{ tag: 0x8769, type: 4 as const, value: [0] }] : []),
+    ...(gps.length ? [{ tag: 0x8825, type: 4 as const, value: [0] }] : []),
+  ];
+  const exifOffset = 8 + ifdSize(ifd0);
+  const gpsOffset = exifOffset + (exif.length ? ifdSize(exif) : 0);
+  ifd0.forEach((field) => {
+    if (field.tag === 0x8769) field.value = [exifOffset];
+    if (field.tag === 0x8825) field.value = [gpsOffset];
+  });
+
+  const view = new DataView(new ArrayBuffer(gpsOffset + (gps.length ? ifdSize(gps) : 0)));
+  const writeAscii = (at: number, text: string) =>
+    [...text].forEach((c, i) => view.setUint8(at + i, c.charCodeAt(0)));
+
+  const writeIfd = (fields: Field[], start: number) => {
+    view.setUint16(start, fields.length, little);
+    let data = start + 2 + fields.length * 12 + 4;
+    fields.forEach((field, i) => {
+      const entry = start + 2 + i * 12;
+      const size = fieldBytes(field);
+      const at = size > 4 ? data : entry + 8;
+      if (size > 4) {
+        view.setUint32(entry + 8, data, little);
+        data += size;
+      }
+      view.setUint16(entry, field.tag, little);
+      view.setUint16(entry + 2, field.type, little);
+      if (field.type === 2) {
+        view.setUint32(entry + 4, field.value.length + 1, little);
+        writeAscii(at, field.value);
+      } else if (field.type === 5) {
+        view.setUint32(entry + 4, field.value.length, little);
+        field.value.forEach(([numerator, denominator], j) => {
+          view.setUint32(at + j * 8, numerator, little);
+          view.setUint32(at + j * 8 + 4, denominator, little);
+        });
+      } else {
+        view.setUint32(entry + 4, field.value.length, little);
+        field.value.forEach((value, j) =>
+          field.type === 3
+            ? view.setUint16(at + j * 2, value, little)
+            : view.setUint32(at + j * 4, value, little)
+        );
+      }
+    });
+  };
+
+  writeAscii(0, little ? "II" : "MM");
+  view.setUint16(2, 42, little);
+  view.setUint32(4, 8, little);
+  writeIfd(ifd0, 8);
+  if (exif.length) writeIfd(exif, exifOffset);
+  if (gps.length) writeIfd(gps, gpsOffset);
+  return new Uint8Array(view.buffer);
+}
+
+const bytes = (...parts: (number[] | string | Uint8Array)[]) =>
+  new Uint8Array(
+    parts.flatMap((part) =>
+      typeof part === "string" ? [...part].map((c) => c.charCodeAt(0)) : [...part]
+    )
+  );
+const uint32 = (value: number, little = false) => {
+  const view = new DataView(new ArrayBuffer(4));
+  view.setUint32(0, value, little);
+  return [...new Uint8Array(view.buffer)];
+};
+
+const jpeg = (tiff: Uint8Array) => {
+  const length = 2 + 6 + tiff.length;
+  return bytes([0xff, 0xd8], [0xff, 0xe0, 0, 4, 0, 0], [0xff, 0xe1, length >> 8, length & 0xff], "Exif\0\0", tiff, [0xff, 0xd9]);
+};
+const png = (tiff: Uint8Array) =>
+  bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], uint32(tiff.length), "eXIf", tiff, uint32(0), uint32(0), "IEND", uint32(0));
+const webp = (tiff: Uint8Array) =>
+  bytes("RIFF", uint32(4 + 8 + tiff.length, true), "WEBP", "EXIF", uint32(tiff.length, true), tiff);
+
+// 26°12'15" S, 28°2'50.4" E
+const johannesburg: Field[] = [
+  { tag: 0x0001, type: 2, value: "S" },
+  { tag: 0x0002, type: 5, value: [[26, 1], [12, 1], [15, 1]] },
+  { tag: 0x0003, type: 2, value: "E" },
+  { tag: 0x0004, type: 5, value: [[28, 1], [2, 1], [504, 10]] },
+];
+const takenWithOffset: Field[] = [
+  { tag: 0x9003, type: 2, value: "2026:03:14 09:30:00" },
+  { tag: 0x9011, type: 2, value: "+02:00" },
+];
+
+describe("readExif", () => {
+  it("reads the GPS position and capture time from a JPEG", () => {
+    const metadata = readExif(jpeg(buildTiff({ exif: takenWithOffset, gps: johannesburg })));
+    expect(metadata.latitude).toBeCloseTo(-26.204167, 6);
+    expect(metadata.longitude).toBeCloseTo(28.047333, 6);
+    expect(metadata.capturedAt).toBe("2026-03-14T07:30:00.000Z");
+  });
+
+  it("reads big-endian EXIF", () => {
+    const metadata = readExif(jpeg(buildTiff({ exif: takenWithOffset, gps: johannesburg }, false)));
+    expect(metadata.latitude).toBeCloseTo(-26.204167, 6);
+    expect(metadata.capturedAt).toBe("2026-03-14T07:30:00.000Z");
+  });
+
+  it("reads the EXIF chunk of PNG and WebP files", () => {
+    const tiff = buildTiff({ gps: johannesburg });
+    expect(readExif(png(tiff)).longitude).toBeCloseTo(28.047333, 6);
+    expect(readExif(webp(tiff)).longitude).toBeCloseTo(28.047333, 6);
+  });
+
+  it("reads the orientation from IFD0 and ignores values outside 1-8", () => {
+    const rotated = buildTiff({ ifd0: [{ tag: 0x0112, type: 3, value: [6] }], gps: johannesburg });
+    expect(readExif(jpeg(rotated)).orientation).toBe(6);
+    expect(readExif(jpeg(rotated)).latitude).toBeCloseTo(-26.204167, 6);
+    const invalid = buildTiff({ ifd0: [{ tag: 0x0112, type: 3, value: [9] }] }, false);
+    expect(readExif(jpeg(invalid)).orientation).toBeUndefined();
+  });
+
+  it("falls back to the GPS clock, which is UTC, when there is no offset", () => {
+    const metadata = readExif(
+      jpeg(
+        buildTiff({
+          exif: [{ tag: 0x9003, type: 2, value: "2026:03:14 09:30:00" }],
+          gps: [
+            { tag: 0x001d, type: 2, value: "2026:03:14" },
+            { tag: 0x0007, type: 5, value: [[7, 1], [30, 1], [0, 1]] },
+          ],
+        })
+      )
+    );
+    expect(metadata.capturedAt).toBe("2026-03-14T07:30:00.000Z");
+  });
+
+  it("drops the 0,0 position phones write without a fix", () => {
+    const metadata = readExif(
+      jpeg(
+        buildTiff({
+          gps: [
+            { tag: 0x0002, type: 5, value: [[0, 1], [0, 1], [0, 1]] },
+            { tag: 0x0004, type: 5, value: [[0, 1], [0, 1], [0, 1]] },
+          ],
+        })
+      )
+    );
+    expect(metadata).toEqual({});
+  });
+
+  it("returns nothing for files without EXIF", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(readExif(bytes([0xff, 0xd8], [0xff, 0xda, 0, 2], [0xff, 0xd9]))).toEqual({});
+    expect(readExif(bytes("GIF89a"))).toEqual({});
+    expect(readExif(new ArrayBuffer(0))).toEqual({});
+    warn.mockRestore();
+  });
+
+  it("keeps what it read before a damaged value", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const tiff = buildTiff({
+      gps: [
+        ...johannesburg,
+        { tag: 0x001d, type: 2, value: "2026:03:14" },
+        { tag: 0x0007, type: 5, value: [[7, 1], [30, 1], [0, 1]] },
+      ],
+    });
+    // Cut off the GPS time, the last value in the file
+    const metadata = readExif(jpeg(tiff.slice(0, tiff.length - 24)));
+    expect(metadata.latitude).toBeCloseTo(-26.204167, 6);
+    expect(metadata.capturedAt).toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe("hasLocation", () => {
+  it("needs both coordinates", () => {
+    expect(exifUtils.hasLocation({ latitude: 1, longitude: 2 })).toBe(true);
+    expect(exifUtils.hasLocation({ latitude: 1 })).toBe(false);
+  });
+});
@@ -0,0 +1,256 @@
+// utils/exif.ts
+// Reads where and when a photo was taken, and which way up it is, from the
+// EXIF block of a JPEG, PNG (eXIf chunk) or WebP (EXIF chunk) file. Runs in
+// the browser before upload, because the stored copy has its metadata
+// stripped (see server/attachmentService.ts).
+
+export interface PhotoMetadata {
+  latitude?: number;
+  longitude?: number;
+  capturedAt?: string; // ISO timestamp
+  orientation?: number; // EXIF orientation 1-8, 1 = upright
+}
+
+// Further apart than this, the photo was not taken where the resident is now
+export const PHOTO_LOCATION_WARNING_KM = 1;
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_TIME_STAMP = 0x0007;
+const TAG_GPS_DATE_STAMP = 0x001d;
+
+// Bytes per value of each TIFF field type
+const typeSizes: { [type: number]: number } = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  7: 1, // UNDEFINED
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+};
+
+const ascii = (view: DataView, offset: number, length: number): string => {
+  let text = "";
+  for (let i = 0; i < length; i++) text += String.fromCharCode(view.getUint8(offset + i));
+  return text;
+};
+
+// Where the TIFF structure inside the EXIF data starts, or -1 if the file
+// has none. JPEG keeps it in an APP1 segment, PNG and WebP in a chunk.
+function findTiffStart(view: DataView): number {
+  const exifHeader = (offset: number) =>
+    offset + 6 <= view.byteLength && ascii(view, offset, 6) === "Exif\0\0" ? offset + 6 : offset;
+
+  if (view.getUint16(0) === 0xffd8) {
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      if (view.getUint8(offset) !== 0xff) return -1;
+      const marker = view.getUint8(offset + 1);
+      if (marker === 0xff) {
+        offset++; // fill byte
+        continue;
+      }
+      if (marker === 0xd9 || marker === 0xda) return -1; // image data starts
+      const length = view.getUint16(offset + 2);
+      if (marker === 0xe1 && ascii(view, offset + 4, 6) === "Exif\0\0") return offset + 10;
+      offset += 2 + length;
+    }
+    return -1;
+  }
+
+  if (view.byteLength >= 8 && view.getUint32(0) === 0x89504e47) {
+    let offset = 8;
+    while (offset + 8 <= view.byteLength) {
+      const length = view.getUint32(offset);
+      const type = ascii(view, offset + 4, 4);
+      if (type === "eXIf") return exifHeader(offset + 8);
+      if (type === "IEND") return -1;
+      offset += 12 + length;
+    }
+    return -1;
+  }
+
+  if (view.byteLength >= 12 && ascii(view, 0, 4) === "RIFF" && ascii(view, 8, 4) === "WEBP") {
+    let offset = 12;
+    while (offset + 8 <= view.byteLength) {
+      const length = view.getUint32(offset + 4, true);
+      if (ascii(view, offset, 4) === "EXIF") return exifHeader(offset + 8);
+      offset += 8 + length + (length % 2);
+    }
+  }
+  return -1;
+}
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number; // absolute offset of the value in the file
+}
+
+// Reads one image file directory into tag -> entry
+function readIfd(view: DataView, tiff: number, offset: number, little: boolean): Map<number, IfdEntry> {
+  const entries = new Map<number, IfdEntry>();
+  const start = tiff + offset;
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    const type = view.getUint16(entry + 2, little);
+    const valueCount = view.getUint32(entry + 4, little);
+    const size = (typeSizes[type] || 1) * valueCount;
+    entries.set(view.getUint16(entry, little), {
+      type,
+      count: valueCount,
+      // Values of up to 4 bytes are stored in the entry itself
+      valueOffset: size <= 4 ? entry + 8 : tiff + view.getUint32(entry + 8, little),
+    });
+  }
+  return entries;
+}
+
+function readNumbers(view: DataView, entry: IfdEntry | undefined, little: boolean): number[] {
+  if (!entry) return [];
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    const at = entry.valueOffset + i * (typeSizes[entry.type] || 1);
+    switch (entry.type) {
+      case 3:
+        values.push(view.getUint16(at, little));
+        break;
+      case 4:
+        values.push(view.getUint32(at, little));
+        break;
+      case 9:
+        values.push(view.getInt32(at, little));
+        break;
+      case 5:
+      case 10: {
+        const read = entry.type === 5 ? "getUint32" : "getInt32";
+        const denominator = view[read](at + 4, little);
+        values.push(denominator ? view[read](at, little) / denominator : NaN);
+        break;
+      }
+      default:
+        values.push(view.getUint8(at));
+    }
+  }
+  return values;
+}
+
+const readText = (view: DataView, entry: IfdEntry | undefined): string =>
+  entry && entry.type === 2 ? ascii(view, entry.valueOffset, entry.count).replace(/\0+$/, "").trim() : "";
+
+// Degrees, minutes and seconds with an N/S or E/W reference
+function readCoordinate(
+  view: DataView,
+  gps: Map<number, IfdEntry>,
+  valueTag: number,
+  refTag: number,
+  negativeRef: string,
+  little: boolean
+): number | undefined {
+  const [degrees, minutes = 0, seconds = 0] = readNumbers(view, gps.get(valueTag), little);
+  const value = degrees + minutes / 60 + seconds / 3600;
+  if (!Number.isFinite(value)) return undefined;
+  return readText(view, gps.get(refTag)).toUpperCase() === negativeRef ? -value : value;
+}
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS" in the camera's local time. With an
+// offset (or the GPS clock, which is UTC) that is an exact moment; without
+// one it is read in the browser's time zone, usually the same place
+function parseCaptureTime(dateTime: string, offset: string, gpsDate: string, gpsTime: number[]): string | undefined {
+  const toIso = (date: Date) => (isNaN(date.getTime()) ? undefined : date.toISOString());
+
+  const match = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(dateTime);
+  const local = match && `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}`;
+  if (local && /^[+-]\d{2}:\d{2}$/.test(offset)) return toIso(new Date(local + offset));
+
+  const gpsMatch = /^(\d{4}):(\d{2}):(\d{2})$/.exec(gpsDate);
+  if (gpsMatch && gpsTime.length === 3 && gpsTime.every(Number.isFinite)) {
+    const [hours, minutes, seconds] = gpsTime;
+    return toIso(
+      new Date(Date.UTC(Number(gpsMatch[1]), Number(gpsMatch[2]) - 1, Number(gpsMatch[3]), hours, minutes, seconds))
+    );
+  }
+
+  return local ? toIso(new Date(local)) : undefined;
+}
+
+// Parses whatever it can; a missing or damaged EXIF block gives an empty result
+export function readExif(data: ArrayBuffer | Uint8Array): PhotoMetadata {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const metadata: PhotoMetadata = {};
+
+  try {
+    const tiff = findTiffStart(view);
+    if (tiff < 0) return metadata;
+
+    const byteOrder = ascii(view, tiff, 2);
+    if (byteOrder !== "II" && byteOrder !== "MM") return metadata;
+    const little = byteOrder === "II";
+    if (view.getUint16(tiff + 2, little) !== 42) return metadata;
+
+    const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+
+    const [orientation] = readNumbers(view, ifd0.get(TAG_ORIENTATION), little);
+    if (orientation >= 1 && orientation <= 8) metadata.orientation = orientation;
+
+    const exifPointer = readNumbers(view, ifd0.get(TAG_EXIF_IFD), little)[0];
+    const exif = exifPointer ? readIfd(view, tiff, exifPointer, little) : new Map<number, IfdEntry>();
+    const gpsPointer = readNumbers(view, ifd0.get(TAG_GPS_IFD), little)[0];
+    const gps = gpsPointer ? readIfd(view, tiff, gpsPointer, little) : new Map<number, IfdEntry>();
+
+    const latitude = readCoordinate(view, gps, TAG_GPS_LATITUDE, TAG_GPS_LATITUDE_REF, "S", little);
+    const longitude = readCoordinate(view, gps, TAG_GPS_LONGITUDE, TAG_GPS_LONGITUDE_REF, "W", little);
+    // 0,0 is what some phones write when they had no fix
+    if (
+      latitude !== undefined &&
+      longitude !== undefined &&
+      Math.abs(latitude) <= 90 &&
+      Math.abs(longitude) <= 180 &&
+      (latitude !== 0 || longitude !== 0)
+    ) {
+      metadata.latitude = latitude;
+      metadata.longitude = longitude;
+    }
+
+    const capturedAt = parseCaptureTime(
+      readText(view, exif.get(TAG_DATE_TIME_ORIGINAL)) || readText(view, ifd0.get(TAG_DATE_TIME)),
+      readText(view, exif.get(TAG_OFFSET_TIME_ORIGINAL)),
+      readText(view, gps.get(TAG_GPS_DATE_STAMP)),
+      readNumbers(view, gps.get(TAG_GPS_TIME_STAMP), little)
+    );
+    if (capturedAt) metadata.capturedAt = capturedAt;
+  } catch (error) {
+    // A value pointing past the end of the file; keep what was read so far
+    console.warn("Could not read all photo metadata:", error);
+  }
+  return metadata;
+}
+
+export const exifUtils = {
+  // Capture details of a picked image file; empty if it has none
+  readFile: async (file: Blob): Promise<PhotoMetadata> => {
+    try {
+      return readExif(await file.arrayBuffer());
+    } catch (error) {
+      console.error("Failed to read photo metadata:", error);
+      return {};
+    }
+  },
+
+  hasLocation: (
+    metadata: PhotoMetadata
+  ): metadata is PhotoMetadata & { latitude: number; longitude: number } =>
+    metadata.latitude !== undefined && metadata.longitude !== undefined,
+};
@@ -1,5 +1,9 @@
 // utils/export.ts
+import { StatusPhase, caseId, getStatusPhase } from "./issueWorkflow";
 import { Issue } from "./localStorage";
+import { PlannedRoute } from "./routePlanner";
+import { slaUtils } from "./sla";
+import { wardUtils } from "./wards";
 
 export const exportUtils = {
   // Convert issues to CSV
@@ -16,6 +20,7 @@ export const exportUtils = {
       "Location",
       "Latitude",
       "Longitude",
+      "Ward",
       "Reported By",
       "Created Date",
       "Updated Date",
@@ -24,10 +29,12 @@ export const exportUtils = {
       "Issue Type",
       "Keywords",
       "Safety Risk Level",
+      "SLA Status",
+      "Resolve By",
     ];
 
     const rows = issues.map((issue) => [
-      issue.id.substring(0, 8).toUpperCase(),
+      caseId(issue.id),
       `"${issue.title.replace(/"/g, '""')}"`,
       `"${issue.description.replace(/"/g, '""')}"`,
       issue.category,
@@ -36,6 +43,7 @@ export const exportUtils = {
       `"${(issue.location || "").replace(/"/g, '""')}"`,
       issue.latitude || "",
       issue.longitude || "",
+      `"${wardUtils.getLabel(issue).replace(/"/g, '""')}"`,
       `"${issue.userName.replace(/"/g, '""')}"`,
       new Date(issue.createdAt).toLocaleString(),
       new Date(issue.updatedAt).toLocaleString(),
@@ -44,6 +52,8 @@ export const exportUtils = {
       issue.aiAnalysis?.issueType || "",
       `"${(issue.aiAnalysis?.keywords || []).join(", ")}"`,
       issue.aiAnalysis?.safetyConsiderations?.riskLevel || "",
+      issue.sla ? slaUtils.getState(issue.sla) : "",
+      issue.sla ? new Date(issue.sla.resolveBy).toLocaleString() : "",
     ]);
 
     return [headers.join(","), ...rows.map((row) => row.join(","))].join("\n");
@@ -84,13 +94,16 @@ export const exportUtils = {
     document.body.removeChild(link);
   },
 
-  // Generate summary report text
-  generateSummaryReport(issues: Issue[]): string {
+  // Generate summary report text; merged duplicates count through their parent
+  generateSummaryReport(allIssues: Issue[]): string {
+    const issues = allIssues.filter((i) => !i.parentIssueId);
     const total = issues.length;
-    const pending = issues.filter((i) => i.status === "pending").length;
-    const inProgress = issues.filter((i) => i.status === "in-progress").length;
-    const resolved = issues.filter((i) => i.status === "resolved").length;
-    const rejected = issues.filter((i) => i.status === "rejected").length;
+    const inPhase = (phase: StatusPhase) =>
+      issues.filter((i) => getStatusPhase(i.status) === phase).length;
+    const pending = inPhase("open");
+    const inProgress = inPhase("active");
+    const resolved = inPhase("resolved");
+    const rejected = inPhase("rejected");
 
     const categoryCount: { [key: string]: number } = {};
     issues.forEach((issue) => {
@@ -115,6 +128,7 @@ Pending: ${pending} (${Math.round((pending / total) * 100)}%)
 In Progress: ${inProgress} (${Math.round((inProgress / total) * 100)}%)
 Resolved: ${resolved} (${Math.round((resolved / total) * 100)}%)
 Rejected: ${rejected} (${Math.round((rejected / total) * 100)}%)
+Merged duplicates (not counted above): ${allIssues.length - total}
 
 CATEGORY BREAKDOWN
 ------------------
@@ -148,6 +162,63 @@ Peace, Unity and Prosperity
     document.body.removeChild(link);
   },
 
+  // Convert a planned route to GPX 1.1: every stop as a waypoint, plus the
+  // route itself from the start through the stops in order
+  toGPX(route: PlannedRoute, name: string = "Daily route"): string {
+    const xml = (text: string) =>
+      text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+    const point = (tag: string, latitude: number, longitude: number, label: string, desc?: string) =>
+      `  <${tag} lat="${latitude.toFixed(6)}" lon="${longitude.toFixed(6)}">` +
+      `<name>${xml(label)}</name>${desc ? `<desc>${xml(desc)}</desc>` : ""}</${tag}>`;
+
+    const { start, stops } = route;
+    const stopLabel = (index: number) => `${index + 1}. ${stops[index].issue.title}`;
+    const stopDesc = (index: number) => {
+      const issue = stops[index].issue;
+      return `${issue.priority} priority - ${issue.location} (${caseId(issue.id)})`;
+    };
+
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<gpx version="1.1" creator="Polokwane Municipality" xmlns="http://www.topografix.com/GPX/1/1">`,
+      `  <metadata><name>${xml(name)}</name><time>${new Date().toISOString()}</time></metadata>`,
+      point("wpt", start.latitude, start.longitude, start.name),
+      ...stops.map((stop, i) =>
+        point("wpt", stop.issue.latitude!, stop.issue.longitude!, stopLabel(i), stopDesc(i))
+      ),
+      `  <rte>`,
+      `    <name>${xml(name)}</name>`,
+      "  " + point("rtept", start.latitude, start.longitude, start.name),
+      ...stops.map(
+        (stop, i) => "  " + point("rtept", stop.issue.latitude!, stop.issue.longitude!, stopLabel(i), stopDesc(i))
+      ),
+      ...(route.returnKm !== undefined
+        ? ["  " + point("rtept", start.latitude, start.longitude, start.name)]
+        : []),
+      `  </rte>`,
+      `</gpx>`,
+    ].join("\n");
+  },
+
+  // Download a route as a GPX file for navigation apps
+  downloadGPX(route: PlannedRoute, filename: string = "route.gpx", name?: string): void {
+    const gpx = this.toGPX(route, name);
+    const blob = new Blob([gpx], { type: "application/gpx+xml" });
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+
+    link.setAttribute("href", url);
+    link.setAttribute("download", filename);
+    link.style.visibility = "hidden";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  },
+
   // Export filtered data with options
   exportFiltered(
     issues: Issue[],
@@ -1,4 +1,5 @@
 // utils/geoLocation.ts
+import { apiRequest, queryString } from "./apiClient";
 
 export interface LocationData {
   latitude: number;
@@ -7,6 +8,44 @@ export interface LocationData {
   address?: string;
 }
 
+// An address and its coordinates from a geocoding lookup
+export interface GeocodeResult {
+  address: string;
+  latitude: number;
+  longitude: number;
+  source: "nominatim" | "gazetteer";
+}
+
+// Where a report's coordinates came from: the device's GPS fix, the photo's
+// EXIF position, or a pin the resident placed or dragged on the map
+export type LocationSource = "gps" | "exif" | "manual";
+
+export const LOCATION_SOURCES: LocationSource[] = ["gps", "exif", "manual"];
+
+export const locationSourceLabels: Record<LocationSource, string> = {
+  gps: "📡 Device GPS",
+  exif: "📷 Photo location",
+  manual: "📌 Placed on map",
+};
+
+// "📡 Device GPS (±12 m)"; empty for reports saved before sources were recorded
+export function describeLocationSource(
+  location: { locationSource?: LocationSource; locationAccuracy?: number }
+): string {
+  if (!location.locationSource) return "";
+  const label = locationSourceLabels[location.locationSource];
+  return location.locationAccuracy ? `${label} (±${location.locationAccuracy} m)` : label;
+}
+
+// A location chosen for a report, with how it was found
+export interface PickedLocation {
+  latitude: number;
+  longitude: number;
+  address?: string;
+  accuracy?: number; // metres, for GPS fixes
+  source: LocationSource;
+}
+
 export interface LocationError {
   code: number;
   message: string;
@@ -72,45 +111,44 @@ export async function getCurrentLocation(): Promise<LocationData> {
   });
 }
 
-async function reverseGeocode(
+// The address at a point from the server's geocoding service (see
+// server/geocoding), or null if it has none or cannot be reached
+export async function lookupAddress(
   latitude: number,
   longitude: number
-): Promise<string> {
-  // Using OpenStreetMap Nominatim API (free, no API key required)
+): Promise<string | null> {
   try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=18&addressdetails=1`,
-      {
-        headers: {
-          "User-Agent": "LimpopoGovernmentPortal/1.0",
-        },
-      }
+    const { result } = await apiRequest<{ result: GeocodeResult | null }>(
+      `/api/geocode/reverse${queryString({
+        lat: String(latitude),
+        lng: String(longitude),
+      })}`
     );
-
-    if (!response.ok) {
-      throw new Error("Geocoding failed");
-    }
-
-    const data = await response.json();
-
-    // Build a readable address
-    const address = data.address;
-    const parts = [];
-
-    if (address.road) parts.push(address.road);
-    if (address.suburb) parts.push(address.suburb);
-    if (address.city || address.town || address.village) {
-      parts.push(address.city || address.town || address.village);
-    }
-    if (address.state) parts.push(address.state);
-
-    return parts.join(", ") || data.display_name;
+    return result?.address || null;
   } catch (error) {
     console.error("Reverse geocoding error:", error);
-    return `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+    return null;
   }
 }
 
+async function reverseGeocode(
+  latitude: number,
+  longitude: number
+): Promise<string> {
+  return (
+    (await lookupAddress(latitude, longitude)) ||
+    `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`
+  );
+}
+
+// Places matching a typed address, best match first
+export async function searchAddress(query: string): Promise<GeocodeResult[]> {
+  const { results } = await apiRequest<{ results: GeocodeResult[] }>(
+    `/api/geocode/search${queryString({ q: query })}`
+  );
+  return results;
+}
+
 export function formatCoordinates(latitude: number, longitude: number): string {
   return `${latitude.toFixed(6)}°, ${longitude.toFixed(6)}°`;
 }
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { makeIssue } from "@/test/fixtures";
+import { dbscan, hotspotUtils } from "./hotspots";
+
+// About 111 m per 0.001 degrees of latitude
+const point = (id: string, latitude: number, longitude = 28) => ({ id, latitude, longitude });
+const position = (p: { latitude: number; longitude: number }) => p;
+const ids = (clusters: { id: string }[][]) => clusters.map((c) => c.map((p) => p.id).sort());
+
+describe("dbscan", () => {
+  it("groups dense points and leaves isolated ones out", () => {
+    const points = [
+      point("a1", -26.2),
+      point("a2", -26.201),
+      point("a3", -26.202),
+      point("b1", -26.3),
+      point("b2", -26.301),
+      point("b3", -26.3005),
+      point("noise", -26.5),
+    ];
+    expect(ids(dbscan(points, 0.25, 3, position))).toEqual([
+      ["a1", "a2", "a3"],
+      ["b1", "b2", "b3"],
+    ]);
+  });
+
+  it("chains clusters through dense neighbours", () => {
+    // Each point is 0.2 km from the next, so the ends are 0.8 km apart
+    const chain = [0, 1, 2, 3, 4].map((i) => point(`p${i}`, -26.2 - i * 0.0018));
+    expect(ids(dbscan(chain, 0.25, 2, position))).toEqual([["p0", "p1", "p2", "p3", "p4"]]);
+  });
+
+  it("adds border points without growing the cluster through them", () => {
+    // "edge" is close to a dense core but has too few neighbours of its own,
+    // so "far", which only "edge" reaches, stays noise
+    const points = [
+      point("c1", -26.2),
+      point("c2", -26.2001),
+      point("c3", -26.2002),
+      point("c4", -26.2003),
+      point("edge", -26.2025), // 244 m from c4, further from the rest
+      point("far", -26.2047), // 244 m from edge only
+    ];
+    expect(ids(dbscan(points, 0.25, 4, position))).toEqual([["c1", "c2", "c3", "c4", "edge"]]);
+  });
+
+  it("finds nothing below the minimum", () => {
+    expect(dbscan([point("a", -26.2), point("b", -26.2001)], 0.25, 3, position)).toEqual([]);
+  });
+});
+
+describe("findHotspots", () => {
+  const now = new Date("2026-04-01T00:00:00.000Z");
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+  const report = (id: string, latitude: number, days: number, overrides = {}) =>
+    makeIssue({ id, latitude, longitude: 28, createdAt: daysAgo(days), ...overrides });
+
+  it("clusters each category separately and reports the trend", () => {
+    const hotspots = hotspotUtils.findHotspots(
+      [
+        report("1", -26.2, 80),
+        report("2", -26.2005, 10),
+        report("3", -26.201, 5),
+        report("4", -26.2012, 2, { location: "Corner of Main and 5th" }),
+        // Same place, different category - too few on its own
+        report("5", -26.2, 3, { category: "water" }),
+        report("6", -26.2005, 3, { category: "water" }),
+      ],
+      { now }
+    );
+
+    expect(hotspots).toHaveLength(1);
+    expect(hotspots[0]).toMatchObject({
+      id: "roads-1",
+      category: "roads",
+      count: 4,
+      issueIds: ["1", "2", "3", "4"],
+      location: "Corner of Main and 5th", // from the latest report
+      recentCount: 3,
+      previousCount: 1,
+      trend: "rising",
+    });
+  });
+
+  it("leaves out old, rejected, merged and unlocated reports", () => {
+    const hotspots = hotspotUtils.findHotspots(
+      [
+        report("1", -26.2, 1),
+        report("2", -26.2005, 1),
+        report("3", -26.201, 200),
+        report("4", -26.201, 1, { status: "rejected" }),
+        report("5", -26.201, 1, { parentIssueId: "1" }),
+        makeIssue({ id: "6", createdAt: daysAgo(1) }),
+      ],
+      { now }
+    );
+    expect(hotspots).toEqual([]);
+  });
+});
@@ -0,0 +1,176 @@
+// utils/hotspots.ts
+// Finds places where reports of the same category keep coming in, by
+// clustering report locations with DBSCAN over haversine distance
+import { getDistanceBetweenPoints } from "./geoLocation";
+import { Issue } from "./localStorage";
+
+export type HotspotTrend = "rising" | "steady" | "falling";
+
+export interface Hotspot {
+  id: string; // category plus the id of the earliest report in the cluster
+  category: string;
+  latitude: number; // centre of the reports
+  longitude: number;
+  radiusKm: number; // distance from the centre to the furthest report
+  count: number;
+  issueIds: string[];
+  dominantIssueType: string;
+  location: string; // address of the latest report, for display
+  trend: HotspotTrend;
+  recentCount: number; // reports in the newer half of the window
+  previousCount: number; // reports in the older half
+}
+
+export interface HotspotOptions {
+  radiusKm?: number; // DBSCAN neighbourhood radius
+  minReports?: number; // reports needed to form a hotspot
+  windowDays?: number; // only reports this recent are clustered
+  now?: Date;
+}
+
+export const HOTSPOT_RADIUS_KM = 0.25;
+export const HOTSPOT_MIN_REPORTS = 3;
+export const HOTSPOT_WINDOW_DAYS = 90;
+
+export const hotspotTrendLabels: Record<HotspotTrend, string> = {
+  rising: "📈 Rising",
+  steady: "➡️ Steady",
+  falling: "📉 Falling",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Density-based clustering: a point with at least `minPoints` neighbours
+// within `epsKm` (itself included) starts a cluster, which grows through
+// every neighbour that is itself that dense. Points in no cluster are noise
+// and are left out of the result
+export function dbscan<T>(
+  points: T[],
+  epsKm: number,
+  minPoints: number,
+  position: (point: T) => { latitude: number; longitude: number }
+): T[][] {
+  const UNVISITED = -2;
+  const NOISE = -1;
+  const labels = points.map(() => UNVISITED);
+  const neighbours = (index: number) => {
+    const a = position(points[index]);
+    return points
+      .map((_, i) => i)
+      .filter((i) => {
+        const b = position(points[i]);
+        return getDistanceBetweenPoints(a.latitude, a.longitude, b.latitude, b.longitude) <= epsKm;
+      });
+  };
+
+  const clusters: T[][] = [];
+  points.forEach((_, index) => {
+    if (labels[index] !== UNVISITED) return;
+    const seeds = neighbours(index);
+    if (seeds.length < minPoints) {
+      labels[index] = NOISE;
+      return;
+    }
+
+    const cluster = clusters.length;
+    clusters.push([]);
+    labels[index] = cluster;
+    const queue = seeds.filter((i) => i !== index);
+    while (queue.length > 0) {
+      const next = queue.shift()!;
+      if (labels[next] === NOISE) labels[next] = cluster; // border point
+      if (labels[next] !== UNVISITED) continue;
+      labels[next] = cluster;
+      const reachable = neighbours(next);
+      if (reachable.length >= minPoints) queue.push(...reachable);
+    }
+  });
+
+  labels.forEach((label, index) => {
+    if (label >= 0) clusters[label].push(points[index]);
+  });
+  return clusters;
+}
+
+function getTrend(recent: number, previous: number): HotspotTrend {
+  if (recent > previous * 1.25 && recent - previous >= 1) return "rising";
+  if (recent < previous * 0.75) return "falling";
+  return "steady";
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) || 0) + 1));
+  let best = "";
+  counts.forEach((count, value) => {
+    if (!best || count > counts.get(best)!) best = value;
+  });
+  return best;
+}
+
+export const hotspotUtils = {
+  // Clusters each category's reports from the time window separately; merged
+  // duplicates and rejected reports are left out. Largest hotspots first
+  findHotspots(issues: Issue[], options: HotspotOptions = {}): Hotspot[] {
+    const radiusKm = options.radiusKm ?? HOTSPOT_RADIUS_KM;
+    const minReports = options.minReports ?? HOTSPOT_MIN_REPORTS;
+    const windowDays = options.windowDays ?? HOTSPOT_WINDOW_DAYS;
+    const now = (options.now || new Date()).getTime();
+    const windowStart = now - windowDays * DAY_MS;
+    const midpoint = now - (windowDays / 2) * DAY_MS;
+
+    const candidates = issues.filter(
+      (issue) =>
+        typeof issue.latitude === "number" &&
+        typeof issue.longitude === "number" &&
+        !issue.parentIssueId &&
+        issue.status !== "rejected" &&
+        new Date(issue.createdAt).getTime() >= windowStart
+    );
+
+    const byCategory = new Map<string, Issue[]>();
+    candidates.forEach((issue) =>
+      byCategory.set(issue.category, [...(byCategory.get(issue.category) || []), issue])
+    );
+
+    const hotspots: Hotspot[] = [];
+    byCategory.forEach((categoryIssues, category) => {
+      const clusters = dbscan(categoryIssues, radiusKm, minReports, (issue) => ({
+        latitude: issue.latitude!,
+        longitude: issue.longitude!,
+      }));
+
+      clusters.forEach((members) => {
+        const sorted = [...members].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        const latitude = members.reduce((sum, i) => sum + i.latitude!, 0) / members.length;
+        const longitude = members.reduce((sum, i) => sum + i.longitude!, 0) / members.length;
+        const recentCount = members.filter(
+          (i) => new Date(i.createdAt).getTime() >= midpoint
+        ).length;
+
+        hotspots.push({
+          id: `${category}-${sorted[0].id}`,
+          category,
+          latitude,
+          longitude,
+          radiusKm: Math.max(
+            ...members.map((i) =>
+              getDistanceBetweenPoints(latitude, longitude, i.latitude!, i.longitude!)
+            )
+          ),
+          count: members.length,
+          issueIds: sorted.map((i) => i.id),
+          dominantIssueType: mostCommon(
+            members.map((i) => i.aiAnalysis?.issueType || i.category)
+          ),
+          location: sorted[sorted.length - 1].location,
+          trend: getTrend(recentCount, members.length - recentCount),
+          recentCount,
+          previousCount: members.length - recentCount,
+        });
+      });
+    });
+
+    return hotspots.sort((a, b) => b.count - a.count);
+  },
+};
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { makeIssue } from "@/test/fixtures";
+import {
+  WorkflowActor,
+  checkTransition,
+  findTransition,
+  getAvailableTransitions,
+  getIssueParties,
+  getStatusPhase,
+  upgradeLegacyIssue,
+} from "./issueWorkflow";
+import { Issue } from "./localStorage";
+
+const staff: WorkflowActor = { id: "staff-1", role: "staff" };
+const employee: WorkflowActor = { id: "employee-1", role: "employee" };
+const reporter: WorkflowActor = { id: "resident-1", role: "resident" };
+const stranger: WorkflowActor = { id: "resident-2", role: "resident" };
+
+describe("findTransition", () => {
+  it("finds transitions listed in the table", () => {
+    expect(findTransition("pending", "triaged")?.action).toBe("Triage");
+    expect(findTransition("in-progress", "awaiting-confirmation")?.requiresNote).toBe(true);
+  });
+
+  it("returns null for moves the workflow does not allow", () => {
+    expect(findTransition("pending", "closed")).toBeNull();
+    expect(findTransition("closed", "in-progress")).toBeNull();
+  });
+});
+
+describe("getIssueParties", () => {
+  const issue = makeIssue({ assignedToEmployee: "employee-1" });
+
+  it("relates each actor to the issue", () => {
+    expect(getIssueParties(staff, issue)).toEqual(["staff"]);
+    expect(getIssueParties(employee, issue)).toEqual(["assignee"]);
+    expect(getIssueParties(reporter, issue)).toEqual(["reporter"]);
+    expect(getIssueParties(stranger, issue)).toEqual([]);
+  });
+
+  it("gives the system every party", () => {
+    expect(getIssueParties({ id: "system", role: "system" }, issue)).toEqual([
+      "staff",
+      "assignee",
+      "reporter",
+    ]);
+  });
+});
+
+describe("checkTransition", () => {
+  it("allows a legal move by an allowed party", () => {
+    expect(checkTransition(makeIssue(), "triaged", staff)).toBeNull();
+  });
+
+  it("rejects moves missing from the table", () => {
+    expect(checkTransition(makeIssue(), "closed", staff)).toBe("illegal");
+  });
+
+  it("rejects parties the transition does not list", () => {
+    const issue = makeIssue({ status: "assigned", assignedToEmployee: "employee-1" });
+    expect(checkTransition(issue, "in-progress", reporter)).toBe("forbidden");
+    expect(checkTransition(issue, "in-progress", { id: "employee-2", role: "employee" })).toBe(
+      "forbidden"
+    );
+    expect(checkTransition(issue, "in-progress", employee)).toBeNull();
+  });
+
+  it("requires an assignee where the transition says so", () => {
+    expect(checkTransition(makeIssue({ status: "triaged" }), "assigned", staff)).toBe("unassigned");
+  });
+
+  it("requires a non-blank note where the transition says so", () => {
+    const issue = makeIssue({ status: "in-progress", assignedToEmployee: "employee-1" });
+    expect(checkTransition(issue, "awaiting-confirmation", employee)).toBe("note-required");
+    expect(checkTransition(issue, "awaiting-confirmation", employee, "  ")).toBe("note-required");
+    expect(checkTransition(issue, "awaiting-confirmation", employee, "Filled")).toBeNull();
+  });
+
+  it("lets the reporter close or reopen a resolved issue", () => {
+    const issue = makeIssue({ status: "awaiting-confirmation" });
+    expect(checkTransition(issue, "closed", reporter)).toBeNull();
+    expect(checkTransition(issue, "reopened", reporter, "Still broken")).toBeNull();
+    expect(checkTransition(issue, "closed", stranger)).toBe("forbidden");
+  });
+});
+
+describe("getAvailableTransitions", () => {
+  it("never offers internal transitions such as merging", () => {
+    const targets = getAvailableTransitions(makeIssue(), staff).map((t) => t.to);
+    expect(targets).toEqual(["triaged", "rejected"]);
+  });
+
+  it("offers assignment-only moves once someone is assigned", () => {
+    const issue = makeIssue({ status: "triaged", assignedToEmployee: "employee-1" });
+    expect(getAvailableTransitions(issue, staff).map((t) => t.to)).toContain("assigned");
+  });
+
+  it("offers nothing to people unrelated to the issue", () => {
+    expect(getAvailableTransitions(makeIssue({ status: "awaiting-confirmation" }), stranger)).toEqual([]);
+  });
+});
+
+describe("getStatusPhase", () => {
+  it("groups statuses into phases", () => {
+    expect(getStatusPhase("reopened")).toBe("open");
+    expect(getStatusPhase("in-progress")).toBe("active");
+    expect(getStatusPhase("awaiting-confirmation")).toBe("resolved");
+    expect(getStatusPhase("merged")).toBe("merged");
+  });
+});
+
+describe("upgradeLegacyIssue", () => {
+  const legacy = (overrides: Record<string, unknown>) =>
+    makeIssue(overrides as Partial<Issue>);
+
+  it("maps the old resolved status by whether the resident confirmed", () => {
+    expect(upgradeLegacyIssue(legacy({ status: "resolved" })).status).toBe("awaiting-confirmation");
+    expect(upgradeLegacyIssue(legacy({ status: "resolved", residentConfirmed: true })).status).toBe(
+      "closed"
+    );
+  });
+
+  it("upgrades resolved entries in the history", () => {
+    const upgraded = upgradeLegacyIssue(
+      legacy({
+        status: "in-progress",
+        statusHistory: [{ status: "resolved", changedBy: "Staff", changedAt: "2026-01-02T00:00:00.000Z" }],
+      })
+    );
+    expect(upgraded.statusHistory?.[0].status).toBe("awaiting-confirmation");
+  });
+
+  it("returns current issues untouched", () => {
+    const issue = makeIssue();
+    expect(upgradeLegacyIssue(issue)).toBe(issue);
+  });
+});
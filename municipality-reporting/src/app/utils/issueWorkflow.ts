@@ -0,0 +1,256 @@
+// utils/issueWorkflow.ts
+import { Issue, IssueStatus, StatusHistoryEntry } from "./localStorage";
+import { Role, rolePermissions } from "./permissions";
+
+// How the person making a change relates to the issue
+export type TransitionParty = "staff" | "assignee" | "reporter";
+
+export interface StatusTransition {
+  from: IssueStatus[];
+  to: IssueStatus;
+  allowed: TransitionParty[];
+  action: string; // button / option label for the change
+  requiresNote?: boolean;
+  requiresAssignee?: boolean;
+  internal?: boolean; // only taken by a dedicated operation (merging), never offered in menus
+}
+
+// The user (or the system) asking for a status change
+export interface WorkflowActor {
+  id: string;
+  role: Role | "system";
+}
+
+export type TransitionFailure =
+  | "illegal" // no such transition from the current status
+  | "forbidden" // transition exists but not for this actor
+  | "note-required"
+  | "unassigned";
+
+export const ISSUE_STATUSES: IssueStatus[] = [
+  "pending",
+  "triaged",
+  "assigned",
+  "in-progress",
+  "awaiting-confirmation",
+  "closed",
+  "rejected",
+  "reopened",
+  "merged",
+];
+
+export const statusLabels: Record<IssueStatus, string> = {
+  pending: "🕒 Pending",
+  triaged: "🔎 Triaged",
+  assigned: "👷 Assigned",
+  "in-progress": "🔧 In Progress",
+  "awaiting-confirmation": "⏳ Awaiting Confirmation",
+  closed: "✅ Closed",
+  rejected: "❌ Rejected",
+  reopened: "🔁 Reopened",
+  merged: "🔗 Merged",
+};
+
+// The short case number residents and staff quote, e.g. "#1A2B3C4D"
+export const caseId = (issueId: string) => issueId.substring(0, 8).toUpperCase();
+
+export const statusColors: Record<IssueStatus, string> = {
+  pending: "#f59f00",
+  triaged: "#7950f2",
+  assigned: "#15aabf",
+  "in-progress": "#339af0",
+  "awaiting-confirmation": "#82c91e",
+  closed: "#40c057",
+  rejected: "#fa5252",
+  reopened: "#e64980",
+  merged: "#868e96",
+};
+
+// Central transition table - every status change goes through one of these
+export const statusTransitions: StatusTransition[] = [
+  { from: ["pending"], to: "triaged", allowed: ["staff"], action: "Triage" },
+  {
+    from: ["pending", "triaged", "reopened", "in-progress"],
+    to: "assigned",
+    allowed: ["staff"],
+    action: "Assign",
+    requiresAssignee: true,
+  },
+  {
+    from: ["pending", "triaged"],
+    to: "rejected",
+    allowed: ["staff"],
+    action: "Reject",
+    requiresNote: true,
+  },
+  {
+    from: ["rejected"],
+    to: "triaged",
+    allowed: ["staff"],
+    action: "Reconsider",
+    requiresNote: true,
+  },
+  {
+    from: ["assigned", "reopened"],
+    to: "in-progress",
+    allowed: ["assignee", "staff"],
+    action: "Start work",
+    requiresAssignee: true,
+  },
+  {
+    from: ["in-progress"],
+    to: "awaiting-confirmation",
+    allowed: ["assignee", "staff"],
+    action: "Mark resolved",
+    requiresNote: true,
+  },
+  {
+    from: ["awaiting-confirmation"],
+    to: "closed",
+    allowed: ["reporter", "staff"],
+    action: "Close",
+  },
+  {
+    from: ["awaiting-confirmation", "closed"],
+    to: "reopened",
+    allowed: ["reporter", "staff"],
+    action: "Reopen",
+    requiresNote: true,
+  },
+  {
+    from: ["pending", "triaged", "assigned", "in-progress", "reopened"],
+    to: "merged",
+    allowed: ["staff"],
+    action: "Merge",
+    internal: true,
+  },
+];
+
+// Dashboards and reports group the detailed statuses into buckets; merged
+// duplicates get their own so they are never counted twice
+export type StatusPhase = "open" | "active" | "resolved" | "rejected" | "merged";
+
+const statusPhases: Record<IssueStatus, StatusPhase> = {
+  pending: "open",
+  triaged: "open",
+  reopened: "open",
+  assigned: "active",
+  "in-progress": "active",
+  "awaiting-confirmation": "resolved",
+  closed: "resolved",
+  rejected: "rejected",
+  merged: "merged",
+};
+
+export function getStatusPhase(status: IssueStatus): StatusPhase {
+  return statusPhases[status] || "open";
+}
+
+export function findTransition(
+  from: IssueStatus,
+  to: IssueStatus
+): StatusTransition | null {
+  return (
+    statusTransitions.find((t) => t.to === to && t.from.includes(from)) || null
+  );
+}
+
+// How the actor relates to the issue - staff, its assignee and/or its reporter
+export function getIssueParties(actor: WorkflowActor, issue: Issue): TransitionParty[] {
+  if (actor.role === "system") return ["staff", "assignee", "reporter"];
+
+  const permissions = rolePermissions[actor.role];
+  const parties: TransitionParty[] = [];
+  if (permissions.includes("issues:manage")) parties.push("staff");
+  if (
+    permissions.includes("issues:update-status") &&
+    issue.assignedToEmployee === actor.id
+  ) {
+    parties.push("assignee");
+  }
+  if (permissions.includes("issues:confirm") && issue.userId === actor.id) {
+    parties.push("reporter");
+  }
+  return parties;
+}
+
+// Why the actor may not move the issue to the given status, or null if they may
+export function checkTransition(
+  issue: Issue,
+  to: IssueStatus,
+  actor: WorkflowActor,
+  note?: string
+): TransitionFailure | null {
+  const transition = findTransition(issue.status, to);
+  if (!transition) return "illegal";
+
+  const parties = getIssueParties(actor, issue);
+  if (!transition.allowed.some((party) => parties.includes(party))) {
+    return "forbidden";
+  }
+  if (transition.requiresAssignee && !issue.assignedToEmployee) {
+    return "unassigned";
+  }
+  if (transition.requiresNote && !note?.trim()) return "note-required";
+  return null;
+}
+
+// Transitions the actor could take from the issue's current status
+export function getAvailableTransitions(
+  issue: Issue,
+  actor: WorkflowActor
+): StatusTransition[] {
+  const parties = getIssueParties(actor, issue);
+  return statusTransitions.filter(
+    (t) =>
+      t.from.includes(issue.status) &&
+      !t.internal &&
+      t.allowed.some((party) => parties.includes(party)) &&
+      (!t.requiresAssignee || !!issue.assignedToEmployee)
+  );
+}
+
+export function describeTransitionFailure(
+  failure: TransitionFailure,
+  from: IssueStatus,
+  to: IssueStatus
+): string {
+  switch (failure) {
+    case "illegal":
+      return `An issue cannot move from ${statusLabels[from]} to ${statusLabels[to]}`;
+    case "forbidden":
+      return `You are not allowed to move this issue to ${statusLabels[to]}`;
+    case "note-required":
+      return `A note is required to move this issue to ${statusLabels[to]}`;
+    case "unassigned":
+      return `Assign the issue to an employee before moving it to ${statusLabels[to]}`;
+  }
+}
+
+// Reports saved before the workflow existed used a shorter list of statuses
+type LegacyStatus = IssueStatus | "resolved";
+
+const upgradeStatus = (status: LegacyStatus, confirmed?: boolean): IssueStatus =>
+  status === "resolved" ? (confirmed ? "closed" : "awaiting-confirmation") : status;
+
+export function upgradeLegacyIssue(issue: Issue): Issue {
+  const stored = issue as Omit<Issue, "status" | "statusHistory"> & {
+    status: LegacyStatus;
+    statusHistory?: (Omit<StatusHistoryEntry, "status"> & {
+      status: LegacyStatus;
+    })[];
+  };
+  const hasLegacyHistory = stored.statusHistory?.some(
+    (entry) => entry.status === "resolved"
+  );
+  if (stored.status !== "resolved" && !hasLegacyHistory) return issue;
+
+  return {
+    ...stored,
+    status: upgradeStatus(stored.status, stored.residentConfirmed),
+    statusHistory: stored.statusHistory?.map((entry) => ({
+      ...entry,
+      status: upgradeStatus(entry.status),
+    })),
+  };
+}
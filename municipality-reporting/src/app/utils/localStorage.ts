@@ -1,12 +1,25 @@
 // utils/localStorage.ts
+import { apiRequest, queryString } from "./apiClient";
+import { AttachmentReference, IssueAttachment } from "./attachments";
+import { AssignmentSuggestion, AutoAssignResult, EmployeeAvailability } from "./autoAssign";
+import { LocationSource } from "./geoLocation";
+import { StatusPhase, getStatusPhase } from "./issueWorkflow";
+import { PhotoDuplicate } from "./perceptualHash";
+import { ResolutionVerification } from "./resolutionVerification";
+import { DuplicateMatch, SimilarityCandidate } from "./smartSearch";
+import { IssueSla } from "./sla";
+
 export interface User {
   id: string;
   firstName: string;
   lastName: string;
   email: string;
-  password: string;
-  role: "resident" | "staff" | "employee";
+  role: "resident" | "staff" | "employee" | "admin";
   department?: string; // For employees: "roads", "water", "electricity", "waste", "safety", "parks"
+  availability?: EmployeeAvailability; // For employees; unset means available
+  status?: "active" | "pending" | "rejected"; // Staff and employee accounts start pending until an admin approves them
+  approvedBy?: string; // Admin who approved or declined the account
+  approvedAt?: string;
   createdAt: string;
   preferences?: {
     emailNotifications: boolean;
@@ -15,13 +28,33 @@ export interface User {
   };
 }
 
+export type IssueStatus =
+  | "pending"
+  | "triaged"
+  | "assigned"
+  | "in-progress"
+  | "awaiting-confirmation"
+  | "closed"
+  | "rejected"
+  | "reopened"
+  | "merged";
+
 export interface StatusHistoryEntry {
-  status: "pending" | "in-progress" | "resolved" | "rejected";
+  status: IssueStatus;
+  from?: IssueStatus; // previous status when this entry records a transition
   changedBy: string; // user name or "System"
   changedAt: string;
   note?: string;
 }
 
+// A resident who reported the same problem and added their support instead
+// of filing a duplicate
+export interface CoReporter {
+  userId: string;
+  userName: string;
+  addedAt: string;
+}
+
 export interface Issue {
   id: string;
   userId: string;
@@ -32,11 +65,16 @@ export interface Issue {
   location: string;
   latitude?: number;
   longitude?: number;
+  locationSource?: LocationSource; // How the coordinates were found
+  locationAccuracy?: number; // Metres, when the device reported it
+  wardId?: string; // Ward the coordinates fall in - assigned by the server from the ward boundaries
+  outsideMunicipality?: boolean; // Coordinates outside every ward boundary
   photoUrl?: string;
-  photoData?: string; // Base64 encoded image
+  photoData?: string; // Legacy base64 image - moved into attachments on server start
+  attachments?: IssueAttachment[]; // Photo gallery in upload order; the first report photo is the main one
   aiCategory?: string;
   aiConfidence?: number;
-  status: "pending" | "in-progress" | "resolved" | "rejected";
+  status: IssueStatus;
   priority: "low" | "medium" | "high" | "urgent";
   createdAt: string;
   updatedAt: string;
@@ -44,16 +82,24 @@ export interface Issue {
   staffNotes?: string;
   assignedTo?: string; // Legacy field - now using assignedToEmployee
   department?: string; // Department assigned to (e.g., "roads", "water", "electricity")
+  routingRuleId?: string; // Routing rule that chose the department; cleared when staff change it
   assignedToEmployee?: string; // Employee ID assigned to handle this issue
   assignedToEmployeeName?: string; // Employee name for display
   assignedBy?: string; // Staff member who assigned the issue
+  assignedById?: string; // User ID of the staff member who assigned the issue
   assignedAt?: string; // When the issue was assigned
   residentConfirmed?: boolean; // Resident confirmed issue is resolved
   residentConfirmedAt?: string; // When resident confirmed resolution
   residentRejected?: boolean; // Resident reported issue not resolved
   residentRejectedAt?: string; // When resident rejected resolution
   residentFeedback?: string; // Resident's feedback about the issue
+  coReporters?: CoReporter[]; // Residents who reported the same problem; notified like the reporter
+  parentIssueId?: string; // Set on a duplicate merged into another issue
+  mergedIssueIds?: string[]; // Duplicates merged into this issue
+  resolutionVerification?: ResolutionVerification; // AI comparison of the before and after photos
   statusHistory?: StatusHistoryEntry[];
+  sla?: IssueSla; // Due dates from the SLA policy - computed by the server on read
+  photoDuplicates?: PhotoDuplicate[]; // Issues with a near-identical photo - computed by the server on read
   viewCount?: number;
   // Comprehensive AI Analysis
   aiAnalysis?: {
@@ -85,335 +131,267 @@ export interface Issue {
   };
 }
 
-const USERS_KEY = "limpopo_users";
-const CURRENT_USER_KEY = "limpopo_current_user";
-const ISSUES_KEY = "limpopo_issues";
-
-// Simple hash function for password storage (for demo purposes)
-// In production, use a proper backend with bcrypt or similar
-const hashPassword = (password: string): string => {
-  let hash = 0;
-  for (let i = 0; i < password.length; i++) {
-    const char = password.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  return hash.toString(36);
+export type NewUserInput = Pick<
+  User,
+  "firstName" | "lastName" | "email" | "role" | "department"
+> & {
+  password: string;
 };
 
 export const storageUtils = {
   // Get all users
-  getUsers: (): User[] => {
-    if (typeof window === "undefined") return [];
-    const users = localStorage.getItem(USERS_KEY);
-    return users ? JSON.parse(users) : [];
+  getUsers: async (): Promise<User[]> => {
+    const { users } = await apiRequest<{ users: User[] }>("/api/users");
+    return users;
   },
 
-  // Add a new user
-  addUser: (user: Omit<User, "id" | "createdAt">): User => {
-    const users = storageUtils.getUsers();
-    const newUser: User = {
-      ...user,
-      password: hashPassword(user.password), // Hash password before storing
-      id: Date.now().toString(),
-      createdAt: new Date().toISOString(),
-    };
-    users.push(newUser);
-    localStorage.setItem(USERS_KEY, JSON.stringify(users));
-    return newUser;
-  },
+  // === ISSUES MANAGEMENT ===
 
-  // Find user by email
-  findUserByEmail: (email: string): User | undefined => {
-    const users = storageUtils.getUsers();
-    return users.find(
-      (user) => user.email.toLowerCase() === email.toLowerCase()
-    );
+  // Get all issues
+  getIssues: async (): Promise<Issue[]> => {
+    const { issues } = await apiRequest<{ issues: Issue[] }>("/api/issues");
+    return issues;
   },
 
-  // Validate login
-  validateLogin: (email: string, password: string): User | null => {
-    const user = storageUtils.findUserByEmail(email);
-    const hashedPassword = hashPassword(password);
-    if (user && user.password === hashedPassword) {
-      return user;
+  // Add a new issue
+  addIssue: async (
+    issue: Omit<Issue, "id" | "createdAt" | "updatedAt" | "attachments"> & {
+      attachments?: AttachmentReference[]; // uploaded first, resolved by the server
     }
-    return null;
-  },
-
-  // Set current user
-  setCurrentUser: (user: User): void => {
-    localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(user));
-  },
-
-  // Get current user
-  getCurrentUser: (): User | null => {
-    if (typeof window === "undefined") return null;
-    const user = localStorage.getItem(CURRENT_USER_KEY);
-    return user ? JSON.parse(user) : null;
-  },
-
-  // Logout
-  logout: (): void => {
-    localStorage.removeItem(CURRENT_USER_KEY);
-  },
-
-  // Check if email exists
-  emailExists: (email: string): boolean => {
-    return !!storageUtils.findUserByEmail(email);
+  ): Promise<Issue> => {
+    const { issue: newIssue } = await apiRequest<{ issue: Issue }>(
+      "/api/issues",
+      { method: "POST", body: JSON.stringify(issue) }
+    );
+    return newIssue;
   },
 
-  // === ISSUES MANAGEMENT ===
-
-  // Get all issues
-  getIssues: (): Issue[] => {
-    if (typeof window === "undefined") return [];
-    const issues = localStorage.getItem(ISSUES_KEY);
-    return issues ? JSON.parse(issues) : [];
+  // Open reports that look like the same problem as a new one
+  findSimilarIssues: async (
+    candidate: SimilarityCandidate & { latitude: number; longitude: number }
+  ): Promise<DuplicateMatch[]> => {
+    const { issues } = await apiRequest<{ issues: DuplicateMatch[] }>("/api/issues/similar", {
+      method: "POST",
+      body: JSON.stringify(candidate),
+    });
+    return issues;
   },
 
-  // Add a new issue
-  addIssue: (issue: Omit<Issue, "id" | "createdAt" | "updatedAt">): Issue => {
-    const issues = storageUtils.getIssues();
-    const newIssue: Issue = {
-      ...issue,
-      id: Date.now().toString(),
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      viewCount: 0,
-      statusHistory: [
-        {
-          status: issue.status,
-          changedBy: "System",
-          changedAt: new Date().toISOString(),
-          note: "Report created",
-        },
-      ],
-    };
-    issues.push(newIssue);
-    localStorage.setItem(ISSUES_KEY, JSON.stringify(issues));
-    return newIssue;
+  // Join an existing report as a co-reporter, optionally with your own photo
+  supportIssue: async (
+    issueId: string,
+    attachments: AttachmentReference[] = []
+  ): Promise<Issue> => {
+    const { issue } = await apiRequest<{ issue: Issue }>(
+      `/api/issues/${issueId}/support`,
+      { method: "POST", body: JSON.stringify({ attachments }) }
+    );
+    return issue;
   },
 
   // Get issues by user ID
-  getIssuesByUser: (userId: string): Issue[] => {
-    const issues = storageUtils.getIssues();
-    return issues.filter((issue) => issue.userId === userId);
+  getIssuesByUser: async (userId: string): Promise<Issue[]> => {
+    const { issues } = await apiRequest<{ issues: Issue[] }>(
+      `/api/issues${queryString({ userId })}`
+    );
+    return issues;
   },
 
   // Get issue by ID
-  getIssueById: (issueId: string): Issue | undefined => {
-    const issues = storageUtils.getIssues();
-    return issues.find((issue) => issue.id === issueId);
+  getIssueById: async (issueId: string): Promise<Issue | null> => {
+    try {
+      const { issue } = await apiRequest<{ issue: Issue }>(
+        `/api/issues/${issueId}`
+      );
+      return issue;
+    } catch {
+      return null;
+    }
   },
 
-  // Update issue
-  updateIssue: (
+  // Update issue (the signed-in user is recorded as the editor)
+  updateIssue: async (
     issueId: string,
     updates: Partial<Issue>,
-    changedBy?: string,
     note?: string
-  ): Issue | null => {
-    const issues = storageUtils.getIssues();
-    const index = issues.findIndex((issue) => issue.id === issueId);
-
-    if (index === -1) return null;
-
-    const oldStatus = issues[index].status;
-    const newStatus = updates.status;
-
-    // Add status history if status changed
-    const statusHistory = [...(issues[index].statusHistory || [])];
-    if (newStatus && newStatus !== oldStatus) {
-      statusHistory.push({
-        status: newStatus,
-        changedBy: changedBy || "System",
-        changedAt: new Date().toISOString(),
-        note,
-      });
-    }
-
-    const updatedIssue = {
-      ...issues[index],
-      ...updates,
-      statusHistory,
-      updatedAt: new Date().toISOString(),
-      resolvedAt:
-        newStatus === "resolved" && !issues[index].resolvedAt
-          ? new Date().toISOString()
-          : issues[index].resolvedAt,
-    };
-
-    issues[index] = updatedIssue;
-    localStorage.setItem(ISSUES_KEY, JSON.stringify(issues));
-    return updatedIssue;
+  ): Promise<Issue> => {
+    const { issue } = await apiRequest<{ issue: Issue }>(
+      `/api/issues/${issueId}`,
+      { method: "PATCH", body: JSON.stringify({ updates, note }) }
+    );
+    return issue;
   },
 
   // Increment view count
-  incrementViewCount: (issueId: string): void => {
-    const issues = storageUtils.getIssues();
-    const index = issues.findIndex((issue) => issue.id === issueId);
-
-    if (index !== -1) {
-      issues[index].viewCount = (issues[index].viewCount || 0) + 1;
-      localStorage.setItem(ISSUES_KEY, JSON.stringify(issues));
-    }
+  incrementViewCount: async (issueId: string): Promise<void> => {
+    await apiRequest(`/api/issues/${issueId}/view`, { method: "POST" });
   },
 
   // Delete issue
-  deleteIssue: (issueId: string): boolean => {
-    const issues = storageUtils.getIssues();
-    const filteredIssues = issues.filter((issue) => issue.id !== issueId);
-
-    if (filteredIssues.length === issues.length) return false;
-
-    localStorage.setItem(ISSUES_KEY, JSON.stringify(filteredIssues));
-    return true;
+  deleteIssue: async (issueId: string): Promise<boolean> => {
+    try {
+      await apiRequest(`/api/issues/${issueId}`, { method: "DELETE" });
+      return true;
+    } catch {
+      return false;
+    }
   },
 
   // Get issues by status
-  getIssuesByStatus: (status: Issue["status"]): Issue[] => {
-    const issues = storageUtils.getIssues();
-    return issues.filter((issue) => issue.status === status);
+  getIssuesByStatus: async (status: Issue["status"]): Promise<Issue[]> => {
+    const { issues } = await apiRequest<{ issues: Issue[] }>(
+      `/api/issues${queryString({ status })}`
+    );
+    return issues;
   },
 
-  // Get issues statistics
-  getIssuesStats: () => {
-    const issues = storageUtils.getIssues();
+  // Merge duplicates into a parent issue; their reporters and photos move over
+  mergeIssues: async (
+    parentId: string,
+    childIds: string[],
+    note?: string
+  ): Promise<Issue> => {
+    const { issue } = await apiRequest<{ issue: Issue }>(
+      `/api/issues/${parentId}/merge`,
+      { method: "POST", body: JSON.stringify({ childIds, note }) }
+    );
+    return issue;
+  },
+
+  // Get issues statistics, grouped by workflow phase; merged duplicates are
+  // counted through their parent
+  getIssuesStats: (allIssues: Issue[]) => {
+    const issues = allIssues.filter((i) => !i.parentIssueId);
+    const inPhase = (phase: StatusPhase) =>
+      issues.filter((i) => getStatusPhase(i.status) === phase).length;
     return {
       total: issues.length,
-      pending: issues.filter((i) => i.status === "pending").length,
-      inProgress: issues.filter((i) => i.status === "in-progress").length,
-      resolved: issues.filter((i) => i.status === "resolved").length,
-      rejected: issues.filter((i) => i.status === "rejected").length,
+      pending: inPhase("open"),
+      inProgress: inPhase("active"),
+      resolved: inPhase("resolved"),
+      rejected: inPhase("rejected"),
       urgent: issues.filter((i) => i.priority === "urgent").length,
       high: issues.filter((i) => i.priority === "high").length,
     };
   },
 
   // Get employees by department
-  getEmployeesByDepartment: (department: string): User[] => {
-    const users = storageUtils.getUsers();
-    return users.filter(
-      (user) => user.role === "employee" && user.department === department
+  getEmployeesByDepartment: async (department: string): Promise<User[]> => {
+    const { users } = await apiRequest<{ users: User[] }>(
+      `/api/users${queryString({ role: "employee", department, status: "active" })}`
     );
+    return users;
   },
 
   // Get all employees
-  getAllEmployees: (): User[] => {
-    const users = storageUtils.getUsers();
-    return users.filter((user) => user.role === "employee");
+  getAllEmployees: async (): Promise<User[]> => {
+    const { users } = await apiRequest<{ users: User[] }>(
+      `/api/users${queryString({ role: "employee", status: "active" })}`
+    );
+    return users;
   },
 
   // Get issues assigned to employee
-  getIssuesAssignedToEmployee: (employeeId: string): Issue[] => {
-    const issues = storageUtils.getIssues();
-    return issues.filter((issue) => issue.assignedToEmployee === employeeId);
+  getIssuesAssignedToEmployee: async (employeeId: string): Promise<Issue[]> => {
+    const { issues } = await apiRequest<{ issues: Issue[] }>(
+      `/api/issues${queryString({ employeeId })}`
+    );
+    return issues;
   },
 
   // Get issues by department
-  getIssuesByDepartment: (department: string): Issue[] => {
-    const issues = storageUtils.getIssues();
-    return issues.filter((issue) => issue.department === department);
+  getIssuesByDepartment: async (department: string): Promise<Issue[]> => {
+    const { issues } = await apiRequest<{ issues: Issue[] }>(
+      `/api/issues${queryString({ department })}`
+    );
+    return issues;
   },
 
   // Assign issue to department and employee
-  assignIssue: (
+  assignIssue: async (
     issueId: string,
     department: string,
-    employeeId: string,
-    employeeName: string,
-    assignedBy: string
-  ): Issue | null => {
-    const issues = storageUtils.getIssues();
-    const index = issues.findIndex((issue) => issue.id === issueId);
-
-    if (index === -1) return null;
-
-    const statusHistory = [...(issues[index].statusHistory || [])];
-    statusHistory.push({
-      status: issues[index].status,
-      changedBy: assignedBy,
-      changedAt: new Date().toISOString(),
-      note: `Assigned to ${department} department - ${employeeName}`,
-    });
+    employeeId: string
+  ): Promise<Issue> => {
+    const { issue } = await apiRequest<{ issue: Issue }>(
+      `/api/issues/${issueId}/assign`,
+      {
+        method: "POST",
+        body: JSON.stringify({ department, employeeId }),
+      }
+    );
+    return issue;
+  },
 
-    const updatedIssue = {
-      ...issues[index],
-      department,
-      assignedToEmployee: employeeId,
-      assignedToEmployeeName: employeeName,
-      assignedBy,
-      assignedAt: new Date().toISOString(),
-      statusHistory,
-      updatedAt: new Date().toISOString(),
-    };
+  // Assign issue to the employee in its department with the lightest load
+  autoAssignIssue: async (
+    issueId: string
+  ): Promise<{ issue: Issue; suggestion: AssignmentSuggestion }> =>
+    apiRequest(`/api/issues/${issueId}/auto-assign`, { method: "POST" }),
 
-    issues[index] = updatedIssue;
-    localStorage.setItem(ISSUES_KEY, JSON.stringify(issues));
-    return updatedIssue;
+  // Auto-assign every unassigned open issue, most urgent first
+  autoAssignPending: async (): Promise<AutoAssignResult[]> => {
+    const { results } = await apiRequest<{ results: AutoAssignResult[] }>(
+      "/api/issues/auto-assign",
+      { method: "POST" }
+    );
+    return results;
   },
 
-  // Resident confirms issue resolution
-  confirmResolution: (issueId: string, residentName: string): Issue | null => {
-    const issues = storageUtils.getIssues();
-    const index = issues.findIndex((issue) => issue.id === issueId);
-
-    if (index === -1) return null;
-
-    const statusHistory = [...(issues[index].statusHistory || [])];
-    statusHistory.push({
-      status: issues[index].status,
-      changedBy: residentName,
-      changedAt: new Date().toISOString(),
-      note: "Resident confirmed issue has been resolved",
-    });
-
-    const updatedIssue = {
-      ...issues[index],
-      residentConfirmed: true,
-      residentConfirmedAt: new Date().toISOString(),
-      statusHistory,
-      updatedAt: new Date().toISOString(),
-    };
+  // Employees say whether they can take new work
+  setAvailability: async (
+    userId: string,
+    availability: EmployeeAvailability
+  ): Promise<User> => {
+    const { user } = await apiRequest<{ user: User }>(
+      `/api/users/${userId}/availability`,
+      { method: "POST", body: JSON.stringify({ availability }) }
+    );
+    return user;
+  },
 
-    issues[index] = updatedIssue;
-    localStorage.setItem(ISSUES_KEY, JSON.stringify(issues));
-    return updatedIssue;
+  // Resident confirms issue resolution
+  confirmResolution: async (issueId: string): Promise<Issue> => {
+    const { issue } = await apiRequest<{ issue: Issue }>(
+      `/api/issues/${issueId}/confirm`,
+      { method: "POST" }
+    );
+    return issue;
   },
 
   // Resident reports issue not resolved
-  rejectResolution: (
-    issueId: string,
-    residentName: string,
-    feedback: string
-  ): Issue | null => {
-    const issues = storageUtils.getIssues();
-    const index = issues.findIndex((issue) => issue.id === issueId);
-
-    if (index === -1) return null;
-
-    const statusHistory = [...(issues[index].statusHistory || [])];
-    statusHistory.push({
-      status: "in-progress",
-      changedBy: residentName,
-      changedAt: new Date().toISOString(),
-      note: `Resident reported issue not resolved: ${feedback}`,
-    });
+  rejectResolution: async (issueId: string, feedback: string): Promise<Issue> => {
+    const { issue } = await apiRequest<{ issue: Issue }>(
+      `/api/issues/${issueId}/reject`,
+      { method: "POST", body: JSON.stringify({ feedback }) }
+    );
+    return issue;
+  },
 
-    const updatedIssue = {
-      ...issues[index],
-      status: "in-progress" as const,
-      residentRejected: true,
-      residentRejectedAt: new Date().toISOString(),
-      residentFeedback: feedback,
-      statusHistory,
-      updatedAt: new Date().toISOString(),
-    };
+  // === ACCOUNT APPROVALS (admin only) ===
+
+  // Get staff and employee accounts awaiting approval
+  getPendingUsers: async (): Promise<User[]> => {
+    const { users } = await apiRequest<{ users: User[] }>(
+      `/api/users${queryString({ status: "pending" })}`
+    );
+    return users;
+  },
 
-    issues[index] = updatedIssue;
-    localStorage.setItem(ISSUES_KEY, JSON.stringify(issues));
-    return updatedIssue;
+  approveUser: async (userId: string): Promise<User> => {
+    const { user } = await apiRequest<{ user: User }>(
+      `/api/users/${userId}/approve`,
+      { method: "POST" }
+    );
+    return user;
+  },
+
+  rejectUser: async (userId: string): Promise<User> => {
+    const { user } = await apiRequest<{ user: User }>(
+      `/api/users/${userId}/reject`,
+      { method: "POST" }
+    );
+    return user;
   },
 };
 
@@ -428,16 +406,6 @@ export interface Service {
   userId: string;
 }
 
-export interface Notification {
-  id: string;
-  title: string;
-  message: string;
-  type: "info" | "warning" | "success" | "error";
-  read: boolean;
-  createdAt: string;
-  userId: string;
-}
-
 export interface Document {
   id: string;
   title: string;
@@ -448,7 +416,6 @@ export interface Document {
 }
 
 const SERVICES_KEY = "limpopo_services";
-const NOTIFICATIONS_KEY = "limpopo_notifications";
 const DOCUMENTS_KEY = "limpopo_documents";
 
 export const dashboardUtils = {
@@ -486,55 +453,6 @@ export const dashboardUtils = {
     localStorage.setItem(SERVICES_KEY, JSON.stringify(updatedServices));
   },
 
-  // Notifications
-  getNotifications: (userId: string): Notification[] => {
-    if (typeof window === "undefined") return [];
-    const notifications = localStorage.getItem(NOTIFICATIONS_KEY);
-    const allNotifications: Notification[] = notifications
-      ? JSON.parse(notifications)
-      : [];
-    return allNotifications.filter((notif) => notif.userId === userId);
-  },
-
-  addNotification: (
-    notification: Omit<Notification, "id" | "createdAt" | "read">,
-    userId: string
-  ): Notification => {
-    const notifications = localStorage.getItem(NOTIFICATIONS_KEY);
-    const allNotifications: Notification[] = notifications
-      ? JSON.parse(notifications)
-      : [];
-    const newNotification: Notification = {
-      ...notification,
-      id: Date.now().toString(),
-      createdAt: new Date().toISOString(),
-      read: false,
-      userId,
-    };
-    allNotifications.push(newNotification);
-    localStorage.setItem(NOTIFICATIONS_KEY, JSON.stringify(allNotifications));
-    return newNotification;
-  },
-
-  markNotificationAsRead: (notificationId: string): void => {
-    const notifications = localStorage.getItem(NOTIFICATIONS_KEY);
-    const allNotifications: Notification[] = notifications
-      ? JSON.parse(notifications)
-      : [];
-    const updatedNotifications = allNotifications.map((notif) =>
-      notif.id === notificationId ? { ...notif, read: true } : notif
-    );
-    localStorage.setItem(
-      NOTIFICATIONS_KEY,
-      JSON.stringify(updatedNotifications)
-    );
-  },
-
-  getUnreadNotificationsCount: (userId: string): number => {
-    const notifications = dashboardUtils.getNotifications(userId);
-    return notifications.filter((notif) => !notif.read).length;
-  },
-
   // Documents
   getDocuments: (userId: string): Document[] => {
     if (typeof window === "undefined") return [];
@@ -593,28 +511,5 @@ export const dashboardUtils = {
       },
       userId
     );
-
-    // Add sample notifications
-    dashboardUtils.addNotification(
-      {
-        title: "Welcome to Limpopo Portal",
-        message:
-          "Your account has been successfully created. Explore the dashboard to access government services.",
-        type: "success",
-        userId: userId,
-      },
-      userId
-    );
-
-    dashboardUtils.addNotification(
-      {
-        title: "Document Verification Required",
-        message:
-          "Please upload your proof of residence to complete your profile.",
-        type: "warning",
-        userId: userId,
-      },
-      userId
-    );
   },
 };
@@ -0,0 +1,275 @@
+// utils/mapView.ts
+// Web Mercator maths, marker clustering and area filters for the issue map.
+// Everything is computed in "world pixels": the whole world is a square of
+// 256 * 2^zoom pixels with (0, 0) at the north-west corner.
+import { apiRequest } from "./apiClient";
+import { statusColors } from "./issueWorkflow";
+import { Issue } from "./localStorage";
+
+export const TILE_SIZE = 256;
+export const MIN_MAP_ZOOM = 2;
+
+// Above this zoom every issue gets its own marker
+export const CLUSTER_MAX_ZOOM = 15;
+
+// Where the map gets its background: an XYZ raster tile server (public or
+// local), or a GeoJSON file drawn in the browser so it works offline
+export interface MapTileSource {
+  type: "raster" | "vector";
+  url: string; // "{z}/{x}/{y}" template for raster tiles, GeoJSON URL for vector
+  attribution: string;
+  maxZoom: number;
+}
+
+export const defaultTileSource: MapTileSource = {
+  type: "raster",
+  url: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+  attribution: "© OpenStreetMap contributors",
+  maxZoom: 19,
+};
+
+// Polokwane: where the report location picker starts without a location
+export const DEFAULT_MAP_VIEW: MapView = { latitude: -23.9045, longitude: 29.4689, zoom: 13 };
+
+// The parts of a GeoJSON feature the vector basemap draws
+export interface BasemapFeature {
+  geometry?: { type: string; coordinates: unknown } | null;
+}
+
+// A raster tile placed on screen
+export interface PlacedTile {
+  key: string;
+  src: string;
+  left: number;
+  top: number;
+}
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapView {
+  latitude: number;
+  longitude: number;
+  zoom: number;
+}
+
+// A drawn filter area as [latitude, longitude] corners; rectangles are
+// stored as their four corners so both shapes filter the same way
+export interface MapArea {
+  shape: "rectangle" | "polygon";
+  points: [number, number][];
+}
+
+export type MarkerColorMode = "status" | "priority";
+
+export const priorityMarkerColors: Record<Issue["priority"], string> = {
+  urgent: "#dc3545",
+  high: "#fd7e14",
+  medium: "#f59f00",
+  low: "#868e96",
+};
+
+export interface IssueCluster {
+  key: string;
+  latitude: number;
+  longitude: number;
+  issues: Issue[];
+}
+
+const MAX_LATITUDE = 85.0511;
+
+export const hasCoordinates = (issue: Issue): boolean =>
+  typeof issue.latitude === "number" && typeof issue.longitude === "number";
+
+export function project(latitude: number, longitude: number, zoom: number): MapPoint {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const lat = (Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, latitude)) * Math.PI) / 180;
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: ((1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2) * scale,
+  };
+}
+
+export function unproject(point: MapPoint, zoom: number): { latitude: number; longitude: number } {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const n = Math.PI - (2 * Math.PI * point.y) / scale;
+  return {
+    latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    longitude: (point.x / scale) * 360 - 180,
+  };
+}
+
+// How many screen pixels a distance covers at this latitude and zoom
+export const kmToPixels = (km: number, latitude: number, zoom: number): number =>
+  (km * 1000 * Math.pow(2, zoom)) / (156543.03 * Math.cos((latitude * Math.PI) / 180));
+
+// Replaces {z}, {x} and {y} in a raster tile template
+export const tileUrl = (template: string, zoom: number, x: number, y: number): string =>
+  template.replace("{z}", String(zoom)).replace("{x}", String(x)).replace("{y}", String(y));
+
+// The raster tiles covering a viewport whose top-left corner is at the
+// given world pixel; the world wraps east-west but not north-south
+export function visibleTiles(
+  tileSource: MapTileSource | null,
+  zoom: number,
+  topLeft: MapPoint,
+  size: { width: number; height: number }
+): PlacedTile[] {
+  if (tileSource?.type !== "raster") return [];
+  const tiles: PlacedTile[] = [];
+  const count = Math.pow(2, zoom);
+  for (let ty = Math.floor(topLeft.y / TILE_SIZE); ty <= Math.floor((topLeft.y + size.height) / TILE_SIZE); ty++) {
+    if (ty < 0 || ty >= count) continue;
+    for (let tx = Math.floor(topLeft.x / TILE_SIZE); tx <= Math.floor((topLeft.x + size.width) / TILE_SIZE); tx++) {
+      tiles.push({
+        key: `${zoom}/${tx}/${ty}`,
+        src: tileUrl(tileSource.url, zoom, ((tx % count) + count) % count, ty),
+        left: tx * TILE_SIZE - topLeft.x,
+        top: ty * TILE_SIZE - topLeft.y,
+      });
+    }
+  }
+  return tiles;
+}
+
+// Basemap geometries as SVG path data in world pixels; points are skipped
+export function basemapPaths(features: BasemapFeature[], zoom: number): { d: string; filled: boolean }[] {
+  const line = (coordinates: number[][], closed: boolean) =>
+    coordinates
+      .map(([longitude, latitude], i) => {
+        const point = project(latitude, longitude, zoom);
+        return `${i ? "L" : "M"}${point.x.toFixed(1)} ${point.y.toFixed(1)}`;
+      })
+      .join("") + (closed ? "Z" : "");
+
+  const paths: { d: string; filled: boolean }[] = [];
+  features.forEach(({ geometry }) => {
+    if (!geometry) return;
+    const coordinates = geometry.coordinates;
+    switch (geometry.type) {
+      case "Polygon":
+        paths.push({ d: (coordinates as number[][][]).map((r) => line(r, true)).join(""), filled: true });
+        break;
+      case "MultiPolygon":
+        (coordinates as number[][][][]).forEach((polygon) =>
+          paths.push({ d: polygon.map((r) => line(r, true)).join(""), filled: true })
+        );
+        break;
+      case "LineString":
+        paths.push({ d: line(coordinates as number[][], false), filled: false });
+        break;
+      case "MultiLineString":
+        paths.push({ d: (coordinates as number[][][]).map((l) => line(l, false)).join(""), filled: false });
+        break;
+    }
+  });
+  return paths;
+}
+
+// The largest zoom at which every issue fits in a viewport of the given size
+export function fitIssues(issues: Issue[], width: number, height: number, maxZoom: number): MapView {
+  const located = issues.filter(hasCoordinates);
+  if (located.length === 0) return { latitude: 0, longitude: 0, zoom: MIN_MAP_ZOOM };
+
+  const lats = located.map((i) => i.latitude!);
+  const lngs = located.map((i) => i.longitude!);
+  const north = Math.max(...lats);
+  const south = Math.min(...lats);
+  const east = Math.max(...lngs);
+  const west = Math.min(...lngs);
+
+  let zoom = Math.min(maxZoom, 16);
+  while (zoom > MIN_MAP_ZOOM) {
+    const topLeft = project(north, west, zoom);
+    const bottomRight = project(south, east, zoom);
+    if (bottomRight.x - topLeft.x <= width * 0.8 && bottomRight.y - topLeft.y <= height * 0.8) {
+      break;
+    }
+    zoom--;
+  }
+  return { latitude: (north + south) / 2, longitude: (east + west) / 2, zoom };
+}
+
+// Groups issues that fall in the same grid cell at this zoom; past
+// CLUSTER_MAX_ZOOM every issue is its own cluster of one
+export function clusterIssues(issues: Issue[], zoom: number, cellSize = 56): IssueCluster[] {
+  const cells = new Map<string, Issue[]>();
+  issues.filter(hasCoordinates).forEach((issue) => {
+    let key = issue.id;
+    if (zoom <= CLUSTER_MAX_ZOOM) {
+      const point = project(issue.latitude!, issue.longitude!, zoom);
+      key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    }
+    cells.set(key, [...(cells.get(key) || []), issue]);
+  });
+
+  return Array.from(cells, ([key, members]) => ({
+    key,
+    latitude: members.reduce((sum, i) => sum + i.latitude!, 0) / members.length,
+    longitude: members.reduce((sum, i) => sum + i.longitude!, 0) / members.length,
+    issues: members,
+  }));
+}
+
+export function markerColor(issue: Issue, mode: MarkerColorMode): string {
+  return mode === "status" ? statusColors[issue.status] : priorityMarkerColors[issue.priority];
+}
+
+// Ray casting: counts how many polygon edges a ray from the point crosses
+export function isInArea(latitude: number, longitude: number, area: MapArea): boolean {
+  let inside = false;
+  const points = area.points;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [latI, lngI] = points[i];
+    const [latJ, lngJ] = points[j];
+    if (
+      latI > latitude !== latJ > latitude &&
+      longitude < ((lngJ - lngI) * (latitude - latI)) / (latJ - latI) + lngI
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export const filterIssuesByArea = (issues: Issue[], area: MapArea): Issue[] =>
+  issues.filter(
+    (issue) => hasCoordinates(issue) && isInArea(issue.latitude!, issue.longitude!, area)
+  );
+
+let tileSourceRequest: Promise<MapTileSource> | null = null;
+let basemapRequest: Promise<BasemapFeature[]> | null = null;
+
+export const mapUtils = {
+  // The tile source configured on the server, fetched once per page load;
+  // falls back to OpenStreetMap if the server cannot be reached
+  getTileSource: (): Promise<MapTileSource> => {
+    if (!tileSourceRequest) {
+      tileSourceRequest = apiRequest<{ tileSource: MapTileSource }>("/api/map/config")
+        .then(({ tileSource }) => tileSource)
+        .catch((error) => {
+          console.error("Failed to load the map configuration:", error);
+          tileSourceRequest = null;
+          return defaultTileSource;
+        });
+    }
+    return tileSourceRequest;
+  },
+
+  // Features of the offline vector basemap, fetched once per page load
+  getBasemap: (url: string): Promise<BasemapFeature[]> => {
+    if (!basemapRequest) {
+      basemapRequest = fetch(url)
+        .then((response) => (response.ok ? response.json() : Promise.reject(response.statusText)))
+        .then((geojson) => geojson.features || [])
+        .catch((error) => {
+          console.error("Failed to load the offline basemap:", error);
+          basemapRequest = null;
+          return [];
+        });
+    }
+    return basemapRequest;
+  },
+};
@@ -1,4 +1,5 @@
 // utils/notifications.ts
+import { apiRequest } from "./apiClient";
 
 export interface Notification {
   id: string;
@@ -11,93 +12,60 @@ export interface Notification {
   createdAt: string;
 }
 
-const NOTIFICATIONS_KEY = "municipality_notifications";
-
+// Notifications are created on the server whenever an issue changes; these
+// helpers read and manage the signed-in user's inbox
 export const notificationUtils = {
-  // Get all notifications for a user
-  getUserNotifications(userId: string): Notification[] {
-    if (typeof window === "undefined") return [];
-    const notifications = JSON.parse(
-      localStorage.getItem(NOTIFICATIONS_KEY) || "[]"
-    ) as Notification[];
-    return notifications.filter((n) => n.userId === userId);
+  // Get the signed-in user's notifications, newest first
+  getUserNotifications: async (): Promise<Notification[]> => {
+    const { notifications } = await apiRequest<{
+      notifications: Notification[];
+    }>("/api/notifications");
+    return notifications;
   },
 
   // Get unread count
-  getUnreadCount(userId: string): number {
-    return this.getUserNotifications(userId).filter((n) => !n.isRead).length;
+  getUnreadCount(notifications: Notification[]): number {
+    return notifications.filter((n) => !n.isRead).length;
   },
 
   // Mark notification as read
-  markAsRead(notificationId: string): void {
-    if (typeof window === "undefined") return;
-    const notifications = JSON.parse(
-      localStorage.getItem(NOTIFICATIONS_KEY) || "[]"
-    ) as Notification[];
-    const updated = notifications.map((n) =>
-      n.id === notificationId ? { ...n, isRead: true } : n
-    );
-    localStorage.setItem(NOTIFICATIONS_KEY, JSON.stringify(updated));
+  markAsRead: async (notificationId: string): Promise<void> => {
+    await apiRequest("/api/notifications/read", {
+      method: "POST",
+      body: JSON.stringify({ ids: [notificationId] }),
+    });
   },
 
   // Mark all as read
-  markAllAsRead(userId: string): void {
-    if (typeof window === "undefined") return;
-    const notifications = JSON.parse(
-      localStorage.getItem(NOTIFICATIONS_KEY) || "[]"
-    ) as Notification[];
-    const updated = notifications.map((n) =>
-      n.userId === userId ? { ...n, isRead: true } : n
-    );
-    localStorage.setItem(NOTIFICATIONS_KEY, JSON.stringify(updated));
+  markAllAsRead: async (): Promise<void> => {
+    await apiRequest("/api/notifications/read", {
+      method: "POST",
+      body: JSON.stringify({}),
+    });
   },
 
-  // Create notification
-  createNotification(
-    userId: string,
-    type: Notification["type"],
-    title: string,
-    message: string,
-    issueId: string
-  ): void {
-    if (typeof window === "undefined") return;
-    const notifications = JSON.parse(
-      localStorage.getItem(NOTIFICATIONS_KEY) || "[]"
-    ) as Notification[];
-
-    const newNotification: Notification = {
-      id: `notif-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      userId,
-      type,
-      title,
-      message,
-      issueId,
-      isRead: false,
-      createdAt: new Date().toISOString(),
-    };
+  // Delete notification
+  deleteNotification: async (notificationId: string): Promise<void> => {
+    await apiRequest(`/api/notifications/${encodeURIComponent(notificationId)}`, {
+      method: "DELETE",
+    });
+  },
 
-    notifications.unshift(newNotification);
-    localStorage.setItem(NOTIFICATIONS_KEY, JSON.stringify(notifications));
+  // Where a notification should take the user
+  getLink(notification: Notification): string {
+    return `/report/${notification.issueId}`;
+  },
 
-    // Browser notification if supported
+  // Show a browser notification if the user has allowed them
+  showBrowserNotification(notification: Notification): void {
     if ("Notification" in window && Notification.permission === "granted") {
-      new Notification(title, {
-        body: message,
+      new Notification(notification.title, {
+        body: notification.message,
         icon: "/images/limpopo_province_government.jpg",
       });
     }
   },
 
-  // Delete notification
-  deleteNotification(notificationId: string): void {
-    if (typeof window === "undefined") return;
-    const notifications = JSON.parse(
-      localStorage.getItem(NOTIFICATIONS_KEY) || "[]"
-    ) as Notification[];
-    const updated = notifications.filter((n) => n.id !== notificationId);
-    localStorage.setItem(NOTIFICATIONS_KEY, JSON.stringify(updated));
-  },
-
   // Request browser notification permission
   requestPermission(): void {
     if ("Notification" in window && Notification.permission === "default") {
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  createHammingIndex,
+  dHashFromPixels,
+  hammingDistance,
+  isPerceptualHash,
+} from "./perceptualHash";
+
+// 9x8 grayscale pixels, row by row
+const gradient = (brighterToTheRight: boolean) =>
+  Array.from({ length: 72 }, (_, i) => (brighterToTheRight ? i % 9 : 8 - (i % 9)) * 10);
+
+describe("dHashFromPixels", () => {
+  it("sets a bit wherever a pixel is darker than its right-hand neighbour", () => {
+    expect(dHashFromPixels(gradient(true))).toBe("ffffffffffffffff");
+    expect(dHashFromPixels(gradient(false))).toBe("0000000000000000");
+  });
+
+  it("reads the bits row by row, most significant first", () => {
+    const pixels = new Array(72).fill(0);
+    pixels[1] = 10; // first row: only pixel 0 is darker than its neighbour
+    expect(dHashFromPixels(pixels)).toBe("8000000000000000");
+  });
+
+  it("ignores uniform brightness changes", () => {
+    const brighter = gradient(true).map((value) => value + 50);
+    expect(dHashFromPixels(brighter)).toBe(dHashFromPixels(gradient(true)));
+  });
+});
+
+describe("hammingDistance", () => {
+  it("counts differing bits", () => {
+    expect(hammingDistance("0000000000000000", "0000000000000000")).toBe(0);
+    expect(hammingDistance("0000000000000000", "000000000000000f")).toBe(4);
+    expect(hammingDistance("0000000000000000", "ffffffffffffffff")).toBe(64);
+    expect(hammingDistance("8000000000000001", "0000000000000000")).toBe(2);
+  });
+});
+
+describe("isPerceptualHash", () => {
+  it("accepts 16 lowercase hex characters only", () => {
+    expect(isPerceptualHash("0123456789abcdef")).toBe(true);
+    expect(isPerceptualHash("0123456789ABCDEF")).toBe(false);
+    expect(isPerceptualHash("0123")).toBe(false);
+    expect(isPerceptualHash(42)).toBe(false);
+  });
+});
+
+describe("createHammingIndex", () => {
+  const hashes: Record<string, string> = {
+    a: "0000000000000000",
+    b: "0000000000000001", // 1 bit from a
+    c: "00000000000000ff", // 8 bits from a
+    d: "ffffffffffffffff", // 64 bits from a
+    e: "0000000000000000", // same as a
+  };
+
+  const build = () => {
+    const index = createHammingIndex<string>();
+    Object.entries(hashes).forEach(([value, hash]) => index.add(hash, value));
+    return index;
+  };
+
+  it("finds everything within the radius, closest first", () => {
+    const matches = build().search("0000000000000000", 8);
+    expect(matches.map((m) => m.distance)).toEqual([0, 0, 1, 8]);
+    expect(matches.map((m) => m.value).sort()).toEqual(["a", "b", "c", "e"]);
+  });
+
+  it("agrees with a linear scan", () => {
+    const index = build();
+    ["0000000000000003", "f0f0f0f0f0f0f0f0", "00000000000000f0"].forEach((query) => {
+      for (const radius of [0, 2, 6, 10, 40]) {
+        const expected = Object.entries(hashes)
+          .filter(([, hash]) => hammingDistance(query, hash) <= radius)
+          .map(([value]) => value)
+          .sort();
+        expect(index.search(query, radius).map((m) => m.value).sort()).toEqual(expected);
+      }
+    });
+  });
+
+  it("returns nothing from an empty index", () => {
+    expect(createHammingIndex<string>().search("0000000000000000", 64)).toEqual([]);
+  });
+});
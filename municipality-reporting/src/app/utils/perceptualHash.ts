@@ -0,0 +1,103 @@
+// utils/perceptualHash.ts
+// Photos are fingerprinted with a 64-bit difference hash (dHash), stored as 16
+// hex characters. Re-saved, resized or screenshotted copies of the same photo
+// end up a few bits apart, so the Hamming distance tells near-identical
+// images apart from merely similar ones.
+
+// Bits (out of 64) two hashes may differ by and still count as the same photo
+export const PHOTO_DUPLICATE_RADIUS = 10;
+
+// Another issue whose photo is within the duplicate radius of one of ours
+export interface PhotoDuplicate {
+  issueId: string;
+  distance: number;
+}
+
+const nibbleBits = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+export function isPerceptualHash(value: unknown): value is string {
+  return typeof value === "string" && /^[0-9a-f]{16}$/.test(value);
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += nibbleBits[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+}
+
+// Turns a 9x8 grayscale thumbnail (row by row) into a dHash: each bit says
+// whether a pixel is darker than its right-hand neighbour
+export function dHashFromPixels(pixels: ArrayLike<number>): string {
+  let hash = "";
+  let nibble = 0;
+  let bit = 0;
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      nibble = (nibble << 1) | (pixels[y * 9 + x] < pixels[y * 9 + x + 1] ? 1 : 0);
+      if (++bit % 4 === 0) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+interface HammingNode<T> {
+  hash: string;
+  values: T[];
+  children: { [distance: number]: HammingNode<T> };
+}
+
+export interface HammingIndex<T> {
+  add(hash: string, value: T): void;
+  // Everything stored within `radius` bits of the hash, closest first
+  search(hash: string, radius: number): { value: T; distance: number }[];
+}
+
+// BK-tree over hashes: the triangle inequality lets a search skip every
+// subtree that cannot hold a match, instead of comparing against every photo
+export function createHammingIndex<T>(): HammingIndex<T> {
+  let root: HammingNode<T> | null = null;
+
+  return {
+    add(hash, value) {
+      if (!root) {
+        root = { hash, values: [value], children: {} };
+        return;
+      }
+      let node: HammingNode<T> = root;
+      for (;;) {
+        const distance = hammingDistance(hash, node.hash);
+        if (distance === 0) {
+          node.values.push(value);
+          return;
+        }
+        const child: HammingNode<T> | undefined = node.children[distance];
+        if (!child) {
+          node.children[distance] = { hash, values: [value], children: {} };
+          return;
+        }
+        node = child;
+      }
+    },
+
+    search(hash, radius) {
+      const matches: { value: T; distance: number }[] = [];
+      const pending = root ? [root] : [];
+      while (pending.length > 0) {
+        const node = pending.pop()!;
+        const distance = hammingDistance(hash, node.hash);
+        if (distance <= radius) {
+          node.values.forEach((value) => matches.push({ value, distance }));
+        }
+        for (const [key, child] of Object.entries(node.children)) {
+          if (Math.abs(Number(key) - distance) <= radius) pending.push(child);
+        }
+      }
+      return matches.sort((a, b) => a.distance - b.distance);
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { makeUser } from "@/test/fixtures";
+import { User } from "./localStorage";
+import { canAccessRoute, findRouteRule, getEffectiveRole, hasPermission } from "./permissions";
+
+const resident = makeUser({ id: "resident-1", role: "resident", department: undefined });
+const employee = makeUser();
+const staff = makeUser({ id: "staff-1", role: "staff", department: undefined });
+const admin = makeUser({ id: "admin-1", role: "admin", department: undefined });
+
+// Whether `user` gets past the proxy for a request; unmatched paths are public
+const allowed = (user: User | null, method: string, pathname: string) => {
+  const rule = findRouteRule(pathname, method);
+  return rule ? canAccessRoute(user, rule) : true;
+};
+
+describe("getEffectiveRole", () => {
+  it("treats guests and accounts that are not active as guests", () => {
+    expect(getEffectiveRole(null)).toBe("guest");
+    expect(getEffectiveRole({ ...staff, status: "pending" })).toBe("guest");
+    expect(getEffectiveRole({ ...employee, status: "rejected" })).toBe("guest");
+    expect(getEffectiveRole(staff)).toBe("staff");
+  });
+
+  it("gives a pending staff account no staff permissions", () => {
+    expect(hasPermission({ ...staff, status: "pending" }, "issues:manage")).toBe(false);
+    expect(hasPermission({ ...staff, status: "pending" }, "issues:create")).toBe(true);
+  });
+});
+
+describe("findRouteRule", () => {
+  it("matches :id segments and the method", () => {
+    expect(findRouteRule("/api/issues/abc", "GET")?.permission).toBe("issues:read");
+    expect(findRouteRule("/api/issues/abc", "PATCH")?.permission).toBe("issues:update-status");
+    expect(findRouteRule("/api/issues/abc", "DELETE")?.permission).toBe("issues:manage");
+  });
+
+  it("uses the first matching rule, so specific paths win over :id", () => {
+    expect(findRouteRule("/api/issues/similar", "POST")?.path).toBe("/api/issues/similar");
+    expect(findRouteRule("/api/issues/auto-assign", "POST")?.path).toBe("/api/issues/auto-assign");
+    expect(findRouteRule("/api/issues/abc/comments/c1", "DELETE")?.path).toBe(
+      "/api/issues/:id/comments/:commentId"
+    );
+  });
+
+  it("matches API paths exactly but pages with their sub-paths", () => {
+    expect(findRouteRule("/staff-dashboard/reports", "GET")?.permission).toBe("dashboard:staff");
+    expect(findRouteRule("/api/depots/extra", "GET")).toBeNull();
+  });
+
+  it("leaves unlisted paths and methods public", () => {
+    expect(findRouteRule("/", "GET")).toBeNull();
+    expect(findRouteRule("/api/geocode/search", "GET")).toBeNull();
+    expect(findRouteRule("/api/issues/abc/support", "GET")).toBeNull();
+  });
+});
+
+describe("canAccessRoute", () => {
+  it("lets guests report and read but not list or manage issues", () => {
+    expect(allowed(null, "POST", "/api/issues")).toBe(true);
+    expect(allowed(null, "GET", "/api/issues/abc")).toBe(true);
+    expect(allowed(null, "GET", "/api/issues")).toBe(false);
+    expect(allowed(null, "POST", "/api/issues/abc/support")).toBe(false);
+    expect(allowed(null, "GET", "/resident-dashboard")).toBe(false);
+  });
+
+  it("grants a rule with several permissions to anyone holding one of them", () => {
+    expect(allowed(resident, "GET", "/api/issues")).toBe(true);
+    expect(allowed(employee, "GET", "/api/issues")).toBe(true);
+    expect(allowed(resident, "POST", "/api/issues/abc/attachments")).toBe(true);
+    expect(allowed(employee, "POST", "/api/issues/abc/attachments")).toBe(true);
+  });
+
+  it("keeps each dashboard and management route to its roles", () => {
+    expect(allowed(resident, "GET", "/staff-dashboard")).toBe(false);
+    expect(allowed(employee, "POST", "/api/issues/abc/assign")).toBe(false);
+    expect(allowed(staff, "POST", "/api/issues/abc/assign")).toBe(true);
+    expect(allowed(staff, "POST", "/api/users/u1/approve")).toBe(false);
+    expect(allowed(admin, "POST", "/api/users/u1/approve")).toBe(true);
+  });
+});
@@ -0,0 +1,165 @@
+// utils/permissions.ts
+import { User } from "./localStorage";
+
+export type Role = User["role"] | "guest";
+
+export type Permission =
+  | "issues:create"
+  | "issues:read"
+  | "issues:list-own"
+  | "issues:list-assigned"
+  | "issues:list-all"
+  | "issues:update-status" // employees on their assigned issues, staff on any
+  | "issues:manage" // assign, delete and update any issue
+  | "issues:confirm" // reporter confirms or disputes a resolution
+  | "issues:support" // join an existing report as a co-reporter
+  | "issues:comment" // take part in the conversation on an issue
+  | "comments:internal" // read and post staff-only comments
+  | "comments:moderate" // delete other people's comments
+  | "notifications:read"
+  | "routes:plan" // order assigned jobs into a day's route
+  | "users:list"
+  | "users:availability" // employees their own, staff anyone's
+  | "users:approve"
+  | "dashboard:resident"
+  | "dashboard:employee"
+  | "dashboard:staff";
+
+const staffPermissions: Permission[] = [
+  "issues:create",
+  "issues:read",
+  "issues:list-all",
+  "issues:update-status",
+  "issues:manage",
+  "issues:comment",
+  "comments:internal",
+  "comments:moderate",
+  "notifications:read",
+  "routes:plan",
+  "users:list",
+  "users:availability",
+  "dashboard:staff",
+];
+
+// Central permission matrix - guests can still submit and view reports
+export const rolePermissions: Record<Role, Permission[]> = {
+  guest: ["issues:create", "issues:read"],
+  resident: [
+    "issues:create",
+    "issues:read",
+    "issues:list-own",
+    "issues:confirm",
+    "issues:support",
+    "issues:comment",
+    "notifications:read",
+    "dashboard:resident",
+  ],
+  employee: [
+    "issues:create",
+    "issues:read",
+    "issues:list-assigned",
+    "issues:update-status",
+    "issues:comment",
+    "comments:internal",
+    "notifications:read",
+    "routes:plan",
+    "users:availability",
+    "dashboard:employee",
+  ],
+  staff: staffPermissions,
+  admin: [...staffPermissions, "users:approve"],
+};
+
+export interface RouteRule {
+  path: string; // "/api/issues/:id" style pattern, matches sub-paths for pages
+  methods?: string[]; // all methods when omitted
+  permission: Permission | Permission[]; // any one of them grants access
+}
+
+// Checked in order by src/proxy.ts; the first matching rule applies and
+// unmatched paths are public
+export const routeRules: RouteRule[] = [
+  { path: "/staff-dashboard", permission: "dashboard:staff" },
+  { path: "/employee-dashboard", permission: "dashboard:employee" },
+  { path: "/resident-dashboard", permission: "dashboard:resident" },
+
+  { path: "/api/issues/similar", methods: ["POST"], permission: "issues:create" },
+  { path: "/api/issues/auto-assign", permission: "issues:manage" },
+  { path: "/api/issues/:id/assign", permission: "issues:manage" },
+  { path: "/api/issues/:id/auto-assign", permission: "issues:manage" },
+  { path: "/api/issues/:id/merge", permission: "issues:manage" },
+  { path: "/api/issues/:id/support", methods: ["POST"], permission: "issues:support" },
+  { path: "/api/issues/:id/confirm", permission: "issues:confirm" },
+  { path: "/api/issues/:id/reject", permission: "issues:confirm" },
+  { path: "/api/issues/:id/view", permission: "issues:read" },
+  {
+    path: "/api/issues/:id/attachments",
+    methods: ["POST"],
+    permission: ["issues:confirm", "issues:update-status"],
+  },
+  { path: "/api/issues/:id/comments/:commentId", permission: "issues:comment" },
+  { path: "/api/issues/:id/comments", methods: ["GET"], permission: "issues:read" },
+  { path: "/api/issues/:id/comments", methods: ["POST"], permission: "issues:comment" },
+  { path: "/api/issues/:id", methods: ["GET"], permission: "issues:read" },
+  { path: "/api/issues/:id", methods: ["PATCH"], permission: "issues:update-status" },
+  { path: "/api/issues/:id", methods: ["DELETE"], permission: "issues:manage" },
+  { path: "/api/issues", methods: ["POST"], permission: "issues:create" },
+  {
+    path: "/api/issues",
+    methods: ["GET"],
+    permission: ["issues:list-own", "issues:list-assigned", "issues:list-all"],
+  },
+
+  { path: "/api/attachments/:id", methods: ["GET"], permission: "issues:read" },
+  { path: "/api/attachments", methods: ["POST"], permission: "issues:create" },
+
+  { path: "/api/verify-resolution", methods: ["POST"], permission: "issues:update-status" },
+
+  { path: "/api/notifications/:id", permission: "notifications:read" },
+  { path: "/api/notifications/read", permission: "notifications:read" },
+  { path: "/api/notifications", permission: "notifications:read" },
+
+  { path: "/api/users/:id/approve", permission: "users:approve" },
+  { path: "/api/users/:id/reject", permission: "users:approve" },
+  { path: "/api/users/:id/availability", permission: "users:availability" },
+  { path: "/api/users", permission: "users:list" },
+
+  { path: "/api/depots", permission: "routes:plan" },
+];
+
+// Accounts awaiting approval (or declined) get guest rights only
+export function getEffectiveRole(user: User | null): Role {
+  if (!user) return "guest";
+  if (user.status && user.status !== "active") return "guest";
+  return user.role;
+}
+
+export function hasPermission(user: User | null, permission: Permission): boolean {
+  return rolePermissions[getEffectiveRole(user)].includes(permission);
+}
+
+const matchesPath = (pattern: string, pathname: string, exact: boolean) => {
+  const regex = pattern
+    .split("/")
+    .map((segment) => (segment.startsWith(":") ? "[^/]+" : segment))
+    .join("/");
+  return new RegExp(`^${regex}${exact ? "" : "(/.*)?"}$`).test(pathname);
+};
+
+export function findRouteRule(pathname: string, method: string): RouteRule | null {
+  const isApi = pathname.startsWith("/api/");
+  return (
+    routeRules.find(
+      (rule) =>
+        matchesPath(rule.path, pathname, isApi) &&
+        (!rule.methods || rule.methods.includes(method))
+    ) || null
+  );
+}
+
+export function canAccessRoute(user: User | null, rule: RouteRule): boolean {
+  const permissions = Array.isArray(rule.permission)
+    ? rule.permission
+    : [rule.permission];
+  return permissions.some((permission) => hasPermission(user, permission));
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { makeIssue } from "@/test/fixtures";
+import {
+  AUTO_CLOSE_MIN_CONFIDENCE,
+  ResolutionVerification,
+  resolutionVerificationUtils,
+  validateResolutionComparison,
+} from "./resolutionVerification";
+
+describe("validateResolutionComparison", () => {
+  it("accepts a verdict, confidence and summary", () => {
+    expect(
+      validateResolutionComparison({ verdict: "fixed", confidence: 0.92, summary: " Pothole filled " })
+    ).toEqual({
+      result: { verdict: "fixed", confidence: 0.92, summary: "Pothole filled" },
+      errors: [],
+    });
+  });
+
+  it("coerces common spellings of the verdict", () => {
+    expect(validateResolutionComparison({ verdict: "Resolved", confidence: 1 }).result?.verdict).toBe("fixed");
+    expect(validateResolutionComparison({ verdict: "Not Fixed", confidence: "0.4" }).result).toEqual({
+      verdict: "not-fixed",
+      confidence: 0.4,
+      summary: "",
+    });
+  });
+
+  it("rejects unknown verdicts and confidences outside 0-1", () => {
+    const { result, errors } = validateResolutionComparison({ verdict: "looks ok", confidence: 85 });
+    expect(result).toBeNull();
+    expect(errors.map((error) => error.path)).toEqual(["verdict", "confidence"]);
+    expect(validateResolutionComparison("fixed").errors[0].path).toBe("");
+  });
+});
+
+describe("canAutoClose", () => {
+  const verification = (overrides: Partial<ResolutionVerification> = {}): ResolutionVerification => ({
+    verdict: "fixed",
+    confidence: AUTO_CLOSE_MIN_CONFIDENCE,
+    summary: "",
+    beforeAttachmentId: "before",
+    afterAttachmentId: "after",
+    verifiedAt: "2026-03-02T10:00:00.000Z",
+    ...overrides,
+  });
+  const awaiting = (resolutionVerification?: ResolutionVerification) =>
+    makeIssue({
+      status: "awaiting-confirmation",
+      resolvedAt: "2026-03-02T09:00:00.000Z",
+      resolutionVerification,
+    });
+
+  it("closes on a confident fixed verdict made after the resolution", () => {
+    expect(resolutionVerificationUtils.canAutoClose(awaiting(verification()))).toBe(true);
+  });
+
+  it("waits for a person without a verdict, or with a weak or negative one", () => {
+    expect(resolutionVerificationUtils.canAutoClose(awaiting())).toBe(false);
+    expect(
+      resolutionVerificationUtils.canAutoClose(awaiting(verification({ confidence: 0.79 })))
+    ).toBe(false);
+    expect(
+      resolutionVerificationUtils.canAutoClose(awaiting(verification({ verdict: "partially-fixed" })))
+    ).toBe(false);
+    expect(
+      resolutionVerificationUtils.canAutoClose(awaiting(verification({ verdict: "different-location" })))
+    ).toBe(false);
+  });
+
+  it("ignores a verdict from before the issue was resolved again", () => {
+    expect(
+      resolutionVerificationUtils.canAutoClose(
+        awaiting(verification({ verifiedAt: "2026-03-01T10:00:00.000Z" }))
+      )
+    ).toBe(false);
+  });
+
+  it("only applies to issues awaiting confirmation", () => {
+    const closed = { ...awaiting(verification()), status: "closed" as const };
+    expect(resolutionVerificationUtils.canAutoClose(closed)).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+// utils/resolutionVerification.ts
+import { apiRequest } from "./apiClient";
+import { ValidationIssue } from "./analysisSchema";
+import { Issue } from "./localStorage";
+
+export const RESOLUTION_VERDICTS = [
+  "fixed",
+  "partially-fixed",
+  "not-fixed",
+  "different-location",
+] as const;
+
+export type ResolutionVerdict = (typeof RESOLUTION_VERDICTS)[number];
+
+// What the vision model concluded from the before and after photos
+export interface ResolutionComparison {
+  verdict: ResolutionVerdict;
+  confidence: number; // 0-1
+  summary: string;
+}
+
+// A comparison as stored on the issue, with the photos it was based on
+export interface ResolutionVerification extends ResolutionComparison {
+  beforeAttachmentId: string;
+  afterAttachmentId: string;
+  verifiedAt: string;
+}
+
+// A "fixed" verdict below this confidence needs a person to close the issue
+export const AUTO_CLOSE_MIN_CONFIDENCE = 0.8;
+
+export const resolutionVerdictLabels: Record<ResolutionVerdict, string> = {
+  fixed: "✅ Fixed",
+  "partially-fixed": "🟠 Partially Fixed",
+  "not-fixed": "❌ Not Fixed",
+  "different-location": "📍 Different Location",
+};
+
+const verdictAliases: { [key: string]: ResolutionVerdict } = {
+  resolved: "fixed",
+  repaired: "fixed",
+  partial: "partially-fixed",
+  "partially fixed": "partially-fixed",
+  unresolved: "not-fixed",
+  "not fixed": "not-fixed",
+  "different location": "different-location",
+  mismatch: "different-location",
+};
+
+// Checks a model reply against the comparison schema; verdicts are coerced
+// from common spellings, anything else is reported as an error
+export function validateResolutionComparison(raw: unknown): {
+  result: ResolutionComparison | null;
+  errors: ValidationIssue[];
+} {
+  const errors: ValidationIssue[] = [];
+  if (!raw || typeof raw !== "object") {
+    return { result: null, errors: [{ path: "", message: "Expected a JSON object", received: raw }] };
+  }
+
+  const value = raw as { [key: string]: unknown };
+  const verdictText = String(value.verdict ?? "").trim().toLowerCase();
+  const verdict = (RESOLUTION_VERDICTS as readonly string[]).includes(verdictText)
+    ? (verdictText as ResolutionVerdict)
+    : verdictAliases[verdictText];
+  if (!verdict) {
+    errors.push({
+      path: "verdict",
+      message: `Must be one of: ${RESOLUTION_VERDICTS.join(", ")}`,
+      received: value.verdict,
+    });
+  }
+
+  const confidence = Number(value.confidence);
+  if (!Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+    errors.push({
+      path: "confidence",
+      message: "Must be a number between 0 and 1",
+      received: value.confidence,
+    });
+  }
+
+  if (errors.length > 0) return { result: null, errors };
+  return {
+    result: {
+      verdict: verdict!,
+      confidence,
+      summary: typeof value.summary === "string" ? value.summary.trim().slice(0, 500) : "",
+    },
+    errors,
+  };
+}
+
+export const resolutionVerificationUtils = {
+  // Ask the server to compare the report photo with the latest completion photo
+  verify: async (issueId: string): Promise<Issue> => {
+    const { issue } = await apiRequest<{ issue: Issue }>("/api/verify-resolution", {
+      method: "POST",
+      body: JSON.stringify({ issueId }),
+    });
+    return issue;
+  },
+
+  // Only a confident "fixed" verdict made after the latest resolution lets the
+  // system close an issue the reporter never responded to
+  canAutoClose(issue: Issue): boolean {
+    const verification = issue.resolutionVerification;
+    if (issue.status !== "awaiting-confirmation" || !verification) return false;
+    if (issue.resolvedAt && verification.verifiedAt < issue.resolvedAt) return false;
+    return (
+      verification.verdict === "fixed" &&
+      verification.confidence >= AUTO_CLOSE_MIN_CONFIDENCE
+    );
+  },
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { makeIssue } from "@/test/fixtures";
+import { getDistanceBetweenPoints } from "./geoLocation";
+import { Issue } from "./localStorage";
+import { Depot, RouteStart, formatDistance, planRoute, priorityWeights, routeUtils } from "./routePlanner";
+
+const depot: RouteStart = { name: "Depot", latitude: -26.2, longitude: 28 };
+// About 1 km per 0.009 degrees of latitude
+const KM = 0.009;
+
+const job = (id: string, north: number, east: number, overrides: Partial<Issue> = {}) =>
+  makeIssue({
+    id,
+    status: "assigned",
+    latitude: depot.latitude + north * KM,
+    longitude: depot.longitude + east * KM,
+    ...overrides,
+  });
+
+const order = (issues: Issue[], returnToStart = false) =>
+  planRoute(depot, issues, returnToStart).stops.map((stop) => stop.issue.id);
+
+type Point = { latitude: number; longitude: number };
+const km = (a: Point, b: Point) =>
+  getDistanceBetweenPoints(a.latitude, a.longitude, b.latitude, b.longitude);
+
+// The cost planRoute minimises, for checking against every possible order
+function cost(stops: Issue[], returnToStart: boolean): number {
+  let travelled = 0;
+  let total = 0;
+  let previous: Point = depot;
+  stops.forEach((stop) => {
+    const point = { latitude: stop.latitude!, longitude: stop.longitude! };
+    travelled += km(previous, point);
+    total += priorityWeights[stop.priority] * travelled;
+    previous = point;
+  });
+  return returnToStart ? total + travelled + km(previous, depot) : total;
+}
+
+const permutations = <T>(items: T[]): T[][] =>
+  items.length <= 1
+    ? [items]
+    : items.flatMap((item, i) =>
+        permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [item, ...rest])
+      );
+
+describe("planRoute", () => {
+  it("visits jobs along a street in order", () => {
+    expect(order([job("c", 3, 0), job("a", 1, 0), job("b", 2, 0)])).toEqual(["a", "b", "c"]);
+  });
+
+  it("makes a detour for urgent jobs", () => {
+    const near = job("near", 0, 1, { priority: "low" });
+    const urgent = job("urgent", 0, -1.5, { priority: "urgent" });
+    expect(order([near, urgent])).toEqual(["urgent", "near"]);
+  });
+
+  it("finds the cheapest order for small lists", () => {
+    const jobs = [
+      job("a", 2, 1),
+      job("b", -1, 3, { priority: "high" }),
+      job("c", 4, -2),
+      job("d", -3, -1, { priority: "low" }),
+      job("e", 1, 4, { priority: "urgent" }),
+      job("f", 0, -3),
+    ];
+    for (const returnToStart of [false, true]) {
+      const best = Math.min(...permutations(jobs).map((p) => cost(p, returnToStart)));
+      const planned = planRoute(depot, jobs, returnToStart).stops.map((s) => s.issue);
+      expect(cost(planned, returnToStart)).toBeCloseTo(best, 6);
+    }
+  });
+
+  it("only includes open jobs and lists those without coordinates as skipped", () => {
+    const route = planRoute(depot, [
+      job("open", 1, 0),
+      job("started", 2, 0, { status: "in-progress" }),
+      job("done", 3, 0, { status: "closed" }),
+      makeIssue({ id: "unlocated", status: "reopened" }),
+    ]);
+    expect(route.stops.map((s) => s.issue.id)).toEqual(["open", "started"]);
+    expect(route.skipped.map((i) => i.id)).toEqual(["unlocated"]);
+  });
+
+  it("adds up the legs and the way back", () => {
+    const route = planRoute(depot, [job("a", 1, 0), job("b", 2, 0)], true);
+    expect(route.stops[0].legKm).toBeCloseTo(1, 1);
+    expect(route.stops[1].distanceKm).toBeCloseTo(2, 1);
+    expect(route.returnKm).toBeCloseTo(2, 1);
+    expect(route.totalKm).toBeCloseTo(route.stops[1].distanceKm + route.returnKm!, 9);
+  });
+
+  it("plans an empty route when nothing is open", () => {
+    expect(planRoute(depot, [], true)).toEqual({
+      start: depot,
+      stops: [],
+      returnKm: undefined,
+      totalKm: 0,
+      skipped: [],
+    });
+  });
+});
+
+describe("formatDistance", () => {
+  it("uses metres below a kilometre", () => {
+    expect(formatDistance(0.42)).toBe("420 m");
+    expect(formatDistance(12.345)).toBe("12.3 km");
+  });
+});
+
+describe("getDefaultDepot", () => {
+  const depots: Depot[] = [
+    { id: "water", name: "Water Works", latitude: 0, longitude: 0, departments: ["water"] },
+    { id: "main", name: "Main Yard", latitude: 0, longitude: 0 },
+  ];
+
+  it("prefers the department's own depot, then a shared one", () => {
+    expect(routeUtils.getDefaultDepot(depots, "water")?.id).toBe("water");
+    expect(routeUtils.getDefaultDepot(depots, "roads")?.id).toBe("main");
+    expect(routeUtils.getDefaultDepot([depots[0]], "roads")?.id).toBe("water");
+    expect(routeUtils.getDefaultDepot([], "roads")).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+// utils/routePlanner.ts
+// Orders an employee's open jobs into a day's route from their depot. The
+// order starts as a nearest-neighbour tour that favours urgent jobs and is
+// then improved with 2-opt. Distances are straight lines (haversine), so
+// they understate the drive but rank the stops the same way.
+import { apiRequest } from "./apiClient";
+import { getDistanceBetweenPoints } from "./geoLocation";
+import { Issue, IssueStatus } from "./localStorage";
+
+// Where an employee's day starts, configured on the server. A depot serves
+// the listed departments, or every department when none are listed
+export interface Depot {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  departments?: string[];
+}
+
+export type RouteStart = Pick<Depot, "name" | "latitude" | "longitude">;
+
+export interface RouteStop {
+  issue: Issue;
+  legKm: number; // from the previous stop
+  distanceKm: number; // from the start of the route
+}
+
+export interface PlannedRoute {
+  start: RouteStart;
+  stops: RouteStop[];
+  returnKm?: number; // back to the start, when the route returns there
+  totalKm: number;
+  skipped: Issue[]; // open jobs without coordinates
+}
+
+// Jobs that still need a visit
+export const ROUTE_STATUSES: IssueStatus[] = ["assigned", "in-progress", "reopened"];
+
+// How much sooner a job should be reached: a stop twice as heavy is worth a
+// detour of twice the distance
+export const priorityWeights: Record<Issue["priority"], number> = {
+  urgent: 8,
+  high: 4,
+  medium: 2,
+  low: 1,
+};
+
+// 2-opt stops early on very long lists rather than keep the page busy
+const MAX_IMPROVEMENT_PASSES = 50;
+
+interface Point {
+  latitude: number;
+  longitude: number;
+}
+
+const distance = (a: Point, b: Point): number =>
+  getDistanceBetweenPoints(a.latitude, a.longitude, b.latitude, b.longitude);
+
+const toPoint = (issue: Issue): Point => ({ latitude: issue.latitude!, longitude: issue.longitude! });
+
+// Sum of each stop's weight times the distance travelled before reaching it,
+// plus the way back. Lower is better: heavy jobs want to come early
+function routeCost(start: Point, stops: Issue[], returnToStart: boolean): number {
+  let travelled = 0;
+  let cost = 0;
+  let previous = start;
+  stops.forEach((issue) => {
+    const point = toPoint(issue);
+    travelled += distance(previous, point);
+    cost += priorityWeights[issue.priority] * travelled;
+    previous = point;
+  });
+  return returnToStart ? cost + travelled + distance(previous, start) : cost;
+}
+
+// Each step goes to the stop with the smallest distance per unit of weight
+function nearestNeighbour(start: Point, issues: Issue[]): Issue[] {
+  const remaining = [...issues];
+  const order: Issue[] = [];
+  let current = start;
+  while (remaining.length > 0) {
+    let best = 0;
+    let bestScore = Infinity;
+    remaining.forEach((issue, index) => {
+      const score = distance(current, toPoint(issue)) / priorityWeights[issue.priority];
+      if (score < bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    });
+    const [next] = remaining.splice(best, 1);
+    order.push(next);
+    current = toPoint(next);
+  }
+  return order;
+}
+
+// Reverses stretches of the route while that lowers its cost
+function twoOpt(start: Point, order: Issue[], returnToStart: boolean): Issue[] {
+  let route = order;
+  let best = routeCost(start, route, returnToStart);
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 0; i < route.length - 1; i++) {
+      for (let j = i + 1; j < route.length; j++) {
+        const candidate = [
+          ...route.slice(0, i),
+          ...route.slice(i, j + 1).reverse(),
+          ...route.slice(j + 1),
+        ];
+        const cost = routeCost(start, candidate, returnToStart);
+        if (cost < best - 1e-9) {
+          route = candidate;
+          best = cost;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return route;
+}
+
+export function planRoute(start: RouteStart, issues: Issue[], returnToStart = false): PlannedRoute {
+  const open = issues.filter((issue) => ROUTE_STATUSES.includes(issue.status));
+  const located = open.filter(
+    (issue) => typeof issue.latitude === "number" && typeof issue.longitude === "number"
+  );
+  const order = twoOpt(start, nearestNeighbour(start, located), returnToStart);
+
+  let travelled = 0;
+  let previous: Point = start;
+  const stops = order.map((issue) => {
+    const point = toPoint(issue);
+    const legKm = distance(previous, point);
+    travelled += legKm;
+    previous = point;
+    return { issue, legKm, distanceKm: travelled };
+  });
+  const returnKm = returnToStart && stops.length > 0 ? distance(previous, start) : undefined;
+
+  return {
+    start,
+    stops,
+    returnKm,
+    totalKm: travelled + (returnKm || 0),
+    skipped: open.filter((issue) => !located.includes(issue)),
+  };
+}
+
+export const formatDistance = (km: number): string =>
+  km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+
+let depotsRequest: Promise<Depot[]> | null = null;
+
+export const routeUtils = {
+  // Depots configured on the server, fetched once per page load
+  getDepots: (): Promise<Depot[]> => {
+    if (!depotsRequest) {
+      depotsRequest = apiRequest<{ depots: Depot[] }>("/api/depots")
+        .then(({ depots }) => depots)
+        .catch((error) => {
+          console.error("Failed to load depots:", error);
+          depotsRequest = null;
+          return [];
+        });
+    }
+    return depotsRequest;
+  },
+
+  // The depot serving the department, else one serving every department
+  getDefaultDepot(depots: Depot[], department?: string): Depot | null {
+    return (
+      depots.find((depot) => !!department && !!depot.departments?.includes(department)) ||
+      depots.find((depot) => !depot.departments?.length) ||
+      depots[0] ||
+      null
+    );
+  },
+};
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { makeIssue } from "@/test/fixtures";
+import { IssueSla, defaultSlaPolicies, slaUtils } from "./sla";
+
+const created = "2026-01-01T08:00:00.000Z";
+const hoursAfter = (hours: number) =>
+  new Date(new Date(created).getTime() + hours * 60 * 60 * 1000).toISOString();
+
+// medium priority: acknowledge within 24 hours, resolve within 168
+const sla = (overrides: Partial<IssueSla> = {}): IssueSla => ({
+  policyId: "medium",
+  startedAt: created,
+  acknowledgeBy: hoursAfter(24),
+  resolveBy: hoursAfter(168),
+  ...overrides,
+});
+
+describe("findPolicy", () => {
+  it("prefers a category-specific policy", () => {
+    const issue = makeIssue({ category: "water", priority: "urgent" });
+    expect(slaUtils.findPolicy(defaultSlaPolicies, issue)?.id).toBe("water-urgent");
+  });
+
+  it("falls back to the priority-wide policy", () => {
+    const issue = makeIssue({ category: "roads", priority: "urgent" });
+    expect(slaUtils.findPolicy(defaultSlaPolicies, issue)?.id).toBe("urgent");
+  });
+
+  it("returns null when nothing matches", () => {
+    expect(slaUtils.findPolicy([], makeIssue())).toBeNull();
+  });
+});
+
+describe("computeIssueSla", () => {
+  it("sets the deadlines from the creation time", () => {
+    expect(slaUtils.computeIssueSla(makeIssue(), defaultSlaPolicies)).toEqual(sla());
+  });
+
+  it("records when the report left pending and when it was resolved", () => {
+    const issue = makeIssue({
+      status: "awaiting-confirmation",
+      resolvedAt: hoursAfter(30),
+      statusHistory: [
+        { status: "pending", changedBy: "System", changedAt: created },
+        { status: "triaged", changedBy: "Staff", changedAt: hoursAfter(2) },
+        { status: "awaiting-confirmation", changedBy: "Staff", changedAt: hoursAfter(30) },
+      ],
+    });
+    expect(slaUtils.computeIssueSla(issue, defaultSlaPolicies)).toMatchObject({
+      acknowledgedAt: hoursAfter(2),
+      resolvedAt: hoursAfter(30),
+    });
+  });
+
+  it("skips merged duplicates", () => {
+    const issue = makeIssue({ parentIssueId: "2" });
+    expect(slaUtils.computeIssueSla(issue, defaultSlaPolicies)).toBeUndefined();
+  });
+});
+
+describe("getState", () => {
+  const at = (hours: number) => new Date(hoursAfter(hours));
+
+  it("is on track early on", () => {
+    expect(slaUtils.getState(sla(), at(1))).toBe("on-track");
+  });
+
+  it("is at risk once most of the time to the next deadline has gone", () => {
+    expect(slaUtils.getState(sla(), at(18))).toBe("at-risk");
+    expect(slaUtils.getState(sla({ acknowledgedAt: hoursAfter(1) }), at(18))).toBe("on-track");
+    expect(slaUtils.getState(sla({ acknowledgedAt: hoursAfter(1) }), at(130))).toBe("at-risk");
+  });
+
+  it("is breached by a missed or late acknowledgement", () => {
+    expect(slaUtils.getState(sla(), at(25))).toBe("breached");
+    expect(
+      slaUtils.getState(sla({ acknowledgedAt: hoursAfter(30), resolvedAt: hoursAfter(40) }), at(50))
+    ).toBe("breached");
+  });
+
+  it("is met or breached for good once resolved", () => {
+    expect(
+      slaUtils.getState(sla({ acknowledgedAt: hoursAfter(1), resolvedAt: hoursAfter(100) }), at(500))
+    ).toBe("met");
+    expect(
+      slaUtils.getState(sla({ acknowledgedAt: hoursAfter(1), resolvedAt: hoursAfter(200) }), at(500))
+    ).toBe("breached");
+  });
+});
+
+describe("getNextDeadline", () => {
+  it("moves from acknowledging to resolving", () => {
+    expect(slaUtils.getNextDeadline(sla())).toEqual({ label: "Acknowledge by", dueAt: hoursAfter(24) });
+    expect(slaUtils.getNextDeadline(sla({ acknowledgedAt: hoursAfter(1) }))).toEqual({
+      label: "Resolve by",
+      dueAt: hoursAfter(168),
+    });
+    expect(slaUtils.getNextDeadline(sla({ resolvedAt: hoursAfter(5) }))).toBeNull();
+  });
+});
+
+describe("getComplianceByDepartment", () => {
+  it("counts met and breached issues per department, worst first", () => {
+    const met = sla({ acknowledgedAt: hoursAfter(1), resolvedAt: hoursAfter(10) });
+    const breached = sla({ acknowledgedAt: hoursAfter(1), resolvedAt: hoursAfter(200) });
+    const stats = slaUtils.getComplianceByDepartment(
+      [
+        makeIssue({ id: "1", department: "roads", sla: met }),
+        makeIssue({ id: "2", department: "roads", sla: breached }),
+        makeIssue({ id: "3", category: "water", sla: met }),
+        makeIssue({ id: "4", category: "water" }), // no policy matched
+      ],
+      new Date(hoursAfter(500))
+    );
+    expect(stats).toEqual([
+      { department: "roads", total: 2, met: 1, breached: 1, atRisk: 0, complianceRate: 50 },
+      { department: "water", total: 1, met: 1, breached: 0, atRisk: 0, complianceRate: 100 },
+    ]);
+  });
+});
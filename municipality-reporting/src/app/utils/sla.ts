@@ -0,0 +1,170 @@
+// utils/sla.ts
+import { getStatusPhase } from "./issueWorkflow";
+import { Issue } from "./localStorage";
+
+// Response targets for one priority, optionally narrowed to a category
+export interface SlaPolicy {
+  id: string;
+  category?: string; // applies to every category when omitted
+  priority: Issue["priority"];
+  acknowledgeHours: number;
+  resolveHours: number;
+}
+
+// Due dates and progress against the matching policy - computed by the
+// server whenever an issue is read, never stored
+export interface IssueSla {
+  policyId: string;
+  startedAt: string;
+  acknowledgeBy: string;
+  resolveBy: string;
+  acknowledgedAt?: string;
+  resolvedAt?: string;
+}
+
+export type SlaState = "on-track" | "at-risk" | "breached" | "met";
+
+export interface SlaComplianceStats {
+  department: string;
+  total: number;
+  met: number;
+  breached: number;
+  atRisk: number;
+  complianceRate: number; // met / (met + breached), as a percentage
+}
+
+// Share of a deadline that may pass before an issue counts as at risk
+export const SLA_AT_RISK_THRESHOLD = 0.75;
+
+export const defaultSlaPolicies: SlaPolicy[] = [
+  { id: "water-urgent", category: "water", priority: "urgent", acknowledgeHours: 2, resolveHours: 24 },
+  { id: "electricity-urgent", category: "electricity", priority: "urgent", acknowledgeHours: 2, resolveHours: 24 },
+  { id: "safety-urgent", category: "safety", priority: "urgent", acknowledgeHours: 1, resolveHours: 12 },
+  { id: "urgent", priority: "urgent", acknowledgeHours: 4, resolveHours: 48 },
+  { id: "high", priority: "high", acknowledgeHours: 8, resolveHours: 72 },
+  { id: "medium", priority: "medium", acknowledgeHours: 24, resolveHours: 168 },
+  { id: "low", priority: "low", acknowledgeHours: 48, resolveHours: 336 },
+];
+
+export const slaStateLabels: Record<SlaState, string> = {
+  "on-track": "🟢 On Track",
+  "at-risk": "🟠 At Risk",
+  breached: "🔴 SLA Breached",
+  met: "✅ SLA Met",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const addHours = (iso: string, hours: number) =>
+  new Date(new Date(iso).getTime() + hours * HOUR_MS).toISOString();
+
+const isAfter = (a: string, b: string) => new Date(a).getTime() > new Date(b).getTime();
+
+export const slaUtils = {
+  // Category-specific policies win over the priority-wide default
+  findPolicy(policies: SlaPolicy[], issue: Issue): SlaPolicy | null {
+    return (
+      policies.find(
+        (p) => p.category === issue.category && p.priority === issue.priority
+      ) ||
+      policies.find((p) => !p.category && p.priority === issue.priority) ||
+      null
+    );
+  },
+
+  computeIssueSla(issue: Issue, policies: SlaPolicy[]): IssueSla | undefined {
+    // A merged duplicate is tracked through its parent
+    const policy = this.findPolicy(policies, issue);
+    if (!policy || issue.parentIssueId) return undefined;
+
+    // Acknowledged once the report leaves pending; resolved while it sits in
+    // awaiting-confirmation, closed or rejected
+    const acknowledgedAt = issue.statusHistory?.find(
+      (entry) => entry.status !== "pending"
+    )?.changedAt;
+    const phase = getStatusPhase(issue.status);
+    const resolvedAt =
+      phase === "resolved" || phase === "rejected"
+        ? issue.resolvedAt ||
+          [...(issue.statusHistory || [])].reverse().find(
+            (entry) => entry.status === issue.status
+          )?.changedAt ||
+          issue.updatedAt
+        : undefined;
+
+    return {
+      policyId: policy.id,
+      startedAt: issue.createdAt,
+      acknowledgeBy: addHours(issue.createdAt, policy.acknowledgeHours),
+      resolveBy: addHours(issue.createdAt, policy.resolveHours),
+      acknowledgedAt,
+      resolvedAt,
+    };
+  },
+
+  getState(sla: IssueSla, now: Date = new Date()): SlaState {
+    const nowIso = now.toISOString();
+    const lateAcknowledgement = sla.acknowledgedAt
+      ? isAfter(sla.acknowledgedAt, sla.acknowledgeBy)
+      : isAfter(nowIso, sla.acknowledgeBy);
+    if (lateAcknowledgement) return "breached";
+
+    if (sla.resolvedAt) {
+      return isAfter(sla.resolvedAt, sla.resolveBy) ? "breached" : "met";
+    }
+    if (isAfter(nowIso, sla.resolveBy)) return "breached";
+
+    // At risk once most of the time for the next deadline has gone
+    const deadline = sla.acknowledgedAt ? sla.resolveBy : sla.acknowledgeBy;
+    const start = new Date(sla.startedAt).getTime();
+    const elapsed = (now.getTime() - start) / (new Date(deadline).getTime() - start);
+    return elapsed >= SLA_AT_RISK_THRESHOLD ? "at-risk" : "on-track";
+  },
+
+  // The deadline the assignee should be working towards right now
+  getNextDeadline(sla: IssueSla): { label: string; dueAt: string } | null {
+    if (sla.resolvedAt) return null;
+    return sla.acknowledgedAt
+      ? { label: "Resolve by", dueAt: sla.resolveBy }
+      : { label: "Acknowledge by", dueAt: sla.acknowledgeBy };
+  },
+
+  getComplianceByDepartment(
+    issues: Issue[],
+    now: Date = new Date()
+  ): SlaComplianceStats[] {
+    const byDepartment: { [department: string]: SlaComplianceStats } = {};
+
+    issues.forEach((issue) => {
+      if (!issue.sla) return;
+      const department = issue.department || issue.category;
+      if (!byDepartment[department]) {
+        byDepartment[department] = {
+          department,
+          total: 0,
+          met: 0,
+          breached: 0,
+          atRisk: 0,
+          complianceRate: 0,
+        };
+      }
+
+      const stats = byDepartment[department];
+      stats.total++;
+      const state = this.getState(issue.sla, now);
+      if (state === "met") stats.met++;
+      if (state === "breached") stats.breached++;
+      if (state === "at-risk") stats.atRisk++;
+    });
+
+    return Object.values(byDepartment)
+      .map((stats) => ({
+        ...stats,
+        complianceRate:
+          stats.met + stats.breached > 0
+            ? Math.round((stats.met / (stats.met + stats.breached)) * 100)
+            : 100,
+      }))
+      .sort((a, b) => a.complianceRate - b.complianceRate);
+  },
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { makeIssue } from "@/test/fixtures";
+import { IssueAttachment } from "./attachments";
+import { Issue } from "./localStorage";
+import { SimilarityCandidate, smartSearchUtils } from "./smartSearch";
+
+const photo = (perceptualHash: string) =>
+  ({ id: `photo-${perceptualHash}`, perceptualHash }) as IssueAttachment;
+
+const analysed = (keywords: string[], overrides: Partial<Issue> = {}) =>
+  makeIssue({
+    aiAnalysis: { issueType: "pothole", keywords } as Issue["aiAnalysis"],
+    ...overrides,
+  });
+
+// A new pothole report on Main Road
+const candidate: SimilarityCandidate = {
+  category: "roads",
+  latitude: -26.2041,
+  longitude: 28.0473,
+  aiAnalysis: { issueType: "pothole", keywords: ["pothole", "road", "tar"] },
+};
+
+describe("photoDistance", () => {
+  it("is the smallest distance between any two hashed photos", () => {
+    const a = { attachments: [photo("ffffffffffffffff"), photo("0000000000000000")] };
+    const b = { attachments: [photo("000000000000000f")] };
+    expect(smartSearchUtils.photoDistance(a, b)).toBe(4);
+  });
+
+  it("is null when either side has no hashed photo", () => {
+    const hashed = { attachments: [photo("0000000000000000")] };
+    expect(smartSearchUtils.photoDistance(hashed, { attachments: [] })).toBeNull();
+    expect(smartSearchUtils.photoDistance(hashed, {})).toBeNull();
+    expect(
+      smartSearchUtils.photoDistance(hashed, { attachments: [{ id: "unhashed" } as IssueAttachment] })
+    ).toBeNull();
+  });
+});
+
+describe("findSimilarReports", () => {
+  it("finds a nearby report of the same kind", () => {
+    // Two of the three keywords alone score too low; being close makes up for it
+    const nearby = analysed(["pothole", "road"], {
+      id: "nearby",
+      latitude: -26.2042,
+      longitude: 28.0474,
+    });
+    const elsewhere = analysed(["pothole", "road"], {
+      id: "elsewhere",
+      latitude: -25.7479,
+      longitude: 28.2293,
+    });
+
+    const similar = smartSearchUtils.findSimilarReports(candidate, [elsewhere, nearby]);
+    expect(similar.map((issue) => issue.id)).toEqual(["nearby"]);
+  });
+
+  it("puts reports with a near-identical photo first, whatever their keywords", () => {
+    const withPhoto = { ...candidate, attachments: [photo("0000000000000000")] };
+    const sameKeywords = analysed(["pothole", "road", "tar"], {
+      id: "same-keywords",
+      latitude: -26.2041,
+      longitude: 28.0473,
+    });
+    const samePhoto = makeIssue({
+      id: "same-photo",
+      category: "water",
+      attachments: [photo("0000000000000003")],
+    });
+    const otherPhoto = makeIssue({ id: "other-photo", attachments: [photo("ffffffffffffffff")] });
+
+    const similar = smartSearchUtils.findSimilarReports(withPhoto, [
+      sameKeywords,
+      otherPhoto,
+      samePhoto,
+    ]);
+    expect(similar.map((issue) => issue.id)).toEqual(["same-photo", "same-keywords"]);
+  });
+
+  it("skips the report itself and returns at most five", () => {
+    const issues = Array.from({ length: 7 }, (_, i) =>
+      analysed(["pothole", "road", "tar"], {
+        id: `issue-${i}`,
+        latitude: -26.2041,
+        longitude: 28.0473,
+      })
+    );
+
+    const similar = smartSearchUtils.findSimilarReports({ ...candidate, id: "issue-0" }, issues);
+    expect(similar).toHaveLength(5);
+    expect(similar.map((issue) => issue.id)).not.toContain("issue-0");
+  });
+
+  it("finds nothing for a report without keywords or photos", () => {
+    const bare: SimilarityCandidate = { category: "roads", latitude: -26.2041, longitude: 28.0473 };
+    expect(smartSearchUtils.findSimilarReports(bare, [analysed(["pothole"])])).toEqual([]);
+  });
+});
@@ -1,5 +1,7 @@
 // utils/smartSearch.ts
+import { IssueAttachment, attachmentUtils } from "./attachments";
 import { Issue } from "./localStorage";
+import { PHOTO_DUPLICATE_RADIUS, hammingDistance } from "./perceptualHash";
 
 export interface SearchFilters {
   query?: string;
@@ -11,6 +13,7 @@ export interface SearchFilters {
   minConfidence?: number;
   hasPhoto?: boolean;
   assignedTo?: string;
+  wardId?: string;
 }
 
 export interface SortOptions {
@@ -18,6 +21,28 @@ export interface SortOptions {
   direction: "asc" | "desc";
 }
 
+// The fields duplicate detection compares - a saved issue, or a new report
+// that has only been analysed so far
+export type SimilarityCandidate = Pick<Issue, "category" | "latitude" | "longitude"> & {
+  id?: string;
+  aiAnalysis?: Pick<NonNullable<Issue["aiAnalysis"]>, "issueType" | "keywords">;
+  attachments?: Pick<IssueAttachment, "id" | "perceptualHash">[];
+};
+
+// What the duplicate check tells someone about to report - guests included -
+// about an existing report; nothing about who reported it or where exactly
+export interface DuplicateMatch {
+  id: string;
+  title: string;
+  category: string;
+  status: Issue["status"];
+  createdAt: string;
+  distanceKm?: number; // unknown when the existing report has no coordinates
+  samePhoto: boolean; // one of its photos is near-identical to the new one
+}
+
+export const MAX_DUPLICATE_MATCHES = 5;
+
 export const smartSearchUtils = {
   // Fuzzy search in text (case-insensitive)
   fuzzyMatch(text: string, query: string): boolean {
@@ -96,6 +121,13 @@ export const smartSearchUtils = {
       filtered = filtered.filter((issue) => issue.priority === filters.priority);
     }
 
+    // Ward filter - "outside" selects reports outside the municipality
+    if (filters.wardId && filters.wardId !== "all") {
+      filtered = filtered.filter((issue) =>
+        filters.wardId === "outside" ? !!issue.outsideMunicipality : issue.wardId === filters.wardId
+      );
+    }
+
     // Date range filter
     if (filters.dateFrom) {
       const fromDate = new Date(filters.dateFrom);
@@ -121,7 +153,7 @@ export const smartSearchUtils = {
     // Photo filter
     if (filters.hasPhoto !== undefined) {
       filtered = filtered.filter((issue) =>
-        filters.hasPhoto ? !!issue.photoData : !issue.photoData
+        filters.hasPhoto === attachmentUtils.hasPhoto(issue)
       );
     }
 
@@ -181,11 +213,13 @@ export const smartSearchUtils = {
     priorities: string[];
     statuses: string[];
     assignedUsers: string[];
+    wardIds: string[];
   } {
     const categories = new Set<string>();
     const priorities = new Set<string>();
     const statuses = new Set<string>();
     const assignedUsers = new Set<string>();
+    const wardIds = new Set<string>();
 
     issues.forEach((issue) => {
       categories.add(issue.category);
@@ -194,6 +228,9 @@ export const smartSearchUtils = {
       if (issue.assignedTo) {
         assignedUsers.add(issue.assignedTo);
       }
+      if (issue.wardId) {
+        wardIds.add(issue.wardId);
+      }
     });
 
     return {
@@ -203,12 +240,38 @@ export const smartSearchUtils = {
       ),
       statuses: Array.from(statuses).sort(),
       assignedUsers: Array.from(assignedUsers).sort(),
+      wardIds: Array.from(wardIds).sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
     };
   },
 
-  // Get duplicate/similar reports using AI analysis
-  findSimilarReports(issue: Issue, allIssues: Issue[], threshold: number = 0.7): Issue[] {
-    if (!issue.aiAnalysis?.keywords || issue.aiAnalysis.keywords.length === 0) {
+  // Smallest Hamming distance between any photo of one issue and any photo of
+  // the other, or null if either has no hashed photos
+  photoDistance(
+    a: Pick<SimilarityCandidate, "attachments">,
+    b: Pick<SimilarityCandidate, "attachments">
+  ): number | null {
+    let closest: number | null = null;
+    (a.attachments || []).forEach((first) => {
+      (b.attachments || []).forEach((second) => {
+        if (!first.perceptualHash || !second.perceptualHash) return;
+        const distance = hammingDistance(first.perceptualHash, second.perceptualHash);
+        if (closest === null || distance < closest) closest = distance;
+      });
+    });
+    return closest;
+  },
+
+  // Get duplicate/similar reports using AI analysis; issues with a
+  // near-identical photo are probable duplicates and always come first
+  findSimilarReports(
+    issue: SimilarityCandidate,
+    allIssues: Issue[],
+    threshold: number = 0.7,
+    photoRadius: number = PHOTO_DUPLICATE_RADIUS
+  ): Issue[] {
+    const hasKeywords = !!issue.aiAnalysis?.keywords?.length;
+    const hasPhotoHashes = !!issue.attachments?.some((a) => a.perceptualHash);
+    if (!hasKeywords && !hasPhotoHashes) {
       return [];
     }
 
@@ -216,7 +279,13 @@ export const smartSearchUtils = {
 
     allIssues.forEach((otherIssue) => {
       if (otherIssue.id === issue.id) return;
-      if (!otherIssue.aiAnalysis?.keywords) return;
+
+      const photoDistance = this.photoDistance(issue, otherIssue);
+      if (photoDistance !== null && photoDistance <= photoRadius) {
+        similar.push({ issue: otherIssue, score: 2 - photoDistance / 64 });
+        return;
+      }
+      if (!hasKeywords || !otherIssue.aiAnalysis?.keywords) return;
 
       // Calculate similarity based on keywords overlap
       const keywords1 = new Set(
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { OUTSIDE_MUNICIPALITY_LABEL, Ward, findWard, isInWard, wardUtils } from "./wards";
+
+// [longitude, latitude] rings, as in GeoJSON
+const square = (west: number, south: number, east: number, north: number) => [
+  [west, south],
+  [east, south],
+  [east, north],
+  [west, north],
+  [west, south],
+];
+
+const central: Ward = {
+  id: "ward-1",
+  name: "Central",
+  // A park in the middle is cut out as a hole
+  polygons: [[square(0, 0, 10, 10), square(4, 4, 6, 6)]],
+};
+
+const islands: Ward = {
+  id: "ward-2",
+  name: "Islands",
+  polygons: [[square(20, 0, 22, 2)], [square(30, 0, 32, 2)]],
+};
+
+// A concave "L" shape: the top-right corner of its bounding box is outside
+const lShaped: Ward = {
+  id: "ward-3",
+  name: "L",
+  polygons: [[[[40, 0], [44, 0], [44, 2], [42, 2], [42, 4], [40, 4], [40, 0]]]],
+};
+
+describe("isInWard", () => {
+  it("finds points inside the outline", () => {
+    expect(isInWard(1, 1, central)).toBe(true);
+    expect(isInWard(9, 2, central)).toBe(true);
+  });
+
+  it("excludes points outside the outline or inside a hole", () => {
+    expect(isInWard(11, 5, central)).toBe(false);
+    expect(isInWard(-1, 5, central)).toBe(false);
+    expect(isInWard(5, 5, central)).toBe(false);
+  });
+
+  it("checks every polygon of a multi-part ward", () => {
+    expect(isInWard(1, 21, islands)).toBe(true);
+    expect(isInWard(1, 31, islands)).toBe(true);
+    expect(isInWard(1, 26, islands)).toBe(false);
+  });
+
+  it("handles concave outlines", () => {
+    expect(isInWard(1, 43, lShaped)).toBe(true);
+    expect(isInWard(3, 41, lShaped)).toBe(true);
+    expect(isInWard(3, 43, lShaped)).toBe(false);
+  });
+
+  it("ignores polygons without an outline", () => {
+    expect(isInWard(1, 1, { id: "empty", name: "Empty", polygons: [[]] })).toBe(false);
+  });
+});
+
+describe("findWard", () => {
+  it("returns the ward containing the point, or null outside the municipality", () => {
+    const wards = [central, islands, lShaped];
+    expect(findWard(1, 31, wards)?.id).toBe("ward-2");
+    expect(findWard(5, 5, wards)).toBeNull();
+  });
+});
+
+describe("getLabel", () => {
+  const wards = [{ id: "ward-1", name: "Central" }];
+
+  it("names the ward, falling back to its id", () => {
+    expect(wardUtils.getLabel({ wardId: "ward-1" }, wards)).toBe("Central");
+    expect(wardUtils.getLabel({ wardId: "ward-9" }, wards)).toBe("ward-9");
+    expect(wardUtils.getLabel({}, wards)).toBe("");
+  });
+
+  it("labels reports outside every ward", () => {
+    expect(wardUtils.getLabel({ outsideMunicipality: true }, wards)).toBe(OUTSIDE_MUNICIPALITY_LABEL);
+  });
+});
@@ -0,0 +1,74 @@
+// utils/wards.ts
+import { apiRequest } from "./apiClient";
+import { Issue } from "./localStorage";
+
+// A ward boundary from the GeoJSON file configured on the server. Polygons use
+// GeoJSON order: each polygon is a list of rings, the first one the outline
+// and any others holes, each ring a list of [longitude, latitude] positions
+export interface Ward {
+  id: string;
+  name: string;
+  polygons: number[][][][];
+}
+
+// What pages need to label and filter by ward
+export type WardSummary = Pick<Ward, "id" | "name">;
+
+export const OUTSIDE_MUNICIPALITY_LABEL = "Outside municipality";
+
+// Ray casting over a single ring
+function isInRing(latitude: number, longitude: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+    if (
+      latI > latitude !== latJ > latitude &&
+      longitude < ((lngJ - lngI) * (latitude - latI)) / (latJ - latI) + lngI
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function isInWard(latitude: number, longitude: number, ward: Ward): boolean {
+  return ward.polygons.some(
+    ([outline, ...holes]) =>
+      !!outline &&
+      isInRing(latitude, longitude, outline) &&
+      !holes.some((hole) => isInRing(latitude, longitude, hole))
+  );
+}
+
+// The ward a point lies in; the municipality is the union of its wards, so
+// null means the point is outside it
+export function findWard(latitude: number, longitude: number, wards: Ward[]): Ward | null {
+  return wards.find((ward) => isInWard(latitude, longitude, ward)) || null;
+}
+
+let wardsRequest: Promise<WardSummary[]> | null = null;
+
+export const wardUtils = {
+  // Ward ids and names, fetched once per page load; empty when the server
+  // has no ward boundaries configured
+  getWards: (): Promise<WardSummary[]> => {
+    if (!wardsRequest) {
+      wardsRequest = apiRequest<{ wards: WardSummary[] }>("/api/wards")
+        .then(({ wards }) => wards)
+        .catch((error) => {
+          console.error("Failed to load wards:", error);
+          wardsRequest = null;
+          return [];
+        });
+    }
+    return wardsRequest;
+  },
+
+  // How an issue's ward is shown in lists and exports
+  getLabel(issue: Pick<Issue, "wardId" | "outsideMunicipality">, wards: WardSummary[] = []): string {
+    if (issue.outsideMunicipality) return OUTSIDE_MUNICIPALITY_LABEL;
+    if (!issue.wardId) return "";
+    return wards.find((ward) => ward.id === issue.wardId)?.name || issue.wardId;
+  },
+};
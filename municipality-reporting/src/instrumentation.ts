@@ -0,0 +1,80 @@
+// instrumentation.ts
+// Runs once when the server starts; fail fast on missing AI, SLA, routing,
+// ward, geocoding or depot configuration instead of on the first request that
+// needs it.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { getAIProvider } = await import("@/app/server/ai");
+  getAIProvider();
+
+  const { getSlaPolicies } = await import("@/app/server/slaPolicies");
+  getSlaPolicies();
+
+  const { getRoutingRules } = await import("@/app/server/routingRules");
+  getRoutingRules();
+
+  const { getWards } = await import("@/app/server/wardBoundaries");
+  getWards();
+
+  const { getDepots } = await import("@/app/server/depots");
+  getDepots();
+
+  const { getGeocoder, pruneGeocodeCache } = await import("@/app/server/geocoding");
+  getGeocoder();
+  pruneGeocodeCache()
+    .then((count) => count && console.log(`Dropped ${count} expired geocoding lookups`))
+    .catch((error) => console.error("Failed to prune the geocoding cache:", error));
+
+  // Photos used to be stored as base64 inside each issue; move any that are
+  // left into the blob store without holding up startup
+  const { attachmentService } = await import("@/app/server/attachmentService");
+  attachmentService
+    .migrateLegacyPhotos()
+    .then((count) => count && console.log(`Moved ${count} legacy issue photos to the blob store`))
+    .catch((error) => console.error("Failed to migrate legacy photos:", error))
+    // Photos stored before perceptual hashing need a hash for duplicate detection
+    .then(() => attachmentService.backfillPerceptualHashes())
+    .then((count) => count && console.log(`Computed perceptual hashes for ${count} photos`))
+    .catch((error) => console.error("Failed to hash stored photos:", error))
+    // Photos stored before uploads were stripped of EXIF may hold GPS positions
+    .then(() => attachmentService.stripStoredMetadata())
+    .then((count) => count && console.log(`Stripped metadata from ${count} stored photos`))
+    .catch((error) => console.error("Failed to strip photo metadata:", error));
+
+  // Issues reported before the ward boundaries were set up or changed
+  const { issueService } = await import("@/app/server/issueService");
+  issueService
+    .assignWards()
+    .then((count) => count && console.log(`Updated the ward of ${count} issues`))
+    .catch((error) => console.error("Failed to assign wards:", error));
+
+  // Comment files used to be stored as base64 inside each comment
+  const { commentService } = await import("@/app/server/commentService");
+  commentService
+    .migrateInlineAttachments()
+    .then((count) => count && console.log(`Moved the attachments of ${count} comments to the blob store`))
+    .catch((error) => console.error("Failed to migrate comment attachments:", error));
+
+  await scheduleResolutionSweep();
+}
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Hourly: verify new resolutions against their photos and close the ones
+// residents never answered, when verification allows it
+async function scheduleResolutionSweep() {
+  const { verificationService } = await import("@/app/server/verificationService");
+  const sweep = () =>
+    verificationService
+      .sweepAwaitingConfirmation()
+      .then(({ verified, closed }) => {
+        if (verified || closed) {
+          console.log(`Verified ${verified} resolutions, auto-closed ${closed} issues`);
+        }
+      })
+      .catch((error) => console.error("Resolution sweep failed:", error));
+
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
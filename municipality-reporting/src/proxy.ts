@@ -0,0 +1,47 @@
+// proxy.ts (Next.js 16 name for middleware - runs on the Node.js runtime,
+// so it can resolve the server-side session directly)
+import { NextRequest, NextResponse } from "next/server";
+import { getSessionUser } from "@/app/server/auth";
+import { authUtils } from "@/app/utils/auth";
+import {
+  canAccessRoute,
+  findRouteRule,
+  getEffectiveRole,
+} from "@/app/utils/permissions";
+
+export async function proxy(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const rule = findRouteRule(pathname, request.method);
+  if (!rule) return NextResponse.next();
+
+  const user = await getSessionUser(request);
+  if (canAccessRoute(user, rule)) return NextResponse.next();
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      { error: user ? "You do not have permission to do this" : "Sign in required" },
+      { status: user ? 403 : 401 }
+    );
+  }
+
+  // Pages: send guests to login and signed-in users to their own dashboard
+  const target =
+    user && getEffectiveRole(user) !== "guest"
+      ? authUtils.getDashboardPath(user)
+      : "/login";
+  return NextResponse.redirect(new URL(target, request.url));
+}
+
+export const config = {
+  matcher: [
+    "/staff-dashboard/:path*",
+    "/employee-dashboard/:path*",
+    "/resident-dashboard/:path*",
+    "/api/issues/:path*",
+    "/api/attachments/:path*",
+    "/api/verify-resolution",
+    "/api/users/:path*",
+    "/api/notifications/:path*",
+    "/api/depots",
+  ],
+};
@@ -0,0 +1,34 @@
+// test/fixtures.ts
+// Minimal records for unit tests; pass only the fields a test cares about
+import { Issue, User } from "@/app/utils/localStorage";
+
+export function makeIssue(overrides: Partial<Issue> = {}): Issue {
+  return {
+    id: "1",
+    userId: "resident-1",
+    userName: "Thandi Mokoena",
+    title: "Pothole on Main Road",
+    description: "",
+    category: "roads",
+    location: "Main Road",
+    status: "pending",
+    priority: "medium",
+    createdAt: "2026-01-01T08:00:00.000Z",
+    updatedAt: "2026-01-01T08:00:00.000Z",
+    ...overrides,
+  };
+}
+
+export function makeUser(overrides: Partial<User> = {}): User {
+  return {
+    id: "employee-1",
+    firstName: "Sipho",
+    lastName: "Dlamini",
+    email: "sipho@example.com",
+    role: "employee",
+    department: "roads",
+    status: "active",
+    createdAt: "2026-01-01T08:00:00.000Z",
+    ...overrides,
+  };
+}